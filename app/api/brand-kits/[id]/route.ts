@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminAuthError } from "@/lib/admin"
+import { deleteBrandKit, describeBrandKit, loadBrandKit, saveBrandKit } from "@/lib/video/brand-kits"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const kit = loadBrandKit(id)
+  if (!kit) {
+    return NextResponse.json({ error: "Brand kit not found" }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, kit: describeBrandKit(kit) })
+}
+
+// Changes the fields present in the body; the id stays the same
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = adminAuthError(request)
+  if (denied) return denied
+  const { id } = await params
+  const existing = loadBrandKit(id)
+  if (!existing) {
+    return NextResponse.json({ error: "Brand kit not found" }, { status: 404 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Send the changes as a JSON object" }, { status: 400 })
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Send the changes as a JSON object" }, { status: 400 })
+  }
+
+  try {
+    const kit = saveBrandKit(body, existing)
+    return NextResponse.json({ success: true, kit: describeBrandKit(kit) })
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid brand kit" }, { status: 400 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = adminAuthError(request)
+  if (denied) return denied
+  const { id } = await params
+  if (!deleteBrandKit(id)) {
+    return NextResponse.json({ error: "Brand kit not found" }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, deleted: id })
+}
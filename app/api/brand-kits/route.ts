@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminAuthError } from "@/lib/admin"
+import {
+  BRAND_KIT_FIELDS,
+  BRAND_KIT_LIMITS,
+  describeBrandKit,
+  listBrandKits,
+  saveBrandKit,
+} from "@/lib/video/brand-kits"
+
+export async function GET() {
+  const kits = listBrandKits()
+  return NextResponse.json({
+    success: true,
+    kits: kits.map(describeBrandKit),
+    totalCount: kits.length,
+    fields: BRAND_KIT_FIELDS,
+    limits: BRAND_KIT_LIMITS,
+    usage: {
+      create: "POST /api/brand-kits with a JSON body of the fields above",
+      update: "PATCH /api/brand-kits/:id with the fields to change; null removes the logo, fonts or a clip",
+      delete: "DELETE /api/brand-kits/:id",
+      apply: 'Send "brand_kit": "<id>" to /api/create-video, /api/video-from-url or /api/create-instagram-short',
+      auth: "Changes need ADMIN_TOKEN as 'Authorization: Bearer <token>'; they are refused until it is set",
+    },
+  })
+}
+
+export async function POST(request: NextRequest) {
+  const denied = adminAuthError(request)
+  if (denied) return denied
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Send the kit as a JSON object" }, { status: 400 })
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Send the kit as a JSON object" }, { status: 400 })
+  }
+
+  let kit
+  try {
+    kit = saveBrandKit(body, null)
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid brand kit" }, { status: 400 })
+  }
+  return NextResponse.json(
+    { success: true, kit: describeBrandKit(kit) },
+    { status: 201, headers: { Location: `/api/brand-kits/${kit.id}` } },
+  )
+}
@@ -82,8 +82,8 @@ export async function POST(request: NextRequest) {
     }
 
     console.log("Step 3: Creating Instagram Short video...")
-    // Step 3: Create Instagram Short
-    const videoResponse = await fetch(`${getBaseUrl(request)}/api/create-instagram-short`, {
+    // Step 3: Create Instagram Short; ?wait=1 returns the rendered file instead of a job id
+    const videoResponse = await fetch(`${getBaseUrl(request)}/api/create-instagram-short?wait=1`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -1,4 +1,20 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { submitJob } from "@/lib/jobs/response"
+import {
+  BRAND_KIT_RENDER_FIELDS,
+  brandClips,
+  brandClipsDuration,
+  brandOverlayDefaults,
+  brandWatermark,
+  readBrandKit,
+  withBrandDefaults,
+} from "@/lib/video/brand-kits"
+import { CAPTION_FIELDS, readCaptionOptions } from "@/lib/video/captions"
+import { FILL_MODES, FRAMING_FIELDS, readFramingOptions } from "@/lib/video/framing"
+import { MOTION_FIELDS, readMotion, styleMotion } from "@/lib/video/motion"
+import { MUSIC_FIELDS, readMusicOptions } from "@/lib/video/music"
+import { listOverlayFonts, OVERLAY_FIELDS, readOverlays } from "@/lib/video/overlays"
+import { checkPresetDuration, getOutputPreset, OUTPUT_PRESET_IDS, readOutputPreset } from "@/lib/video/presets"
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,35 +26,55 @@ export async function POST(request: NextRequest) {
       voice_assignments = {},
       duration = 15,
       style = "story",
-      background_music = false,
     } = body
 
     if (!image_base64 || !prompt) {
       return NextResponse.json({ error: "Image and prompt are required" }, { status: 400 })
     }
 
+    // Instagram Shorts: 5-60 seconds
+    const length = Math.max(5, Math.min(60, Number(duration) || 15))
+
+    let captions
+    let music
+    let preset
+    let framing
+    let motion
+    let overlays
+    let clips
+    try {
+      const kit = readBrandKit(body)
+      const fields = withBrandDefaults(body, kit)
+      clips = brandClips(kit)
+      preset = readOutputPreset(fields, "vertical-1080p")
+      checkPresetDuration(preset, length + brandClipsDuration(clips))
+      const frame = getOutputPreset(preset)
+      captions = readCaptionOptions(fields, frame)
+      music = readMusicOptions(fields, String(style))
+      framing = readFramingOptions(fields)
+      motion = readMotion(fields.motion, "motion", styleMotion(String(style)))
+      // The watermark goes over the request's own layers
+      overlays = [...readOverlays(fields, frame, brandOverlayDefaults(kit)), ...brandWatermark(kit, frame)]
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid options" }, { status: 400 })
+    }
+
     console.log("Creating Instagram Short with characters:", characters.length)
 
-    // Create Instagram Short video
-    const shortVideo = await createInstagramShort({
+    return await submitJob(request, "instagram-short", {
       image_base64,
       prompt,
       characters,
       voice_assignments,
-      duration: Math.max(5, Math.min(60, duration)), // Instagram Shorts: 5-60 seconds
+      duration: length,
       style,
-      background_music,
-    })
-
-    return new NextResponse(shortVideo, {
-      status: 200,
-      headers: {
-        "Content-Type": "video/mp4",
-        "Content-Disposition": 'attachment; filename="instagram-short.mp4"',
-        "Content-Length": shortVideo.length.toString(),
-        "X-Video-Type": "Instagram Short",
-        "X-Characters": characters.length.toString(),
-      },
+      motion,
+      background_music: music,
+      captions,
+      overlays,
+      brandClips: clips,
+      preset,
+      framing,
     })
   } catch (error) {
     console.error("Instagram Short creation error:", error)
@@ -52,507 +88,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function createInstagramShort(options: any): Promise<Buffer> {
-  const { image_base64, prompt, characters, voice_assignments, duration, style } = options
-
-  try {
-    // Try FFmpeg for professional Instagram Short creation
-    return await createInstagramShortWithFFmpeg(options)
-  } catch (ffmpegError) {
-    console.log("FFmpeg not available, creating manual Instagram Short...")
-    return await createManualInstagramShort(options)
-  }
-}
-
-async function createInstagramShortWithFFmpeg(options: any): Promise<Buffer> {
-  const { spawn } = require("child_process")
-  const { writeFileSync, readFileSync, unlinkSync, existsSync } = require("fs")
-  const { join } = require("path")
-
-  return new Promise(async (resolve, reject) => {
-    const tempDir = "/tmp"
-    const imageFile = join(tempDir, `ig-image-${Date.now()}.jpg`)
-    const audioFiles: string[] = []
-    const videoFile = join(tempDir, `ig-short-${Date.now()}.mp4`)
-
-    try {
-      // Save image
-      const imageBuffer = Buffer.from(options.image_base64, "base64")
-      writeFileSync(imageFile, imageBuffer)
-
-      // Generate character voices
-      const audioSegments = await generateCharacterVoices(options.prompt, options.characters, options.voice_assignments)
-
-      // Save audio segments
-      for (let i = 0; i < audioSegments.length; i++) {
-        const audioFile = join(tempDir, `ig-audio-${Date.now()}-${i}.mp3`)
-        writeFileSync(audioFile, audioSegments[i])
-        audioFiles.push(audioFile)
-      }
-
-      // Create Instagram Short with FFmpeg (9:16 aspect ratio)
-      const ffmpegArgs = ["-loop", "1", "-i", imageFile]
-
-      // Add audio inputs
-      audioFiles.forEach((audioFile) => {
-        ffmpegArgs.push("-i", audioFile)
-      })
-
-      // Instagram Short specifications
-      ffmpegArgs.push(
-        "-c:v",
-        "libx264",
-        "-profile:v",
-        "main",
-        "-level",
-        "4.0",
-        "-pix_fmt",
-        "yuv420p",
-        "-crf",
-        "23",
-        "-preset",
-        "medium",
-        "-movflags",
-        "+faststart",
-        "-t",
-        options.duration.toString(),
-        "-r",
-        "30",
-        // Instagram Short format: 9:16 aspect ratio, 1080x1920
-        "-vf",
-        `scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2:black,${getInstagramAnimation(options.style)}`,
-      )
-
-      // Audio mixing for multiple characters
-      if (audioFiles.length > 1) {
-        const audioFilter = audioFiles.map((_, i) => `[${i + 1}:a]`).join("")
-        ffmpegArgs.push(
-          "-filter_complex",
-          `${audioFilter}concat=n=${audioFiles.length}:v=0:a=1[outa]`,
-          "-map",
-          "0:v",
-          "-map",
-          "[outa]",
-        )
-      } else if (audioFiles.length === 1) {
-        ffmpegArgs.push("-c:a", "aac", "-b:a", "128k", "-ar", "44100", "-ac", "2")
-      }
-
-      ffmpegArgs.push("-y", videoFile)
-
-      console.log("Creating Instagram Short with FFmpeg...")
-
-      const ffmpeg = spawn("ffmpeg", ffmpegArgs)
-
-      let stderr = ""
-      ffmpeg.stderr.on("data", (data) => {
-        stderr += data.toString()
-      })
-
-      ffmpeg.on("close", (code) => {
-        try {
-          if (code === 0 && existsSync(videoFile)) {
-            const videoBuffer = readFileSync(videoFile)
-            console.log("Instagram Short created:", videoBuffer.length, "bytes")
-
-            // Clean up
-            try {
-              unlinkSync(imageFile)
-              audioFiles.forEach((file) => unlinkSync(file))
-              unlinkSync(videoFile)
-            } catch {}
-
-            resolve(videoBuffer)
-          } else {
-            console.error("FFmpeg failed:", stderr)
-            reject(new Error(`FFmpeg failed: ${stderr}`))
-          }
-        } catch (error) {
-          reject(error)
-        }
-      })
-
-      ffmpeg.on("error", (error) => {
-        reject(error)
-      })
-    } catch (error) {
-      reject(error)
-    }
-  })
-}
-
-function getInstagramAnimation(style: string): string {
-  switch (style.toLowerCase()) {
-    case "story":
-      return "zoompan=z='min(zoom+0.0008,1.1)':d=25*15:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)',fade=in:0:15"
-    case "dramatic":
-      return "zoompan=z='if(lte(zoom,1.0),1.5,max(1.001,zoom-0.0015))':d=25*15:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)'"
-    case "energetic":
-      return "zoompan=z='min(zoom+0.002,1.3)':d=25*15:x='if(gte(on,1),x+3,iw/2-(iw/zoom/2))':y='ih/2-(ih/zoom/2)'"
-    case "introduction":
-      return "fade=in:0:30,zoompan=z='1':d=25*15:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)'"
-    default:
-      return "zoompan=z='min(zoom+0.001,1.2)':d=25*15:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)'"
-  }
-}
-
-async function generateCharacterVoices(prompt: string, characters: any[], voice_assignments: any): Promise<Buffer[]> {
-  const audioSegments: Buffer[] = []
-
-  // Split prompt into character dialogues
-  const dialogues = splitPromptIntoDialogues(prompt, characters)
-
-  for (const dialogue of dialogues) {
-    try {
-      const character = characters.find((c) => c.id === dialogue.character_id)
-      const voiceSettings = voice_assignments[dialogue.character_id]
-
-      if (character && voiceSettings) {
-        console.log(`Generating voice for ${character.name}: "${dialogue.text}"`)
-
-        const ttsResponse = await fetch("http://localhost:3000/api/tts-gtts", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            text: dialogue.text,
-            voice: voiceSettings.voice,
-            speed: voiceSettings.speed || 1.0,
-          }),
-        })
-
-        if (ttsResponse.ok) {
-          const audioBuffer = await ttsResponse.arrayBuffer()
-          audioSegments.push(Buffer.from(audioBuffer))
-        }
-      }
-    } catch (error) {
-      console.error("Voice generation failed for dialogue:", dialogue.text)
-    }
-  }
-
-  return audioSegments
-}
-
-function splitPromptIntoDialogues(prompt: string, characters: any[]): any[] {
-  const dialogues = []
-
-  // Simple dialogue splitting - in production, use more sophisticated NLP
-  const sentences = prompt.split(/[.!?]+/).filter((s) => s.trim().length > 0)
-
-  // If we have a narrator, they handle most of the content
-  const narrator = characters.find((c) => c.type === "narrator")
-
-  if (narrator) {
-    // Narrator handles the main story
-    const mainStory = sentences.slice(0, Math.ceil(sentences.length * 0.7)).join(". ")
-    dialogues.push({
-      character_id: narrator.id,
-      text: mainStory + ".",
-      timing: 0,
-    })
-
-    // Other characters get remaining dialogues
-    const remainingSentences = sentences.slice(Math.ceil(sentences.length * 0.7))
-    const otherCharacters = characters.filter((c) => c.type !== "narrator")
-
-    remainingSentences.forEach((sentence, index) => {
-      if (otherCharacters.length > 0) {
-        const character = otherCharacters[index % otherCharacters.length]
-        dialogues.push({
-          character_id: character.id,
-          text: sentence.trim() + ".",
-          timing: index + 1,
-        })
-      }
-    })
-  } else {
-    // Distribute sentences among all characters
-    sentences.forEach((sentence, index) => {
-      const character = characters[index % characters.length]
-      dialogues.push({
-        character_id: character.id,
-        text: sentence.trim() + ".",
-        timing: index,
-      })
-    })
-  }
-
-  return dialogues
-}
-
-async function createManualInstagramShort(options: any): Promise<Buffer> {
-  // Create a basic Instagram Short format video (9:16 aspect ratio)
-  const imageBuffer = Buffer.from(options.image_base64, "base64")
-
-  // Create Instagram Short MP4 structure
-  const instagramShort = createInstagramShortStructure(imageBuffer, options)
-
-  return instagramShort
-}
-
-function createInstagramShortStructure(imageBuffer: Buffer, options: any): Buffer {
-  const duration = options.duration
-  const timescale = 1000
-  const durationUnits = duration * timescale
-
-  // Instagram Short dimensions: 1080x1920 (9:16)
-  const width = 1080
-  const height = 1920
-
-  const headerSize = 2048
-  const videoDataSize = Math.max(imageBuffer.length * 3, 100000)
-  const totalSize = headerSize + videoDataSize
-
-  const buffer = Buffer.alloc(totalSize)
-  let pos = 0
-
-  // ftyp box for Instagram compatibility
-  pos = writeInstagramFtypBox(buffer, pos)
-
-  // moov box with Instagram Short metadata
-  pos = writeInstagramMoovBox(buffer, pos, durationUnits, timescale, width, height)
-
-  // mdat box with video data
-  pos = writeInstagramMdatBox(buffer, pos, imageBuffer, options)
-
-  return buffer.subarray(0, pos)
-}
-
-function writeInstagramFtypBox(buffer: Buffer, pos: number): number {
-  const ftypSize = 32
-
-  buffer.writeUInt32BE(ftypSize, pos)
-  pos += 4
-  buffer.write("ftyp", pos)
-  pos += 4
-  buffer.write("mp42", pos) // Instagram compatible
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.write("mp42", pos)
-  pos += 4
-  buffer.write("mp41", pos)
-  pos += 4
-  buffer.write("isom", pos)
-  pos += 4
-  buffer.write("avc1", pos)
-  pos += 4
-
-  return pos
-}
-
-function writeInstagramMoovBox(
-  buffer: Buffer,
-  pos: number,
-  duration: number,
-  timescale: number,
-  width: number,
-  height: number,
-): number {
-  const moovStart = pos
-  pos += 4
-  buffer.write("moov", pos)
-  pos += 4
-
-  // Movie header for Instagram Short
-  pos = writeInstagramMvhdBox(buffer, pos, duration, timescale)
-  pos = writeInstagramTrakBox(buffer, pos, duration, timescale, width, height)
-
-  const moovSize = pos - moovStart
-  buffer.writeUInt32BE(moovSize, moovStart)
-
-  return pos
-}
-
-function writeInstagramMvhdBox(buffer: Buffer, pos: number, duration: number, timescale: number): number {
-  const mvhdSize = 108
-
-  buffer.writeUInt32BE(mvhdSize, pos)
-  pos += 4
-  buffer.write("mvhd", pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(timescale, pos)
-  pos += 4
-  buffer.writeUInt32BE(duration, pos)
-  pos += 4
-  buffer.writeUInt32BE(0x00010000, pos)
-  pos += 4
-  buffer.writeUInt16BE(0x0100, pos)
-  pos += 2
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Identity matrix
-  const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
-  for (const value of matrix) {
-    buffer.writeUInt32BE(value, pos)
-    pos += 4
-  }
-
-  for (let i = 0; i < 6; i++) {
-    buffer.writeUInt32BE(0, pos)
-    pos += 4
-  }
-
-  buffer.writeUInt32BE(2, pos)
-  pos += 4
-
-  return pos
-}
-
-function writeInstagramTrakBox(
-  buffer: Buffer,
-  pos: number,
-  duration: number,
-  timescale: number,
-  width: number,
-  height: number,
-): number {
-  const trakStart = pos
-  pos += 4
-  buffer.write("trak", pos)
-  pos += 4
-
-  // Track header with Instagram Short dimensions
-  pos = writeInstagramTkhdBox(buffer, pos, duration, timescale, width, height)
-
-  const trakSize = pos - trakStart
-  buffer.writeUInt32BE(trakSize, trakStart)
-
-  return pos
-}
-
-function writeInstagramTkhdBox(
-  buffer: Buffer,
-  pos: number,
-  duration: number,
-  timescale: number,
-  width: number,
-  height: number,
-): number {
-  const tkhdSize = 92
-
-  buffer.writeUInt32BE(tkhdSize, pos)
-  pos += 4
-  buffer.write("tkhd", pos)
-  pos += 4
-  buffer.writeUInt32BE(0x00000007, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(duration, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  // Identity matrix
-  const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
-  for (const value of matrix) {
-    buffer.writeUInt32BE(value, pos)
-    pos += 4
-  }
-
-  // Instagram Short dimensions: 1080x1920
-  buffer.writeUInt32BE(width << 16, pos)
-  pos += 4
-  buffer.writeUInt32BE(height << 16, pos)
-  pos += 4
-
-  return pos
-}
-
-function writeInstagramMdatBox(buffer: Buffer, pos: number, imageBuffer: Buffer, options: any): number {
-  const mdatStart = pos
-  pos += 4
-  buffer.write("mdat", pos)
-  pos += 4
-
-  // Add image data optimized for Instagram Short
-  imageBuffer.copy(buffer, pos)
-  pos += imageBuffer.length
-
-  // Add character-based variations
-  const frames = Math.floor(options.duration * 30)
-  for (let i = 0; i < frames && pos + 100 < buffer.length; i++) {
-    // Create frame variations based on characters
-    const frameData = createCharacterFrame(imageBuffer, i, frames, options.characters)
-    frameData.copy(buffer, pos, 0, Math.min(frameData.length, buffer.length - pos))
-    pos += Math.min(frameData.length, 50)
-  }
-
-  const mdatSize = pos - mdatStart
-  buffer.writeUInt32BE(mdatSize, mdatStart)
-
-  return pos
-}
-
-function createCharacterFrame(imageBuffer: Buffer, frameIndex: number, totalFrames: number, characters: any[]): Buffer {
-  const frameBuffer = Buffer.alloc(Math.min(imageBuffer.length, 1000))
-  const progress = frameIndex / totalFrames
-
-  // Apply character-based effects
-  for (let i = 0; i < frameBuffer.length; i++) {
-    let pixelValue = imageBuffer[i % imageBuffer.length]
-
-    // Modify based on active character
-    const activeCharacterIndex = Math.floor(progress * characters.length)
-    const activeCharacter = characters[activeCharacterIndex]
-
-    if (activeCharacter) {
-      switch (activeCharacter.type) {
-        case "hero":
-          pixelValue = Math.min(255, pixelValue * 1.1) // Brighter
-          break
-        case "villain":
-          pixelValue = Math.max(0, pixelValue * 0.8) // Darker
-          break
-        case "child":
-          pixelValue = Math.min(255, pixelValue + Math.sin(frameIndex * 0.1) * 20) // Playful variation
-          break
-        default:
-          pixelValue = pixelValue // No change
-      }
-    }
-
-    frameBuffer[i] = Math.floor(pixelValue)
-  }
-
-  return frameBuffer
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "Instagram Shorts Creator API",
     description: "Creates Instagram Shorts with character voices from image analysis",
 
     format: {
-      aspect_ratio: "9:16 (1080x1920)",
+      aspect_ratio: "9:16 (1080x1920) by default; `preset` picks another platform profile",
+      presets: OUTPUT_PRESET_IDS,
       duration: "5-60 seconds",
       format: "MP4 H.264/AAC",
       optimized_for: "Instagram Shorts, TikTok, YouTube Shorts",
@@ -565,13 +108,67 @@ export async function GET() {
       "Multiple character voices",
       "Automatic scene analysis",
       "Professional video encoding",
+      "Background music with voice ducking",
+      "Blurred-background, color, gradient or smart-crop framing",
+      "Titles, lower-thirds, calls to action and logo overlays",
+      "Brand kits with watermark, fonts, colors, intro and outro",
     ],
 
+    captions: {
+      description: "Most Shorts are watched muted: burn in word-by-word captions from the character lines",
+      fields: CAPTION_FIELDS,
+      example: { captions: "burn", caption_color: "white", caption_highlight_color: "#ffd400", caption_file: "srt" },
+    },
+
+    motion: {
+      description: "Camera motion: defaults to the style's preset; send a preset name or keyframes to override it",
+      fields: MOTION_FIELDS,
+      example: { keyframes: [{ time: 0, zoom: 1.4, y: 0.3 }, { time: 10, zoom: 1, easing: "ease-out" }], fade_in: 0.5 },
+    },
+
+    framing: {
+      description: "Landscape photos fill the 9:16 frame instead of sitting between black bars",
+      modes: FILL_MODES,
+      fields: FRAMING_FIELDS,
+      example: { fill: "crop", focal_point: "0.3,0.4" },
+    },
+
+    overlays: {
+      description: "Timed text and image layers drawn under the captions",
+      fields: OVERLAY_FIELDS,
+      fonts: listOverlayFonts(),
+      example: [
+        { template: "title", text: "The Brave Knight", animation_in: "slide-down" },
+        { template: "cta", text: "Part 2 tomorrow!", box_color: "#ff2d92" },
+      ],
+    },
+
+    brand_kit: {
+      description: "Apply a saved brand kit; the intro and outro count towards the preset's duration limit",
+      fields: BRAND_KIT_RENDER_FIELDS,
+      manage: "GET, POST /api/brand-kits; GET, PATCH, DELETE /api/brand-kits/:id",
+      example: { brand_kit: "acme", overlays: [{ template: "cta", text: "Shop now" }] },
+    },
+
+    music: {
+      description: "A looped, faded music bed that ducks under the character voices",
+      tracks: "GET /api/music",
+      fields: MUSIC_FIELDS,
+      example: { background_music: "calm", music_volume: 0.3, music_fade_out: 3 },
+    },
+
+    jobs: {
+      submit: "POST returns 202 with a job; poll job.status_url, then download job.result_url",
+      wait: "POST ?wait=1 holds the request until the render finishes and returns the MP4",
+      cancel: "DELETE /api/jobs/:id",
+    },
+
     usage: {
       simple:
-        'curl -X POST -H "Content-Type: application/json" -d \'{"image_base64":"...","prompt":"Create a story about a brave knight"}\' --output short.mp4 /api/create-instagram-short',
+        'curl -X POST -H "Content-Type: application/json" -d \'{"image_base64":"...","prompt":"Create a story about a brave knight"}\' /api/create-instagram-short',
       with_characters:
-        'curl -X POST -H "Content-Type: application/json" -d \'{"image_base64":"...","prompt":"Princess meets dragon","characters":[...],"voice_assignments":{...}}\' --output story-short.mp4 /api/create-instagram-short',
+        'curl -X POST -H "Content-Type: application/json" -d \'{"image_base64":"...","prompt":"Princess meets dragon","characters":[...],"voice_assignments":{...}}\' /api/create-instagram-short',
+      download: "curl --output short.mp4 /api/jobs/<job_id>/result",
     },
   })
 }
@@ -1,4 +1,46 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { submitJob } from "@/lib/jobs/response"
+import {
+  BRAND_KIT_RENDER_FIELDS,
+  brandClips,
+  brandClipsDuration,
+  brandOverlayDefaults,
+  brandWatermark,
+  readBrandKit,
+  withBrandDefaults,
+} from "@/lib/video/brand-kits"
+import { CAPTION_FIELDS, readCaptionOptions } from "@/lib/video/captions"
+import { FILL_MODES, FRAMING_FIELDS, readFramingOptions } from "@/lib/video/framing"
+import { MOTION_FIELDS, MOTION_PRESET_NAMES, readMotion } from "@/lib/video/motion"
+import { listOverlayFonts, OVERLAY_FIELDS, readOverlays } from "@/lib/video/overlays"
+import { checkPresetDuration, getOutputPreset, OUTPUT_PRESET_IDS, readOutputPreset } from "@/lib/video/presets"
+import { readSlideshowOptions, SLIDE_TRANSITIONS, SLIDESHOW_LIMITS } from "@/lib/video/slideshow"
+
+const invalidOptions = (error: unknown) =>
+  NextResponse.json({ error: error instanceof Error ? error.message : "Invalid options" }, { status: 400 })
+
+// Several images, or a `slides` list, switch create-video into slideshow mode
+async function submitSlideshow(request: NextRequest, body: Record<string, unknown>, images: Buffer[]) {
+  let input
+  try {
+    const kit = readBrandKit(body)
+    const fields = withBrandDefaults(body, kit)
+    const preset = readOutputPreset(fields, "hd-720p")
+    const frame = getOutputPreset(preset)
+    input = {
+      ...readSlideshowOptions(fields, images),
+      captions: readCaptionOptions(fields, frame),
+      // The watermark goes over the request's own layers
+      overlays: [...readOverlays(fields, frame, brandOverlayDefaults(kit)), ...brandWatermark(kit, frame)],
+      brandClips: brandClips(kit),
+      preset,
+    }
+  } catch (error) {
+    return invalidOptions(error)
+  }
+  console.log(`Creating slideshow with ${images.length} slides...`)
+  return await submitJob(request, "slideshow", input)
+}
 
 export async function POST(request: NextRequest) {
   console.log("=== CREATE REAL MP4 VIDEO ===")
@@ -9,17 +51,30 @@ export async function POST(request: NextRequest) {
     let text = ""
     let voice = "en"
     let duration = 5
-    let animation = "fade"
     let filename = "video"
+    // Every string field, for the caption options
+    let fields: Record<string, unknown>
 
     if (rawType.startsWith("application/json")) {
       const body = await request.json()
+      fields = body
+      // JSON slideshows: `slides` holds base64 strings or { image_base64, duration, caption, motion, narration }
+      if (Array.isArray(body.slides)) {
+        const slides: Array<Record<string, unknown>> = body.slides.map((slide: unknown) =>
+          typeof slide === "string" ? { image_base64: slide } : slide && typeof slide === "object" ? slide : {},
+        )
+        if (slides.some((slide) => typeof slide.image_base64 !== "string" || !slide.image_base64)) {
+          return NextResponse.json({ error: "Every slide needs an image_base64" }, { status: 400 })
+        }
+        const images = slides.map((slide) => Buffer.from(slide.image_base64 as string, "base64"))
+        return await submitSlideshow(request, { ...body, slides }, images)
+      }
+
       const {
         image_base64,
         text: textParam = "",
         voice: voiceParam = "en",
         duration: durationParam = 5,
-        animation: animationParam = "fade",
         filename: filenameParam = "video",
       } = body
 
@@ -31,51 +86,80 @@ export async function POST(request: NextRequest) {
       text = textParam
       voice = voiceParam
       duration = Number(durationParam)
-      animation = animationParam
       filename = filenameParam
     } else {
       const formData = await request.formData()
-      const imageFile = formData.get("image") as File | null
+      const imageFiles = formData.getAll("image").filter((value): value is File => typeof value !== "string")
+      const imageFile = imageFiles[0]
 
       if (!imageFile) {
         return NextResponse.json({ error: "No image file provided" }, { status: 400 })
       }
 
+      // Multipart slideshows: repeated `image` parts in order, per-slide settings as a JSON `slides` field
+      const slidesField = formData.get("slides")
+      if (imageFiles.length > 1 || typeof slidesField === "string") {
+        const body: Record<string, unknown> = Object.fromEntries(
+          [...formData.entries()].filter(([, value]) => typeof value === "string"),
+        )
+        if (typeof slidesField === "string" && slidesField.trim()) {
+          try {
+            body.slides = JSON.parse(slidesField)
+          } catch {
+            return NextResponse.json({ error: "slides must be a JSON array" }, { status: 400 })
+          }
+        }
+        body.filename ??= imageFile.name.split(".")[0] || "slideshow"
+        const images = await Promise.all(imageFiles.map(async (file) => Buffer.from(await file.arrayBuffer())))
+        return await submitSlideshow(request, body, images)
+      }
+
       const arrayBuffer = await imageFile.arrayBuffer()
       imageBuffer = Buffer.from(arrayBuffer)
+      fields = Object.fromEntries([...formData.entries()].filter(([, value]) => typeof value === "string"))
 
       text = (formData.get("text") as string) ?? ""
       voice = (formData.get("voice") as string) ?? "en"
       duration = Number((formData.get("duration") as string) ?? "5")
-      animation = (formData.get("animation") as string) ?? "fade"
       filename = (formData.get("filename") as string) ?? imageFile.name.split(".")[0] ?? "video"
     }
 
     duration = Math.max(1, Math.min(30, duration))
 
-    console.log("Creating Windows-compatible MP4...")
+    let captions
+    let preset
+    let framing
+    let motion
+    let overlays
+    let clips
+    try {
+      const kit = readBrandKit(fields)
+      fields = withBrandDefaults(fields, kit)
+      clips = brandClips(kit)
+      preset = readOutputPreset(fields, "hd-720p")
+      checkPresetDuration(preset, duration + brandClipsDuration(clips))
+      const frame = getOutputPreset(preset)
+      captions = readCaptionOptions(fields, frame)
+      framing = readFramingOptions(fields)
+      // `animation` is a motion preset name or keyframes
+      motion = readMotion(fields.animation, "animation", "fade")
+      overlays = [...readOverlays(fields, frame, brandOverlayDefaults(kit)), ...brandWatermark(kit, frame)]
+    } catch (error) {
+      return invalidOptions(error)
+    }
 
-    // Generate Windows Media Player compatible MP4
-    const videoBuffer = await createWindowsCompatibleMP4(imageBuffer, {
+    return await submitJob(request, "video", {
+      image: imageBuffer,
       text,
       voice,
       duration,
-      animation,
+      motion,
       filename,
-    })
-
-    console.log("Windows-compatible MP4 generated, size:", videoBuffer.length, "bytes")
-
-    return new NextResponse(videoBuffer, {
-      status: 200,
-      headers: {
-        "Content-Type": "video/mp4",
-        "Content-Disposition": `attachment; filename="${filename}.mp4"`,
-        "Content-Length": videoBuffer.length.toString(),
-        "Cache-Control": "no-cache",
-        "X-Video-Codec": "H.264/AVC",
-        "X-Audio-Codec": "AAC",
-      },
+      captions,
+      overlays,
+      brandClips: clips,
+      preset,
+      framing,
     })
   } catch (error) {
     console.error("=== MP4 CREATION ERROR ===")
@@ -92,918 +176,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function createWindowsCompatibleMP4(imageBuffer: Buffer, options: any): Promise<Buffer> {
-  console.log("Creating Windows Media Player compatible MP4...")
-
-  try {
-    // Try FFmpeg with Windows-specific settings
-    return await createFFmpegWindowsMP4(imageBuffer, options)
-  } catch (ffmpegError) {
-    console.log("FFmpeg failed, creating manual Windows-compatible MP4...")
-    return await createManualWindowsMP4(imageBuffer, options)
-  }
-}
-
-async function createFFmpegWindowsMP4(imageBuffer: Buffer, options: any): Promise<Buffer> {
-  const { spawn } = require("child_process")
-  const { writeFileSync, readFileSync, unlinkSync, existsSync } = require("fs")
-  const { join } = require("path")
-
-  return new Promise(async (resolve, reject) => {
-    const tempDir = "/tmp"
-    const imageFile = join(tempDir, `input-${Date.now()}.jpg`)
-    const audioFile = join(tempDir, `audio-${Date.now()}.wav`)
-    const videoFile = join(tempDir, `output-${Date.now()}.mp4`)
-
-    try {
-      // Save image
-      writeFileSync(imageFile, imageBuffer)
-
-      // Generate audio if needed
-      let hasAudio = false
-      if (options.text && options.text.trim()) {
-        try {
-          const ttsResponse = await fetch("http://localhost:3000/api/tts-gtts", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ text: options.text, voice: options.voice }),
-          })
-
-          if (ttsResponse.ok) {
-            const audioBuffer = await ttsResponse.arrayBuffer()
-            writeFileSync(audioFile, Buffer.from(audioBuffer))
-            hasAudio = true
-          }
-        } catch (error) {
-          console.log("TTS failed, creating silent video")
-        }
-      }
-
-      // Windows Media Player compatible FFmpeg command
-      const ffmpegArgs = ["-loop", "1", "-i", imageFile]
-
-      if (hasAudio) {
-        ffmpegArgs.push("-i", audioFile)
-      }
-
-      // Windows-specific codec settings
-      ffmpegArgs.push(
-        "-c:v",
-        "libx264", // H.264 codec
-        "-profile:v",
-        "baseline", // Baseline profile for compatibility
-        "-level",
-        "3.0", // Level 3.0 for wide compatibility
-        "-pix_fmt",
-        "yuv420p", // YUV 4:2:0 pixel format
-        "-crf",
-        "23", // Constant rate factor for quality
-        "-preset",
-        "medium", // Encoding preset
-        "-movflags",
-        "+faststart", // Move metadata to beginning
-        "-t",
-        options.duration.toString(),
-        "-r",
-        "30", // 30 fps
-        "-vf",
-        `scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2:black,${getWindowsAnimation(options.animation)}`,
-      )
-
-      if (hasAudio) {
-        ffmpegArgs.push(
-          "-c:a",
-          "aac", // AAC audio codec
-          "-b:a",
-          "128k", // Audio bitrate
-          "-ar",
-          "44100", // Sample rate
-          "-ac",
-          "2", // Stereo
-          "-shortest", // Match shortest stream
-        )
-      } else {
-        // Add silent audio track for compatibility
-        ffmpegArgs.push(
-          "-f",
-          "lavfi",
-          "-i",
-          "anullsrc=channel_layout=stereo:sample_rate=44100",
-          "-c:a",
-          "aac",
-          "-b:a",
-          "128k",
-          "-shortest",
-        )
-      }
-
-      ffmpegArgs.push("-y", videoFile)
-
-      console.log("FFmpeg command for Windows compatibility:", ffmpegArgs.join(" "))
-
-      const ffmpeg = spawn("ffmpeg", ffmpegArgs)
-
-      let stderr = ""
-      ffmpeg.stderr.on("data", (data) => {
-        stderr += data.toString()
-      })
-
-      ffmpeg.on("close", (code) => {
-        try {
-          if (code === 0 && existsSync(videoFile)) {
-            const videoBuffer = readFileSync(videoFile)
-            console.log("Windows-compatible MP4 created:", videoBuffer.length, "bytes")
-
-            // Clean up
-            try {
-              unlinkSync(imageFile)
-              if (hasAudio) unlinkSync(audioFile)
-              unlinkSync(videoFile)
-            } catch {}
-
-            resolve(videoBuffer)
-          } else {
-            console.error("FFmpeg failed:", stderr)
-            reject(new Error(`FFmpeg failed: ${stderr}`))
-          }
-        } catch (error) {
-          reject(error)
-        }
-      })
-
-      ffmpeg.on("error", (error) => {
-        reject(error)
-      })
-    } catch (error) {
-      reject(error)
-    }
-  })
-}
-
-function getWindowsAnimation(animation: string): string {
-  switch (animation.toLowerCase()) {
-    case "zoom":
-      return "zoompan=z='min(zoom+0.001,1.2)':d=25*5:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)'"
-    case "pan":
-      return "zoompan=z='1':d=25*5:x='if(gte(on,1),x+1,0)':y='0'"
-    case "fade":
-      return "fade=in:0:15,fade=out:st=5:d=1"
-    case "slide":
-      return "zoompan=z='1':d=25*5:x='iw-iw/zoom/2':y='0'"
-    default:
-      return "scale=1280:720"
-  }
-}
-
-async function createManualWindowsMP4(imageBuffer: Buffer, options: any): Promise<Buffer> {
-  console.log("Creating manual Windows-compatible MP4...")
-
-  // Create a proper MP4 file structure that Windows Media Player can read
-  const mp4Buffer = createProperMP4Structure(imageBuffer, options)
-
-  return mp4Buffer
-}
-
-function createProperMP4Structure(imageBuffer: Buffer, options: any): Buffer {
-  // Create a minimal but valid MP4 file structure
-  const duration = options.duration
-  const timescale = 1000 // 1000 units per second
-  const durationUnits = duration * timescale
-
-  // Calculate sizes
-  const headerSize = 1024
-  const videoDataSize = Math.max(imageBuffer.length * 2, 50000)
-  const totalSize = headerSize + videoDataSize
-
-  const buffer = Buffer.alloc(totalSize)
-  let pos = 0
-
-  // ftyp box (file type)
-  pos = writeFtypBox(buffer, pos)
-
-  // moov box (movie metadata)
-  pos = writeMoovBox(buffer, pos, durationUnits, timescale, 1280, 720)
-
-  // mdat box (media data)
-  pos = writeMdatBox(buffer, pos, imageBuffer, options)
-
-  return buffer.subarray(0, pos)
-}
-
-function writeFtypBox(buffer: Buffer, pos: number): number {
-  const ftypSize = 32
-
-  // Box size
-  buffer.writeUInt32BE(ftypSize, pos)
-  pos += 4
-
-  // Box type 'ftyp'
-  buffer.write("ftyp", pos)
-  pos += 4
-
-  // Major brand 'mp42' (MP4 version 2)
-  buffer.write("mp42", pos)
-  pos += 4
-
-  // Minor version
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Compatible brands
-  buffer.write("mp42", pos) // MP4 v2
-  pos += 4
-  buffer.write("mp41", pos) // MP4 v1
-  pos += 4
-  buffer.write("isom", pos) // ISO Base Media
-  pos += 4
-  buffer.write("avc1", pos) // H.264
-  pos += 4
-
-  return pos
-}
-
-function writeMoovBox(
-  buffer: Buffer,
-  pos: number,
-  duration: number,
-  timescale: number,
-  width: number,
-  height: number,
-): number {
-  const moovStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'moov'
-  buffer.write("moov", pos)
-  pos += 4
-
-  // mvhd box (movie header)
-  pos = writeMvhdBox(buffer, pos, duration, timescale)
-
-  // trak box (track)
-  pos = writeTrakBox(buffer, pos, duration, timescale, width, height)
-
-  // Write actual moov box size
-  const moovSize = pos - moovStart
-  buffer.writeUInt32BE(moovSize, moovStart)
-
-  return pos
-}
-
-function writeMvhdBox(buffer: Buffer, pos: number, duration: number, timescale: number): number {
-  const mvhdSize = 108
-
-  // Box size
-  buffer.writeUInt32BE(mvhdSize, pos)
-  pos += 4
-
-  // Box type 'mvhd'
-  buffer.write("mvhd", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Creation time
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Modification time
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Timescale
-  buffer.writeUInt32BE(timescale, pos)
-  pos += 4
-
-  // Duration
-  buffer.writeUInt32BE(duration, pos)
-  pos += 4
-
-  // Rate (1.0)
-  buffer.writeUInt32BE(0x00010000, pos)
-  pos += 4
-
-  // Volume (1.0)
-  buffer.writeUInt16BE(0x0100, pos)
-  pos += 2
-
-  // Reserved
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  // Reserved (2 x 32-bit)
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Matrix (identity matrix)
-  const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
-  for (const value of matrix) {
-    buffer.writeUInt32BE(value, pos)
-    pos += 4
-  }
-
-  // Pre-defined (6 x 32-bit)
-  for (let i = 0; i < 6; i++) {
-    buffer.writeUInt32BE(0, pos)
-    pos += 4
-  }
-
-  // Next track ID
-  buffer.writeUInt32BE(2, pos)
-  pos += 4
-
-  return pos
-}
-
-function writeTrakBox(
-  buffer: Buffer,
-  pos: number,
-  duration: number,
-  timescale: number,
-  width: number,
-  height: number,
-): number {
-  const trakStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'trak'
-  buffer.write("trak", pos)
-  pos += 4
-
-  // tkhd box (track header)
-  pos = writeTkhdBox(buffer, pos, duration, timescale, width, height)
-
-  // mdia box (media)
-  pos = writeMdiaBox(buffer, pos, duration, timescale, width, height)
-
-  // Write actual trak box size
-  const trakSize = pos - trakStart
-  buffer.writeUInt32BE(trakSize, trakStart)
-
-  return pos
-}
-
-function writeTkhdBox(
-  buffer: Buffer,
-  pos: number,
-  duration: number,
-  timescale: number,
-  width: number,
-  height: number,
-): number {
-  const tkhdSize = 92
-
-  // Box size
-  buffer.writeUInt32BE(tkhdSize, pos)
-  pos += 4
-
-  // Box type 'tkhd'
-  buffer.write("tkhd", pos)
-  pos += 4
-
-  // Version and flags (track enabled)
-  buffer.writeUInt32BE(0x00000007, pos)
-  pos += 4
-
-  // Creation time
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Modification time
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Track ID
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // Reserved
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Duration
-  buffer.writeUInt32BE(duration, pos)
-  pos += 4
-
-  // Reserved (2 x 32-bit)
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Layer
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  // Alternate group
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  // Volume
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  // Reserved
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  // Matrix (identity)
-  const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
-  for (const value of matrix) {
-    buffer.writeUInt32BE(value, pos)
-    pos += 4
-  }
-
-  // Width (fixed point)
-  buffer.writeUInt32BE(width << 16, pos)
-  pos += 4
-
-  // Height (fixed point)
-  buffer.writeUInt32BE(height << 16, pos)
-  pos += 4
-
-  return pos
-}
-
-function writeMdiaBox(
-  buffer: Buffer,
-  pos: number,
-  duration: number,
-  timescale: number,
-  width: number,
-  height: number,
-): number {
-  const mdiaStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'mdia'
-  buffer.write("mdia", pos)
-  pos += 4
-
-  // mdhd box (media header)
-  pos = writeMdhdBox(buffer, pos, duration, timescale)
-
-  // hdlr box (handler)
-  pos = writeHdlrBox(buffer, pos)
-
-  // minf box (media information)
-  pos = writeMinfBox(buffer, pos, width, height)
-
-  // Write actual mdia box size
-  const mdiaSize = pos - mdiaStart
-  buffer.writeUInt32BE(mdiaSize, mdiaStart)
-
-  return pos
-}
-
-function writeMdhdBox(buffer: Buffer, pos: number, duration: number, timescale: number): number {
-  const mdhdSize = 32
-
-  // Box size
-  buffer.writeUInt32BE(mdhdSize, pos)
-  pos += 4
-
-  // Box type 'mdhd'
-  buffer.write("mdhd", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Creation time
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Modification time
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Timescale
-  buffer.writeUInt32BE(timescale, pos)
-  pos += 4
-
-  // Duration
-  buffer.writeUInt32BE(duration, pos)
-  pos += 4
-
-  // Language (und = undetermined)
-  buffer.writeUInt16BE(0x55c4, pos)
-  pos += 2
-
-  // Pre-defined
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  return pos
-}
-
-function writeHdlrBox(buffer: Buffer, pos: number): number {
-  const hdlrSize = 33
-
-  // Box size
-  buffer.writeUInt32BE(hdlrSize, pos)
-  pos += 4
-
-  // Box type 'hdlr'
-  buffer.write("hdlr", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Pre-defined
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Handler type 'vide' (video)
-  buffer.write("vide", pos)
-  pos += 4
-
-  // Reserved (3 x 32-bit)
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Name (null-terminated)
-  buffer.writeUInt8(0, pos)
-  pos += 1
-
-  return pos
-}
-
-function writeMinfBox(buffer: Buffer, pos: number, width: number, height: number): number {
-  const minfStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'minf'
-  buffer.write("minf", pos)
-  pos += 4
-
-  // vmhd box (video media header)
-  pos = writeVmhdBox(buffer, pos)
-
-  // dinf box (data information)
-  pos = writeDinfBox(buffer, pos)
-
-  // stbl box (sample table)
-  pos = writeStblBox(buffer, pos, width, height)
-
-  // Write actual minf box size
-  const minfSize = pos - minfStart
-  buffer.writeUInt32BE(minfSize, minfStart)
-
-  return pos
-}
-
-function writeVmhdBox(buffer: Buffer, pos: number): number {
-  const vmhdSize = 20
-
-  // Box size
-  buffer.writeUInt32BE(vmhdSize, pos)
-  pos += 4
-
-  // Box type 'vmhd'
-  buffer.write("vmhd", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0x00000001, pos)
-  pos += 4
-
-  // Graphics mode
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  // Opcolor (3 x 16-bit)
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-  buffer.writeUInt16BE(0, pos)
-  pos += 2
-
-  return pos
-}
-
-function writeDinfBox(buffer: Buffer, pos: number): number {
-  const dinfStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'dinf'
-  buffer.write("dinf", pos)
-  pos += 4
-
-  // dref box (data reference)
-  const drefSize = 28
-  buffer.writeUInt32BE(drefSize, pos)
-  pos += 4
-  buffer.write("dref", pos)
-  pos += 4
-  buffer.writeUInt32BE(0, pos) // Version and flags
-  pos += 4
-  buffer.writeUInt32BE(1, pos) // Entry count
-  pos += 4
-
-  // url box
-  buffer.writeUInt32BE(12, pos) // Size
-  pos += 4
-  buffer.write("url ", pos)
-  pos += 4
-  buffer.writeUInt32BE(0x00000001, pos) // Self-contained flag
-  pos += 4
-
-  // Write actual dinf box size
-  const dinfSize = pos - dinfStart
-  buffer.writeUInt32BE(dinfSize, dinfStart)
-
-  return pos
-}
-
-function writeStblBox(buffer: Buffer, pos: number, width: number, height: number): number {
-  const stblStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'stbl'
-  buffer.write("stbl", pos)
-  pos += 4
-
-  // stsd box (sample description)
-  pos = writeStsdBox(buffer, pos, width, height)
-
-  // stts box (time-to-sample)
-  pos = writeSttsBox(buffer, pos)
-
-  // stsc box (sample-to-chunk)
-  pos = writeStscBox(buffer, pos)
-
-  // stsz box (sample size)
-  pos = writeStszBox(buffer, pos)
-
-  // stco box (chunk offset)
-  pos = writeStcoBox(buffer, pos)
-
-  // Write actual stbl box size
-  const stblSize = pos - stblStart
-  buffer.writeUInt32BE(stblSize, stblStart)
-
-  return pos
-}
-
-function writeStsdBox(buffer: Buffer, pos: number, width: number, height: number): number {
-  const stsdStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'stsd'
-  buffer.write("stsd", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Entry count
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // avc1 sample entry
-  const avc1Size = 86
-  buffer.writeUInt32BE(avc1Size, pos)
-  pos += 4
-  buffer.write("avc1", pos) // Codec type
-  pos += 4
-
-  // Reserved (6 bytes)
-  for (let i = 0; i < 6; i++) {
-    buffer.writeUInt8(0, pos)
-    pos += 1
-  }
-
-  // Data reference index
-  buffer.writeUInt16BE(1, pos)
-  pos += 2
-
-  // Video sample entry fields
-  buffer.writeUInt16BE(0, pos) // Pre-defined
-  pos += 2
-  buffer.writeUInt16BE(0, pos) // Reserved
-  pos += 2
-
-  // Pre-defined (3 x 32-bit)
-  for (let i = 0; i < 3; i++) {
-    buffer.writeUInt32BE(0, pos)
-    pos += 4
-  }
-
-  // Width and height
-  buffer.writeUInt16BE(width, pos)
-  pos += 2
-  buffer.writeUInt16BE(height, pos)
-  pos += 2
-
-  // Horizontal and vertical resolution (72 DPI)
-  buffer.writeUInt32BE(0x00480000, pos)
-  pos += 4
-  buffer.writeUInt32BE(0x00480000, pos)
-  pos += 4
-
-  // Reserved
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Frame count
-  buffer.writeUInt16BE(1, pos)
-  pos += 2
-
-  // Compressor name (32 bytes, Pascal string)
-  buffer.writeUInt8(0, pos)
-  pos += 1
-  for (let i = 0; i < 31; i++) {
-    buffer.writeUInt8(0, pos)
-    pos += 1
-  }
-
-  // Depth
-  buffer.writeUInt16BE(24, pos)
-  pos += 2
-
-  // Pre-defined
-  buffer.writeUInt16BE(0xffff, pos)
-  pos += 2
-
-  // Write actual stsd box size
-  const stsdSize = pos - stsdStart
-  buffer.writeUInt32BE(stsdSize, stsdStart)
-
-  return pos
-}
-
-function writeSttsBox(buffer: Buffer, pos: number): number {
-  const sttsSize = 24
-
-  // Box size
-  buffer.writeUInt32BE(sttsSize, pos)
-  pos += 4
-
-  // Box type 'stts'
-  buffer.write("stts", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Entry count
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // Sample count
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // Sample delta
-  buffer.writeUInt32BE(1000, pos)
-  pos += 4
-
-  return pos
-}
-
-function writeStscBox(buffer: Buffer, pos: number): number {
-  const stscSize = 28
-
-  // Box size
-  buffer.writeUInt32BE(stscSize, pos)
-  pos += 4
-
-  // Box type 'stsc'
-  buffer.write("stsc", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Entry count
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // First chunk
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // Samples per chunk
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // Sample description index
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  return pos
-}
-
-function writeStszBox(buffer: Buffer, pos: number): number {
-  const stszSize = 20
-
-  // Box size
-  buffer.writeUInt32BE(stszSize, pos)
-  pos += 4
-
-  // Box type 'stsz'
-  buffer.write("stsz", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Sample size (0 = variable)
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Sample count
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  return pos
-}
-
-function writeStcoBox(buffer: Buffer, pos: number): number {
-  const stcoSize = 20
-
-  // Box size
-  buffer.writeUInt32BE(stcoSize, pos)
-  pos += 4
-
-  // Box type 'stco'
-  buffer.write("stco", pos)
-  pos += 4
-
-  // Version and flags
-  buffer.writeUInt32BE(0, pos)
-  pos += 4
-
-  // Entry count
-  buffer.writeUInt32BE(1, pos)
-  pos += 4
-
-  // Chunk offset (will be updated)
-  buffer.writeUInt32BE(1024, pos) // Approximate offset to mdat
-  pos += 4
-
-  return pos
-}
-
-function writeMdatBox(buffer: Buffer, pos: number, imageBuffer: Buffer, options: any): Buffer {
-  const mdatStart = pos
-
-  // Reserve space for box size
-  pos += 4
-
-  // Box type 'mdat'
-  buffer.write("mdat", pos)
-  pos += 4
-
-  // Write image data as video frame
-  imageBuffer.copy(buffer, pos)
-  pos += imageBuffer.length
-
-  // Pad with additional frame data
-  const additionalFrames = Math.floor(options.duration * 30) - 1
-  for (let i = 0; i < additionalFrames && pos + imageBuffer.length < buffer.length; i++) {
-    imageBuffer.copy(buffer, pos)
-    pos += Math.floor(imageBuffer.length / 2)
-  }
-
-  // Write actual mdat box size
-  const mdatSize = pos - mdatStart
-  buffer.writeUInt32BE(mdatSize, mdatStart)
-
-  return buffer.subarray(0, pos)
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "Windows Media Player Compatible MP4 Generator",
@@ -1019,15 +191,89 @@ export async function GET() {
     },
 
     codecs: {
-      video: "H.264/AVC Baseline Profile Level 3.0",
-      audio: "AAC LC 44.1kHz Stereo",
+      video: "H.264/AVC; profile, level and bitrate cap from the output preset",
+      audio: "AAC LC; bitrate and sample rate from the output preset",
       container: "MP4 (ISO Base Media File Format)",
     },
 
+    presets: {
+      description: "`preset` picks the platform profile: resolution, frame rate, codecs and duration limits",
+      default: "hd-720p",
+      available: OUTPUT_PRESET_IDS,
+      details: "GET /api/presets",
+    },
+
+    framing: {
+      description: "How an image of another shape fills the preset's frame",
+      modes: FILL_MODES,
+      fields: FRAMING_FIELDS,
+      crop: "fill=crop keeps the region with the most detail, color and skin tones unless focal_point is given",
+    },
+
+    animation: {
+      description: "Camera motion: a preset, or keyframes compiled for the video's real length and frame rate",
+      default: "fade",
+      fields: MOTION_FIELDS,
+      example: { keyframes: [{ time: 0, zoom: 1 }, { time: 4, zoom: 1.4, x: 0.7, y: 0.3, easing: "ease-in-out" }] },
+    },
+
+    overlays: {
+      description: "Timed text and image layers: titles, lower-thirds, calls to action, logos and watermarks",
+      fields: OVERLAY_FIELDS,
+      fonts: listOverlayFonts(),
+      example: [
+        { template: "title", text: "Summer in Lisbon" },
+        { template: "lower-third", text: "Ana Costa\nTravel writer", box_color: "#0a84ff" },
+        { template: "cta", text: "Follow for more" },
+        { type: "image", image_base64: "...", anchor: "top-right", width: 0.12, opacity: 0.8 },
+      ],
+    },
+
+    brand_kit: {
+      description: "Apply a saved brand kit: watermark, fonts, colors, intro and outro",
+      fields: BRAND_KIT_RENDER_FIELDS,
+      manage: "GET, POST /api/brand-kits; GET, PATCH, DELETE /api/brand-kits/:id",
+    },
+
+    without_ffmpeg: {
+      description: "Single-image videos still render: the JPEG becomes a Motion JPEG track over the narration",
+      requires: "A JPEG image; slideshows, animation, overlays, brand clips and burned-in captions need FFmpeg",
+      plays_in: "VLC, mpv and other FFmpeg-based players; not browsers or Windows Media Player",
+    },
+
+    jobs: {
+      submit: "POST returns 202 with a job; poll job.status_url, then download job.result_url",
+      wait: "POST ?wait=1 holds the request until the render finishes and returns the MP4",
+      cancel: "DELETE /api/jobs/:id",
+    },
+
+    captions: {
+      description: "Captions from the narration text, timed across the narration audio",
+      fields: CAPTION_FIELDS,
+    },
+
+    slideshow: {
+      description: "Send several images (repeated `image` parts, or a JSON `slides` array) for a slideshow",
+      transitions: Object.keys(SLIDE_TRANSITIONS),
+      motions: MOTION_PRESET_NAMES,
+      fields: {
+        slides: "Per-image { duration, caption, motion, narration, focal_point } in order (JSON: also image_base64)",
+        transition: "crossfade (default), dissolve, wipe or slide",
+        transition_duration: `Seconds of overlap (default 1, max ${SLIDESHOW_LIMITS.maxTransitionDuration})`,
+        motion: "Default motion for slides without their own: a preset or keyframes (default zoom-in)",
+        text: "One narration across the whole show; per-slide `narration` lines take precedence",
+      },
+      limits: SLIDESHOW_LIMITS,
+      timing: "Slides without a duration last as long as their narration, share the show narration, or get 3s",
+    },
+
     usage: {
-      simple: 'curl -X POST -F "image=@photo.jpg" --output compatible.mp4 /api/create-video',
-      with_voice:
-        'curl -X POST -F "image=@photo.jpg" -F "text=Hello Windows!" -F "voice=Microsoft Zira" --output windows-video.mp4 /api/create-video',
+      simple: 'curl -X POST -F "image=@photo.jpg" /api/create-video',
+      slideshow:
+        'curl -X POST -F "image=@one.jpg" -F "image=@two.jpg" -F \'slides=[{"caption":"Day one","motion":"pan-left"},{"duration":4}]\' -F "transition=wipe" /api/create-video',
+      with_voice: 'curl -X POST -F "image=@photo.jpg" -F "text=Hello Windows!" -F "voice=Microsoft Zira" /api/create-video',
+      download: "curl --output compatible.mp4 /api/jobs/<job_id>/result",
+      blocking: 'curl -X POST -F "image=@photo.jpg" --output compatible.mp4 "/api/create-video?wait=1"',
     },
 
     features: [
@@ -1035,7 +281,10 @@ export async function GET() {
       "Proper H.264 encoding",
       "AAC audio codec",
       "MP4 container format",
-      "Baseline profile for maximum compatibility",
+      "Platform output presets (YouTube, TikTok, Instagram, X, WhatsApp, LinkedIn)",
+      "Blurred-background, color, gradient or smart-crop framing",
+      "Titles, lower-thirds, calls to action and logo overlays",
+      "Brand kits with watermark, fonts, colors, intro and outro",
       "FastStart for web streaming",
     ],
   })
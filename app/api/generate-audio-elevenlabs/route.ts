@@ -1,7 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { synthesizeSpeech } from "@/lib/tts/registry"
 
-// This endpoint mimics ElevenLabs API but uses free alternatives
-// You can integrate with actual ElevenLabs API if you have credits
+// This endpoint mimics ElevenLabs API but falls back to free alternatives
+// Set ELEVENLABS_API_KEY to use the actual ElevenLabs service
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,86 +18,46 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Text must be less than 5000 characters" }, { status: 400 })
     }
 
-    // ElevenLabs-style API call (replace with actual ElevenLabs endpoint if you have API key)
-    const elevenLabsResponse = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voice_id || "default"}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "xi-api-key": process.env.ELEVENLABS_API_KEY || "demo-key", // Add your ElevenLabs API key
+    // ElevenLabs first, ResponsiveVoice (free tier) as fallback
+    const result = await synthesizeSpeech(
+      {
+        text,
+        voice: voice_id,
+        rate: 1,
+        pitch: 1,
+        volume: 1,
+        format: "mp3",
+        providerOptions: { model_id, voice_settings },
       },
-      body: JSON.stringify({
-        text: text,
-        model_id: model_id,
-        voice_settings: voice_settings || {
-          stability: 0.5,
-          similarity_boost: 0.5,
-        },
-      }),
+      { priority: ["elevenlabs", "responsivevoice"] },
+    ).catch((error) => {
+      console.error("ElevenLabs TTS Error:", error)
+      return null
     })
 
-    if (!elevenLabsResponse.ok) {
-      // Fallback to free alternative if ElevenLabs fails
-      return await generateFreeAlternative(text)
+    if (!result) {
+      return NextResponse.json(
+        {
+          error: "All TTS services unavailable",
+          suggestion: "Please try again later or use the web interface",
+        },
+        { status: 503 },
+      )
     }
 
-    const audioBuffer = await elevenLabsResponse.arrayBuffer()
-
     // Return binary audio data
-    return new NextResponse(Buffer.from(audioBuffer), {
+    return new NextResponse(result.audio, {
       status: 200,
       headers: {
-        "Content-Type": "audio/mpeg",
-        "Content-Disposition": 'attachment; filename="elevenlabs-audio.mp3"',
-        "Content-Length": audioBuffer.byteLength.toString(),
+        "Content-Type": result.mimeType,
+        "Content-Disposition": `attachment; filename="${result.provider === "elevenlabs" ? "elevenlabs" : "free-tts"}-audio.mp3"`,
+        "Content-Length": result.audio.length.toString(),
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
     console.error("ElevenLabs TTS Error:", error)
-    // Fallback to free alternative
-    return await generateFreeAlternative(request.body?.text || "Hello")
-  }
-}
-
-async function generateFreeAlternative(text: string) {
-  // Use a free TTS service as fallback
-  try {
-    // Example using ResponsiveVoice API (free tier available)
-    const freeResponse = await fetch("https://responsivevoice.org/responsivevoice/getvoice.php", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        t: text,
-        tl: "en",
-        sv: "g1",
-        vn: "US English Female",
-        pitch: "0.5",
-        rate: "0.5",
-        vol: "1",
-      }),
-    })
-
-    if (freeResponse.ok) {
-      const audioBuffer = await freeResponse.arrayBuffer()
-      return new NextResponse(Buffer.from(audioBuffer), {
-        status: 200,
-        headers: {
-          "Content-Type": "audio/mpeg",
-          "Content-Disposition": 'attachment; filename="free-tts-audio.mp3"',
-        },
-      })
-    }
-  } catch (error) {
-    console.error("Free TTS fallback failed:", error)
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
   }
-
-  // Final fallback - return error
-  return NextResponse.json(
-    {
-      error: "All TTS services unavailable",
-      suggestion: "Please try again later or use the web interface",
-    },
-    { status: 503 },
-  )
 }
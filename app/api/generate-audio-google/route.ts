@@ -1,7 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { synthesizeSpeech } from "@/lib/tts/registry"
 
 // This endpoint uses Google Cloud Text-to-Speech API
-// You'll need to set up Google Cloud TTS and add your credentials
+// You'll need to set up Google Cloud TTS and add your credentials (GOOGLE_CLOUD_API_KEY)
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,43 +18,28 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Text must be less than 5000 characters" }, { status: 400 })
     }
 
-    // Google Cloud TTS API call
-    const googleTTSResponse = await fetch("https://texttospeech.googleapis.com/v1/text:synthesize", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.GOOGLE_CLOUD_API_KEY}`, // Add your Google Cloud API key
+    const result = await synthesizeSpeech(
+      {
+        text,
+        voice: voice || "en-US-Standard-A",
+        rate,
+        pitch,
+        volume,
+        format: format.toLowerCase() === "wav" ? "wav" : "mp3",
       },
-      body: JSON.stringify({
-        input: { text: text },
-        voice: {
-          languageCode: "en-US",
-          name: voice || "en-US-Standard-A",
-          ssmlGender: "NEUTRAL",
-        },
-        audioConfig: {
-          audioEncoding: format.toUpperCase() === "WAV" ? "LINEAR16" : "MP3",
-          speakingRate: rate,
-          pitch: pitch,
-          volumeGainDb: (volume - 1) * 20, // Convert to dB
-        },
-      }),
-    })
-
-    if (!googleTTSResponse.ok) {
-      throw new Error(`Google TTS API error: ${googleTTSResponse.statusText}`)
-    }
-
-    const ttsResult = await googleTTSResponse.json()
-    const audioBuffer = Buffer.from(ttsResult.audioContent, "base64")
+      { provider: "google" },
+    )
+    const audioBuffer = result.audio
 
     // Return binary audio data
     return new NextResponse(audioBuffer, {
       status: 200,
       headers: {
-        "Content-Type": format === "wav" ? "audio/wav" : "audio/mpeg",
-        "Content-Disposition": `attachment; filename="tts-audio.${format}"`,
+        "Content-Type": result.mimeType,
+        "Content-Disposition": `attachment; filename="tts-audio.${result.format}"`,
         "Content-Length": audioBuffer.length.toString(),
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
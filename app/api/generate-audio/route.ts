@@ -1,9 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { audioResponseHeaders, preferredSourceFormat, transcodeAudio } from "@/lib/audio/transcode"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import { readTTSRequest } from "@/lib/tts/request"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { text, voice, rate = 1, pitch = 1, volume = 1, format = "mp3" } = body
+    const { text, voice } = body
+    const parsed = readTTSRequest(body, ["output", "prosody"])
+    if (parsed instanceof NextResponse) return parsed
+    const { output, prosody } = parsed
 
     // Validate required fields
     if (!text || typeof text !== "string") {
@@ -14,131 +20,30 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Text must be less than 5000 characters" }, { status: 400 })
     }
 
-    // Since we can't use Web Speech API on server, we'll use a text-to-speech library
-    // For now, we'll create a simple audio file using a TTS service or library
-
-    // Using Google Cloud Text-to-Speech (you can replace with any TTS service)
-    const audioBuffer = await generateAudioBuffer(text, {
+    // Synthesize through the provider registry, then convert to the requested container
+    const result = await synthesizeSpeech({
+      text,
       voice: voice || "en-US-Standard-A",
-      rate: Math.max(0.1, Math.min(2, rate)),
-      pitch: Math.max(0, Math.min(2, pitch)),
-      volume: Math.max(0, Math.min(1, volume)),
-      format: format,
+      ...prosody,
+      format: preferredSourceFormat(output.format),
     })
+    const audio = await transcodeAudio(result.audio, output)
 
     // Return binary audio data
-    return new NextResponse(audioBuffer, {
+    return new NextResponse(audio.audio, {
       status: 200,
       headers: {
-        "Content-Type": format === "wav" ? "audio/wav" : "audio/mpeg",
-        "Content-Disposition": `attachment; filename="tts-audio.${format}"`,
-        "Content-Length": audioBuffer.length.toString(),
+        ...audioResponseHeaders(audio, "tts-audio"),
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
     console.error("Audio Generation Error:", error)
-    return NextResponse.json({ error: "Failed to generate audio" }, { status: 500 })
-  }
-}
-
-// Simple TTS audio generation function
-async function generateAudioBuffer(text: string, options: any): Promise<Buffer> {
-  // This is a placeholder - you would integrate with a real TTS service here
-  // Options include:
-  // 1. Google Cloud Text-to-Speech
-  // 2. Amazon Polly
-  // 3. Microsoft Speech Services
-  // 4. Open source TTS libraries
-
-  // For demo purposes, we'll create a simple audio file
-  // In production, replace this with actual TTS service integration
-
-  try {
-    // Example using a hypothetical TTS service
-    const ttsResponse = await fetch("https://api.example-tts-service.com/synthesize", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        // Add your API key here
-        // 'Authorization': `Bearer ${process.env.TTS_API_KEY}`
-      },
-      body: JSON.stringify({
-        text: text,
-        voice: options.voice,
-        speed: options.rate,
-        pitch: options.pitch,
-        volume: options.volume,
-        format: options.format,
-      }),
-    })
-
-    if (!ttsResponse.ok) {
-      throw new Error("TTS service failed")
-    }
-
-    const audioBuffer = await ttsResponse.arrayBuffer()
-    return Buffer.from(audioBuffer)
-  } catch (error) {
-    // Fallback: Create a simple beep sound as placeholder
-    // In production, you'd want to handle this error properly
-    return createPlaceholderAudio(text, options.format)
-  }
-}
-
-// Creates a placeholder audio file (for demo purposes)
-function createPlaceholderAudio(text: string, format: string): Buffer {
-  // This creates a minimal audio file header
-  // In production, use a proper TTS service
-
-  const textLength = text.length
-  const duration = Math.min(textLength * 0.1, 30) // Max 30 seconds
-
-  if (format === "wav") {
-    // Create minimal WAV file header
-    const sampleRate = 44100
-    const samples = Math.floor(sampleRate * duration)
-    const buffer = Buffer.alloc(44 + samples * 2)
-
-    // WAV header
-    buffer.write("RIFF", 0)
-    buffer.writeUInt32LE(36 + samples * 2, 4)
-    buffer.write("WAVE", 8)
-    buffer.write("fmt ", 12)
-    buffer.writeUInt32LE(16, 16)
-    buffer.writeUInt16LE(1, 20)
-    buffer.writeUInt16LE(1, 22)
-    buffer.writeUInt32LE(sampleRate, 24)
-    buffer.writeUInt32LE(sampleRate * 2, 28)
-    buffer.writeUInt16LE(2, 32)
-    buffer.writeUInt16LE(16, 34)
-    buffer.write("data", 36)
-    buffer.writeUInt32LE(samples * 2, 40)
-
-    // Generate simple tone (placeholder)
-    for (let i = 0; i < samples; i++) {
-      const sample = Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 0.1 * 32767
-      buffer.writeInt16LE(sample, 44 + i * 2)
-    }
-
-    return buffer
-  } else {
-    // For MP3, return a minimal MP3 frame (placeholder)
-    // In production, use proper MP3 encoding
-    const mp3Header = Buffer.from([
-      0xff,
-      0xfb,
-      0x90,
-      0x00, // MP3 header
-      0x00,
-      0x00,
-      0x00,
-      0x00,
-      0x00,
-      0x00,
-      0x00,
-      0x00,
-    ])
-    return mp3Header
+    return NextResponse.json(
+      { error: "Failed to generate audio", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
   }
 }
 
@@ -153,7 +58,11 @@ export async function GET() {
       rate: "number (optional, 0.1-2.0)",
       pitch: "number (optional, 0-2.0)",
       volume: "number (optional, 0-1.0)",
-      format: "string (optional, 'mp3' or 'wav')",
+      format: "string (optional) - mp3, wav, ogg, opus, flac or m4a",
+      sample_rate: "number (optional) - e.g. 16000, 44100, 48000",
+      bit_depth: "number (optional) - wav: 8/16/24/32, flac: 16/24",
+      channels: "number (optional) - 1 or 2",
+      bitrate: "number (optional) - kbps for mp3, opus and m4a",
     },
     usage: {
       curl: 'curl -X POST -H "Content-Type: application/json" -d \'{"text":"Hello world","format":"mp3"}\' --output "audio.mp3" /api/generate-audio',
@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getJob, subscribeToJob } from "@/lib/jobs/queue"
+import { describeJob } from "@/lib/jobs/response"
+import type { JobRecord } from "@/lib/jobs/types"
+
+// Server-Sent Events: one `progress` event per job update, then a final `done`
+// event once the job succeeded, failed or was cancelled.
+const TERMINAL_STATUSES = ["succeeded", "failed", "cancelled"]
+// Comment lines keep proxies from closing an idle stream during long stages
+const HEARTBEAT_MS = 15000
+// Progress can arrive many times a second; clients only need a few updates
+const MIN_EVENT_INTERVAL_MS = 250
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const initial = getJob(id)
+  if (!initial) {
+    return NextResponse.json({ error: "Job not found or expired" }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false
+      let lastSent = 0
+      let trailing: ReturnType<typeof setTimeout> | undefined
+
+      const send = (event: string, record: JobRecord) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(describeJob(record))}\n\n`))
+        lastSent = Date.now()
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      }
+
+      const onUpdate = (record: JobRecord) => {
+        if (closed) return
+        clearTimeout(trailing)
+        if (TERMINAL_STATUSES.includes(record.status)) {
+          send("done", record)
+          return close()
+        }
+        const wait = MIN_EVENT_INTERVAL_MS - (Date.now() - lastSent)
+        if (wait <= 0) send("progress", record)
+        else trailing = setTimeout(() => !closed && send("progress", record), wait)
+      }
+
+      const unsubscribe = subscribeToJob(id, onUpdate)
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), HEARTBEAT_MS)
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+        clearTimeout(trailing)
+      }
+      request.signal.addEventListener("abort", close)
+
+      // The job may have finished between getJob and subscribing
+      onUpdate(getJob(id) ?? initial)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,13 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getJob } from "@/lib/jobs/queue"
+import { jobResultResponse } from "@/lib/jobs/response"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const job = getJob(id)
+  if (!job) {
+    return NextResponse.json({ error: "Job not found or expired" }, { status: 404 })
+  }
+  // ?file= picks a sidecar such as the caption file
+  return jobResultResponse(job, request.headers.get("range"), request.nextUrl.searchParams.get("file"))
+}
@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { cancelJob, getJob } from "@/lib/jobs/queue"
+import { describeJob } from "@/lib/jobs/response"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const job = getJob(id)
+  if (!job) {
+    return NextResponse.json({ error: "Job not found or expired" }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, job: describeJob(job) })
+}
+
+// Cancels a queued or running job. Finished jobs are left as they are.
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const job = cancelJob(id)
+  if (!job) {
+    return NextResponse.json({ error: "Job not found or expired" }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, job: describeJob(job) }, { status: 202 })
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { queueStats } from "@/lib/jobs/queue"
+import { jobRetentionMs } from "@/lib/jobs/store"
+
+export async function GET() {
+  return NextResponse.json({
+    message: "Render job queue",
+    description: "Video renders run in the background; the create routes return a job id instead of the MP4",
+    queue: queueStats(),
+    retention_hours: jobRetentionMs() / 3600000,
+    endpoints: {
+      status: "GET /api/jobs/:id - status, progress (0-1), stage, eta_seconds, encoding, error, queue_position",
+      progress: "GET /api/jobs/:id/progress - Server-Sent Events: `progress` on every update, `done` at the end",
+      result: "GET /api/jobs/:id/result - the finished file (supports Range requests)",
+      sidecar: "GET /api/jobs/:id/result?file=<name> - an extra file listed in job.result.sidecars",
+      cancel: "DELETE /api/jobs/:id - cancels a queued or running job",
+    },
+    statuses: ["queued", "running", "succeeded", "failed", "cancelled"],
+    setup: {
+      JOB_CONCURRENCY: "Renders running at once (default: 1)",
+      JOB_QUEUE_LIMIT: "Waiting jobs before new ones get 503 (default: 20)",
+      JOB_RETENTION_HOURS: "How long finished jobs and results are kept (default: 24)",
+      JOBS_DIR: "Where records and results are stored (default: /tmp/jobs)",
+    },
+    usage: {
+      submit: 'curl -X POST -F "image=@photo.jpg" -F "text=Hello" /api/create-video',
+      poll: "curl /api/jobs/<job_id>",
+      watch: "curl -N /api/jobs/<job_id>/progress",
+      download: "curl --output video.mp4 /api/jobs/<job_id>/result",
+      wait: 'curl -X POST -F "image=@photo.jpg" --output video.mp4 "/api/create-video?wait=1"',
+    },
+  })
+}
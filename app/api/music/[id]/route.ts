@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { audioMimeType, sniffAudioFormat } from "@/lib/audio/format"
+import { loadMusicTrack } from "@/lib/video/music"
+
+// One loop of the track, for previewing in the browser
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const audio = loadMusicTrack(id)
+  if (!audio) {
+    return NextResponse.json({ error: `Unknown music track "${id}"` }, { status: 404 })
+  }
+
+  const format = sniffAudioFormat(audio)?.format ?? "wav"
+  return new NextResponse(audio, {
+    headers: {
+      "Content-Type": audioMimeType(format),
+      "Content-Length": audio.length.toString(),
+      "Cache-Control": "public, max-age=3600",
+    },
+  })
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { listMusicTracks } from "@/lib/video/music"
+
+export async function GET() {
+  const tracks = listMusicTracks()
+  return NextResponse.json({
+    success: true,
+    tracks: tracks.map((track) => ({
+      id: track.id,
+      name: track.name,
+      source: track.source,
+      mood: track.mood ?? null,
+      duration: track.duration ?? null,
+      preview_url: `/api/music/${track.id}`,
+    })),
+    totalCount: tracks.length,
+    usage: 'Pass an id as "background_music" to /api/create-instagram-short, or send "music_base64" instead',
+  })
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { describePreset, OUTPUT_PRESET_IDS } from "@/lib/video/presets"
+
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    presets: OUTPUT_PRESET_IDS.map(describePreset),
+    defaults: { "create-video": "hd-720p", "create-instagram-short": "vertical-1080p" },
+    usage: 'Pass an id as "preset" to /api/create-video or /api/create-instagram-short',
+  })
+}
@@ -1,4 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { DiarizationLimitError, MAX_DIARIZE_SECONDS } from "@/lib/audio/diarize"
+import { readAudioMetadata } from "@/lib/audio/metadata"
+import { readDiarizeOptions, summarizeSpeakers } from "@/lib/stt/diarization"
+import { readLanguageOptions } from "@/lib/stt/languages"
+import { NoSTTBackendError, transcribeAudio } from "@/lib/stt/registry"
+import { buildCues, isSubtitleFormat, SUBTITLE_FORMATS, SUBTITLE_MIME_TYPES, toSrt, toVtt } from "@/lib/stt/subtitles"
+
+const OPTION_FIELDS = ["format", "language", "alternative_languages", "diarize", "min_speakers", "max_speakers"]
 
 export async function POST(request: NextRequest) {
   try {
@@ -6,6 +14,8 @@ export async function POST(request: NextRequest) {
 
     let audioBuffer: Buffer
     let filename = "audio"
+    // Options may come from the query string or alongside the audio in the body
+    const options: Record<string, unknown> = Object.fromEntries(request.nextUrl.searchParams)
 
     if (contentType.includes("multipart/form-data")) {
       // Handle file upload
@@ -17,12 +27,18 @@ export async function POST(request: NextRequest) {
       }
 
       filename = audioFile.name
+      for (const name of OPTION_FIELDS) {
+        if (formData.has(name)) options[name] = String(formData.get(name))
+      }
       const arrayBuffer = await audioFile.arrayBuffer()
       audioBuffer = Buffer.from(arrayBuffer)
     } else if (contentType.includes("application/json")) {
       // Handle base64 audio
       const body = await request.json()
       const { audio_base64, filename: fname } = body
+      for (const name of OPTION_FIELDS) {
+        if (body[name]) options[name] = body[name]
+      }
 
       if (!audio_base64) {
         return NextResponse.json({ error: "No audio_base64 provided" }, { status: 400 })
@@ -40,8 +56,59 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Empty audio data" }, { status: 400 })
     }
 
-    // Convert audio to text using multiple services
-    const transcription = await convertAudioToText(audioBuffer, filename)
+    const format = options.format === undefined ? "json" : String(options.format).toLowerCase()
+    if (!isSubtitleFormat(format)) {
+      return NextResponse.json({ error: `format must be one of: ${SUBTITLE_FORMATS.join(", ")}` }, { status: 400 })
+    }
+
+    let languages
+    let diarize
+    try {
+      languages = readLanguageOptions(options)
+      diarize = readDiarizeOptions(options)
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid options" }, { status: 400 })
+    }
+
+    const metadata = readAudioMetadata(audioBuffer)
+    if (!metadata) {
+      return NextResponse.json(
+        { error: "Unrecognized or corrupt audio", details: "Expected WAV, MP3, OGG (Opus/Vorbis), FLAC or M4A" },
+        { status: 415 },
+      )
+    }
+
+    // The local segmenter runs on this thread, so long recordings are turned away up front
+    if (diarize && metadata.duration > MAX_DIARIZE_SECONDS) {
+      return NextResponse.json(
+        { error: "Audio too long for diarization", details: new DiarizationLimitError(metadata.duration).message },
+        { status: 422 },
+      )
+    }
+
+    // Convert audio to text using the first available recognizer
+    const transcription = await transcribeAudio({
+      audio: audioBuffer,
+      filename,
+      ...languages,
+      diarize,
+      signal: request.signal,
+    })
+
+    if (format !== "json") {
+      const cues = buildCues(transcription.segments)
+      const subtitles = format === "srt" ? toSrt(cues) : toVtt(cues)
+      const basename = filename.replace(/\.[^.]*$/, "") || "audio"
+      return new NextResponse(subtitles, {
+        headers: {
+          "Content-Type": `${SUBTITLE_MIME_TYPES[format]}; charset=utf-8`,
+          "Content-Disposition": `attachment; filename="${basename}.${format}"`,
+          "X-STT-Provider": transcription.provider,
+          "X-STT-Word-Timings": String(transcription.words.length > 0),
+          "X-STT-Language": transcription.language,
+        },
+      })
+    }
 
     return NextResponse.json({
       success: true,
@@ -50,17 +117,42 @@ export async function POST(request: NextRequest) {
         text: transcription.text,
         confidence: transcription.confidence,
         language: transcription.language,
+        detected_language: transcription.detectedLanguage ?? null,
+        requested_language: languages.language,
+        alternative_languages: languages.alternativeLanguages,
         duration: transcription.duration,
+        words: transcription.words,
+        segments: transcription.segments,
+        ...(diarize && {
+          speakers: summarizeSpeakers(transcription.segments).map((speaker) => ({
+            id: speaker.id,
+            talk_time: speaker.talkTime,
+            segments: speaker.segments,
+            words: speaker.words,
+          })),
+          diarization: transcription.diarization ?? null,
+          diarization_error: transcription.diarizationError ?? null,
+        }),
         service_used: transcription.service,
+        provider: transcription.provider,
       },
       audio_info: {
         size: audioBuffer.length,
         filename: filename,
-        format: getAudioFormat(audioBuffer),
+        format: metadata.format.toUpperCase(),
+        codec: metadata.codec,
+        duration: metadata.duration,
+        sample_rate: metadata.sampleRate,
+        channels: metadata.channels,
+        bit_depth: metadata.bitDepth ?? null,
+        bitrate: metadata.bitrate ?? null,
       },
     })
   } catch (error) {
     console.error("Speech-to-Text Error:", error)
+    if (error instanceof NoSTTBackendError) {
+      return NextResponse.json({ error: "No STT backend available", details: error.message }, { status: 503 })
+    }
     return NextResponse.json(
       {
         error: "Failed to transcribe audio",
@@ -71,191 +163,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function convertAudioToText(audioBuffer: Buffer, filename: string) {
-  // Try multiple speech recognition services
-
-  // 1. Try Google Cloud Speech-to-Text
-  try {
-    if (process.env.GOOGLE_CLOUD_API_KEY) {
-      const base64Audio = audioBuffer.toString("base64")
-
-      const response = await fetch("https://speech.googleapis.com/v1/speech:recognize", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.GOOGLE_CLOUD_API_KEY}`,
-        },
-        body: JSON.stringify({
-          config: {
-            encoding: getGoogleEncoding(audioBuffer),
-            sampleRateHertz: 16000,
-            languageCode: "en-US",
-            enableAutomaticPunctuation: true,
-            enableWordTimeOffsets: true,
-          },
-          audio: {
-            content: base64Audio,
-          },
-        }),
-      })
-
-      if (response.ok) {
-        const result = await response.json()
-        if (result.results && result.results.length > 0) {
-          const transcript = result.results[0]
-          return {
-            text: transcript.alternatives[0].transcript,
-            confidence: transcript.alternatives[0].confidence || 0.9,
-            language: "en-US",
-            duration: calculateDuration(audioBuffer),
-            service: "Google Cloud Speech-to-Text",
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.log("Google STT failed, trying next service...")
-  }
-
-  // 2. Try Azure Speech Services
-  try {
-    if (process.env.AZURE_SPEECH_KEY && process.env.AZURE_SPEECH_REGION) {
-      const response = await fetch(
-        `https://${process.env.AZURE_SPEECH_REGION}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1?language=en-US`,
-        {
-          method: "POST",
-          headers: {
-            "Ocp-Apim-Subscription-Key": process.env.AZURE_SPEECH_KEY,
-            "Content-Type": "audio/wav",
-          },
-          body: audioBuffer,
-        },
-      )
-
-      if (response.ok) {
-        const result = await response.json()
-        if (result.DisplayText) {
-          return {
-            text: result.DisplayText,
-            confidence: result.Confidence || 0.85,
-            language: "en-US",
-            duration: result.Duration / 10000000, // Convert from ticks
-            service: "Azure Speech Services",
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.log("Azure STT failed, trying next service...")
-  }
-
-  // 3. Try OpenAI Whisper API
-  try {
-    if (process.env.OPENAI_API_KEY) {
-      const formData = new FormData()
-      const audioBlob = new Blob([audioBuffer], { type: "audio/mpeg" })
-      formData.append("file", audioBlob, filename)
-      formData.append("model", "whisper-1")
-      formData.append("language", "en")
-
-      const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: formData,
-      })
-
-      if (response.ok) {
-        const result = await response.json()
-        return {
-          text: result.text,
-          confidence: 0.9, // Whisper doesn't provide confidence scores
-          language: result.language || "en",
-          duration: calculateDuration(audioBuffer),
-          service: "OpenAI Whisper",
-        }
-      }
-    }
-  } catch (error) {
-    console.log("OpenAI Whisper failed, trying free service...")
-  }
-
-  // 4. Try free speech recognition service
-  try {
-    // Using Web Speech API simulation (fallback)
-    const text = await simulateSpeechRecognition(audioBuffer)
-    return {
-      text: text,
-      confidence: 0.7,
-      language: "en-US",
-      duration: calculateDuration(audioBuffer),
-      service: "Fallback Recognition",
-    }
-  } catch (error) {
-    throw new Error("All speech recognition services failed")
-  }
-}
-
-function getGoogleEncoding(audioBuffer: Buffer): string {
-  // Detect audio format from buffer
-  if (audioBuffer.subarray(0, 4).toString() === "RIFF") {
-    return "LINEAR16" // WAV
-  } else if (audioBuffer[0] === 0xff && (audioBuffer[1] & 0xe0) === 0xe0) {
-    return "MP3"
-  } else if (audioBuffer.subarray(4, 8).toString() === "ftyp") {
-    return "MP4"
-  }
-  return "LINEAR16" // Default
-}
-
-function getAudioFormat(audioBuffer: Buffer): string {
-  if (audioBuffer.subarray(0, 4).toString() === "RIFF") {
-    return "WAV"
-  } else if (audioBuffer[0] === 0xff && (audioBuffer[1] & 0xe0) === 0xe0) {
-    return "MP3"
-  } else if (audioBuffer.subarray(4, 8).toString() === "ftyp") {
-    return "MP4"
-  } else if (audioBuffer.subarray(0, 4).toString() === "OggS") {
-    return "OGG"
-  }
-  return "Unknown"
-}
-
-function calculateDuration(audioBuffer: Buffer): number {
-  // Simple duration estimation based on file size and format
-  const format = getAudioFormat(audioBuffer)
-  const sizeKB = audioBuffer.length / 1024
-
-  switch (format) {
-    case "MP3":
-      return sizeKB / 16 // Rough estimate for 128kbps MP3
-    case "WAV":
-      return sizeKB / 176 // Rough estimate for 16-bit 44.1kHz WAV
-    default:
-      return sizeKB / 32 // Conservative estimate
-  }
-}
-
-async function simulateSpeechRecognition(audioBuffer: Buffer): Promise<string> {
-  // This is a fallback that analyzes audio patterns
-  // In a real implementation, you'd use actual speech recognition
-
-  const duration = calculateDuration(audioBuffer)
-  const complexity = audioBuffer.length / 1024 // File size as complexity indicator
-
-  // Generate plausible transcription based on audio characteristics
-  if (duration < 2) {
-    return "Hello"
-  } else if (duration < 5) {
-    return "Hello, how are you?"
-  } else if (complexity > 100) {
-    return "This is a longer message with multiple words and sentences."
-  } else {
-    return "Audio message received"
-  }
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "Speech-to-Text API for Telegram Audio",
@@ -264,19 +171,49 @@ export async function GET() {
       "Google Cloud Speech-to-Text (Premium)",
       "Azure Speech Services (Premium)",
       "OpenAI Whisper (Premium)",
-      "Fallback recognition",
+      "whisper.cpp (Offline, local)",
     ],
-    supported_formats: ["MP3", "WAV", "MP4", "OGG", "WEBM"],
+    no_backend: "Returns 503 when none of these is configured - transcripts are never guessed",
+    supported_formats: ["MP3", "WAV", "M4A", "OGG", "FLAC"],
+    languages: {
+      language: "BCP-47 tag such as hi-IN or es-ES (default: STT_DEFAULT_LANGUAGE or en-US)",
+      auto: "language=auto identifies the language: Whisper and whisper.cpp detect it freely, Google chooses among the hints; Azure needs an explicit language and is skipped",
+      alternative_languages:
+        "Up to 3 other languages the speaker may use (array or comma-separated); Google labels each segment with the one it heard. Without hints, auto mode on Google uses STT_AUTO_LANGUAGES",
+      response:
+        "data.language is the transcript's language, data.detected_language is set when the backend identified it, and each segment carries its own confidence (and language on Google)",
+    },
+    diarization: {
+      diarize: "true labels who said what: segments (and words) get a speaker id such as S1, and data.speakers lists each speaker's talk_time in seconds",
+      min_speakers: "Optional lower bound, 1-6",
+      max_speakers: "Optional upper bound, 1-6 (default 6)",
+      limit: `Up to ${MAX_DIARIZE_SECONDS / 60} minutes of audio; longer files get a 422`,
+      method:
+        "data.diarization is 'backend' when the recognizer labeled speakers (Google) and 'local' for the built-in energy/pause segmenter used otherwise; the local segmenter needs ffmpeg for non-WAV audio",
+      subtitles: "srt prefixes cues with 'S1: ', vtt uses <v S1> voice spans",
+    },
+    output_formats: {
+      json: "Default. data.words and data.segments carry start/end seconds from every backend",
+      srt: "SubRip subtitle file built from the word timings (max 2 lines of 42 characters, 7 s per cue)",
+      vtt: "WebVTT subtitle file, same cues as srt",
+      select: "?format=srt, or a `format` field in the form data / JSON body",
+    },
+    audio_info:
+      "Read from the container headers (WAV fmt, MP3 frames with Xing/VBRI, Ogg Opus/Vorbis, FLAC STREAMINFO, MP4 moov): format, codec, exact duration, sample_rate, channels, bit_depth, bitrate",
     setup: {
       google: "Set GOOGLE_CLOUD_API_KEY environment variable",
       azure: "Set AZURE_SPEECH_KEY and AZURE_SPEECH_REGION",
       openai: "Set OPENAI_API_KEY",
+      whisper_cpp:
+        "Install whisper-cli (or set WHISPER_CPP_BIN) and put a ggml model in ./models (or set WHISPER_CPP_MODEL); non-WAV input also needs ffmpeg",
+      priority: "Optional STT_PROVIDER_PRIORITY, e.g. whisper-cpp,openai",
     },
     usage: {
       file_upload: 'curl -X POST -F "audio=@voice_message.mp3" /api/stt-telegram',
       base64:
         'curl -X POST -H "Content-Type: application/json" -d \'{"audio_base64":"[base64_data]"}\' /api/stt-telegram',
       binary: 'curl -X POST -H "Content-Type: audio/mpeg" --data-binary @voice_message.mp3 /api/stt-telegram',
+      subtitles: 'curl -X POST -F "audio=@voice_message.ogg" -F "format=srt" /api/stt-telegram -o voice_message.srt',
     },
   })
 }
@@ -1,4 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { createVoiceNote, sendVoice } from "@/lib/telegram/api"
+import { getBotConfig, handleUpdate, verifyWebhookSecret } from "@/lib/telegram/bot"
 
 // Complete Telegram Bot integration endpoint
 export async function POST(request: NextRequest) {
@@ -23,7 +25,7 @@ export async function POST(request: NextRequest) {
 }
 
 async function handleTextToSpeech(request: NextRequest, params: any) {
-  const { text, chat_id, bot_token, voice = "en-US", format = "mp3" } = params
+  const { text, chat_id, bot_token, voice = "en-US", format = "mp3", as_voice_note = false, waveform = false } = params
 
   if (!text || !chat_id || !bot_token) {
     return NextResponse.json(
@@ -35,6 +37,22 @@ async function handleTextToSpeech(request: NextRequest, params: any) {
   }
 
   try {
+    // Voice notes show up as a playable voice bubble instead of a music file
+    if (as_voice_note) {
+      const note = await createVoiceNote(text, { voice, waveform: Boolean(waveform) })
+      const result = await sendVoice(bot_token, chat_id, note)
+
+      return NextResponse.json({
+        success: true,
+        message: "Voice note sent to Telegram successfully",
+        provider: note.provider,
+        duration: note.duration,
+        size: note.audio.length,
+        waveform: note.waveform?.toString("base64"),
+        telegram_response: result,
+      })
+    }
+
     // Generate speech audio
     const audioResponse = await fetch(`${request.url.replace("/telegram-integration", "/tts-real")}`, {
       method: "POST",
@@ -139,38 +157,32 @@ async function handleSpeechToText(request: NextRequest, params: any) {
   }
 }
 
+// Runs a forwarded message through the webhook bot; token and secret come
+// from the server config, exactly as for /api/telegram-webhook
 async function handleTelegramWebhook(request: NextRequest, params: any) {
-  // Handle incoming Telegram webhook
   const { message } = params
 
-  if (!message) {
-    return NextResponse.json({ ok: true })
+  const config = getBotConfig()
+  if (!config) {
+    return NextResponse.json(
+      { error: "Telegram bot is not configured", details: "Set TELEGRAM_BOT_TOKEN and TELEGRAM_WEBHOOK_SECRET" },
+      { status: 503 },
+    )
   }
 
-  const responses = []
-
-  // Handle text messages (convert to speech)
-  if (message.text && message.text.startsWith("/speak ")) {
-    const text = message.text.replace("/speak ", "")
-    responses.push({
-      action: "text_to_speech",
-      text: text,
-      chat_id: message.chat.id,
-    })
+  if (!verifyWebhookSecret(request.headers.get("x-telegram-bot-api-secret-token"), config.secret)) {
+    return NextResponse.json({ error: "Invalid webhook secret" }, { status: 401 })
   }
 
-  // Handle voice messages (convert to text)
-  if (message.voice) {
-    responses.push({
-      action: "speech_to_text",
-      file_id: message.voice.file_id,
-      chat_id: message.chat.id,
-    })
+  if (!message) {
+    return NextResponse.json({ ok: true })
   }
 
+  const outcome = await handleUpdate({ update_id: 0, message }, { config, origin: request.nextUrl.origin })
+
   return NextResponse.json({
     success: true,
-    responses: responses,
+    outcome,
   })
 }
 
@@ -181,19 +193,24 @@ export async function GET() {
     actions: {
       text_to_speech: {
         description: "Convert text to speech and send to Telegram",
-        parameters: ["text", "chat_id", "bot_token", "voice?", "format?"],
+        parameters: ["text", "chat_id", "bot_token", "voice?", "format?", "as_voice_note?", "waveform?"],
+        voice_note:
+          "Set as_voice_note: true to send mono OGG/Opus (encoded with ffmpeg) via sendVoice with its duration; waveform: true also returns the 5-bit waveform",
       },
       speech_to_text: {
         description: "Convert Telegram voice message to text",
         parameters: ["file_id", "bot_token", "chat_id?"],
       },
       webhook: {
-        description: "Handle Telegram webhook events",
+        description: "Run a Telegram message through the bot (same as /api/telegram-webhook)",
         parameters: ["message"],
+        headers: ["X-Telegram-Bot-Api-Secret-Token"],
       },
     },
     examples: {
       tts: 'curl -X POST -H "Content-Type: application/json" -d \'{"action":"text_to_speech","text":"Hello world","chat_id":"123456","bot_token":"YOUR_BOT_TOKEN"}\' /api/telegram-integration',
+      voice_note:
+        'curl -X POST -H "Content-Type: application/json" -d \'{"action":"text_to_speech","text":"Hello world","chat_id":"123456","bot_token":"YOUR_BOT_TOKEN","as_voice_note":true}\' /api/telegram-integration',
       stt: 'curl -X POST -H "Content-Type: application/json" -d \'{"action":"speech_to_text","file_id":"FILE_ID","bot_token":"YOUR_BOT_TOKEN","chat_id":"123456"}\' /api/telegram-integration',
     },
   })
@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getBotConfig, handleUpdate, type TelegramUpdate, verifyWebhookSecret } from "@/lib/telegram/bot"
+
+// Telegram Bot API webhook: receives raw Update objects
+export async function POST(request: NextRequest) {
+  const config = getBotConfig()
+  if (!config) {
+    return NextResponse.json(
+      { error: "Telegram bot is not configured", details: "Set TELEGRAM_BOT_TOKEN and TELEGRAM_WEBHOOK_SECRET" },
+      { status: 503 },
+    )
+  }
+
+  if (!verifyWebhookSecret(request.headers.get("x-telegram-bot-api-secret-token"), config.secret)) {
+    return NextResponse.json({ error: "Invalid webhook secret" }, { status: 401 })
+  }
+
+  let update: TelegramUpdate
+  try {
+    update = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid update payload" }, { status: 400 })
+  }
+
+  const outcome = await handleUpdate(update, { config, origin: request.nextUrl.origin })
+  console.log(`Telegram update ${update.update_id}: ${outcome}`)
+
+  return NextResponse.json({ ok: true })
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: "Telegram Bot Webhook",
+    description: "Speaks text and transcribes voice messages directly in Telegram chats",
+    configured: getBotConfig() !== null,
+    commands: {
+      "/speak <text>": "Reply with an MP3 of the text",
+      "/voice <text>": "Reply with an OGG/Opus voice note",
+      "/setvoice [voice]": "Pick a voice from VOICE_MAPPING (inline keyboard when no voice is given)",
+      "/lang <code>": "Set the chat's speech language",
+      "/speed <0.5-2>": "Set the speaking rate",
+      "/mode <voice|text>": "Speak plain messages back in private chats, or only on commands",
+      "/settings": "Show the chat's settings with buttons to change them",
+      "/help": "List commands",
+    },
+    preferences: "Voice, language, speed and reply mode are stored per chat in TELEGRAM_PREFERENCES_FILE",
+    auto_transcription: "Voice messages and audio files are transcribed through /api/stt-telegram",
+    setup: {
+      env: "Set TELEGRAM_BOT_TOKEN, TELEGRAM_WEBHOOK_SECRET and optionally TELEGRAM_BOT_LANGUAGE and TELEGRAM_PREFERENCES_FILE",
+      register:
+        'curl -X POST -H "Content-Type: application/json" -d \'{"url":"https://your-domain.com/api/telegram-webhook","secret_token":"YOUR_WEBHOOK_SECRET","allowed_updates":["message","callback_query"]}\' https://api.telegram.org/botYOUR_BOT_TOKEN/setWebhook',
+      security: "Requests without a matching X-Telegram-Bot-Api-Secret-Token header are rejected",
+    },
+  })
+}
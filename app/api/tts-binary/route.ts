@@ -1,9 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { audioResponseHeaders, preferredSourceFormat, transcodeAudio } from "@/lib/audio/transcode"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import { readTTSRequest } from "@/lib/tts/request"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { text, voice, rate = 1, pitch = 1, volume = 1, format = "mp3" } = body
+    const { text, voice } = body
+    const parsed = readTTSRequest(body, ["output", "prosody"])
+    if (parsed instanceof NextResponse) return parsed
+    const { output, prosody } = parsed
 
     // Validate required fields
     if (!text || typeof text !== "string") {
@@ -14,26 +20,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Text must be less than 5000 characters" }, { status: 400 })
     }
 
-    // Generate actual binary audio data
-    const audioBuffer = await generateBinaryAudio(text, {
+    // Real speech from the provider chain, converted to the requested container
+    const result = await synthesizeSpeech({
+      text,
       voice: voice || "en-US-Standard-A",
-      rate: Math.max(0.1, Math.min(2, rate)),
-      pitch: Math.max(0, Math.min(2, pitch)),
-      volume: Math.max(0, Math.min(1, volume)),
-      format: format,
+      ...prosody,
+      format: preferredSourceFormat(output.format),
     })
+    const audio = await transcodeAudio(result.audio, output)
 
     // Return ACTUAL binary audio data - perfect for n8n and Telegram
-    return new NextResponse(audioBuffer, {
+    return new NextResponse(audio.audio, {
       status: 200,
       headers: {
-        "Content-Type": format === "wav" ? "audio/wav" : "audio/mpeg",
-        "Content-Disposition": `attachment; filename="tts-audio.${format}"`,
-        "Content-Length": audioBuffer.length.toString(),
+        ...audioResponseHeaders(audio, "tts-audio"),
         "Cache-Control": "no-cache",
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
         "Access-Control-Allow-Headers": "Content-Type",
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
@@ -48,113 +54,23 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function generateBinaryAudio(text: string, options: any): Promise<Buffer> {
-  try {
-    // Create proper MP3 binary data for Telegram compatibility
-    return createTelegramCompatibleAudio(text, options.format)
-  } catch (error) {
-    return createTelegramCompatibleAudio(text, options.format)
-  }
-}
-
-function createTelegramCompatibleAudio(text: string, format: string): Buffer {
-  const textLength = text.length
-  const duration = Math.min(textLength * 0.2, 60) // Max 60 seconds for Telegram
-
-  if (format === "wav") {
-    // Create proper WAV file for Telegram
-    const sampleRate = 16000 // Telegram prefers 16kHz
-    const samples = Math.floor(sampleRate * duration)
-    const buffer = Buffer.alloc(44 + samples * 2)
-
-    // WAV header - Telegram compatible
-    buffer.write("RIFF", 0)
-    buffer.writeUInt32LE(36 + samples * 2, 4)
-    buffer.write("WAVE", 8)
-    buffer.write("fmt ", 12)
-    buffer.writeUInt32LE(16, 16) // PCM format
-    buffer.writeUInt16LE(1, 20) // Audio format (PCM)
-    buffer.writeUInt16LE(1, 22) // Mono channel
-    buffer.writeUInt32LE(sampleRate, 24)
-    buffer.writeUInt32LE(sampleRate * 2, 28)
-    buffer.writeUInt16LE(2, 32)
-    buffer.writeUInt16LE(16, 34) // 16-bit
-    buffer.write("data", 36)
-    buffer.writeUInt32LE(samples * 2, 40)
-
-    // Generate speech-like audio pattern
-    for (let i = 0; i < samples; i++) {
-      const t = i / sampleRate
-      // Create speech-like frequency modulation
-      const baseFreq = 150 + Math.sin(t * 3) * 50 // Voice-like frequency range
-      const envelope = Math.exp(-t * 0.3) * (1 - Math.exp(-t * 10)) // Natural envelope
-      const noise = (Math.random() - 0.5) * 0.1 // Add slight noise for realism
-
-      const sample = (Math.sin(2 * Math.PI * baseFreq * t) + noise) * envelope * 0.3 * 32767
-      buffer.writeInt16LE(Math.max(-32767, Math.min(32767, sample)), 44 + i * 2)
-    }
-
-    return buffer
-  } else {
-    // Create proper MP3 structure for Telegram
-    const mp3Size = Math.max(2048, textLength * 150) // Realistic MP3 size
-    const buffer = Buffer.alloc(mp3Size)
-
-    // MP3 header - MPEG-1 Layer 3
-    buffer[0] = 0xff // Frame sync
-    buffer[1] = 0xfb // MPEG-1, Layer 3, No CRC
-    buffer[2] = 0x90 // 128 kbps, 44.1 kHz
-    buffer[3] = 0x00 // No padding, stereo
-
-    // ID3v2 header for better compatibility
-    const id3Header = Buffer.from([
-      0x49,
-      0x44,
-      0x33, // "ID3"
-      0x03,
-      0x00, // Version 2.3
-      0x00, // Flags
-      0x00,
-      0x00,
-      0x00,
-      0x00, // Size (will be calculated)
-    ])
-
-    id3Header.copy(buffer, 0)
-
-    // Fill with pseudo-MP3 data that Telegram can recognize
-    let pos = 10
-    while (pos < mp3Size - 4) {
-      // MP3 frame header
-      buffer[pos] = 0xff
-      buffer[pos + 1] = 0xfb
-      buffer[pos + 2] = 0x90
-      buffer[pos + 3] = 0x00
-
-      // Frame data (simplified)
-      const frameSize = 417 // Standard frame size for 128kbps
-      for (let i = 4; i < frameSize && pos + i < mp3Size; i++) {
-        buffer[pos + i] = Math.floor(Math.random() * 256)
-      }
-
-      pos += frameSize
-    }
-
-    return buffer
-  }
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "TTS Binary Audio API",
     description: "Returns actual binary audio data - perfect for n8n and Telegram",
     status: "active",
     compatibility: ["n8n", "Telegram Bot API", "WhatsApp", "Discord"],
-    formats: ["mp3", "wav"],
+    formats: ["mp3", "wav", "ogg", "opus", "flac", "m4a"],
+    options: {
+      sample_rate: "number (optional) - e.g. 16000, 44100, 48000",
+      bit_depth: "number (optional) - wav: 8/16/24/32, flac: 16/24",
+      channels: "number (optional) - 1 or 2",
+      bitrate: "number (optional) - kbps for mp3, opus and m4a",
+    },
     usage: {
       curl: 'curl -X POST -H "Content-Type: application/json" -d \'{"text":"Hello world","format":"mp3"}\' --output audio.mp3 /api/tts-binary',
       n8n: "Use HTTP Request node with Response Format set to 'File'",
-      telegram: "Perfect for Telegram sendAudio API",
+      telegram: "Perfect for Telegram sendAudio API; use format 'ogg' for sendVoice",
     },
   })
 }
@@ -0,0 +1,99 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminAuthError } from "@/lib/admin"
+import { cacheStats, enforceCacheLimits, getCacheBackend, isCacheKey } from "@/lib/tts/cache"
+
+export async function GET(request: NextRequest) {
+  const denied = adminAuthError(request)
+  if (denied) return denied
+
+  const { searchParams } = request.nextUrl
+  const store = getCacheBackend()
+  const key = searchParams.get("key")
+  const provider = searchParams.get("provider")
+  const limit = Math.max(1, Math.min(1000, Number(searchParams.get("limit")) || 100))
+  if (key && !isCacheKey(key)) {
+    return NextResponse.json({ error: "key must be a 64-character hex cache key" }, { status: 400 })
+  }
+
+  if (key) {
+    const entry = store?.get(key)
+    if (!entry) {
+      return NextResponse.json({ error: "Cache entry not found" }, { status: 404 })
+    }
+
+    // ?download=1 streams the cached audio itself
+    if (searchParams.get("download")) {
+      return new NextResponse(entry.result.audio, {
+        status: 200,
+        headers: {
+          "Content-Type": entry.result.mimeType,
+          "Content-Disposition": `attachment; filename="${key}.${entry.result.format}"`,
+          "Content-Length": entry.result.audio.length.toString(),
+        },
+      })
+    }
+    return NextResponse.json({ success: true, entry: entry.info })
+  }
+
+  const entries = (store?.list() || [])
+    .filter((info) => !provider || info.provider === provider)
+    .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt)
+
+  return NextResponse.json({
+    success: true,
+    stats: cacheStats(),
+    entries: entries.slice(0, limit),
+    truncated: entries.length > limit,
+    usage: {
+      inspect: "GET /api/tts-cache?key=<key> (add &download=1 for the audio)",
+      purge_one: "DELETE /api/tts-cache?key=<key>",
+      purge_provider: "DELETE /api/tts-cache?provider=gtts",
+      purge_older: "DELETE /api/tts-cache?older_than=3600 (seconds since creation)",
+      purge_all: "DELETE /api/tts-cache?all=1",
+      auth: "Send ADMIN_TOKEN as 'Authorization: Bearer <token>'; the route is refused until it is set",
+    },
+  })
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = adminAuthError(request)
+  if (denied) return denied
+
+  const store = getCacheBackend()
+  if (!store) {
+    return NextResponse.json({ success: true, removed: 0, note: "Cache is disabled" })
+  }
+
+  const { searchParams } = request.nextUrl
+  const key = searchParams.get("key")
+  const provider = searchParams.get("provider")
+  const olderThan = Number(searchParams.get("older_than"))
+  const all = searchParams.get("all")
+  if (key && !isCacheKey(key)) {
+    return NextResponse.json({ error: "key must be a 64-character hex cache key" }, { status: 400 })
+  }
+
+  if (!key && !provider && !olderThan && !all) {
+    return NextResponse.json(
+      { error: "Specify key, provider, older_than or all=1 to choose what to purge" },
+      { status: 400 },
+    )
+  }
+
+  const cutoff = olderThan ? Date.now() - olderThan * 1000 : null
+  let removed = 0
+
+  for (const info of store.list()) {
+    const matches =
+      Boolean(all) ||
+      info.key === key ||
+      (provider !== null && info.provider === provider) ||
+      (cutoff !== null && info.createdAt < cutoff)
+    if (matches && store.delete(info.key)) {
+      removed++
+    }
+  }
+
+  enforceCacheLimits()
+  return NextResponse.json({ success: true, removed, stats: cacheStats() })
+}
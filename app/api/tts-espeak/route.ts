@@ -1,26 +1,51 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { spawn } from "child_process"
-import { readFileSync, unlinkSync } from "fs"
-import { join } from "path"
+import { ESPEAK_DEFAULT_WPM } from "@/lib/tts/providers/espeak"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import { readTTSRequest } from "@/lib/tts/request"
+import { timedAudioPayload } from "@/lib/tts/timing"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { text, voice = "en", rate = 175 } = body
+    const { voice = "en", rate = ESPEAK_DEFAULT_WPM, marks = false } = body
+    const parsed = readTTSRequest(body, ["ssml"])
+    if (parsed instanceof NextResponse) return parsed
+    const { ssml: ssmlInput } = parsed
+    const text = ssmlInput ? ssmlInput.text : body.text
 
     if (!text || typeof text !== "string") {
       return NextResponse.json({ error: "Text is required" }, { status: 400 })
     }
 
-    // Generate real speech using eSpeak (if available) or fallback
-    const audioBuffer = await generateWithEspeak(text, { voice, rate })
+    // Real speech from the local eSpeak binary
+    const result = await synthesizeSpeech(
+      {
+        text,
+        ssml: ssmlInput?.ssml,
+        voice,
+        rate: Number(rate) / ESPEAK_DEFAULT_WPM,
+        pitch: 1,
+        volume: 1,
+        format: "wav",
+        marks: Boolean(marks),
+      },
+      { provider: "espeak" },
+    )
+    const audioBuffer = result.audio
+
+    // Word/sentence timestamps requested: return JSON with the audio embedded
+    if (marks) {
+      return NextResponse.json(timedAudioPayload(text, result))
+    }
 
     return new NextResponse(audioBuffer, {
       status: 200,
       headers: {
-        "Content-Type": "audio/wav",
+        "Content-Type": result.mimeType,
         "Content-Disposition": `attachment; filename="speech.wav"`,
         "Content-Length": audioBuffer.length.toString(),
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
@@ -29,139 +54,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function generateWithEspeak(text: string, options: any): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const tempFile = join("/tmp", `speech-${Date.now()}.wav`)
-
-    try {
-      // Try to use eSpeak if available
-      const espeak = spawn("espeak", ["-v", options.voice, "-s", options.rate.toString(), "-w", tempFile, text])
-
-      espeak.on("close", (code) => {
-        try {
-          if (code === 0) {
-            const audioBuffer = readFileSync(tempFile)
-            unlinkSync(tempFile) // Clean up
-            resolve(audioBuffer)
-          } else {
-            // eSpeak failed, use fallback
-            resolve(generateSyntheticSpeech(text, options))
-          }
-        } catch (error) {
-          resolve(generateSyntheticSpeech(text, options))
-        }
-      })
-
-      espeak.on("error", () => {
-        // eSpeak not available, use fallback
-        resolve(generateSyntheticSpeech(text, options))
-      })
-    } catch (error) {
-      // eSpeak not available, use fallback
-      resolve(generateSyntheticSpeech(text, options))
-    }
-  })
-}
-
-function generateSyntheticSpeech(text: string, options: any): Buffer {
-  // Generate high-quality synthetic speech
-  const words = text.toLowerCase().split(/\s+/)
-  const sampleRate = 22050
-  const duration = Math.min(words.length * 0.6 + 1, 30)
-  const samples = Math.floor(sampleRate * duration)
-
-  const buffer = Buffer.alloc(44 + samples * 2)
-
-  // WAV header
-  buffer.write("RIFF", 0)
-  buffer.writeUInt32LE(36 + samples * 2, 4)
-  buffer.write("WAVE", 8)
-  buffer.write("fmt ", 12)
-  buffer.writeUInt32LE(16, 16)
-  buffer.writeUInt16LE(1, 20)
-  buffer.writeUInt16LE(1, 22)
-  buffer.writeUInt32LE(sampleRate, 24)
-  buffer.writeUInt32LE(sampleRate * 2, 28)
-  buffer.writeUInt16LE(2, 32)
-  buffer.writeUInt16LE(16, 34)
-  buffer.write("data", 36)
-  buffer.writeUInt32LE(samples * 2, 40)
-
-  // Generate speech-like audio
-  let sampleIndex = 0
-
-  for (let wordIndex = 0; wordIndex < words.length; wordIndex++) {
-    const word = words[wordIndex]
-    const wordDuration = 0.4 + word.length * 0.05
-    const wordSamples = Math.floor(wordDuration * sampleRate)
-
-    // Pause between words
-    if (wordIndex > 0) {
-      const pauseSamples = Math.floor(0.15 * sampleRate)
-      for (let i = 0; i < pauseSamples && sampleIndex < samples; i++) {
-        buffer.writeInt16LE(0, 44 + sampleIndex * 2)
-        sampleIndex++
-      }
-    }
-
-    // Generate word audio with formants
-    for (let i = 0; i < wordSamples && sampleIndex < samples; i++) {
-      const t = i / sampleRate
-      const wordProgress = i / wordSamples
-
-      // Get vowel formants
-      const vowels = word.match(/[aeiou]/g) || ["a"]
-      const currentVowel = vowels[Math.floor(wordProgress * vowels.length)] || "a"
-      const formants = getVowelFormants(currentVowel)
-
-      // Generate formant frequencies
-      const f1 = formants.f1 * (1 + (options.rate - 175) / 350) // Adjust for rate
-      const f2 = formants.f2 * (1 + (options.rate - 175) / 350)
-      const f3 = formants.f3 * (1 + (options.rate - 175) / 350)
-
-      // Create speech signal
-      const signal =
-        Math.sin(2 * Math.PI * f1 * t) * 0.4 +
-        Math.sin(2 * Math.PI * f2 * t) * 0.3 +
-        Math.sin(2 * Math.PI * f3 * t) * 0.2
-
-      // Natural envelope
-      const envelope = Math.sin(wordProgress * Math.PI) * 0.8 + 0.2
-
-      // Add consonant noise
-      const noise = (Math.random() - 0.5) * 0.1
-
-      const sample = (signal + noise) * envelope * 16383
-      buffer.writeInt16LE(Math.max(-32767, Math.min(32767, sample)), 44 + sampleIndex * 2)
-      sampleIndex++
-    }
-  }
-
-  // Fill remaining with silence
-  while (sampleIndex < samples) {
-    buffer.writeInt16LE(0, 44 + sampleIndex * 2)
-    sampleIndex++
-  }
-
-  return buffer
-}
-
-function getVowelFormants(vowel: string) {
-  const formants: { [key: string]: { f1: number; f2: number; f3: number } } = {
-    a: { f1: 730, f2: 1090, f3: 2440 },
-    e: { f1: 270, f2: 2290, f3: 3010 },
-    i: { f1: 390, f2: 1990, f3: 2550 },
-    o: { f1: 520, f2: 920, f3: 2560 },
-    u: { f1: 320, f2: 800, f3: 2240 },
-  }
-  return formants[vowel] || formants["a"]
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "eSpeak TTS API",
-    description: "Real speech synthesis using eSpeak or high-quality formant synthesis",
+    description: "Real speech synthesis using the local eSpeak binary",
     usage:
       'curl -X POST -H "Content-Type: application/json" -d \'{"text":"Hello world"}\' --output speech.wav /api/tts-espeak',
+    timing_marks:
+      'Send {"marks": true} to get JSON with audio_base64 plus word/sentence timestamps. Sentence times are ' +
+      "measured; word times are estimated inside each sentence (marks_source: estimated)",
   })
 }
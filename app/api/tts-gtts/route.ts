@@ -1,4 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import { readTTSRequest } from "@/lib/tts/request"
+import { timedAudioPayload } from "@/lib/tts/timing"
 
 function sanitizeTextForTTS(text: string): string {
   if (!text || typeof text !== "string") {
@@ -30,121 +33,54 @@ function sanitizeTextForTTS(text: string): string {
       // Clean up multiple spaces and trim
       .replace(/\s+/g, " ") // Replace multiple spaces with single space
       .trim()
-
-      // Limit length for TTS services
-      .substring(0, 1000)
-  ) // Most TTS services have limits
+  ) // Long text is chunked by the gtts provider, so no truncation here
 }
 
-// WORKING voice mapping - Google TTS only supports these actual language codes
-const VOICE_MAPPING = {
-  // Microsoft voices mapped to closest Google TTS equivalent
-  "microsoft david": "en",
-  "microsoft-david": "en",
-  david: "en",
-  "microsoft mark": "en",
-  "microsoft-mark": "en",
-  mark: "en",
-  "microsoft zira": "en",
-  "microsoft-zira": "en",
-  zira: "en",
-
-  // UK voices
-  "microsoft hazel": "en-gb",
-  "microsoft-hazel": "en-gb",
-  hazel: "en-gb",
-  "microsoft susan": "en-gb",
-  "microsoft-susan": "en-gb",
-  susan: "en-gb",
-  "microsoft george": "en-gb",
-  "microsoft-george": "en-gb",
-  george: "en-gb",
-
-  // Indian voices
-  "microsoft heera": "en-in",
-  "microsoft-heera": "en-in",
-  heera: "en-in",
-  "microsoft ravi": "en-in",
-  "microsoft-ravi": "en-in",
-  ravi: "en-in",
-
-  // Google voices (these are just language codes)
-  "google us english": "en",
-  "google-us-english": "en",
-  "google us": "en",
-  "google uk english female": "en-gb",
-  "google-uk-english-female": "en-gb",
-  "google uk female": "en-gb",
-  "google uk": "en-gb",
-  "google hindi": "hi",
-  "google हिन्दी": "hi",
-
-  // Standard codes that actually work with Google TTS
-  en: "en",
-  "en-us": "en",
-  "en-gb": "en-gb",
-  "en-au": "en-au",
-  "en-ca": "en-ca",
-  "en-in": "en-in",
-  hi: "hi",
-  "hi-in": "hi",
-
-  // Generic mappings
-  english: "en",
-  american: "en",
-  british: "en-gb",
-  uk: "en-gb",
-  australian: "en-au",
-  canadian: "en-ca",
-  indian: "en-in",
-  india: "en-in",
-  hindi: "hi",
-  female: "en-gb", // UK tends to sound more feminine
-  male: "en", // US tends to sound more masculine
-  woman: "en-gb",
-  man: "en",
-
-  // Other languages that actually work
-  es: "es",
-  spanish: "es",
-  fr: "fr",
-  french: "fr",
-  de: "de",
-  german: "de",
-  it: "it",
-  italian: "it",
-  pt: "pt",
-  portuguese: "pt",
-  ru: "ru",
-  russian: "ru",
-  ja: "ja",
-  japanese: "ja",
-  ko: "ko",
-  korean: "ko",
-  zh: "zh",
-  chinese: "zh",
-  ar: "ar",
-  arabic: "ar",
-}
+// Upper bound on a single request; longer input is split into ~200 char chunks upstream
+const MAX_TEXT_LENGTH = 50000
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { text, lang = "en", voice = "en", slow = false, speed = 1 } = body
-    const sanitizedText = sanitizeTextForTTS(text)
+    const { text, lang = "en", voice = "en", slow = false, speed = 1, marks = false } = body
+    const parsed = readTTSRequest(body, ["ssml"])
+    if (parsed instanceof NextResponse) return parsed
+    const { ssml: ssmlInput } = parsed
+    const sanitizedText = ssmlInput ? ssmlInput.text : sanitizeTextForTTS(text)
 
     if (!sanitizedText) {
       return NextResponse.json({ error: "No valid text after sanitization" }, { status: 400 })
     }
 
-    // Determine the voice/language to use
+    if (sanitizedText.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: `Text must be less than ${MAX_TEXT_LENGTH} characters` }, { status: 400 })
+    }
+
+    // Google TTS only understands language codes; the gtts provider maps voice names onto them
     const voiceKey = voice.toLowerCase().trim()
-    const selectedVoice = VOICE_MAPPING[voiceKey] || VOICE_MAPPING[lang.toLowerCase()] || "en"
+    const result = await synthesizeSpeech(
+      {
+        text: sanitizedText,
+        ssml: ssmlInput?.ssml,
+        voice,
+        language: lang,
+        rate: speed,
+        pitch: 1,
+        volume: 1,
+        format: "mp3",
+        marks: Boolean(marks),
+        providerOptions: { slow },
+      },
+      { provider: "gtts", cache: body.cache !== false },
+    )
+    const audioBuffer = result.audio
 
-    console.log(`Voice requested: "${voice}" -> Mapped to: "${selectedVoice}"`)
+    console.log(`Voice requested: "${voice}" -> Mapped to: "${result.voice}"`)
 
-    // Use Google Translate TTS with the mapped language code
-    const audioBuffer = await fetchGoogleTTS(sanitizedText, selectedVoice, slow, speed)
+    // Word/sentence timestamps requested: return JSON with the audio embedded
+    if (marks) {
+      return NextResponse.json(timedAudioPayload(sanitizedText, result))
+    }
 
     return new NextResponse(audioBuffer, {
       status: 200,
@@ -154,7 +90,10 @@ export async function POST(request: NextRequest) {
         "Content-Length": audioBuffer.length.toString(),
         "Cache-Control": "no-cache",
         "X-Voice-Requested": voice,
-        "X-Voice-Used": selectedVoice,
+        "X-Voice-Used": result.voice,
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
+        "X-TTS-Chunks": String(result.chunks ?? 1),
       },
     })
   } catch (error) {
@@ -169,88 +108,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function fetchGoogleTTS(text: string, voice: string, slow: boolean, speed = 1): Promise<Buffer> {
-  // Split text into chunks (Google TTS has character limits)
-  const chunks = splitTextIntoChunks(text, 200)
-  const audioBuffers: Buffer[] = []
-
-  // Calculate speed parameter
-  const speedParam = slow ? 0.24 : Math.max(0.1, Math.min(1.0, speed))
-
-  for (const chunk of chunks) {
-    try {
-      // Use the correct Google Translate TTS URL format
-      const url = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(chunk)}&tl=${voice}&client=tw-ob&ttsspeed=${speedParam}&total=1&idx=0`
-
-      console.log(`Fetching TTS for chunk: "${chunk.substring(0, 50)}..." with voice: ${voice}`)
-
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          Referer: "https://translate.google.com/",
-          Accept: "audio/mpeg, audio/*, */*",
-          "Accept-Language": "en-US,en;q=0.9",
-          "Accept-Encoding": "identity",
-        },
-      })
-
-      console.log(`Response status: ${response.status}, Content-Type: ${response.headers.get("content-type")}`)
-
-      if (response.ok) {
-        const contentType = response.headers.get("content-type") || ""
-        if (contentType.includes("audio") || contentType.includes("mpeg")) {
-          const buffer = await response.arrayBuffer()
-          if (buffer.byteLength > 100) {
-            // Valid audio file
-            audioBuffers.push(Buffer.from(buffer))
-            console.log(`Successfully got audio chunk: ${buffer.byteLength} bytes`)
-          } else {
-            console.log(`Audio chunk too small: ${buffer.byteLength} bytes`)
-          }
-        } else {
-          console.log(`Invalid content type: ${contentType}`)
-        }
-      } else {
-        console.log(`HTTP error: ${response.status} ${response.statusText}`)
-      }
-    } catch (error) {
-      console.error("Chunk TTS failed:", error)
-    }
-  }
-
-  if (audioBuffers.length === 0) {
-    throw new Error("Failed to generate any audio - Google TTS may be blocked or rate limited")
-  }
-
-  console.log(`Successfully generated ${audioBuffers.length} audio chunks`)
-
-  // Combine all audio buffers
-  return Buffer.concat(audioBuffers)
-}
-
-function splitTextIntoChunks(text: string, maxLength: number): string[] {
-  const chunks: string[] = []
-  const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 0)
-
-  let currentChunk = ""
-  for (const sentence of sentences) {
-    if (currentChunk.length + sentence.length > maxLength) {
-      if (currentChunk) {
-        chunks.push(currentChunk.trim())
-        currentChunk = ""
-      }
-    }
-    currentChunk += sentence + ". "
-  }
-
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim())
-  }
-
-  return chunks.length > 0 ? chunks : [text]
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "WORKING Google TTS API with Voice Mapping",
@@ -305,6 +162,9 @@ export async function GET() {
     troubleshooting: {
       if_no_audio: "Google TTS may be rate limited - try again in a few minutes",
       if_error: "Check the response headers X-Voice-Requested and X-Voice-Used",
+      timing_marks: 'Send {"marks": true} to get JSON with audio_base64 plus word/sentence timestamps',
+      long_text: `Up to ${MAX_TEXT_LENGTH} characters; X-TTS-Chunks reports how many requests were stitched together`,
+      caching: 'Repeated requests are served from the audio cache (X-Cache: HIT); send {"cache": false} to bypass. Admin: /api/tts-cache',
       alternative: "Use /api/tts-real-voice for more reliable TTS services",
     },
   })
@@ -1,4 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import { readTTSRequest } from "@/lib/tts/request"
 
 function sanitizeTextForTTS(text: string): string {
   if (!text || typeof text !== "string") {
@@ -40,17 +42,23 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { text, voice = "en", rate = 1 } = body
-
-    if (!text || typeof text !== "string") {
+    const parsed = readTTSRequest(body, ["ssml"])
+    if (parsed instanceof NextResponse) return parsed
+    const { ssml: ssmlInput } = parsed
+    if (!ssmlInput && (!text || typeof text !== "string")) {
       return NextResponse.json({ error: "Text is required" }, { status: 400 })
     }
 
     // Generate REAL speech using multiple services
-    const sanitizedText = sanitizeTextForTTS(text)
+    const sanitizedText = ssmlInput ? ssmlInput.text : sanitizeTextForTTS(text)
     if (!sanitizedText) {
       return NextResponse.json({ error: "No valid text after sanitization" }, { status: 400 })
     }
-    const audioBuffer = await generateActualSpeech(sanitizedText, { voice, rate })
+    const result = await synthesizeSpeech(
+      { text: sanitizedText, ssml: ssmlInput?.ssml, voice, rate, pitch: 1, volume: 1, format: "mp3" },
+      { priority: ["responsivevoice", "voicerss", "freetts", "ttsmp3", "gtts"] },
+    )
+    const audioBuffer = result.audio
 
     return new NextResponse(audioBuffer, {
       status: 200,
@@ -59,6 +67,8 @@ export async function POST(request: NextRequest) {
         "Content-Disposition": `attachment; filename="speech.mp3"`,
         "Content-Length": audioBuffer.length.toString(),
         "Cache-Control": "no-cache",
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
@@ -67,147 +77,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function generateActualSpeech(text: string, options: any): Promise<Buffer> {
-  // Try ResponsiveVoice API (free service that actually works)
-  try {
-    const response = await fetch("https://responsivevoice.org/responsivevoice/getvoice.php", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-      body: new URLSearchParams({
-        t: text,
-        tl: "en",
-        sv: "g3",
-        vn: "US English Female",
-        pitch: "0.5",
-        rate: options.rate.toString(),
-        vol: "1",
-        f: "mp3_44khz_128kb_s",
-      }),
-    })
-
-    if (response.ok && response.headers.get("content-type")?.includes("audio")) {
-      const audioBuffer = await response.arrayBuffer()
-      if (audioBuffer.byteLength > 1000) {
-        // Valid audio file
-        return Buffer.from(audioBuffer)
-      }
-    }
-  } catch (error) {
-    console.log("ResponsiveVoice failed, trying next service...")
-  }
-
-  // Try VoiceRSS API (free tier)
-  try {
-    const response = await fetch("http://api.voicerss.org/", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        key: "demo", // Free demo key
-        src: text,
-        hl: "en-us",
-        f: "44khz_16bit_mono",
-        c: "mp3",
-        r: "0",
-      }),
-    })
-
-    if (response.ok && response.headers.get("content-type")?.includes("audio")) {
-      const audioBuffer = await response.arrayBuffer()
-      if (audioBuffer.byteLength > 1000) {
-        return Buffer.from(audioBuffer)
-      }
-    }
-  } catch (error) {
-    console.log("VoiceRSS failed, trying TTS API...")
-  }
-
-  // Try FreeTTS API (another free service)
-  try {
-    const response = await fetch("https://freetts.com/Home/PlayAudio", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-      body: new URLSearchParams({
-        Language: "en-US",
-        Voice: "Microsoft Zira Desktop - English (United States)",
-        TextMessage: text,
-        id: Math.random().toString(),
-      }),
-    })
-
-    if (response.ok) {
-      const audioBuffer = await response.arrayBuffer()
-      if (audioBuffer.byteLength > 1000) {
-        return Buffer.from(audioBuffer)
-      }
-    }
-  } catch (error) {
-    console.log("FreeTTS failed, trying Text-to-MP3...")
-  }
-
-  // Try Text-to-MP3 service
-  try {
-    const response = await fetch("https://text-to-mp3.com/api/speak", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        msg: text,
-        lang: "en",
-        source: "ttsmp3",
-      }),
-    })
-
-    if (response.ok) {
-      const result = await response.json()
-      if (result.URL) {
-        const audioResponse = await fetch(result.URL)
-        if (audioResponse.ok) {
-          const audioBuffer = await audioResponse.arrayBuffer()
-          return Buffer.from(audioBuffer)
-        }
-      }
-    }
-  } catch (error) {
-    console.log("Text-to-MP3 failed, using final fallback...")
-  }
-
-  // Final fallback - use a working TTS service
-  return await generateWithGTTS(text, options)
-}
-
-async function generateWithGTTS(text: string, options: any): Promise<Buffer> {
-  try {
-    // Use Google Translate TTS (free and reliable)
-    const response = await fetch(
-      `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(text)}&tl=en&client=tw-ob&ttsspeed=${options.rate}`,
-      {
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        },
-      },
-    )
-
-    if (response.ok && response.headers.get("content-type")?.includes("audio")) {
-      const audioBuffer = await response.arrayBuffer()
-      return Buffer.from(audioBuffer)
-    }
-  } catch (error) {
-    console.log("Google TTS failed")
-  }
-
-  // If all else fails, return a proper error
-  throw new Error("All TTS services are currently unavailable")
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "Real Voice TTS API",
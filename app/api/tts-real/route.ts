@@ -1,9 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { audioResponseHeaders, preferredSourceFormat, transcodeAudio } from "@/lib/audio/transcode"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import { readTTSRequest } from "@/lib/tts/request"
+import { timedAudioPayload } from "@/lib/tts/timing"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { text, voice = "en-US", rate = 1, pitch = 1, volume = 1, format = "mp3" } = body
+    const { voice = "en-US", marks = false } = body
+    const parsed = readTTSRequest(body, ["output", "ssml", "prosody"])
+    if (parsed instanceof NextResponse) return parsed
+    const { output, ssml: ssmlInput, prosody } = parsed
+    const text = ssmlInput ? ssmlInput.text : body.text
 
     if (!text || typeof text !== "string") {
       return NextResponse.json({ error: "Text is required and must be a string" }, { status: 400 })
@@ -13,23 +21,39 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Text must be less than 5000 characters" }, { status: 400 })
     }
 
-    // Generate real speech audio
-    const audioBuffer = await generateRealSpeech(text, {
-      voice,
-      rate: Math.max(0.1, Math.min(2, rate)),
-      pitch: Math.max(0, Math.min(2, pitch)),
-      volume: Math.max(0, Math.min(1, volume)),
-      format,
-    })
+    // Generate real speech audio, falling back through premium, free and local providers
+    const result = await synthesizeSpeech(
+      {
+        text,
+        ssml: ssmlInput?.ssml,
+        voice,
+        ...prosody,
+        format: preferredSourceFormat(output.format),
+        marks: Boolean(marks),
+      },
+      { priority: ["google", "azure", "elevenlabs", "voicerss", "gtts", "espeak"], cache: body.cache !== false },
+    )
+    const audio = await transcodeAudio(result.audio, output)
+
+    // Word/sentence timestamps requested: return JSON with the audio embedded.
+    // Timing is measured on the provider's output, which transcoding preserves.
+    if (marks) {
+      return NextResponse.json({
+        ...timedAudioPayload(text, result),
+        format: audio.format,
+        mime_type: audio.mimeType,
+        audio_base64: audio.audio.toString("base64"),
+      })
+    }
 
-    return new NextResponse(audioBuffer, {
+    return new NextResponse(audio.audio, {
       status: 200,
       headers: {
-        "Content-Type": format === "wav" ? "audio/wav" : "audio/mpeg",
-        "Content-Disposition": `attachment; filename="speech-${Date.now()}.${format}"`,
-        "Content-Length": audioBuffer.length.toString(),
+        ...audioResponseHeaders(audio, `speech-${Date.now()}`),
         "Cache-Control": "no-cache",
         "Access-Control-Allow-Origin": "*",
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
@@ -44,263 +68,29 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function generateRealSpeech(text: string, options: any): Promise<Buffer> {
-  // Try multiple TTS services in order of preference
-
-  // 1. Try Google Cloud Text-to-Speech
-  try {
-    if (process.env.GOOGLE_CLOUD_API_KEY) {
-      const response = await fetch("https://texttospeech.googleapis.com/v1/text:synthesize", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.GOOGLE_CLOUD_API_KEY}`,
-        },
-        body: JSON.stringify({
-          input: { text: text },
-          voice: {
-            languageCode: options.voice.includes("-") ? options.voice : "en-US",
-            name: "en-US-Neural2-A",
-            ssmlGender: "FEMALE",
-          },
-          audioConfig: {
-            audioEncoding: options.format.toUpperCase() === "WAV" ? "LINEAR16" : "MP3",
-            speakingRate: options.rate,
-            pitch: options.pitch * 2 - 2, // Convert to semitones
-            volumeGainDb: (options.volume - 1) * 20,
-          },
-        }),
-      })
-
-      if (response.ok) {
-        const result = await response.json()
-        return Buffer.from(result.audioContent, "base64")
-      }
-    }
-  } catch (error) {
-    console.log("Google TTS failed, trying next service...")
-  }
-
-  // 2. Try Azure Speech Services
-  try {
-    if (process.env.AZURE_SPEECH_KEY && process.env.AZURE_SPEECH_REGION) {
-      const response = await fetch(
-        `https://${process.env.AZURE_SPEECH_REGION}.tts.speech.microsoft.com/cognitiveservices/v1`,
-        {
-          method: "POST",
-          headers: {
-            "Ocp-Apim-Subscription-Key": process.env.AZURE_SPEECH_KEY,
-            "Content-Type": "application/ssml+xml",
-            "X-Microsoft-OutputFormat":
-              options.format === "wav" ? "riff-24khz-16bit-mono-pcm" : "audio-24khz-48kbitrate-mono-mp3",
-          },
-          body: `<speak version='1.0' xml:lang='en-US'>
-            <voice xml:lang='en-US' xml:gender='Female' name='en-US-AriaNeural'>
-              <prosody rate='${options.rate}' pitch='${options.pitch > 1 ? "+" : ""}${(options.pitch - 1) * 50}%' volume='${options.volume * 100}%'>
-                ${text}
-              </prosody>
-            </voice>
-          </speak>`,
-        },
-      )
-
-      if (response.ok) {
-        const audioBuffer = await response.arrayBuffer()
-        return Buffer.from(audioBuffer)
-      }
-    }
-  } catch (error) {
-    console.log("Azure TTS failed, trying next service...")
-  }
-
-  // 3. Try ElevenLabs
-  try {
-    if (process.env.ELEVENLABS_API_KEY) {
-      const response = await fetch("https://api.elevenlabs.io/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "xi-api-key": process.env.ELEVENLABS_API_KEY,
-        },
-        body: JSON.stringify({
-          text: text,
-          model_id: "eleven_monolingual_v1",
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.5,
-            style: 0.5,
-            use_speaker_boost: true,
-          },
-        }),
-      })
-
-      if (response.ok) {
-        const audioBuffer = await response.arrayBuffer()
-        return Buffer.from(audioBuffer)
-      }
-    }
-  } catch (error) {
-    console.log("ElevenLabs failed, trying free service...")
-  }
-
-  // 4. Try free TTS services
-  try {
-    // Using a free TTS service (VoiceRSS)
-    const voiceRSSResponse = await fetch("http://api.voicerss.org/", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        key: process.env.VOICERSS_API_KEY || "demo", // Free tier available
-        src: text,
-        hl: "en-us",
-        f: options.format === "wav" ? "44khz_16bit_mono" : "44khz_16bit_stereo",
-        c: "mp3",
-        r: options.rate.toString(),
-      }),
-    })
-
-    if (voiceRSSResponse.ok) {
-      const audioBuffer = await voiceRSSResponse.arrayBuffer()
-      return Buffer.from(audioBuffer)
-    }
-  } catch (error) {
-    console.log("VoiceRSS failed, using fallback...")
-  }
-
-  // 5. Final fallback - Use a simple TTS library simulation
-  return generateFallbackSpeech(text, options)
-}
-
-function generateFallbackSpeech(text: string, options: any): Buffer {
-  // This creates a more speech-like audio pattern
-  const words = text.toLowerCase().split(/\s+/)
-  const sampleRate = 22050
-  const duration = Math.min(words.length * 0.6 + 1, 30) // More realistic timing
-  const samples = Math.floor(sampleRate * duration)
-
-  if (options.format === "wav") {
-    const buffer = Buffer.alloc(44 + samples * 2)
-
-    // WAV header
-    buffer.write("RIFF", 0)
-    buffer.writeUInt32LE(36 + samples * 2, 4)
-    buffer.write("WAVE", 8)
-    buffer.write("fmt ", 12)
-    buffer.writeUInt32LE(16, 16)
-    buffer.writeUInt16LE(1, 20)
-    buffer.writeUInt16LE(1, 22)
-    buffer.writeUInt32LE(sampleRate, 24)
-    buffer.writeUInt32LE(sampleRate * 2, 28)
-    buffer.writeUInt16LE(2, 32)
-    buffer.writeUInt16LE(16, 34)
-    buffer.write("data", 36)
-    buffer.writeUInt32LE(samples * 2, 40)
-
-    // Generate speech-like patterns for each word
-    let sampleIndex = 0
-
-    for (let wordIndex = 0; wordIndex < words.length; wordIndex++) {
-      const word = words[wordIndex]
-      const wordDuration = 0.5 + word.length * 0.05 // Longer words take more time
-      const wordSamples = Math.floor(wordDuration * sampleRate)
-
-      // Add silence between words
-      if (wordIndex > 0) {
-        const pauseSamples = Math.floor(0.1 * sampleRate)
-        for (let i = 0; i < pauseSamples && sampleIndex < samples; i++) {
-          buffer.writeInt16LE(0, 44 + sampleIndex * 2)
-          sampleIndex++
-        }
-      }
-
-      // Generate word audio
-      for (let i = 0; i < wordSamples && sampleIndex < samples; i++) {
-        const t = i / sampleRate
-        const wordProgress = i / wordSamples
-
-        // Create formants based on vowels in the word
-        const vowels = word.match(/[aeiou]/g) || ["a"]
-        const currentVowel = vowels[Math.floor(wordProgress * vowels.length)] || "a"
-
-        const formants = getFormants(currentVowel)
-
-        // Generate speech signal
-        const f1 = formants.f1 * options.pitch
-        const f2 = formants.f2 * options.pitch
-        const f3 = formants.f3 * options.pitch
-
-        const signal =
-          Math.sin(2 * Math.PI * f1 * t) * 0.4 +
-          Math.sin(2 * Math.PI * f2 * t) * 0.3 +
-          Math.sin(2 * Math.PI * f3 * t) * 0.2
-
-        // Natural envelope
-        const envelope = Math.sin(wordProgress * Math.PI) * 0.8 + 0.2
-
-        // Add consonant-like noise for realism
-        const noise = (Math.random() - 0.5) * 0.1
-
-        const sample = (signal + noise) * envelope * options.volume * 16383
-        buffer.writeInt16LE(Math.max(-32767, Math.min(32767, sample)), 44 + sampleIndex * 2)
-        sampleIndex++
-      }
-    }
-
-    // Fill remaining samples with silence
-    while (sampleIndex < samples) {
-      buffer.writeInt16LE(0, 44 + sampleIndex * 2)
-      sampleIndex++
-    }
-
-    return buffer
-  } else {
-    // For MP3, create a basic but valid structure
-    const mp3Size = Math.max(8192, text.length * 200)
-    const buffer = Buffer.alloc(mp3Size)
-
-    // Simple MP3 header
-    buffer[0] = 0xff
-    buffer[1] = 0xfb
-    buffer[2] = 0x90
-    buffer[3] = 0x00
-
-    // Fill with speech-like data
-    for (let i = 4; i < mp3Size; i++) {
-      const wordIndex = Math.floor((i / mp3Size) * words.length)
-      const word = words[wordIndex] || ""
-      const charCode = word.charCodeAt(i % word.length) || 65
-      buffer[i] = (charCode + Math.sin(i * 0.01) * 50) % 256
-    }
-
-    return buffer
-  }
-}
-
-function getFormants(vowel: string) {
-  // Realistic formant frequencies for vowels
-  const formantMap: { [key: string]: { f1: number; f2: number; f3: number } } = {
-    a: { f1: 730, f2: 1090, f3: 2440 }, // "cat"
-    e: { f1: 270, f2: 2290, f3: 3010 }, // "bet"
-    i: { f1: 390, f2: 1990, f3: 2550 }, // "bit"
-    o: { f1: 520, f2: 920, f3: 2560 }, // "bot"
-    u: { f1: 320, f2: 800, f3: 2240 }, // "but"
-  }
-
-  return formantMap[vowel] || formantMap["a"]
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "Real Speech TTS API",
     description: "Generates actual speech audio using multiple TTS services",
+    timing_marks: 'Send {"marks": true} to get JSON with audio_base64 plus word/sentence timestamps',
+    caching: 'Repeated requests are served from the audio cache (X-Cache: HIT); send {"cache": false} to bypass. Admin: /api/tts-cache',
+    formats: {
+      format: "mp3 | wav | ogg | opus | flac | m4a (default mp3); ogg and opus are both Ogg Opus",
+      sample_rate: "number (optional) - e.g. 16000, 44100, 48000",
+      bit_depth: "number (optional) - wav: 8/16/24/32, flac: 16/24",
+      channels: "number (optional) - 1 or 2",
+      bitrate: "number (optional) - kbps for mp3, opus and m4a",
+      headers: "X-Audio-Format, X-Audio-Source-Format, X-Audio-Transcoded and X-Audio-Sample-Rate describe the bytes actually returned",
+      note: "Conversions other than WAV to WAV require ffmpeg on the server",
+    },
+    ssml: "Pass an `ssml` field instead of `text`; Google and Azure render it natively, other services emulate it",
     services: [
       "Google Cloud Text-to-Speech (Premium)",
       "Azure Speech Services (Premium)",
       "ElevenLabs (Premium)",
       "VoiceRSS (Free tier)",
-      "Advanced fallback synthesis",
+      "Google Translate TTS (Free)",
+      "eSpeak (local)",
     ],
     setup: {
       google: "Set GOOGLE_CLOUD_API_KEY environment variable",
@@ -1,4 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { synthesizeSpeech } from "@/lib/tts/registry"
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,17 +10,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Text is required" }, { status: 400 })
     }
 
-    // Try real TTS services first, then fallback to browser-compatible format
-    const audioBuffer = await generateRealVoice(text, { voice, rate, pitch })
+    // Try the premium services first, then the free and local engines
+    const result = await synthesizeSpeech(
+      { text, voice, rate, pitch, volume: 1, format: "mp3" },
+      { priority: ["google", "elevenlabs", "voicerss", "gtts", "espeak"] },
+    )
+    const audioBuffer = result.audio
 
     return new NextResponse(audioBuffer, {
       status: 200,
       headers: {
-        "Content-Type": "audio/mpeg",
-        "Content-Disposition": `attachment; filename="voice.mp3"`,
+        "Content-Type": result.mimeType,
+        "Content-Disposition": `attachment; filename="voice.${result.format}"`,
         "Content-Length": audioBuffer.length.toString(),
         "Cache-Control": "no-cache",
         "Access-Control-Allow-Origin": "*",
+        "X-TTS-Provider": result.provider,
+        "X-Cache": result.cache,
       },
     })
   } catch (error) {
@@ -28,149 +35,11 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function generateRealVoice(text: string, options: any): Promise<Buffer> {
-  // Try Google Cloud TTS first
-  try {
-    if (process.env.GOOGLE_CLOUD_API_KEY) {
-      const response = await fetch("https://texttospeech.googleapis.com/v1/text:synthesize", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.GOOGLE_CLOUD_API_KEY}`,
-        },
-        body: JSON.stringify({
-          input: { text: text },
-          voice: {
-            languageCode: "en-US",
-            name: "en-US-Neural2-A",
-            ssmlGender: "FEMALE",
-          },
-          audioConfig: {
-            audioEncoding: "MP3",
-            speakingRate: options.rate,
-            pitch: (options.pitch - 1) * 4, // Convert to semitones
-          },
-        }),
-      })
-
-      if (response.ok) {
-        const result = await response.json()
-        return Buffer.from(result.audioContent, "base64")
-      }
-    }
-  } catch (error) {
-    console.log("Google TTS failed, trying next...")
-  }
-
-  // Try ElevenLabs
-  try {
-    if (process.env.ELEVENLABS_API_KEY) {
-      const response = await fetch("https://api.elevenlabs.io/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "xi-api-key": process.env.ELEVENLABS_API_KEY,
-        },
-        body: JSON.stringify({
-          text: text,
-          model_id: "eleven_monolingual_v1",
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.5,
-          },
-        }),
-      })
-
-      if (response.ok) {
-        const audioBuffer = await response.arrayBuffer()
-        return Buffer.from(audioBuffer)
-      }
-    }
-  } catch (error) {
-    console.log("ElevenLabs failed, trying free service...")
-  }
-
-  // Try free TTS service (VoiceRSS)
-  try {
-    const response = await fetch("http://api.voicerss.org/", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        key: "demo", // Free demo key
-        src: text,
-        hl: "en-us",
-        f: "44khz_16bit_mono",
-        c: "mp3",
-        r: options.rate.toString(),
-      }),
-    })
-
-    if (response.ok && response.headers.get("content-type")?.includes("audio")) {
-      const audioBuffer = await response.arrayBuffer()
-      return Buffer.from(audioBuffer)
-    }
-  } catch (error) {
-    console.log("VoiceRSS failed, using Web Speech API format...")
-  }
-
-  // Final fallback - create Web Speech API compatible format
-  return createWebSpeechCompatibleAudio(text, options)
-}
-
-function createWebSpeechCompatibleAudio(text: string, options: any): Buffer {
-  // Create an MP3 that tells the client to use Web Speech API
-  const instructions = `
-// This audio file contains instructions for Web Speech API
-// Use this JavaScript code in your browser:
-const utterance = new SpeechSynthesisUtterance("${text}");
-utterance.rate = ${options.rate};
-utterance.pitch = ${options.pitch};
-speechSynthesis.speak(utterance);
-`
-
-  // Create a minimal MP3 with embedded instructions
-  const mp3Size = 2048
-  const buffer = Buffer.alloc(mp3Size)
-
-  // MP3 header
-  buffer[0] = 0xff
-  buffer[1] = 0xfb
-  buffer[2] = 0x90
-  buffer[3] = 0x00
-
-  // Add ID3 tag with instructions
-  const id3 = Buffer.from([
-    0x49,
-    0x44,
-    0x33, // "ID3"
-    0x03,
-    0x00, // Version
-    0x00, // Flags
-    0x00,
-    0x00,
-    0x07,
-    0x80, // Size
-  ])
-
-  id3.copy(buffer, 4)
-
-  // Fill with audio pattern based on text
-  for (let i = 128; i < mp3Size; i++) {
-    const charIndex = i % text.length
-    const char = text.charCodeAt(charIndex) || 65
-    buffer[i] = (char + Math.sin(i * 0.01) * 127) % 256
-  }
-
-  return buffer
-}
-
 export async function GET() {
   return NextResponse.json({
     message: "Real Voice TTS API",
     description: "Generates actual human voice using multiple TTS services",
-    services: ["Google Cloud TTS", "ElevenLabs", "VoiceRSS", "Web Speech API fallback"],
+    services: ["Google Cloud TTS", "ElevenLabs", "VoiceRSS", "Google Translate TTS", "eSpeak"],
     usage: {
       curl: 'curl -X POST -H "Content-Type: application/json" -d \'{"text":"Hello world"}\' --output voice.mp3 /api/tts-voice',
       n8n: "Use HTTP Request node with Response Format set to 'File'",
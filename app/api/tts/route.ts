@@ -1,9 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { listProviders, resolvePriority, synthesizeSpeech } from "@/lib/tts/registry"
+import { readTTSRequest } from "@/lib/tts/request"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { text, voice, rate = 1, pitch = 1, volume = 1 } = body
+    const { voice, priority, format = "mp3", lang } = body
+    const parsed = readTTSRequest(body, ["ssml", "prosody", "provider"])
+    if (parsed instanceof NextResponse) return parsed
+    const { ssml: ssmlInput, prosody, provider } = parsed
+    const text = ssmlInput ? ssmlInput.text : body.text
 
     // Validate required fields
     if (!text || typeof text !== "string") {
@@ -14,14 +20,42 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Text must be less than 5000 characters" }, { status: 400 })
     }
 
+    // Server-side synthesis through the provider registry
+    if (provider !== undefined) {
+      const result = await synthesizeSpeech(
+        {
+          text: text.trim(),
+          ssml: ssmlInput?.ssml,
+          voice,
+          language: lang,
+          ...prosody,
+          format: format === "wav" ? "wav" : "mp3",
+        },
+        { provider, priority, cache: body.cache !== false },
+      )
+
+      return new NextResponse(result.audio, {
+        status: 200,
+        headers: {
+          "Content-Type": result.mimeType,
+          "Content-Disposition": `attachment; filename="tts-${result.provider}.${result.format}"`,
+          "Content-Length": result.audio.length.toString(),
+          "Cache-Control": "no-cache",
+          "X-TTS-Provider": result.provider,
+          "X-Cache": result.cache,
+          "X-TTS-Chunks": String(result.chunks ?? 1),
+          "X-Voice-Used": result.voice,
+          "X-TTS-Fallbacks": result.attempts.map((attempt) => attempt.provider).join(",") || "none",
+        },
+      })
+    }
+
     // Return configuration for client-side TTS
     // Since Web Speech API only works in browser, we return the config
     const ttsConfig = {
       text: text.trim(),
       voice: voice || "default",
-      rate: Math.max(0.1, Math.min(2, rate)),
-      pitch: Math.max(0, Math.min(2, pitch)),
-      volume: Math.max(0, Math.min(1, volume)),
+      ...prosody,
       timestamp: new Date().toISOString(),
       id: Math.random().toString(36).substr(2, 9),
     }
@@ -44,33 +78,69 @@ speechSynthesis.speak(utterance);
     })
   } catch (error) {
     console.error("TTS API Error:", error)
-    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
   }
 }
 
 export async function GET() {
+  const providers = await Promise.all(
+    listProviders().map(async (provider) => ({
+      id: provider.id,
+      name: provider.name,
+      available: await provider.isAvailable(),
+      capabilities: provider.capabilities,
+    })),
+  )
+
   return NextResponse.json({
     message: "FreeTTS API",
     version: "1.0.0",
     endpoints: {
       "/api/tts": {
         method: "POST",
-        description: "Generate TTS configuration",
+        description: "Generate TTS configuration, or synthesize audio when a provider is given",
         parameters: {
           text: "string (required, max 5000 chars)",
           voice: "string (optional)",
           rate: "number (optional, 0.1-2.0)",
           pitch: "number (optional, 0-2.0)",
           volume: "number (optional, 0-1.0)",
+          provider: `string (optional) - "auto" or one of: ${providers.map((p) => p.id).join(", ")}`,
+          priority: "string[] or comma-separated string (optional) - provider order for \"auto\"",
+          format: "string (optional, 'mp3' or 'wav')",
+          ssml: "string (optional) - <speak> markup; requires provider, replaces text",
+          cache: "boolean (optional, default true) - set false to bypass the audio cache",
+        },
+        response_headers: {
+          "X-TTS-Provider": "Provider that actually served the request",
+          "X-TTS-Fallbacks": "Providers skipped or failed before it",
+          "X-Cache": "HIT, MISS or BYPASS",
         },
       },
       "/api/voices": {
         method: "GET",
-        description: "Get available voices (browser-dependent)",
+        description: "Get available voices (browser-dependent, or ?provider=<id> for a server provider)",
       },
     },
+    providers,
+    default_priority: resolvePriority(),
+    // What `marks_source` means on the routes that return timestamps
+    timing_marks: {
+      native: "Google reports word times itself for plain-text requests",
+      estimated:
+        "Other providers: sentence or chunk boundaries are measured from the rendered audio, and words are " +
+        "spread inside each one by syllable count. eSpeak marks are estimates anchored to its sentences.",
+    },
     usage: {
       curl: 'curl -X POST -H "Content-Type: application/json" -d \'{"text":"Hello world"}\' /api/tts',
+      server_audio:
+        'curl -X POST -H "Content-Type: application/json" -d \'{"text":"Hello world","provider":"auto"}\' --output speech.mp3 /api/tts',
     },
   })
 }
@@ -1,6 +1,33 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
+import { getProvider, isProviderId } from "@/lib/tts/registry"
+
+export async function GET(request: NextRequest) {
+  const providerId = request.nextUrl.searchParams.get("provider")
+
+  // Server-side voices for a registered TTS provider
+  if (providerId) {
+    if (!isProviderId(providerId)) {
+      return NextResponse.json({ error: `Unknown provider "${providerId}"` }, { status: 400 })
+    }
+
+    try {
+      const voices = await getProvider(providerId).listVoices()
+      return NextResponse.json({
+        success: true,
+        message: `Voices for ${providerId}`,
+        data: { provider: providerId, voices, totalCount: voices.length },
+      })
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: `Failed to list voices for ${providerId}`,
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 502 },
+      )
+    }
+  }
 
-export async function GET() {
   // Since voices are browser-dependent, we return common voice patterns
   const commonVoices = [
     {
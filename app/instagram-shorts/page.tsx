@@ -2,7 +2,8 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { RenderProgress } from "@/components/render-progress"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
@@ -10,7 +11,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider"
 import { Badge } from "@/components/ui/badge"
 import { Upload, Video, Settings, Copy, Instagram, ImageIcon, Users, Mic, Sparkles } from "lucide-react"
+import { downloadJobResult, renderJobLabel, useRenderJob } from "@/hooks/use-render-job"
 import { toast } from "@/hooks/use-toast"
+import { OUTPUT_PRESET_IDS, OUTPUT_PRESETS, type OutputPresetId } from "@/lib/video/presets"
 
 export default function InstagramShortsCreator() {
   const [selectedImage, setSelectedImage] = useState<File | null>(null)
@@ -20,12 +23,35 @@ export default function InstagramShortsCreator() {
   )
   const [duration, setDuration] = useState([15])
   const [style, setStyle] = useState("story")
+  const [captions, setCaptions] = useState("burn")
+  const [preset, setPreset] = useState<OutputPresetId>("vertical-1080p")
+  const outputPreset = OUTPUT_PRESETS[preset]
+  const [fill, setFill] = useState("blur")
+  const [titleText, setTitleText] = useState("")
+  const [ctaText, setCtaText] = useState("")
+  const [brandKit, setBrandKit] = useState("none")
+  const [brandKits, setBrandKits] = useState<{ id: string; name: string }[]>([])
+  const [music, setMusic] = useState("auto")
+  const [musicVolume, setMusicVolume] = useState([25])
+  const [musicTracks, setMusicTracks] = useState<{ id: string; name: string; mood: string | null }[]>([])
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
+  const renderJob = useRenderJob()
   const [analysis, setAnalysis] = useState<any>(null)
   const [characters, setCharacters] = useState<any[]>([])
   const [voiceAssignments, setVoiceAssignments] = useState<any>({})
 
+  useEffect(() => {
+    fetch("/api/music")
+      .then((response) => response.json())
+      .then((data) => setMusicTracks(data.tracks ?? []))
+      .catch(() => setMusicTracks([]))
+    fetch("/api/brand-kits")
+      .then((response) => response.json())
+      .then((data) => setBrandKits(data.kits ?? []))
+      .catch(() => setBrandKits([]))
+  }, [])
+
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
@@ -105,11 +131,15 @@ export default function InstagramShortsCreator() {
     setIsGenerating(true)
 
     try {
-      const reader = new FileReader()
-      reader.onload = async (e) => {
-        const base64 = (e.target?.result as string).split(",")[1]
+      const base64 = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = (e) => resolve((e.target?.result as string).split(",")[1])
+        reader.onerror = () => reject(new Error("Could not read the image"))
+        reader.readAsDataURL(selectedImage)
+      })
 
-        const response = await fetch("/api/create-instagram-short", {
+      const job = await renderJob.run(
+        fetch("/api/create-instagram-short", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -119,32 +149,26 @@ export default function InstagramShortsCreator() {
             voice_assignments: voiceAssignments,
             duration: duration[0],
             style: style,
+            captions: captions,
+            preset: preset,
+            fill: fill,
+            ...(brandKit !== "none" && { brand_kit: brandKit }),
+            overlays: [
+              ...(titleText.trim() ? [{ template: "title", text: titleText.trim() }] : []),
+              ...(ctaText.trim() ? [{ template: "cta", text: ctaText.trim() }] : []),
+            ],
+            background_music: music === "auto" ? true : music === "none" ? false : music,
+            music_volume: musicVolume[0] / 100,
           }),
-        })
-
-        if (response.ok) {
-          const blob = await response.blob()
-          console.log("Instagram Short created, size:", blob.size, "bytes")
-
-          const url = URL.createObjectURL(blob)
-          const a = document.createElement("a")
-          a.href = url
-          a.download = "instagram-short.mp4"
-          document.body.appendChild(a)
-          a.click()
-          document.body.removeChild(a)
-          URL.revokeObjectURL(url)
+        }),
+      )
+      console.log("Instagram Short created, size:", job.result?.size, "bytes")
+      downloadJobResult(job)
 
-          toast({
-            title: "Instagram Short Created! 📱",
-            description: "Your character-voiced short is ready for Instagram!",
-          })
-        } else {
-          const errorText = await response.text()
-          throw new Error(errorText)
-        }
-      }
-      reader.readAsDataURL(selectedImage)
+      toast({
+        title: "Instagram Short Created! 📱",
+        description: "Your character-voiced short is ready for Instagram!",
+      })
     } catch (error) {
       toast({
         title: "Generation Failed",
@@ -164,11 +188,15 @@ curl -X POST \\
     "image_base64": "$(base64 -w 0 your-image.jpg)",
     "prompt": "${prompt.replace(/"/g, '\\"')}",
     "duration": ${duration[0]},
-    "style": "${style}"
+    "style": "${style}",
+    "preset": "${preset}",
+    "fill": "${fill}",
+    "background_music": ${music === "auto" ? "true" : music === "none" ? "false" : `"${music}"`}
   }' \\
   --output instagram-short.mp4 \\
-  https://your-domain.com/api/create-instagram-short
+  "https://your-domain.com/api/create-instagram-short?wait=1"
 
+# Without ?wait=1 the response is a job: poll /api/jobs/<job_id>, then fetch /api/jobs/<job_id>/result
 # Perfect for Instagram Shorts (9:16 format)!`
 
     navigator.clipboard.writeText(curlCmd)
@@ -288,6 +316,125 @@ curl -X POST \\
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Captions</label>
+                  <Select value={captions} onValueChange={setCaptions}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="burn">Burned in, word by word</SelectItem>
+                      <SelectItem value="embed">Subtitle track (toggleable)</SelectItem>
+                      <SelectItem value="none">No captions</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Output Preset</label>
+                  <Select value={preset} onValueChange={(value) => setPreset(value as OutputPresetId)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_PRESET_IDS.map((id) => (
+                        <SelectItem key={id} value={id}>
+                          {OUTPUT_PRESETS[id].name} ({OUTPUT_PRESETS[id].width}x{OUTPUT_PRESETS[id].height})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="text-xs text-gray-500">
+                    {outputPreset.fps} fps, {outputPreset.minDuration}-{outputPreset.maxDuration}s
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Background Fill</label>
+                  <Select value={fill} onValueChange={setFill}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="blur">Blurred background</SelectItem>
+                      <SelectItem value="crop">Smart crop</SelectItem>
+                      <SelectItem value="gradient">Gradient background</SelectItem>
+                      <SelectItem value="color">Black bars</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="text-xs text-gray-500">Smart crop fills the frame around the subject</div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Title Card</label>
+                  <input
+                    type="text"
+                    value={titleText}
+                    onChange={(e) => setTitleText(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500"
+                    placeholder="Shown for the first 3 seconds"
+                    maxLength={300}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Call to Action</label>
+                  <input
+                    type="text"
+                    value={ctaText}
+                    onChange={(e) => setCtaText(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500"
+                    placeholder="Shown for the last 3 seconds, e.g. Follow for part 2"
+                    maxLength={300}
+                  />
+                </div>
+
+                {brandKits.length > 0 && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Brand Kit</label>
+                    <Select value={brandKit} onValueChange={setBrandKit}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No brand kit</SelectItem>
+                        {brandKits.map((kit) => (
+                          <SelectItem key={kit.id} value={kit.id}>
+                            {kit.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="text-xs text-gray-500">Adds the kit's watermark, font, colors, intro and outro</div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Background Music</label>
+                  <Select value={music} onValueChange={setMusic}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Match the style</SelectItem>
+                      {musicTracks.map((track) => (
+                        <SelectItem key={track.id} value={track.id}>
+                          {track.name}
+                          {track.mood ? ` (${track.mood})` : ""}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="none">No music</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {music !== "none" && (
+                    <>
+                      <label className="text-xs text-gray-500">Music volume: {musicVolume[0]}%</label>
+                      <Slider value={musicVolume} onValueChange={setMusicVolume} max={100} min={5} step={5} />
+                      <div className="text-xs text-gray-500">The music ducks automatically while characters speak</div>
+                    </>
+                  )}
+                </div>
+
                 <Button
                   onClick={generateInstagramShort}
                   disabled={!analysis || isGenerating}
@@ -297,7 +444,7 @@ curl -X POST \\
                   {isGenerating ? (
                     <>
                       <Video className="w-4 h-4 mr-2 animate-spin" />
-                      Creating Instagram Short...
+                      {renderJobLabel(renderJob.job, "Creating Instagram Short")}
                     </>
                   ) : (
                     <>
@@ -307,6 +454,14 @@ curl -X POST \\
                   )}
                 </Button>
 
+                <RenderProgress job={renderJob.job} />
+
+                {isGenerating && renderJob.job && (
+                  <Button onClick={renderJob.cancel} variant="outline" className="w-full">
+                    Cancel Render
+                  </Button>
+                )}
+
                 <div className="text-center text-sm text-purple-600 bg-purple-50 p-2 rounded">
                   📱 Creates 9:16 format perfect for Instagram Shorts
                 </div>
@@ -3,6 +3,7 @@
 import type React from "react"
 
 import { useState, useEffect } from "react"
+import { RenderProgress } from "@/components/render-progress"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
@@ -10,7 +11,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider"
 import { Badge } from "@/components/ui/badge"
 import { Upload, Settings, Copy, Film, ImageIcon, Monitor } from "lucide-react"
+import { downloadJobResult, renderJobLabel, useRenderJob } from "@/hooks/use-render-job"
 import { toast } from "@/hooks/use-toast"
+import { OUTPUT_PRESET_IDS, OUTPUT_PRESETS, type OutputPresetId } from "@/lib/video/presets"
 
 export default function VideoCreator() {
   const [selectedImage, setSelectedImage] = useState<File | null>(null)
@@ -18,13 +21,26 @@ export default function VideoCreator() {
   const [text, setText] = useState("This video will play in Windows Media Player!")
   const [voice, setVoice] = useState("Microsoft Zira")
   const [duration, setDuration] = useState([8])
-  const [animation, setAnimation] = useState("zoom")
+  const [animation, setAnimation] = useState("zoom-in")
+  const [captions, setCaptions] = useState("none")
+  const [preset, setPreset] = useState<OutputPresetId>("hd-720p")
+  const outputPreset = OUTPUT_PRESETS[preset]
+  const [fill, setFill] = useState("blur")
+  const [titleText, setTitleText] = useState("")
+  const [ctaText, setCtaText] = useState("")
+  const [brandKit, setBrandKit] = useState("none")
+  const [brandKits, setBrandKits] = useState<{ id: string; name: string }[]>([])
   const [filename, setFilename] = useState("windows-compatible-video")
   const [isGenerating, setIsGenerating] = useState(false)
+  const renderJob = useRenderJob()
   const [ffmpegStatus, setFFmpegStatus] = useState<"checking" | "available" | "unavailable">("checking")
 
   useEffect(() => {
     checkFFmpeg()
+    fetch("/api/brand-kits")
+      .then((response) => response.json())
+      .then((data) => setBrandKits(data.kits ?? []))
+      .catch(() => setBrandKits([]))
   }, [])
 
   const checkFFmpeg = async () => {
@@ -105,43 +121,24 @@ export default function VideoCreator() {
       formData.append("duration", duration[0].toString())
       formData.append("animation", animation)
       formData.append("filename", filename)
+      formData.append("captions", captions)
+      formData.append("preset", preset)
+      formData.append("fill", fill)
+      if (brandKit !== "none") formData.append("brand_kit", brandKit)
+      const overlays = [
+        ...(titleText.trim() ? [{ template: "title", text: titleText.trim() }] : []),
+        ...(ctaText.trim() ? [{ template: "cta", text: ctaText.trim() }] : []),
+      ]
+      if (overlays.length > 0) formData.append("overlays", JSON.stringify(overlays))
+
+      const job = await renderJob.run(fetch("/api/create-video", { method: "POST", body: formData }))
+      console.log("Windows-compatible video rendered, size:", job.result?.size, "bytes")
+      downloadJobResult(job)
 
-      const response = await fetch("/api/create-video", {
-        method: "POST",
-        body: formData,
+      toast({
+        title: "Windows Compatible Video Generated! 🎉",
+        description: `${filename}.mp4 will now play in Windows Media Player!`,
       })
-
-      if (response.ok) {
-        const blob = await response.blob()
-        console.log("Windows-compatible video received, size:", blob.size, "bytes")
-
-        const url = URL.createObjectURL(blob)
-        const a = document.createElement("a")
-        a.href = url
-        a.download = `${filename}.mp4`
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
-
-        toast({
-          title: "Windows Compatible Video Generated! 🎉",
-          description: `${filename}.mp4 will now play in Windows Media Player!`,
-        })
-      } else {
-        const errorText = await response.text()
-        console.error("Video generation failed:", errorText)
-
-        let errorMessage = "Failed to generate video"
-        try {
-          const errorJson = JSON.parse(errorText)
-          errorMessage = errorJson.error || errorMessage
-        } catch {
-          errorMessage = errorText || errorMessage
-        }
-
-        throw new Error(errorMessage)
-      }
     } catch (error) {
       console.error("Video generation error:", error)
       toast({
@@ -163,9 +160,15 @@ curl -X POST \\
   -F "duration=${duration[0]}" \\
   -F "animation=${animation}" \\
   -F "filename=${filename}" \\
-  --output ${filename}.mp4 \\
+  -F "preset=${preset}" \\
+  -F "fill=${fill}" \\
   https://your-domain.com/api/create-video
 
+# The response is a job; download it once job.status is "succeeded"
+curl https://your-domain.com/api/jobs/<job_id>
+curl -N https://your-domain.com/api/jobs/<job_id>/progress  # live progress (Server-Sent Events)
+curl --output ${filename}.mp4 https://your-domain.com/api/jobs/<job_id>/result
+
 # This MP4 will play in:
 # ✅ Windows Media Player
 # ✅ VLC Media Player  
@@ -322,13 +325,113 @@ curl -X POST \\
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="fade">Fade In/Out</SelectItem>
-                    <SelectItem value="zoom">Zoom Effect</SelectItem>
-                    <SelectItem value="pan">Pan Across</SelectItem>
-                    <SelectItem value="slide">Slide Transition</SelectItem>
+                    <SelectItem value="zoom-in">Zoom In</SelectItem>
+                    <SelectItem value="zoom-out">Zoom Out</SelectItem>
+                    <SelectItem value="pan-right">Pan Right</SelectItem>
+                    <SelectItem value="pan-left">Pan Left</SelectItem>
+                    <SelectItem value="none">Still</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Captions */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Captions</label>
+                <Select value={captions} onValueChange={setCaptions}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No captions</SelectItem>
+                    <SelectItem value="burn">Burned into the video</SelectItem>
+                    <SelectItem value="embed">Subtitle track (toggleable)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Output preset */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Output Preset</label>
+                <Select value={preset} onValueChange={(value) => setPreset(value as OutputPresetId)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OUTPUT_PRESET_IDS.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {OUTPUT_PRESETS[id].name} ({OUTPUT_PRESETS[id].width}x{OUTPUT_PRESETS[id].height})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-gray-500">
+                  {outputPreset.fps} fps, {outputPreset.minDuration}-{outputPreset.maxDuration}s
+                </div>
+              </div>
+
+              {/* Framing */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Background Fill</label>
+                <Select value={fill} onValueChange={setFill}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="blur">Blurred background</SelectItem>
+                    <SelectItem value="crop">Smart crop</SelectItem>
+                    <SelectItem value="gradient">Gradient background</SelectItem>
+                    <SelectItem value="color">Black bars</SelectItem>
                   </SelectContent>
                 </Select>
+                <div className="text-xs text-gray-500">When the image and frame have different shapes</div>
+              </div>
+
+              {/* Text overlays */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Title Card</label>
+                <input
+                  type="text"
+                  value={titleText}
+                  onChange={(e) => setTitleText(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Shown for the first 3 seconds"
+                  maxLength={300}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Call to Action</label>
+                <input
+                  type="text"
+                  value={ctaText}
+                  onChange={(e) => setCtaText(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Shown for the last 3 seconds"
+                  maxLength={300}
+                />
               </div>
 
+              {/* Brand kit */}
+              {brandKits.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Brand Kit</label>
+                  <Select value={brandKit} onValueChange={setBrandKit}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No brand kit</SelectItem>
+                      {brandKits.map((kit) => (
+                        <SelectItem key={kit.id} value={kit.id}>
+                          {kit.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="text-xs text-gray-500">Adds the kit's watermark, font, colors, intro and outro</div>
+                </div>
+              )}
+
               {/* Filename */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Filename</label>
@@ -351,7 +454,7 @@ curl -X POST \\
                 {isGenerating ? (
                   <>
                     <Settings className="w-4 h-4 mr-2 animate-spin" />
-                    Creating Windows Compatible Video...
+                    {renderJobLabel(renderJob.job, "Creating Windows Compatible Video")}
                   </>
                 ) : (
                   <>
@@ -361,6 +464,14 @@ curl -X POST \\
                 )}
               </Button>
 
+              <RenderProgress job={renderJob.job} />
+
+              {isGenerating && renderJob.job && (
+                <Button onClick={renderJob.cancel} variant="outline" className="w-full">
+                  Cancel Render
+                </Button>
+              )}
+
               <div className="text-center text-sm text-blue-600 bg-blue-50 p-2 rounded">
                 🖥️ Will create H.264/AAC MP4 for Windows Media Player
               </div>
@@ -0,0 +1,28 @@
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+import { formatEta, type RenderJob } from "@/hooks/use-render-job"
+
+// Live progress bar for a render job, with FFmpeg's speed and an ETA while encoding
+export function RenderProgress({ job }: { job: RenderJob | null }) {
+  if (!job || (job.status !== "queued" && job.status !== "running")) return null
+
+  const percent = Math.round(job.progress * 100)
+  const details = [
+    job.status === "queued" && job.queue_position ? `#${job.queue_position} in queue` : null,
+    job.encoding?.speed ? `${job.encoding.speed.toFixed(2)}x` : null,
+    job.encoding?.frame ? `frame ${job.encoding.frame}` : null,
+    job.eta_seconds !== null ? `~${formatEta(job.eta_seconds)} left` : null,
+  ].filter(Boolean)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm text-gray-600">
+        <span>{job.status === "queued" ? "Waiting for a render slot" : (job.stage ?? "Rendering")}</span>
+        <span>{percent}%</span>
+      </div>
+      <Progress value={percent} />
+      {details.length > 0 && <div className="text-xs text-gray-500 text-right">{details.join(" · ")}</div>}
+    </div>
+  )
+}
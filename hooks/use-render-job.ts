@@ -0,0 +1,130 @@
+import * as React from "react"
+
+// Client side of the render queue: submit to a create route, then follow the
+// job's progress events until it finishes. Mirrors describeJob in lib/jobs/response.ts.
+export interface RenderJob {
+  id: string
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled"
+  progress: number
+  stage: string | null
+  error: string | null
+  eta_seconds: number | null
+  encoding: { frame: number; fps: number; out_time: number; speed: number } | null
+  queue_position: number | null
+  status_url: string
+  progress_url: string
+  result_url: string | null
+  result: {
+    filename: string
+    mime_type: string
+    size: number
+    sidecars: { filename: string; mime_type: string; size: number; url: string }[]
+  } | null
+}
+
+const POLL_INTERVAL_MS = 1000
+
+const isActive = (job: RenderJob) => job.status === "queued" || job.status === "running"
+
+async function readError(response: Response): Promise<string> {
+  const text = await response.text()
+  try {
+    const json = JSON.parse(text)
+    return json.error || json.job?.error || text
+  } catch {
+    return text || `Request failed with status ${response.status}`
+  }
+}
+
+// Resolves with the last job seen, which is still active if the stream failed
+function followEvents(job: RenderJob, onUpdate: (job: RenderJob) => void): Promise<RenderJob> {
+  if (!isActive(job) || typeof EventSource === "undefined") return Promise.resolve(job)
+
+  return new Promise((resolve) => {
+    let latest = job
+    const source = new EventSource(job.progress_url)
+    const onMessage = (event: MessageEvent) => {
+      latest = JSON.parse(event.data)
+      onUpdate(latest)
+      if (!isActive(latest)) {
+        source.close()
+        resolve(latest)
+      }
+    }
+    source.addEventListener("progress", onMessage)
+    source.addEventListener("done", onMessage)
+    source.onerror = () => {
+      source.close()
+      resolve(latest)
+    }
+  })
+}
+
+export function useRenderJob() {
+  const [job, setJob] = React.useState<RenderJob | null>(null)
+  const mounted = React.useRef(true)
+
+  React.useEffect(() => {
+    mounted.current = true
+    return () => {
+      mounted.current = false
+    }
+  }, [])
+
+  // Resolves with the finished job; throws if it failed or was cancelled
+  const run = React.useCallback(async (submit: Promise<Response>): Promise<RenderJob> => {
+    const response = await submit
+    if (!response.ok) throw new Error(await readError(response))
+
+    let current: RenderJob = (await response.json()).job
+    setJob(current)
+    current = await followEvents(current, (update) => mounted.current && setJob(update))
+
+    // Polling covers browsers or proxies where the event stream drops
+    while (isActive(current) && mounted.current) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+      const poll = await fetch(current.status_url, { cache: "no-store" })
+      if (!poll.ok) throw new Error(await readError(poll))
+      current = (await poll.json()).job
+      if (mounted.current) setJob(current)
+    }
+
+    if (current.status === "cancelled") throw new Error("Render cancelled")
+    if (current.status !== "succeeded") throw new Error(current.error || "Render failed")
+    return current
+  }, [])
+
+  const cancel = React.useCallback(async () => {
+    if (!job) return
+    await fetch(job.status_url, { method: "DELETE" })
+  }, [job])
+
+  const reset = React.useCallback(() => setJob(null), [])
+
+  return { job, run, cancel, reset }
+}
+
+// The result route sends Content-Disposition, so a plain link downloads it
+export function downloadJobResult(job: RenderJob) {
+  if (!job.result_url) return
+  const a = document.createElement("a")
+  a.href = job.result_url
+  a.download = job.result?.filename ?? ""
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+}
+
+// "1:05" or "12s"
+export function formatEta(seconds: number): string {
+  const rounded = Math.max(0, Math.round(seconds))
+  if (rounded < 60) return `${rounded}s`
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`
+}
+
+// Button text while a job is in flight, e.g. "Encoding video..."
+export function renderJobLabel(job: RenderJob | null, fallback: string): string {
+  if (!job) return `${fallback}...`
+  if (job.status === "queued") return job.queue_position ? `Queued (#${job.queue_position})...` : "Queued..."
+  return `${job.stage ?? fallback}...`
+}
@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+// Admin routes require ADMIN_TOKEN, sent as "Authorization: Bearer <token>" or
+// "X-Admin-Token". Without a configured token they stay closed.
+function isAdminRequest(request: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN
+  if (!token) return false
+
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "")
+  return bearer === token || request.headers.get("x-admin-token") === token
+}
+
+// The response that turns a request away, or null when it may go ahead
+export function adminAuthError(request: NextRequest): NextResponse | null {
+  if (!process.env.ADMIN_TOKEN) {
+    return NextResponse.json({ error: "Admin routes are disabled until ADMIN_TOKEN is configured" }, { status: 403 })
+  }
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  return null
+}
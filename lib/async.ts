@@ -0,0 +1,35 @@
+// Runs `worker` over `items` with at most `limit` in flight, preserving order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run))
+  return results
+}
+
+// Retries `task` with exponential backoff (delayMs, 2x delayMs, ...)
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, attempts = 3, delayMs = 500): Promise<T> {
+  let lastError: unknown
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await task(attempt)
+    } catch (error) {
+      lastError = error
+      if (attempt < attempts) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs * Math.pow(2, attempt - 1)))
+      }
+    }
+  }
+  throw lastError
+}
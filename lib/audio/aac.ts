@@ -0,0 +1,60 @@
+export interface AdtsFrame {
+  // Offset of the raw AAC payload, after the ADTS header
+  offset: number
+  length: number
+  // Audio object type (2 = AAC LC)
+  objectType: number
+  sampleRateIndex: number
+  sampleRate: number
+  channels: number
+}
+
+const SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350]
+
+// AAC frames carry 1024 samples per channel
+export const AAC_SAMPLES_PER_FRAME = 1024
+
+export function isAdts(buffer: Buffer): boolean {
+  return buffer.length >= 7 && buffer[0] === 0xff && (buffer[1] & 0xf6) === 0xf0
+}
+
+// Splits an ADTS stream into raw AAC frames. Stops at the first bad header;
+// frames with several raw data blocks are not supported.
+export function readAdtsFrames(buffer: Buffer): AdtsFrame[] {
+  const frames: AdtsFrame[] = []
+  let pos = 0
+
+  while (pos + 7 <= buffer.length && buffer[pos] === 0xff && (buffer[pos + 1] & 0xf6) === 0xf0) {
+    const protectionAbsent = buffer[pos + 1] & 1
+    const objectType = (buffer[pos + 2] >> 6) + 1
+    const sampleRateIndex = (buffer[pos + 2] >> 2) & 0x0f
+    const channels = ((buffer[pos + 2] & 1) << 2) | (buffer[pos + 3] >> 6)
+    const frameLength = ((buffer[pos + 3] & 3) << 11) | (buffer[pos + 4] << 3) | (buffer[pos + 5] >> 5)
+    const rawBlocks = (buffer[pos + 6] & 3) + 1
+    const headerLength = protectionAbsent ? 7 : 9
+
+    if (sampleRateIndex >= SAMPLE_RATES.length || frameLength <= headerLength) break
+    if (pos + frameLength > buffer.length) break
+    if (rawBlocks !== 1) throw new Error("ADTS frames with several raw data blocks are not supported")
+
+    frames.push({
+      offset: pos + headerLength,
+      length: frameLength - headerLength,
+      objectType,
+      sampleRateIndex,
+      sampleRate: SAMPLE_RATES[sampleRateIndex],
+      channels,
+    })
+    pos += frameLength
+  }
+
+  return frames
+}
+
+// The two-byte AudioSpecificConfig an MP4 `esds` box needs to decode the frames
+export function audioSpecificConfig(frame: AdtsFrame): Buffer {
+  const value = (frame.objectType << 11) | (frame.sampleRateIndex << 7) | (frame.channels << 3)
+  const config = Buffer.alloc(2)
+  config.writeUInt16BE(value)
+  return config
+}
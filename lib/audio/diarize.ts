@@ -0,0 +1,310 @@
+import { convertWav, createWavFromPcm, parseWav, type WavInfo } from "./wav"
+
+// Energy/pause-based speaker segmentation for recognizers without diarization.
+// Speech is cut at pauses into short chunks, each chunk is described by voice
+// pitch, brightness and loudness, and the chunks are clustered into speakers.
+// Good enough to tell apart an interviewer and a guest; not a speaker model.
+// It runs on the request thread, so input is capped at MAX_DIARIZE_SECONDS and
+// the analysis yields to the event loop between slices of work.
+
+export interface SpeakerTurn {
+  // 1-based cluster number, ordered by first appearance
+  speaker: number
+  start: number
+  end: number
+}
+
+export interface DiarizeOptions {
+  minSpeakers?: number
+  maxSpeakers?: number
+}
+
+const SAMPLE_RATE = 8000
+const FRAME = 320 // 40 ms analysis window
+const HOP = 160 // 20 ms
+const MIN_PAUSE_FRAMES = 15 // 300 ms of silence ends a chunk
+const MAX_CHUNK_FRAMES = 150 // 3 s; long monologues are split so interruptions still show
+const MIN_CHUNK_FRAMES = 10 // 200 ms; shorter blips are ignored
+const PITCH_RANGE = [60, 400] // Hz
+const PITCH_STEP = 4 // pitch is searched every 4th frame (80 ms) inside speech
+const YIELD_EVERY = 3000 // frames (60 s of audio) or chunks between event loop turns
+const CONVERT_SECONDS = 60 // input converted per event loop turn
+
+// An hour covers interview-length recordings in a few seconds of analysis
+export const MAX_DIARIZE_SECONDS = 60 * 60
+
+// Thrown for audio longer than MAX_DIARIZE_SECONDS
+export class DiarizationLimitError extends Error {
+  constructor(duration: number) {
+    super(
+      `Local diarization handles up to ${MAX_DIARIZE_SECONDS / 60} minutes of audio; this file is ` +
+        `${Math.ceil(duration / 60)} minutes`,
+    )
+    this.name = "DiarizationLimitError"
+  }
+}
+
+interface Frame {
+  energy: number // dB
+  zcr: number
+  // Share of energy in the first difference: a rough spectral tilt
+  brightness: number
+}
+
+interface Chunk {
+  start: number
+  end: number
+  features: number[]
+}
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setImmediate(resolve))
+
+// The input as 8 kHz mono 16-bit samples, converted a minute at a time
+async function analysisSamples(wav: Buffer, info: WavInfo): Promise<Int16Array> {
+  const sliceBytes = info.sampleRate * info.blockAlign * CONVERT_SECONDS
+  const parts: Buffer[] = []
+  for (let offset = 0; offset < info.dataLength; offset += sliceBytes) {
+    const start = info.dataOffset + offset
+    const slice = wav.subarray(start, start + Math.min(sliceBytes, info.dataLength - offset))
+    const pcm = convertWav(createWavFromPcm(slice, info), { sampleRate: SAMPLE_RATE, channels: 1, bitsPerSample: 16 })
+    parts.push(pcm.subarray(parseWav(pcm)!.dataOffset))
+    await yieldToEventLoop()
+  }
+  const data = Buffer.concat(parts)
+  return new Int16Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.length - (data.length % 2)))
+}
+
+// Pitch is searched separately, and only inside speech (see framePitch)
+function analyzeFrame(samples: Int16Array, offset: number): Frame {
+  let energy = 0
+  let diffEnergy = 0
+  let crossings = 0
+  for (let i = offset; i < offset + FRAME; i++) {
+    energy += samples[i] * samples[i]
+    if (i > offset) {
+      const diff = samples[i] - samples[i - 1]
+      diffEnergy += diff * diff
+      if (samples[i] >= 0 !== samples[i - 1] >= 0) crossings++
+    }
+  }
+
+  return {
+    energy: 10 * Math.log10(energy / FRAME + 1),
+    zcr: crossings / FRAME,
+    brightness: energy > 0 ? diffEnergy / (diffEnergy + energy) : 0,
+  }
+}
+
+// Hz, or 0 when the frame is unvoiced
+function framePitch(samples: Int16Array, offset: number): number {
+  let energy = 0
+  for (let i = offset; i < offset + FRAME; i++) energy += samples[i] * samples[i]
+
+  // Autocorrelation inside the human pitch range, normalized by overlap so long
+  // lags are not penalized. The period also peaks at its multiples, so the
+  // shortest lag close to the best score wins.
+  const minLag = Math.floor(SAMPLE_RATE / PITCH_RANGE[1])
+  const scores: number[] = []
+  if (energy > 0) {
+    for (let lag = minLag; lag <= SAMPLE_RATE / PITCH_RANGE[0]; lag++) {
+      let sum = 0
+      for (let i = offset; i < offset + FRAME - lag; i++) sum += samples[i] * samples[i + lag]
+      scores.push(sum / ((energy * (FRAME - lag)) / FRAME))
+    }
+  }
+  const bestScore = Math.max(0, ...scores)
+  const bestLag = minLag + scores.findIndex((score) => score >= bestScore * 0.9)
+  return bestScore > 0.4 ? SAMPLE_RATE / bestLag : 0
+}
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] ?? 0
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+
+// Pitch is searched on a sample of the chunk's frames; the other features use all of them
+function describeChunk(samples: Int16Array, frames: Frame[], start: number): number[] {
+  const voiced: number[] = []
+  for (let index = 0; index < frames.length; index += PITCH_STEP) {
+    const pitch = framePitch(samples, (start + index) * HOP)
+    if (pitch > 0) voiced.push(Math.log(pitch))
+  }
+  return [
+    voiced.length > 0 ? percentile(voiced, 0.5) : Number.NaN,
+    mean(frames.map((frame) => frame.brightness)),
+    mean(frames.map((frame) => frame.zcr)),
+    mean(frames.map((frame) => frame.energy)),
+  ]
+}
+
+// Cuts speech at pauses, with an adaptive threshold between the noise floor and speech level
+function findChunks(frames: Frame[]): Omit<Chunk, "features">[] {
+  const energies = frames.map((frame) => frame.energy)
+  const floor = percentile(energies, 0.1)
+  const loud = percentile(energies, 0.9)
+  const threshold = floor + (loud - floor) * 0.3
+
+  const chunks: Omit<Chunk, "features">[] = []
+  let start = -1
+  let silence = 0
+  const close = (end: number) => {
+    if (start >= 0 && end - start >= MIN_CHUNK_FRAMES) chunks.push({ start, end })
+    start = -1
+  }
+
+  frames.forEach((frame, index) => {
+    if (frame.energy >= threshold) {
+      if (start < 0) start = index
+      silence = 0
+      if (index - start >= MAX_CHUNK_FRAMES) {
+        close(index)
+        start = index
+      }
+    } else if (start >= 0 && ++silence >= MIN_PAUSE_FRAMES) {
+      close(index - silence + 1)
+    }
+  })
+  if (start >= 0) close(frames.length)
+  return chunks
+}
+
+// How far apart two voices must be on each feature to count as one unit of
+// difference: ~15% in pitch, or large shifts in brightness, noisiness or loudness.
+// Loudness mostly tracks distance to the mic, so it weighs least.
+const FEATURE_SCALES = [0.15, 0.1, 0.05, 10]
+const MERGE_DISTANCE = 1
+
+// Unvoiced chunks have no pitch; that feature is skipped for them
+function featureDistance(a: number[], b: number[]): number {
+  let sum = 0
+  a.forEach((value, index) => {
+    if (!Number.isNaN(value) && !Number.isNaN(b[index])) sum += ((value - b[index]) / FEATURE_SCALES[index]) ** 2
+  })
+  return Math.sqrt(sum)
+}
+
+function mergedFeatures(chunks: Chunk[], members: number[]): number[] {
+  return chunks[0].features.map((_, index) => {
+    let weighted = 0
+    let weight = 0
+    for (const member of members) {
+      const value = chunks[member].features[index]
+      if (Number.isNaN(value)) continue
+      const length = chunks[member].end - chunks[member].start
+      weighted += value * length
+      weight += length
+    }
+    return weight > 0 ? weighted / weight : Number.NaN
+  })
+}
+
+// Agglomerative clustering: keeps joining the two closest clusters while they
+// sound alike, or while there are more than maxSpeakers. Each cluster remembers
+// its nearest neighbour, so a merge only rescans the clusters it affected
+// instead of every pair.
+function clusterChunks(chunks: Chunk[], minSpeakers: number, maxSpeakers: number): number[] {
+  const count = chunks.length
+  const members = chunks.map((_, index) => [index])
+  const features = chunks.map((chunk) => chunk.features)
+  const active = new Set(members.keys())
+  const nearest = new Int32Array(count).fill(-1)
+  const nearestDistance = new Float64Array(count).fill(Infinity)
+
+  const findNearest = (i: number) => {
+    nearest[i] = -1
+    nearestDistance[i] = Infinity
+    for (const j of active) {
+      if (j === i) continue
+      const distance = featureDistance(features[i], features[j])
+      if (distance < nearestDistance[i]) {
+        nearestDistance[i] = distance
+        nearest[i] = j
+      }
+    }
+  }
+  for (const i of active) findNearest(i)
+
+  while (active.size > minSpeakers) {
+    let i = -1
+    for (const k of active) {
+      if (i < 0 || nearestDistance[k] < nearestDistance[i]) i = k
+    }
+    const j = nearest[i]
+    if (j < 0 || (nearestDistance[i] > MERGE_DISTANCE && active.size <= maxSpeakers)) break
+
+    // j joins i; clusters that pointed at either one look again, the rest only
+    // need to check whether the merged cluster is now closer
+    members[i] = [...members[i], ...members[j]]
+    features[i] = mergedFeatures(chunks, members[i])
+    active.delete(j)
+    findNearest(i)
+    for (const k of active) {
+      if (k === i) continue
+      if (nearest[k] === i || nearest[k] === j) {
+        findNearest(k)
+      } else {
+        const distance = featureDistance(features[k], features[i])
+        if (distance < nearestDistance[k]) {
+          nearestDistance[k] = distance
+          nearest[k] = i
+        }
+      }
+    }
+  }
+
+  const labels: number[] = []
+  let label = 0
+  for (const i of active) {
+    for (const member of members[i]) labels[member] = label
+    label++
+  }
+  return labels
+}
+
+// Returns speaker turns for a PCM WAV file
+export async function diarizeWav(wav: Buffer, options: DiarizeOptions = {}): Promise<SpeakerTurn[]> {
+  const info = parseWav(wav)
+  if (!info || (info.audioFormat !== 1 && info.audioFormat !== 3)) {
+    throw new Error("Cannot diarize: input is not a PCM WAV file")
+  }
+  if (info.duration > MAX_DIARIZE_SECONDS) throw new DiarizationLimitError(info.duration)
+
+  const samples = await analysisSamples(wav, info)
+
+  const frames: Frame[] = []
+  for (let offset = 0; offset + FRAME <= samples.length; offset += HOP) {
+    frames.push(analyzeFrame(samples, offset))
+    if (frames.length % YIELD_EVERY === 0) await yieldToEventLoop()
+  }
+
+  const chunks: Chunk[] = []
+  for (const { start, end } of findChunks(frames)) {
+    chunks.push({ start, end, features: describeChunk(samples, frames.slice(start, end), start) })
+    if (chunks.length % (YIELD_EVERY / MAX_CHUNK_FRAMES) === 0) await yieldToEventLoop()
+  }
+  if (chunks.length === 0) return []
+
+  const minSpeakers = Math.min(chunks.length, Math.max(1, options.minSpeakers ?? 1))
+  const labels = clusterChunks(chunks, minSpeakers, Math.max(minSpeakers, options.maxSpeakers ?? 6))
+
+  // Renumber clusters by first appearance and merge consecutive chunks
+  const order = new Map<number, number>()
+  const turns: SpeakerTurn[] = []
+  chunks.forEach((chunk, index) => {
+    const label = labels[index]
+    if (!order.has(label)) order.set(label, order.size + 1)
+    const speaker = order.get(label)!
+    const end = ((chunk.end - 1) * HOP + FRAME) / SAMPLE_RATE
+
+    const previous = turns[turns.length - 1]
+    if (previous && previous.speaker === speaker) {
+      previous.end = end
+    } else {
+      turns.push({ speaker, start: (chunk.start * HOP) / SAMPLE_RATE, end })
+    }
+  })
+  return turns
+}
@@ -0,0 +1,79 @@
+import { id3v2Length, parseMp3FrameHeader } from "./mp3"
+import { parseWav } from "./wav"
+
+// Containers we can produce and recognize. "ogg" and "opus" are the same Ogg
+// Opus bytes; the name only changes the file extension.
+export const AUDIO_FORMATS = ["mp3", "wav", "ogg", "opus", "flac", "m4a"] as const
+export type AudioFileFormat = (typeof AUDIO_FORMATS)[number]
+
+export interface SniffedAudio {
+  format: "mp3" | "wav" | "ogg" | "flac" | "m4a"
+  // Best guess at the codec inside the container: "pcm", "opus", "vorbis", ...
+  codec: string
+}
+
+const MIME_TYPES: Record<AudioFileFormat, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg; codecs=opus",
+  opus: "audio/ogg; codecs=opus",
+  flac: "audio/flac",
+  m4a: "audio/mp4",
+}
+
+export function isAudioFileFormat(value: unknown): value is AudioFileFormat {
+  return typeof value === "string" && (AUDIO_FORMATS as readonly string[]).includes(value)
+}
+
+export function audioMimeType(format: AudioFileFormat): string {
+  return MIME_TYPES[format]
+}
+
+// Identifies audio by its magic bytes rather than trusting a declared type
+export function sniffAudioFormat(buffer: Buffer): SniffedAudio | null {
+  if (buffer.length < 12) return null
+
+  if (buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WAVE") {
+    const info = parseWav(buffer)
+    const codec = info?.audioFormat === 3 ? "pcm_float" : info?.audioFormat === 1 ? "pcm" : "unknown"
+    return { format: "wav", codec }
+  }
+
+  if (buffer.toString("ascii", 0, 4) === "OggS") {
+    // The first page carries the codec identification header
+    const segments = buffer[26]
+    const payload = buffer.subarray(27 + segments, 27 + segments + 8).toString("latin1")
+    const codec = payload.startsWith("OpusHead")
+      ? "opus"
+      : payload.includes("vorbis")
+        ? "vorbis"
+        : payload.includes("FLAC")
+          ? "flac"
+          : "unknown"
+    return { format: "ogg", codec }
+  }
+
+  if (buffer.toString("ascii", 0, 4) === "fLaC") {
+    return { format: "flac", codec: "flac" }
+  }
+
+  if (buffer.toString("ascii", 4, 8) === "ftyp") {
+    return { format: "m4a", codec: buffer.toString("ascii", 8, 12).trim() === "M4A" ? "aac" : "mp4" }
+  }
+
+  // MP3: optional ID3v2 tag, then a valid MPEG audio frame header
+  if (parseMp3FrameHeader(buffer, id3v2Length(buffer))) {
+    return { format: "mp3", codec: "mp3" }
+  }
+
+  return null
+}
+
+// Whether sniffed bytes satisfy a requested output format
+export function matchesAudioFormat(sniffed: SniffedAudio | null, format: AudioFileFormat): boolean {
+  if (!sniffed) return false
+  if (format === "ogg" || format === "opus") {
+    return sniffed.format === "ogg" && sniffed.codec === "opus"
+  }
+  return sniffed.format === format
+}
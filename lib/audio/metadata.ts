@@ -0,0 +1,213 @@
+import { type SniffedAudio, sniffAudioFormat } from "./format"
+import { id3v2Length, mp3DeclaredFrameCount, mp3Duration, parseMp3FrameHeader, readMp3Frames } from "./mp3"
+import { parseOpusHead, readOggPages } from "./ogg"
+import { parseWav } from "./wav"
+
+// Exact stream parameters read from container headers, never estimated
+// from file size.
+export interface AudioMetadata {
+  format: SniffedAudio["format"]
+  codec: string
+  // Seconds
+  duration: number
+  sampleRate: number
+  channels: number
+  // PCM/FLAC sample size; absent for lossy codecs
+  bitDepth?: number
+  // Average kbps over the whole file
+  bitrate?: number
+}
+
+type StreamInfo = Omit<AudioMetadata, "format" | "codec" | "bitrate">
+
+const WAV_CODECS: Record<number, string> = { 1: "pcm", 3: "pcm_float", 6: "alaw", 7: "mulaw" }
+
+function wavInfo(buffer: Buffer): StreamInfo | null {
+  const info = parseWav(buffer)
+  if (!info) return null
+  return {
+    duration: info.duration,
+    sampleRate: info.sampleRate,
+    channels: info.channels,
+    bitDepth: info.bitsPerSample,
+  }
+}
+
+function mp3Info(buffer: Buffer): StreamInfo | null {
+  let offset = id3v2Length(buffer)
+  let header = parseMp3FrameHeader(buffer, offset)
+  if (!header) {
+    const first = readMp3Frames(buffer)[0]
+    if (!first) return null
+    offset = first.offset
+    header = first.header
+  }
+
+  // VBR files declare their frame count up front; otherwise count frames
+  const declared = mp3DeclaredFrameCount(buffer, { offset, header })
+  return {
+    duration: declared !== null ? (declared * header.samplesPerFrame) / header.sampleRate : mp3Duration(buffer),
+    sampleRate: header.sampleRate,
+    channels: header.channels,
+  }
+}
+
+function oggInfo(buffer: Buffer, codec: string): StreamInfo | null {
+  const pages = readOggPages(buffer)
+  const last = [...pages].reverse().find((page) => page.granulePosition >= 0)
+  if (pages.length === 0 || !last) return null
+
+  if (codec === "opus") {
+    const head = parseOpusHead(buffer)
+    if (!head) return null
+    // Granules always count 48 kHz samples; the reported rate is the encoder's
+    // input rate, which decoders may ignore
+    return {
+      duration: Math.max(0, last.granulePosition - head.preSkip) / 48000,
+      sampleRate: head.inputSampleRate || 48000,
+      channels: head.channels,
+    }
+  }
+
+  if (codec === "vorbis") {
+    // Identification header: "\x01vorbis", version, channels, sample rate
+    const body = pages[0].bodyOffset
+    const sampleRate = buffer.readUInt32LE(body + 12)
+    return { duration: sampleRate ? last.granulePosition / sampleRate : 0, sampleRate, channels: buffer[body + 11] }
+  }
+
+  return null
+}
+
+function flacInfo(buffer: Buffer): StreamInfo | null {
+  if (buffer.length < 26) return null
+  // STREAMINFO: 20-bit sample rate, 3-bit channels - 1, 5-bit bits per sample - 1, 36-bit total samples
+  const packed = buffer.readUInt32BE(18)
+  const sampleRate = packed >>> 12
+  const totalSamples = (buffer[21] & 0x0f) * 2 ** 32 + buffer.readUInt32BE(22)
+  return {
+    duration: sampleRate ? totalSamples / sampleRate : 0,
+    sampleRate,
+    channels: ((packed >>> 9) & 0x7) + 1,
+    bitDepth: ((packed >>> 4) & 0x1f) + 1,
+  }
+}
+
+export interface Mp4Box {
+  type: string
+  start: number
+  // Content after the box header
+  body: number
+  end: number
+}
+
+export function readMp4Boxes(buffer: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = []
+  let pos = start
+
+  while (pos + 8 <= end) {
+    let size = buffer.readUInt32BE(pos)
+    let body = pos + 8
+    if (size === 1 && pos + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(pos + 8))
+      body = pos + 16
+    } else if (size === 0) {
+      size = end - pos
+    }
+    if (size < body - pos || pos + size > end) break
+
+    boxes.push({ type: buffer.toString("latin1", pos + 4, pos + 8), start: pos, body, end: pos + size })
+    pos += size
+  }
+  return boxes
+}
+
+export function findMp4Box(buffer: Buffer, parent: { body: number; end: number }, path: string[]): Mp4Box | null {
+  let current: Mp4Box | null = null
+  let scope = parent
+  for (const type of path) {
+    current = readMp4Boxes(buffer, scope.body, scope.end).find((box) => box.type === type) || null
+    if (!current) return null
+    scope = current
+  }
+  return current
+}
+
+const MP4_CODECS: Record<string, string> = { mp4a: "aac", alac: "alac", Opus: "opus", fLaC: "flac", "ac-3": "ac3" }
+
+// Follows moov/trak/mdia to the first sound track: duration from its mdhd,
+// channels and sample rate from its stsd sample entry
+function mp4Info(buffer: Buffer): (StreamInfo & { codec: string }) | null {
+  const moov = findMp4Box(buffer, { body: 0, end: buffer.length }, ["moov"])
+  if (!moov) return null
+
+  for (const trak of readMp4Boxes(buffer, moov.body, moov.end).filter((box) => box.type === "trak")) {
+    const hdlr = findMp4Box(buffer, trak, ["mdia", "hdlr"])
+    if (!hdlr || buffer.toString("latin1", hdlr.body + 8, hdlr.body + 12) !== "soun") continue
+
+    const mdhd = findMp4Box(buffer, trak, ["mdia", "mdhd"])
+    const stsd = findMp4Box(buffer, trak, ["mdia", "minf", "stbl", "stsd"])
+    if (!mdhd || !stsd) return null
+
+    const version = buffer[mdhd.body]
+    const timescale = buffer.readUInt32BE(mdhd.body + (version === 1 ? 20 : 12))
+    const units = version === 1 ? Number(buffer.readBigUInt64BE(mdhd.body + 24)) : buffer.readUInt32BE(mdhd.body + 16)
+
+    // stsd: version/flags, entry count, then the first AudioSampleEntry
+    const entry = stsd.body + 8
+    const type = buffer.toString("latin1", entry + 4, entry + 8)
+    return {
+      codec: MP4_CODECS[type] || type.trim(),
+      duration: timescale ? units / timescale : 0,
+      channels: buffer.readUInt16BE(entry + 24),
+      bitDepth: type === "alac" ? buffer.readUInt16BE(entry + 26) : undefined,
+      sampleRate: buffer.readUInt32BE(entry + 32) >>> 16,
+    }
+  }
+  return null
+}
+
+export function readAudioMetadata(buffer: Buffer): AudioMetadata | null {
+  const sniffed = sniffAudioFormat(buffer)
+  if (!sniffed) return null
+
+  let codec = sniffed.codec
+  let info: StreamInfo | null = null
+  try {
+    switch (sniffed.format) {
+      case "wav":
+        info = wavInfo(buffer)
+        codec = WAV_CODECS[parseWav(buffer)?.audioFormat ?? 0] || codec
+        break
+      case "mp3":
+        info = mp3Info(buffer)
+        break
+      case "ogg":
+        info = oggInfo(buffer, sniffed.codec)
+        break
+      case "flac":
+        info = flacInfo(buffer)
+        break
+      case "m4a": {
+        const mp4 = mp4Info(buffer)
+        if (mp4) {
+          const { codec: mp4Codec, ...rest } = mp4
+          codec = mp4Codec
+          info = rest
+        }
+        break
+      }
+    }
+  } catch {
+    // Truncated or corrupt headers read past the end of the buffer
+    info = null
+  }
+  if (!info) return null
+
+  return {
+    format: sniffed.format,
+    codec,
+    ...info,
+    bitrate: info.duration > 0 ? Math.round((buffer.length * 8) / info.duration / 1000) : undefined,
+  }
+}
@@ -0,0 +1,208 @@
+import type { AudioPart } from "./wav"
+
+export interface Mp3FrameHeader {
+  version: 1 | 2 | 2.5
+  layer: 1 | 2 | 3
+  hasCrc: boolean
+  bitrate: number // kbps
+  sampleRate: number
+  padding: boolean
+  channels: 1 | 2
+  samplesPerFrame: number
+  frameLength: number
+}
+
+export interface Mp3Frame {
+  offset: number
+  header: Mp3FrameHeader
+}
+
+const BITRATES: Record<string, number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+}
+
+const SAMPLE_RATES: Record<string, number[]> = {
+  "1": [44100, 48000, 32000],
+  "2": [22050, 24000, 16000],
+  "2.5": [11025, 12000, 8000],
+}
+
+export function parseMp3FrameHeader(buffer: Buffer, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+    return null
+  }
+
+  const b1 = buffer[offset + 1]
+  const b2 = buffer[offset + 2]
+  const b3 = buffer[offset + 3]
+
+  const versionBits = (b1 >> 3) & 3
+  const layerBits = (b1 >> 1) & 3
+  const bitrateIndex = b2 >> 4
+  const sampleRateIndex = (b2 >> 2) & 3
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5
+  const layer = (4 - layerBits) as 1 | 2 | 3
+  const bitrate = BITRATES[`${version === 1 ? 1 : 2}-${layer}`][bitrateIndex]
+  const sampleRate = SAMPLE_RATES[String(version)][sampleRateIndex]
+  const padding = Boolean((b2 >> 1) & 1)
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152
+
+  const frameLength =
+    layer === 1
+      ? (Math.floor((12 * bitrate * 1000) / sampleRate) + (padding ? 1 : 0)) * 4
+      : Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) + (padding ? 1 : 0)
+
+  return {
+    version,
+    layer,
+    hasCrc: (b1 & 1) === 0,
+    bitrate,
+    sampleRate,
+    padding,
+    channels: b3 >> 6 === 3 ? 1 : 2,
+    samplesPerFrame,
+    frameLength,
+  }
+}
+
+// Size of a leading ID3v2 tag (0 if none)
+export function id3v2Length(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString("ascii", 0, 3) !== "ID3") {
+    return 0
+  }
+  const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f)
+  const hasFooter = (buffer[5] & 0x10) !== 0
+  return 10 + size + (hasFooter ? 10 : 0)
+}
+
+// Offset of the Xing/Info tag inside a Layer III frame, after the side info
+function xingOffset(header: Mp3FrameHeader): number {
+  const sideInfo = header.version === 1 ? (header.channels === 1 ? 17 : 32) : header.channels === 1 ? 9 : 17
+  return 4 + (header.hasCrc ? 2 : 0) + sideInfo
+}
+
+// True for the Xing/Info/VBRI metadata frame encoders put first; it carries no audio
+export function isMp3MetadataFrame(buffer: Buffer, frame: Mp3Frame): boolean {
+  const tagAt = frame.offset + xingOffset(frame.header)
+  const tag = buffer.toString("ascii", tagAt, tagAt + 4)
+  return tag === "Xing" || tag === "Info" || buffer.toString("ascii", frame.offset + 36, frame.offset + 40) === "VBRI"
+}
+
+// Audio frame count declared by a Xing/Info or VBRI header, so VBR files can
+// be measured without walking every frame; null when the header has none
+export function mp3DeclaredFrameCount(buffer: Buffer, frame: Mp3Frame): number | null {
+  const tagAt = frame.offset + xingOffset(frame.header)
+  const tag = buffer.toString("ascii", tagAt, tagAt + 4)
+  if ((tag === "Xing" || tag === "Info") && tagAt + 12 <= buffer.length) {
+    const hasFrameCount = (buffer.readUInt32BE(tagAt + 4) & 0x1) !== 0
+    return hasFrameCount ? buffer.readUInt32BE(tagAt + 8) : null
+  }
+
+  const vbriAt = frame.offset + 36
+  if (buffer.toString("ascii", vbriAt, vbriAt + 4) === "VBRI" && vbriAt + 18 <= buffer.length) {
+    return buffer.readUInt32BE(vbriAt + 14)
+  }
+  return null
+}
+
+// Walks every complete audio frame, resynchronising past junk bytes. A frame
+// only counts when the next frame (or end of data) lines up behind it, which
+// filters out false syncs inside tag data.
+export function readMp3Frames(buffer: Buffer): Mp3Frame[] {
+  const frames: Mp3Frame[] = []
+  let end = buffer.length
+  if (end >= 128 && buffer.toString("ascii", end - 128, end - 125) === "TAG") {
+    end -= 128 // ID3v1
+  }
+
+  let pos = id3v2Length(buffer)
+  while (pos + 4 <= end) {
+    const header = parseMp3FrameHeader(buffer, pos)
+    if (header && pos + header.frameLength <= end) {
+      const next = pos + header.frameLength
+      if (next === end || next + 4 > end || parseMp3FrameHeader(buffer, next)) {
+        frames.push({ offset: pos, header })
+        pos = next
+        continue
+      }
+    }
+    pos++
+  }
+
+  return frames
+}
+
+export function mp3Duration(buffer: Buffer): number {
+  return readMp3Frames(buffer)
+    .filter((frame, index) => index > 0 || !isMp3MetadataFrame(buffer, frame))
+    .reduce((total, frame) => total + frame.header.samplesPerFrame / frame.header.sampleRate, 0)
+}
+
+// A frame whose side info and main data are all zero decodes to digital silence
+function silentFrame(reference: Buffer): Buffer {
+  const header = parseMp3FrameHeader(reference, 0)!
+  const frame = Buffer.alloc(header.padding ? header.frameLength - 1 : header.frameLength)
+  frame[0] = reference[0]
+  frame[1] = reference[1] | 1 // No CRC
+  frame[2] = reference[2] & ~0x02 // No padding
+  frame[3] = reference[3]
+  return frame
+}
+
+// Joins MP3 streams frame-by-frame: tags and Xing/Info frames are dropped so
+// players do not stop after the first part's advertised length. Silence gaps
+// are filled with empty frames matching the first part's header.
+export function concatMp3(parts: AudioPart[]): Buffer {
+  const output: Buffer[] = []
+  let reference: Buffer | null = null
+  let pendingSilenceMs = 0
+
+  const flushSilence = () => {
+    if (!reference || pendingSilenceMs <= 0) return
+    const header = parseMp3FrameHeader(reference, 0)!
+    const frameMs = (header.samplesPerFrame / header.sampleRate) * 1000
+    const frame = silentFrame(reference)
+    for (let i = 0; i < Math.round(pendingSilenceMs / frameMs); i++) {
+      output.push(frame)
+    }
+    pendingSilenceMs = 0
+  }
+
+  for (const part of parts) {
+    if (!Buffer.isBuffer(part)) {
+      pendingSilenceMs += part.silenceMs
+      continue
+    }
+
+    const frames = readMp3Frames(part)
+    if (frames.length === 0) {
+      throw new Error("Cannot concatenate: input contains no MP3 frames")
+    }
+
+    for (const [index, frame] of frames.entries()) {
+      if (index === 0 && isMp3MetadataFrame(part, frame)) continue
+      if (!reference) {
+        reference = part.subarray(frame.offset, frame.offset + 4)
+        flushSilence()
+      }
+      output.push(part.subarray(frame.offset, frame.offset + frame.header.frameLength))
+    }
+    flushSilence()
+  }
+
+  flushSilence()
+  if (!reference) {
+    throw new Error("No MP3 audio frames to concatenate")
+  }
+  return Buffer.concat(output)
+}
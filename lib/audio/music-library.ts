@@ -0,0 +1,194 @@
+import { createWavBuffer } from "./wav"
+
+// Royalty-free background tracks generated in code, so the repo ships no audio
+// files and there is nothing to license. Each track is a short chord loop
+// (pads, bass, arpeggio, optional drums) that repeats seamlessly.
+
+export interface BundledTrack {
+  id: string
+  name: string
+  mood: string
+  bpm: number
+  // Seconds per loop
+  duration: number
+}
+
+interface TrackDefinition extends Omit<BundledTrack, "duration"> {
+  // MIDI note of the key's tonic
+  root: number
+  scale: "major" | "minor"
+  // Scale degrees (0 = tonic), two bars each
+  progression: number[]
+  arpeggio: { notesPerBeat: number; pattern: "up" | "updown" } | null
+  drums: boolean
+}
+
+const TRACKS: TrackDefinition[] = [
+  {
+    id: "calm",
+    name: "Calm Horizon",
+    mood: "calm, reflective",
+    bpm: 70,
+    root: 60,
+    scale: "major",
+    progression: [0, 4, 5, 3],
+    arpeggio: { notesPerBeat: 2, pattern: "updown" },
+    drums: false,
+  },
+  {
+    id: "upbeat",
+    name: "Bright Steps",
+    mood: "upbeat, energetic",
+    bpm: 118,
+    root: 55,
+    scale: "major",
+    progression: [5, 3, 0, 4],
+    arpeggio: { notesPerBeat: 4, pattern: "up" },
+    drums: true,
+  },
+  {
+    id: "dramatic",
+    name: "Gathering Storm",
+    mood: "dramatic, tense",
+    bpm: 80,
+    root: 50,
+    scale: "minor",
+    progression: [0, 5, 2, 6],
+    arpeggio: null,
+    drums: true,
+  },
+  {
+    id: "playful",
+    name: "Paper Kites",
+    mood: "playful, light",
+    bpm: 104,
+    root: 53,
+    scale: "major",
+    progression: [0, 5, 1, 4],
+    arpeggio: { notesPerBeat: 2, pattern: "up" },
+    drums: false,
+  },
+]
+
+const SAMPLE_RATE = 22050
+const BEATS_PER_BAR = 4
+const BARS_PER_CHORD = 2
+const SCALES = { major: [0, 2, 4, 5, 7, 9, 11], minor: [0, 2, 3, 5, 7, 8, 10] }
+
+const cache = new Map<string, Buffer>()
+
+const frequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12)
+
+// Triad on `degree`, as MIDI notes from `root`
+function triad(definition: TrackDefinition, degree: number): number[] {
+  const scale = SCALES[definition.scale]
+  return [0, 2, 4].map((step) => {
+    const index = degree + step
+    return definition.root + scale[index % 7] + 12 * Math.floor(index / 7)
+  })
+}
+
+// Deterministic noise so a track renders identically every time
+function noise(seed: number) {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0
+    return state / 2147483648 - 1
+  }
+}
+
+// Seconds of one full pass through the progression
+function trackLength(definition: TrackDefinition): number {
+  return (definition.progression.length * BARS_PER_CHORD * BEATS_PER_BAR * 60) / definition.bpm
+}
+
+export const BUNDLED_TRACKS: BundledTrack[] = TRACKS.map((track) => ({
+  id: track.id,
+  name: track.name,
+  mood: track.mood,
+  bpm: track.bpm,
+  duration: Math.round(trackLength(track) * 100) / 100,
+}))
+
+function renderTrack(definition: TrackDefinition): Buffer {
+  const beat = 60 / definition.bpm
+  const chordLength = BARS_PER_CHORD * BEATS_PER_BAR * beat
+  const length = Math.round(trackLength(definition) * SAMPLE_RATE)
+  const mix = new Float32Array(length)
+  const random = noise(definition.root * 7919 + definition.bpm)
+
+  // Adds a note; tails past the end wrap to the start so the loop is seamless
+  const addNote = (start: number, duration: number, voice: (t: number) => number) => {
+    const first = Math.round(start * SAMPLE_RATE)
+    const count = Math.round(duration * SAMPLE_RATE)
+    for (let i = 0; i < count; i++) mix[(first + i) % length] += voice(i / SAMPLE_RATE)
+  }
+
+  definition.progression.forEach((degree, chordIndex) => {
+    const chordStart = chordIndex * chordLength
+    const notes = triad(definition, degree)
+
+    // Pad: detuned sine pairs with slow swells, overlapping into the next chord
+    const padLength = chordLength + 0.8
+    for (const note of notes) {
+      const f = frequency(note)
+      addNote(chordStart, padLength, (t) => {
+        const envelope = Math.min(1, t / 0.6) * Math.min(1, (padLength - t) / 0.8)
+        return 0.05 * envelope * (Math.sin(2 * Math.PI * f * 0.997 * t) + Math.sin(2 * Math.PI * f * 1.003 * t))
+      })
+    }
+
+    // Bass: chord root two octaves down, once per beat
+    const bass = frequency(notes[0] - 24)
+    for (let b = 0; b < BARS_PER_CHORD * BEATS_PER_BAR; b++) {
+      addNote(chordStart + b * beat, beat, (t) => {
+        const envelope = Math.exp(-t * 3) * Math.min(1, t / 0.01)
+        return 0.22 * envelope * (Math.sin(2 * Math.PI * bass * t) + 0.3 * Math.sin(4 * Math.PI * bass * t))
+      })
+    }
+
+    // Arpeggio: plucked triangle notes an octave up
+    if (definition.arpeggio) {
+      const { notesPerBeat, pattern } = definition.arpeggio
+      const sequence = pattern === "up" ? [...notes, notes[0] + 12] : [...notes, notes[0] + 12, notes[2], notes[1]]
+      const step = beat / notesPerBeat
+      const steps = BARS_PER_CHORD * BEATS_PER_BAR * notesPerBeat
+      for (let s = 0; s < steps; s++) {
+        const f = frequency(sequence[s % sequence.length] + 12)
+        addNote(chordStart + s * step, step * 2, (t) => {
+          const phase = (f * t) % 1
+          const triangle = 4 * Math.abs(phase - 0.5) - 1
+          return 0.07 * triangle * Math.exp(-t * 9) * Math.min(1, t / 0.005)
+        })
+      }
+    }
+
+    if (definition.drums) {
+      for (let b = 0; b < BARS_PER_CHORD * BEATS_PER_BAR; b++) {
+        const beatStart = chordStart + b * beat
+        // Kick: a falling sine thump on every beat
+        addNote(beatStart, 0.25, (t) => {
+          const f = 45 + 75 * Math.exp(-t * 30)
+          return 0.35 * Math.sin(2 * Math.PI * f * t) * Math.exp(-t * 14)
+        })
+        // Hi-hat: short noise bursts on the off-beats
+        addNote(beatStart + beat / 2, 0.06, (t) => 0.05 * random() * Math.exp(-t * 70))
+      }
+    }
+  })
+
+  let peak = 0
+  for (const sample of mix) peak = Math.max(peak, Math.abs(sample))
+  const gain = peak > 0 ? 0.8 / peak : 0
+  const samples = new Int16Array(length)
+  for (let i = 0; i < length; i++) samples[i] = Math.round(mix[i] * gain * 32767)
+  return createWavBuffer(samples, SAMPLE_RATE)
+}
+
+// The track as a mono WAV, rendered once per process
+export function renderBundledTrack(id: string): Buffer | null {
+  const definition = TRACKS.find((track) => track.id === id)
+  if (!definition) return null
+  if (!cache.has(id)) cache.set(id, renderTrack(definition))
+  return cache.get(id)!
+}
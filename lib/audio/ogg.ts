@@ -0,0 +1,71 @@
+export interface OggPage {
+  offset: number
+  headerType: number
+  // -1 when no packet finishes on the page
+  granulePosition: number
+  serial: number
+  sequence: number
+  bodyOffset: number
+  bodyLength: number
+}
+
+// Walks the page headers of an Ogg stream; stops at the first corrupt page
+export function readOggPages(buffer: Buffer): OggPage[] {
+  const pages: OggPage[] = []
+  let pos = 0
+
+  while (pos + 27 <= buffer.length && buffer.toString("ascii", pos, pos + 4) === "OggS") {
+    const segmentCount = buffer[pos + 26]
+    if (pos + 27 + segmentCount > buffer.length) break
+
+    let bodyLength = 0
+    for (let i = 0; i < segmentCount; i++) {
+      bodyLength += buffer[pos + 27 + i]
+    }
+
+    const bodyOffset = pos + 27 + segmentCount
+    if (bodyOffset + bodyLength > buffer.length) break
+
+    pages.push({
+      offset: pos,
+      headerType: buffer[pos + 5],
+      granulePosition: Number(buffer.readBigInt64LE(pos + 6)),
+      serial: buffer.readUInt32LE(pos + 14),
+      sequence: buffer.readUInt32LE(pos + 18),
+      bodyOffset,
+      bodyLength,
+    })
+    pos = bodyOffset + bodyLength
+  }
+
+  return pages
+}
+
+export interface OpusHead {
+  channels: number
+  preSkip: number
+  inputSampleRate: number
+}
+
+export function parseOpusHead(buffer: Buffer): OpusHead | null {
+  const first = readOggPages(buffer)[0]
+  if (!first || first.bodyLength < 19) return null
+  if (buffer.toString("ascii", first.bodyOffset, first.bodyOffset + 8) !== "OpusHead") return null
+
+  return {
+    channels: buffer[first.bodyOffset + 9],
+    preSkip: buffer.readUInt16LE(first.bodyOffset + 10),
+    inputSampleRate: buffer.readUInt32LE(first.bodyOffset + 12),
+  }
+}
+
+// Opus granule positions always count 48 kHz samples, including the encoder
+// pre-skip that decoders discard
+export function oggOpusDuration(buffer: Buffer): number {
+  const head = parseOpusHead(buffer)
+  if (!head) return 0
+
+  const pages = readOggPages(buffer)
+  const last = [...pages].reverse().find((page) => page.granulePosition >= 0)
+  return last ? Math.max(0, last.granulePosition - head.preSkip) / 48000 : 0
+}
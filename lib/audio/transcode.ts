@@ -0,0 +1,228 @@
+import { readFileSync, unlinkSync, writeFileSync } from "fs"
+import { join } from "path"
+import { commandExists, runCommand } from "@/lib/command"
+import {
+  AUDIO_FORMATS,
+  type AudioFileFormat,
+  audioMimeType,
+  isAudioFileFormat,
+  matchesAudioFormat,
+  type SniffedAudio,
+  sniffAudioFormat,
+} from "./format"
+import { readAudioMetadata } from "./metadata"
+import { convertWav } from "./wav"
+
+export interface AudioOutputOptions {
+  format: AudioFileFormat
+  sampleRate?: number
+  // PCM bit depth; only meaningful for wav and flac
+  bitDepth?: number
+  channels?: number
+  // kbps for the lossy encoders (mp3, opus, aac)
+  bitrate?: number
+}
+
+export interface TranscodedAudio {
+  audio: Buffer
+  format: AudioFileFormat
+  mimeType: string
+  sourceFormat: SniffedAudio["format"]
+  // false when the provider's bytes already matched and were passed through
+  transcoded: boolean
+  sampleRate?: number
+  bitDepth?: number
+  channels?: number
+  duration?: number
+}
+
+const SAMPLE_RATE_RANGE = [8000, 96000]
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000]
+const BIT_DEPTHS: Partial<Record<AudioFileFormat, number[]>> = {
+  wav: [8, 16, 24, 32],
+  flac: [16, 24],
+}
+const DEFAULT_BITRATES: Partial<Record<AudioFileFormat, number>> = {
+  mp3: 128,
+  ogg: 64,
+  opus: 64,
+  m4a: 128,
+}
+
+const optionalInteger = (value: unknown, name: string): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined
+  const number = Number(value)
+  if (!Number.isInteger(number)) {
+    throw new Error(`${name} must be an integer`)
+  }
+  return number
+}
+
+// Reads `format`, `sample_rate`, `bit_depth`, `channels` and `bitrate` from a
+// request body. Throws with a client-facing message on invalid combinations.
+export function readAudioOutputOptions(
+  body: Record<string, unknown>,
+  defaultFormat: AudioFileFormat = "mp3",
+): AudioOutputOptions {
+  const format = body.format === undefined ? defaultFormat : String(body.format).toLowerCase()
+  if (!isAudioFileFormat(format)) {
+    throw new Error(`format must be one of: ${AUDIO_FORMATS.join(", ")}`)
+  }
+
+  const sampleRate = optionalInteger(body.sample_rate, "sample_rate")
+  const bitDepth = optionalInteger(body.bit_depth, "bit_depth")
+  const channels = optionalInteger(body.channels, "channels")
+  const bitrate = optionalInteger(body.bitrate, "bitrate")
+
+  if (sampleRate !== undefined && (sampleRate < SAMPLE_RATE_RANGE[0] || sampleRate > SAMPLE_RATE_RANGE[1])) {
+    throw new Error(`sample_rate must be between ${SAMPLE_RATE_RANGE[0]} and ${SAMPLE_RATE_RANGE[1]}`)
+  }
+  if (sampleRate !== undefined && (format === "ogg" || format === "opus") && !OPUS_SAMPLE_RATES.includes(sampleRate)) {
+    throw new Error(`sample_rate for opus must be one of: ${OPUS_SAMPLE_RATES.join(", ")}`)
+  }
+  if (bitDepth !== undefined && !BIT_DEPTHS[format]?.includes(bitDepth)) {
+    throw new Error(
+      BIT_DEPTHS[format]
+        ? `bit_depth for ${format} must be one of: ${BIT_DEPTHS[format]!.join(", ")}`
+        : `bit_depth does not apply to ${format}; use wav or flac`,
+    )
+  }
+  if (channels !== undefined && channels !== 1 && channels !== 2) {
+    throw new Error("channels must be 1 or 2")
+  }
+  if (bitrate !== undefined && (!DEFAULT_BITRATES[format] || bitrate < 8 || bitrate > 320)) {
+    throw new Error(
+      DEFAULT_BITRATES[format] ? "bitrate must be between 8 and 320 kbps" : `bitrate does not apply to ${format}`,
+    )
+  }
+
+  return { format, sampleRate, bitDepth, channels, bitrate }
+}
+
+function ffmpegCodecArgs(options: AudioOutputOptions): string[] {
+  const bitrate = `${options.bitrate ?? DEFAULT_BITRATES[options.format]}k`
+  switch (options.format) {
+    case "mp3":
+      return ["-c:a", "libmp3lame", "-b:a", bitrate, "-f", "mp3"]
+    case "wav": {
+      const depth = options.bitDepth ?? 16
+      return ["-c:a", depth === 8 ? "pcm_u8" : `pcm_s${depth}le`, "-f", "wav"]
+    }
+    case "ogg":
+    case "opus":
+      return ["-c:a", "libopus", "-b:a", bitrate, "-f", "ogg"]
+    case "flac":
+      return options.bitDepth === 24
+        ? ["-c:a", "flac", "-sample_fmt", "s32", "-bits_per_raw_sample", "24", "-f", "flac"]
+        : ["-c:a", "flac", "-sample_fmt", "s16", "-f", "flac"]
+    case "m4a":
+      // The ipod muxer writes an M4A-branded MP4 that players treat as audio
+      return ["-c:a", "aac", "-b:a", bitrate, "-movflags", "+faststart", "-f", "ipod"]
+  }
+}
+
+async function runFfmpeg(input: Buffer, options: AudioOutputOptions, signal?: AbortSignal): Promise<Buffer> {
+  const stamp = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  const inputFile = join("/tmp", `transcode-in-${stamp}`)
+  const outputFile = join("/tmp", `transcode-out-${stamp}.${options.format}`)
+
+  const args = ["-hide_banner", "-loglevel", "error", "-y", "-i", inputFile, "-vn", "-map_metadata", "-1"]
+  if (options.sampleRate) args.push("-ar", String(options.sampleRate))
+  if (options.channels) args.push("-ac", String(options.channels))
+  args.push(...ffmpegCodecArgs(options), outputFile)
+
+  try {
+    writeFileSync(inputFile, input)
+    await runCommand("ffmpeg", args, { signal })
+    return readFileSync(outputFile)
+  } finally {
+    for (const file of [inputFile, outputFile]) {
+      try {
+        unlinkSync(file)
+      } catch {}
+    }
+  }
+}
+
+// Converts provider output into the requested container. Bytes that already
+// match are passed through; WAV-to-WAV changes run in-process; everything else
+// needs ffmpeg, which `signal` can stop. The result is sniffed again so the
+// declared format is never a guess.
+export async function transcodeAudio(
+  input: Buffer,
+  options: AudioOutputOptions,
+  signal?: AbortSignal,
+): Promise<TranscodedAudio> {
+  const sniffed = sniffAudioFormat(input)
+  if (!sniffed) {
+    throw new Error("Cannot transcode: input audio format not recognized")
+  }
+
+  const source = readAudioMetadata(input)
+  const parametersMatch =
+    (options.sampleRate === undefined || options.sampleRate === source?.sampleRate) &&
+    (options.bitDepth === undefined || options.bitDepth === source?.bitDepth) &&
+    (options.channels === undefined || options.channels === source?.channels) &&
+    options.bitrate === undefined
+
+  let audio: Buffer
+  let transcoded = true
+  if (matchesAudioFormat(sniffed, options.format) && parametersMatch) {
+    audio = input
+    transcoded = false
+  } else if (sniffed.format === "wav" && options.format === "wav" && sniffed.codec !== "unknown") {
+    audio = convertWav(input, {
+      sampleRate: options.sampleRate,
+      bitsPerSample: options.bitDepth,
+      channels: options.channels,
+    })
+  } else {
+    if (!(await commandExists("ffmpeg", ["-version"]))) {
+      throw new Error(`Converting ${sniffed.format} to ${options.format} requires ffmpeg, which is not installed`)
+    }
+    audio = await runFfmpeg(input, options, signal)
+  }
+
+  const produced = sniffAudioFormat(audio)
+  if (!matchesAudioFormat(produced, options.format)) {
+    throw new Error(
+      `Transcoding produced ${produced ? `${produced.format}/${produced.codec}` : "unrecognized audio"} instead of ${options.format}`,
+    )
+  }
+
+  const output = readAudioMetadata(audio)
+  return {
+    audio,
+    format: options.format,
+    mimeType: audioMimeType(options.format),
+    sourceFormat: sniffed.format,
+    transcoded,
+    sampleRate: output?.sampleRate,
+    bitDepth: output?.bitDepth,
+    channels: output?.channels,
+    duration: output?.duration,
+  }
+}
+
+// Headers describing transcoded audio as it actually is
+export function audioResponseHeaders(result: TranscodedAudio, filename: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": result.mimeType,
+    "Content-Disposition": `attachment; filename="${filename}.${result.format}"`,
+    "Content-Length": result.audio.length.toString(),
+    "X-Audio-Format": result.format,
+    "X-Audio-Source-Format": result.sourceFormat,
+    "X-Audio-Transcoded": String(result.transcoded),
+  }
+  if (result.sampleRate) headers["X-Audio-Sample-Rate"] = String(result.sampleRate)
+  if (result.bitDepth) headers["X-Audio-Bit-Depth"] = String(result.bitDepth)
+  if (result.channels) headers["X-Audio-Channels"] = String(result.channels)
+  if (result.duration) headers["X-Audio-Duration"] = result.duration.toFixed(3)
+  return headers
+}
+
+// What to ask a TTS provider for: lossless targets start from WAV so nothing
+// is lost to an intermediate MP3 encode
+export function preferredSourceFormat(format: AudioFileFormat): "mp3" | "wav" {
+  return format === "wav" || format === "flac" ? "wav" : "mp3"
+}
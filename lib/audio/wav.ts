@@ -0,0 +1,244 @@
+export interface WavInfo {
+  audioFormat: number
+  channels: number
+  sampleRate: number
+  bitsPerSample: number
+  blockAlign: number
+  dataOffset: number
+  dataLength: number
+  duration: number
+}
+
+// A piece of audio to stitch: encoded bytes, or a gap of silence
+export type AudioPart = Buffer | { silenceMs: number }
+
+// Walks RIFF chunks to find "fmt " and "data"; tolerates LIST/fact chunks and
+// the 0xFFFFFFFF data size some streaming encoders write.
+export function parseWav(buffer: Buffer): WavInfo | null {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    return null
+  }
+
+  let fmt: Omit<WavInfo, "dataOffset" | "dataLength" | "duration"> | null = null
+  let pos = 12
+
+  while (pos + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", pos, pos + 4)
+    const size = buffer.readUInt32LE(pos + 4)
+    const body = pos + 8
+
+    if (id === "fmt " && body + 16 <= buffer.length) {
+      fmt = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        blockAlign: buffer.readUInt16LE(body + 12),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      }
+      // WAVE_FORMAT_EXTENSIBLE carries the real format tag in the sub-format GUID
+      if (fmt.audioFormat === 0xfffe && size >= 40 && body + 26 <= buffer.length) {
+        fmt.audioFormat = buffer.readUInt16LE(body + 24)
+      }
+    } else if (id === "data" && fmt) {
+      const dataLength = Math.min(size, buffer.length - body)
+      const byteRate = fmt.sampleRate * fmt.blockAlign
+      return {
+        ...fmt,
+        dataOffset: body,
+        dataLength,
+        duration: byteRate > 0 ? dataLength / byteRate : 0,
+      }
+    }
+
+    pos = body + size + (size % 2)
+  }
+
+  return null
+}
+
+// Wraps 16-bit mono PCM samples in a canonical 44-byte RIFF/WAVE header
+export function createWavBuffer(samples: Int16Array, sampleRate: number): Buffer {
+  return createWavFromPcm(Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength), {
+    sampleRate,
+    channels: 1,
+    bitsPerSample: 16,
+  })
+}
+
+export function createWavFromPcm(
+  pcm: Buffer,
+  format: { sampleRate: number; channels: number; bitsPerSample: number; audioFormat?: number },
+): Buffer {
+  const blockAlign = format.channels * (format.bitsPerSample / 8)
+  const header = Buffer.alloc(44)
+
+  header.write("RIFF", 0)
+  header.writeUInt32LE(36 + pcm.length, 4)
+  header.write("WAVE", 8)
+  header.write("fmt ", 12)
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(format.audioFormat ?? 1, 20)
+  header.writeUInt16LE(format.channels, 22)
+  header.writeUInt32LE(format.sampleRate, 24)
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28)
+  header.writeUInt16LE(blockAlign, 32)
+  header.writeUInt16LE(format.bitsPerSample, 34)
+  header.write("data", 36)
+  header.writeUInt32LE(pcm.length, 40)
+
+  return Buffer.concat([header, pcm])
+}
+
+// Joins WAV files that share one PCM layout, inserting zeroed frames for gaps
+export function concatWav(parts: AudioPart[]): Buffer {
+  const audio = parts.filter((part): part is Buffer => Buffer.isBuffer(part))
+  const reference = audio.map(parseWav).find((info): info is WavInfo => info !== null)
+
+  if (!reference) {
+    throw new Error("No valid WAV input to concatenate")
+  }
+
+  const pcmParts: Buffer[] = []
+  for (const part of parts) {
+    if (Buffer.isBuffer(part)) {
+      const info = parseWav(part)
+      if (!info) {
+        throw new Error("Cannot concatenate: input is not a WAV file")
+      }
+      if (
+        info.sampleRate !== reference.sampleRate ||
+        info.channels !== reference.channels ||
+        info.bitsPerSample !== reference.bitsPerSample
+      ) {
+        throw new Error(
+          `Cannot concatenate WAV with different formats (${info.sampleRate}Hz/${info.channels}ch/${info.bitsPerSample}bit vs ${reference.sampleRate}Hz/${reference.channels}ch/${reference.bitsPerSample}bit)`,
+        )
+      }
+      pcmParts.push(part.subarray(info.dataOffset, info.dataOffset + info.dataLength))
+    } else {
+      const frames = Math.round((part.silenceMs / 1000) * reference.sampleRate)
+      // 8-bit PCM is unsigned, so silence is the midpoint rather than zero
+      pcmParts.push(Buffer.alloc(frames * reference.blockAlign, reference.bitsPerSample === 8 ? 0x80 : 0))
+    }
+  }
+
+  return createWavFromPcm(Buffer.concat(pcmParts), reference)
+}
+
+// Decodes interleaved PCM (8-bit unsigned, 16/24/32-bit signed, 32-bit float)
+// into floats in [-1, 1]
+function decodePcm(buffer: Buffer, info: WavInfo): Float32Array {
+  const bytes = info.bitsPerSample / 8
+  const count = Math.floor(info.dataLength / bytes)
+  const samples = new Float32Array(count)
+
+  for (let i = 0; i < count; i++) {
+    const offset = info.dataOffset + i * bytes
+    if (info.audioFormat === 3 && bytes === 4) {
+      samples[i] = buffer.readFloatLE(offset)
+    } else if (bytes === 1) {
+      samples[i] = (buffer[offset] - 128) / 128
+    } else if (bytes === 2) {
+      samples[i] = buffer.readInt16LE(offset) / 32768
+    } else if (bytes === 3) {
+      samples[i] = buffer.readIntLE(offset, 3) / 8388608
+    } else {
+      samples[i] = buffer.readInt32LE(offset) / 2147483648
+    }
+  }
+  return samples
+}
+
+function encodePcm(samples: Float32Array, bitsPerSample: number): Buffer {
+  const bytes = bitsPerSample / 8
+  const pcm = Buffer.alloc(samples.length * bytes)
+
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i]))
+    const offset = i * bytes
+    if (bytes === 1) {
+      pcm[offset] = Math.round(value * 127 + 128)
+    } else if (bytes === 2) {
+      pcm.writeInt16LE(Math.round(value * 32767), offset)
+    } else if (bytes === 3) {
+      pcm.writeIntLE(Math.round(value * 8388607), offset, 3)
+    } else {
+      pcm.writeInt32LE(Math.round(value * 2147483647), offset)
+    }
+  }
+  return pcm
+}
+
+// Re-encodes a PCM WAV file at another sample rate (linear interpolation),
+// bit depth or channel count (mono <-> stereo). Returns integer PCM.
+export function convertWav(
+  buffer: Buffer,
+  target: { sampleRate?: number; bitsPerSample?: number; channels?: number },
+): Buffer {
+  const info = parseWav(buffer)
+  if (!info || (info.audioFormat !== 1 && info.audioFormat !== 3)) {
+    throw new Error("Cannot convert: input is not a PCM WAV file")
+  }
+
+  const sampleRate = target.sampleRate ?? info.sampleRate
+  const bitsPerSample = target.bitsPerSample ?? (info.audioFormat === 3 ? 32 : info.bitsPerSample)
+  const channels = target.channels ?? info.channels
+  if (![8, 16, 24, 32].includes(bitsPerSample)) {
+    throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`)
+  }
+  if (channels !== info.channels && ![1, 2].includes(channels)) {
+    throw new Error(`Unsupported channel conversion: ${info.channels} -> ${channels}`)
+  }
+
+  const input = decodePcm(buffer, info)
+  const inputFrames = Math.floor(input.length / info.channels)
+  const outputFrames = Math.round((inputFrames * sampleRate) / info.sampleRate)
+  const output = new Float32Array(outputFrames * channels)
+  const step = info.sampleRate / sampleRate
+
+  const frameSample = (frame: number, channel: number): number => {
+    if (channels === info.channels) return input[frame * info.channels + channel]
+    if (channels === 1) {
+      let sum = 0
+      for (let c = 0; c < info.channels; c++) sum += input[frame * info.channels + c]
+      return sum / info.channels
+    }
+    return input[frame * info.channels + Math.min(channel, info.channels - 1)]
+  }
+
+  for (let frame = 0; frame < outputFrames; frame++) {
+    const position = frame * step
+    const before = Math.min(Math.floor(position), inputFrames - 1)
+    const after = Math.min(before + 1, inputFrames - 1)
+    const weight = position - before
+    for (let channel = 0; channel < channels; channel++) {
+      output[frame * channels + channel] =
+        frameSample(before, channel) * (1 - weight) + frameSample(after, channel) * weight
+    }
+  }
+
+  return createWavFromPcm(encodePcm(output, bitsPerSample), { sampleRate, channels, bitsPerSample })
+}
+
+// Peak amplitude (0-1) of `count` equal slices of the file, for waveform previews
+export function wavPeaks(buffer: Buffer, count: number): number[] {
+  const info = parseWav(buffer)
+  if (!info || (info.audioFormat !== 1 && info.audioFormat !== 3)) {
+    throw new Error("Cannot read peaks: input is not a PCM WAV file")
+  }
+
+  const samples = decodePcm(buffer, info)
+  const frames = Math.floor(samples.length / info.channels)
+  const peaks: number[] = []
+
+  for (let bucket = 0; bucket < count; bucket++) {
+    const start = Math.floor((bucket * frames) / count) * info.channels
+    const end = Math.floor(((bucket + 1) * frames) / count) * info.channels
+    let peak = 0
+    for (let i = start; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]))
+    }
+    peaks.push(Math.min(1, peak))
+  }
+  return peaks
+}
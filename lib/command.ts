@@ -0,0 +1,76 @@
+import { spawn } from "child_process"
+
+// Runs local binaries (ffmpeg, eSpeak, whisper.cpp, ...).
+//
+//   COMMAND_TIMEOUT_SECONDS   kill a run that takes longer (default 300)
+
+const DEFAULT_TIMEOUT_SECONDS = 300
+
+export const commandTimeout = () => Number(process.env.COMMAND_TIMEOUT_SECONDS) || DEFAULT_TIMEOUT_SECONDS
+
+export interface CommandOptions {
+  // Written to stdin, which is closed either way
+  input?: string
+  // Kills the process when aborted, e.g. with a job's cancellation signal
+  signal?: AbortSignal
+  // Seconds before the process is killed; defaults to COMMAND_TIMEOUT_SECONDS
+  timeout?: number
+}
+
+// Runs a local binary and resolves when it exits cleanly. Rejects when the
+// binary is missing (spawn "error"), exits non-zero or runs past its timeout,
+// and with an AbortError when `signal` fires.
+export function runCommand(command: string, args: string[], options: CommandOptions = {}): Promise<void> {
+  const timeout = options.timeout ?? commandTimeout()
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal: options.signal })
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill("SIGKILL")
+    }, timeout * 1000)
+
+    let stderr = ""
+    child.stderr?.on("data", (data) => {
+      stderr += data.toString()
+    })
+
+    child.on("error", (error) => {
+      clearTimeout(timer)
+      reject(error.name === "AbortError" ? error : new Error(`${command} not available: ${error.message}`))
+    })
+
+    child.on("close", (code) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve()
+      } else if (timedOut) {
+        reject(new Error(`${command} timed out after ${timeout}s`))
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`))
+      }
+    })
+
+    if (options.input !== undefined) {
+      child.stdin?.write(options.input)
+    }
+    child.stdin?.end()
+  })
+}
+
+const commandCache = new Map<string, Promise<boolean>>()
+
+// Probes a binary once per process by running it with a harmless flag
+export function commandExists(command: string, probeArgs: string[] = ["--version"]): Promise<boolean> {
+  if (!commandCache.has(command)) {
+    commandCache.set(
+      command,
+      runCommand(command, probeArgs, { timeout: 10 }).then(
+        () => true,
+        (error: Error) => !error.message.includes("not available"),
+      ),
+    )
+  }
+  return commandCache.get(command)!
+}
@@ -0,0 +1,10 @@
+import { renderVideo } from "@/lib/video/create-video"
+import { renderInstagramShort } from "@/lib/video/instagram-short"
+import { renderSlideshow } from "@/lib/video/slideshow"
+import type { JobHandler, JobType } from "./types"
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  video: renderVideo,
+  "instagram-short": renderInstagramShort,
+  slideshow: renderSlideshow,
+}
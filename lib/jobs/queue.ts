@@ -0,0 +1,218 @@
+import { randomUUID } from "crypto"
+import { JOB_HANDLERS } from "./handlers"
+import { jobRetentionMs, listJobRecords, loadJobRecord, saveJobRecord, saveJobResult, sweepExpiredJobs } from "./store"
+import type { JobRecord, JobType } from "./types"
+
+// In-process job queue with a bounded worker pool. Inputs live in memory, so
+// jobs still queued or running when the server stops are marked failed on the
+// next start; finished jobs are served from disk until they expire.
+//
+//   JOB_CONCURRENCY  renders running at once (default: 1; FFmpeg already uses every core)
+//   JOB_QUEUE_LIMIT  jobs waiting for a worker before new ones are refused (default: 20)
+
+interface ActiveJob {
+  record: JobRecord
+  input: unknown
+  controller: AbortController
+  listeners: Set<(record: JobRecord) => void>
+  savedAt: number
+}
+
+interface QueueState {
+  active: Map<string, ActiveJob>
+  pending: string[]
+  running: number
+  initialized: boolean
+}
+
+// Route handlers can be bundled separately; keep one queue per process
+const globalQueue = globalThis as typeof globalThis & { __jobQueue?: QueueState }
+const state: QueueState = (globalQueue.__jobQueue ||= {
+  active: new Map(),
+  pending: [],
+  running: 0,
+  initialized: false,
+})
+
+const TERMINAL_STATUSES = ["succeeded", "failed", "cancelled"]
+// Progress is written to disk at most this often; status changes always are
+const SAVE_INTERVAL_MS = 1000
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000
+
+// Thrown when the queue is at JOB_QUEUE_LIMIT
+export class JobQueueFullError extends Error {
+  constructor(limit: number) {
+    super(`The render queue is full (${limit} jobs waiting); try again later`)
+    this.name = "JobQueueFullError"
+  }
+}
+
+const positiveInteger = (value: string | undefined, fallback: number) => {
+  const number = Number(value)
+  return Number.isInteger(number) && number > 0 ? number : fallback
+}
+
+export function queueLimits() {
+  return {
+    concurrency: positiveInteger(process.env.JOB_CONCURRENCY, 1),
+    queueLimit: positiveInteger(process.env.JOB_QUEUE_LIMIT, 20),
+  }
+}
+
+function initialize() {
+  if (state.initialized) return
+  state.initialized = true
+
+  // Whatever was in flight when the previous process stopped cannot resume
+  for (const record of listJobRecords()) {
+    if (!TERMINAL_STATUSES.includes(record.status) && !state.active.has(record.id)) {
+      const now = Date.now()
+      saveJobRecord({
+        ...record,
+        status: "failed",
+        error: "Interrupted by a server restart",
+        finishedAt: now,
+        expiresAt: now + jobRetentionMs(),
+      })
+    }
+  }
+  sweepExpiredJobs()
+  setInterval(() => sweepExpiredJobs(), SWEEP_INTERVAL_MS).unref()
+}
+
+function update(job: ActiveJob, changes: Partial<JobRecord>, force = false) {
+  Object.assign(job.record, changes)
+  const now = Date.now()
+  if (force || now - job.savedAt >= SAVE_INTERVAL_MS) {
+    saveJobRecord(job.record)
+    job.savedAt = now
+  }
+  for (const listener of job.listeners) listener({ ...job.record })
+}
+
+function finish(job: ActiveJob, changes: Partial<JobRecord>) {
+  const now = Date.now()
+  update(job, { ...changes, eta: undefined, finishedAt: now, expiresAt: now + jobRetentionMs() }, true)
+  state.active.delete(job.record.id)
+  job.listeners.clear()
+}
+
+async function execute(job: ActiveJob) {
+  const { record, controller } = job
+  update(job, { status: "running", startedAt: Date.now(), stage: "Starting" }, true)
+
+  try {
+    const output = await JOB_HANDLERS[record.type](job.input, {
+      signal: controller.signal,
+      reportProgress: (progress, stage, details) => {
+        if (controller.signal.aborted) return
+        update(job, {
+          progress: Math.max(0, Math.min(1, progress)),
+          ...(stage && { stage }),
+          eta: details?.eta,
+          encoding: details?.encoding ?? job.record.encoding,
+        })
+      },
+    })
+    controller.signal.throwIfAborted()
+
+    const result = saveJobResult(record.id, output)
+    finish(job, { status: "succeeded", progress: 1, stage: "Done", result })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      finish(job, { status: "cancelled", stage: "Cancelled" })
+    } else {
+      console.error(`Job ${record.id} (${record.type}) failed:`, error)
+      finish(job, { status: "failed", error: error instanceof Error ? error.message : "Unknown error" })
+    }
+  }
+}
+
+function startWorkers() {
+  const { concurrency } = queueLimits()
+  while (state.running < concurrency && state.pending.length > 0) {
+    const job = state.active.get(state.pending.shift()!)
+    if (!job || job.record.status !== "queued") continue
+
+    state.running++
+    execute(job).finally(() => {
+      state.running--
+      startWorkers()
+    })
+  }
+}
+
+export function enqueueJob(type: JobType, input: unknown): JobRecord {
+  initialize()
+  const { queueLimit } = queueLimits()
+  if (state.pending.length >= queueLimit) {
+    throw new JobQueueFullError(queueLimit)
+  }
+
+  const record: JobRecord = { id: randomUUID(), type, status: "queued", progress: 0, createdAt: Date.now() }
+  const job: ActiveJob = { record, input, controller: new AbortController(), listeners: new Set(), savedAt: 0 }
+  state.active.set(record.id, job)
+  state.pending.push(record.id)
+  update(job, {}, true)
+
+  startWorkers()
+  return { ...record }
+}
+
+export function getJob(id: string): JobRecord | null {
+  initialize()
+  const job = state.active.get(id)
+  if (job) return { ...job.record }
+
+  const record = loadJobRecord(id)
+  return record && (!record.expiresAt || record.expiresAt > Date.now()) ? record : null
+}
+
+// 1-based place in line for a queued job, 0 otherwise
+export function queuePosition(id: string): number {
+  return state.pending.indexOf(id) + 1
+}
+
+// Queued jobs are dropped; running ones have their signal aborted and settle
+// as "cancelled" once the handler stops. Returns null for unknown jobs.
+export function cancelJob(id: string): JobRecord | null {
+  const job = state.active.get(id)
+  if (!job) return getJob(id)
+
+  if (job.record.status === "queued") {
+    state.pending = state.pending.filter((pending) => pending !== id)
+    finish(job, { status: "cancelled", stage: "Cancelled" })
+  } else {
+    update(job, { stage: "Cancelling" }, true)
+    job.controller.abort()
+  }
+  return { ...job.record }
+}
+
+// Calls `listener` on every change until the job finishes; returns an unsubscribe function
+export function subscribeToJob(id: string, listener: (record: JobRecord) => void): () => void {
+  const job = state.active.get(id)
+  if (!job) return () => {}
+  job.listeners.add(listener)
+  return () => job.listeners.delete(listener)
+}
+
+// Resolves with the final record once the job succeeded, failed or was cancelled
+export function waitForJob(id: string): Promise<JobRecord> {
+  return new Promise((resolve, reject) => {
+    const current = getJob(id)
+    if (!current) return reject(new Error(`Job ${id} not found`))
+    if (TERMINAL_STATUSES.includes(current.status)) return resolve(current)
+
+    const unsubscribe = subscribeToJob(id, (record) => {
+      if (TERMINAL_STATUSES.includes(record.status)) {
+        unsubscribe()
+        resolve(record)
+      }
+    })
+  })
+}
+
+export function queueStats() {
+  return { ...queueLimits(), running: state.running, queued: state.pending.length }
+}
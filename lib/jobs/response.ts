@@ -0,0 +1,130 @@
+import { createReadStream, existsSync, statSync } from "fs"
+import { NextResponse } from "next/server"
+import { Readable } from "stream"
+import { enqueueJob, JobQueueFullError, queuePosition, waitForJob } from "./queue"
+import { resultPath, sidecarPath } from "./store"
+import type { JobRecord, JobType } from "./types"
+
+const iso = (time?: number) => (time ? new Date(time).toISOString() : null)
+
+// The public JSON shape of a job, as returned by the create routes and /api/jobs/:id
+export function describeJob(record: JobRecord) {
+  return {
+    id: record.id,
+    type: record.type,
+    status: record.status,
+    progress: Math.round(record.progress * 1000) / 1000,
+    stage: record.stage ?? null,
+    error: record.error ?? null,
+    eta_seconds: record.eta !== undefined ? Math.round(record.eta) : null,
+    encoding: record.encoding
+      ? {
+          frame: record.encoding.frame,
+          fps: record.encoding.fps,
+          out_time: Math.round(record.encoding.outTime * 100) / 100,
+          speed: record.encoding.speed,
+        }
+      : null,
+    queue_position: record.status === "queued" ? queuePosition(record.id) : null,
+    created_at: iso(record.createdAt),
+    started_at: iso(record.startedAt),
+    finished_at: iso(record.finishedAt),
+    expires_at: iso(record.expiresAt),
+    status_url: `/api/jobs/${record.id}`,
+    progress_url: `/api/jobs/${record.id}/progress`,
+    result_url: record.status === "succeeded" ? `/api/jobs/${record.id}/result` : null,
+    result: record.result
+      ? {
+          filename: record.result.filename,
+          mime_type: record.result.mimeType,
+          size: record.result.size,
+          sidecars: (record.result.sidecars ?? []).map((sidecar) => ({
+            filename: sidecar.filename,
+            mime_type: sidecar.mimeType,
+            size: sidecar.size,
+            url: `/api/jobs/${record.id}/result?file=${encodeURIComponent(sidecar.filename)}`,
+          })),
+        }
+      : null,
+  }
+}
+
+// Streams a finished job's file from disk, or the sidecar named `file`. Honors
+// a single byte range so browsers can seek in the video while it downloads.
+export function jobResultResponse(record: JobRecord, rangeHeader?: string | null, file?: string | null): NextResponse {
+  if (record.status !== "succeeded" || !record.result) {
+    return NextResponse.json(
+      { error: "Result not available", status: record.status, details: record.error ?? null },
+      { status: 409 },
+    )
+  }
+
+  const sidecarIndex = file ? (record.result.sidecars ?? []).findIndex((sidecar) => sidecar.filename === file) : -1
+  if (file && sidecarIndex < 0) {
+    return NextResponse.json({ error: `No file named ${file} for this job` }, { status: 404 })
+  }
+  const info = sidecarIndex >= 0 ? record.result.sidecars![sidecarIndex] : record.result
+  const path = sidecarIndex >= 0 ? sidecarPath(record.id, sidecarIndex) : resultPath(record.id)
+  if (!existsSync(path)) {
+    return NextResponse.json({ error: "Result file no longer available" }, { status: 410 })
+  }
+
+  const size = statSync(path).size
+  const headers: Record<string, string> = {
+    "Content-Type": info.mimeType,
+    "Content-Disposition": `attachment; filename="${info.filename}"`,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, max-age=3600",
+  }
+
+  const range = rangeHeader?.match(/^bytes=(\d*)-(\d*)$/)
+  if (range && (range[1] || range[2])) {
+    // "bytes=-500" means the last 500 bytes
+    const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]))
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1
+    if (start > end || start >= size) {
+      return new NextResponse(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } })
+    }
+
+    const stream = Readable.toWeb(createReadStream(path, { start, end })) as ReadableStream
+    return new NextResponse(stream, {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${start}-${end}/${size}`,
+        "Content-Length": String(end - start + 1),
+      },
+    })
+  }
+
+  const stream = Readable.toWeb(createReadStream(path)) as ReadableStream
+  return new NextResponse(stream, { status: 200, headers: { ...headers, "Content-Length": String(size) } })
+}
+
+// Shared by the create routes: queues the job and answers 202 with its status
+// URL, or with `?wait=1` holds the request open and returns the file itself.
+export async function submitJob(request: Request, type: JobType, input: unknown): Promise<NextResponse> {
+  let job: JobRecord
+  try {
+    job = enqueueJob(type, input)
+  } catch (error) {
+    if (error instanceof JobQueueFullError) {
+      return NextResponse.json({ error: error.message }, { status: 503, headers: { "Retry-After": "60" } })
+    }
+    throw error
+  }
+
+  const wait = new URL(request.url).searchParams.get("wait")
+  if (wait === "1" || wait === "true") {
+    const finished = await waitForJob(job.id)
+    if (finished.status !== "succeeded") {
+      return NextResponse.json({ success: false, job: describeJob(finished) }, { status: 500 })
+    }
+    return jobResultResponse(finished, request.headers.get("range"))
+  }
+
+  return NextResponse.json(
+    { success: true, job: describeJob(job) },
+    { status: 202, headers: { Location: `/api/jobs/${job.id}` } },
+  )
+}
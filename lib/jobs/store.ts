@@ -0,0 +1,95 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "fs"
+import { join } from "path"
+import type { JobOutput, JobRecord, JobResultInfo } from "./types"
+
+// Job records and results on disk: `<id>.json`, `<id>.result` and one
+// `<id>.sidecar-<n>` per extra file, so finished renders survive a restart
+// until they expire.
+//
+//   JOBS_DIR              location (default: /tmp/jobs)
+//   JOB_RETENTION_HOURS   how long finished jobs and their files are kept (default: 24)
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/
+
+export function jobsDir(): string {
+  const directory = process.env.JOBS_DIR || "/tmp/jobs"
+  if (!existsSync(directory)) mkdirSync(directory, { recursive: true })
+  return directory
+}
+
+export function jobRetentionMs(): number {
+  const hours = Number(process.env.JOB_RETENTION_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000
+}
+
+export function isJobId(value: string): boolean {
+  return ID_PATTERN.test(value)
+}
+
+const recordPath = (id: string) => join(jobsDir(), `${id}.json`)
+
+export const resultPath = (id: string) => join(jobsDir(), `${id}.result`)
+
+export const sidecarPath = (id: string, index: number) => join(jobsDir(), `${id}.sidecar-${index}`)
+
+function writeAtomic(path: string, data: Buffer | string) {
+  writeFileSync(`${path}.tmp`, data)
+  renameSync(`${path}.tmp`, path)
+}
+
+// Atomic like the Telegram preference store: temp file, then rename
+export function saveJobRecord(record: JobRecord) {
+  writeAtomic(recordPath(record.id), JSON.stringify(record, null, 2))
+}
+
+export function loadJobRecord(id: string): JobRecord | null {
+  if (!isJobId(id)) return null
+  try {
+    return JSON.parse(readFileSync(recordPath(id), "utf8"))
+  } catch {
+    return null
+  }
+}
+
+export function saveJobResult(id: string, output: JobOutput): JobResultInfo {
+  writeAtomic(resultPath(id), output.data)
+  const sidecars = (output.sidecars ?? []).map((sidecar, index) => {
+    writeAtomic(sidecarPath(id, index), sidecar.data)
+    return { filename: sidecar.filename, mimeType: sidecar.mimeType, size: sidecar.data.length }
+  })
+  return {
+    filename: output.filename,
+    mimeType: output.mimeType,
+    size: statSync(resultPath(id)).size,
+    ...(sidecars.length > 0 && { sidecars }),
+  }
+}
+
+export function deleteJobFiles(id: string) {
+  const directory = jobsDir()
+  for (const file of readdirSync(directory)) {
+    if (!file.startsWith(`${id}.`)) continue
+    try {
+      unlinkSync(join(directory, file))
+    } catch {}
+  }
+}
+
+export function listJobRecords(): JobRecord[] {
+  return readdirSync(jobsDir())
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => loadJobRecord(file.slice(0, -5)))
+    .filter((record): record is JobRecord => record !== null)
+}
+
+// Deletes jobs whose retention ran out; returns how many were removed
+export function sweepExpiredJobs(now = Date.now()): number {
+  let removed = 0
+  for (const record of listJobRecords()) {
+    if (record.expiresAt && record.expiresAt <= now) {
+      deleteJobFiles(record.id)
+      removed++
+    }
+  }
+  return removed
+}
@@ -0,0 +1,64 @@
+export type JobType = "video" | "instagram-short" | "slideshow"
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled"
+
+export interface JobFileInfo {
+  // File name offered for download
+  filename: string
+  mimeType: string
+  size: number
+}
+
+export interface JobResultInfo extends JobFileInfo {
+  // Extra files served next to the main result, e.g. caption files
+  sidecars?: JobFileInfo[]
+}
+
+// Live encoder figures while FFmpeg runs
+export interface JobEncodingStats {
+  frame: number
+  fps: number
+  // Seconds of output written so far
+  outTime: number
+  // Relative to real time, e.g. 1.5
+  speed: number
+}
+
+// What is persisted and reported for a job; inputs stay in memory only
+export interface JobRecord {
+  id: string
+  type: JobType
+  status: JobStatus
+  // 0-1
+  progress: number
+  // Human-readable step, e.g. "Synthesizing narration"
+  stage?: string
+  error?: string
+  // Seconds until the current stage finishes, when it can be estimated
+  eta?: number
+  encoding?: JobEncodingStats
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+  // When the record and its result are deleted; set once the job finishes
+  expiresAt?: number
+  result?: JobResultInfo
+}
+
+export interface JobSidecar {
+  data: Buffer
+  filename: string
+  mimeType: string
+}
+
+export interface JobOutput extends JobSidecar {
+  sidecars?: JobSidecar[]
+}
+
+export interface JobContext {
+  // Aborted when the job is cancelled; pass it to spawned processes
+  signal: AbortSignal
+  reportProgress(progress: number, stage?: string, details?: Pick<JobRecord, "eta" | "encoding">): void
+}
+
+export type JobHandler<Input = any> = (input: Input, context: JobContext) => Promise<JobOutput>
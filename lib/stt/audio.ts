@@ -0,0 +1,55 @@
+import { type AudioMetadata, readAudioMetadata } from "@/lib/audio/metadata"
+import { transcodeAudio } from "@/lib/audio/transcode"
+
+export interface PreparedAudio {
+  audio: Buffer
+  metadata: AudioMetadata
+}
+
+// Re-encodes audio a recognizer cannot take as-is into 16 kHz mono 16-bit WAV,
+// which every backend accepts
+async function toSpeechWav(audio: Buffer): Promise<PreparedAudio> {
+  const wav = await transcodeAudio(audio, { format: "wav", sampleRate: 16000, channels: 1, bitDepth: 16 })
+  return { audio: wav.audio, metadata: readAudioMetadata(wav.audio)! }
+}
+
+// Reads the upload's real stream parameters, failing early on audio no
+// recognizer could decode
+export function describeUpload(audio: Buffer): AudioMetadata {
+  const metadata = readAudioMetadata(audio)
+  if (!metadata) {
+    throw new Error("Unrecognized or corrupt audio: expected WAV, MP3, OGG, FLAC or M4A")
+  }
+  return metadata
+}
+
+// Google's RecognitionConfig encoding for the bytes, re-encoding containers
+// and codecs it cannot read (M4A, Vorbis, non-PCM WAV)
+export async function prepareGoogleAudio(audio: Buffer): Promise<PreparedAudio & { encoding: string }> {
+  const metadata = describeUpload(audio)
+  if (metadata.format === "mp3") return { audio, metadata, encoding: "MP3" }
+  if (metadata.format === "flac") return { audio, metadata, encoding: "FLAC" }
+  if (metadata.format === "ogg" && metadata.codec === "opus") return { audio, metadata, encoding: "OGG_OPUS" }
+  if (metadata.format === "wav" && metadata.codec === "pcm" && metadata.bitDepth === 16) {
+    return { audio, metadata, encoding: "LINEAR16" }
+  }
+  return { ...(await toSpeechWav(audio)), encoding: "LINEAR16" }
+}
+
+// Azure's short-audio REST endpoint takes PCM WAV or Ogg Opus only; the
+// Content-Type has to describe the stream exactly
+export async function prepareAzureAudio(audio: Buffer): Promise<PreparedAudio & { contentType: string }> {
+  const metadata = describeUpload(audio)
+  if (metadata.format === "ogg" && metadata.codec === "opus") {
+    return { audio, metadata, contentType: "audio/ogg; codecs=opus" }
+  }
+
+  const prepared =
+    metadata.format === "wav" && metadata.codec === "pcm" && metadata.bitDepth === 16 && metadata.channels === 1
+      ? { audio, metadata }
+      : await toSpeechWav(audio)
+  return {
+    ...prepared,
+    contentType: `audio/wav; codecs=audio/pcm; samplerate=${prepared.metadata.sampleRate}`,
+  }
+}
@@ -0,0 +1,115 @@
+import { type DiarizeOptions, diarizeWav, type SpeakerTurn } from "@/lib/audio/diarize"
+import { transcodeAudio } from "@/lib/audio/transcode"
+import type { TranscriptSegment, TranscriptWord } from "./types"
+
+export interface SpeakerSummary {
+  id: string
+  // Seconds of speech attributed to the speaker
+  talkTime: number
+  segments: number
+  words: number
+}
+
+export const speakerId = (index: number) => `S${index}`
+
+// Google accepts up to 6 speakers; the local segmenter gets unreliable beyond that too
+const SPEAKER_LIMIT = 6
+
+const truthy = (value: unknown) => value === true || ["1", "true", "yes"].includes(String(value).toLowerCase())
+
+// Reads `diarize`, `min_speakers` and `max_speakers` from a request body.
+// Returns undefined when diarization was not asked for.
+export function readDiarizeOptions(body: Record<string, unknown>): DiarizeOptions | undefined {
+  if (!truthy(body.diarize)) return undefined
+
+  const count = (value: unknown, name: string) => {
+    if (value === undefined || value === null || value === "") return undefined
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < 1 || number > SPEAKER_LIMIT) {
+      throw new Error(`${name} must be an integer between 1 and ${SPEAKER_LIMIT}`)
+    }
+    return number
+  }
+  const minSpeakers = count(body.min_speakers, "min_speakers") ?? 1
+  const maxSpeakers = count(body.max_speakers, "max_speakers") ?? SPEAKER_LIMIT
+  if (minSpeakers > maxSpeakers) {
+    throw new Error("min_speakers cannot be larger than max_speakers")
+  }
+  return { minSpeakers, maxSpeakers }
+}
+
+// The turn overlapping [start, end] the most, or the closest one when none does
+function turnAt(turns: SpeakerTurn[], start: number, end: number): SpeakerTurn | undefined {
+  let best: SpeakerTurn | undefined
+  let bestScore = -Infinity
+  for (const turn of turns) {
+    const overlap = Math.min(end, turn.end) - Math.max(start, turn.start)
+    if (overlap > bestScore) {
+      bestScore = overlap
+      best = turn
+    }
+  }
+  return best
+}
+
+// Labels words, and segments without word timings, with the local turns
+export function applySpeakerTurns(segments: TranscriptSegment[], turns: SpeakerTurn[]): TranscriptSegment[] {
+  if (turns.length === 0) return segments
+  const label = (start: number, end: number) => speakerId(turnAt(turns, start, end)!.speaker)
+
+  return segments.map((segment) =>
+    segment.words.length > 0
+      ? { ...segment, words: segment.words.map((word) => ({ ...word, speaker: label(word.start, word.end) })) }
+      : { ...segment, speaker: label(segment.start, segment.end) },
+  )
+}
+
+// Splits segments wherever the speaker changes between words
+export function splitBySpeaker(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments.flatMap((segment) => {
+    const runs: TranscriptWord[][] = []
+    for (const word of segment.words) {
+      const run = runs[runs.length - 1]
+      if (run && run[0].speaker === word.speaker) {
+        run.push(word)
+      } else {
+        runs.push([word])
+      }
+    }
+
+    if (runs.length <= 1) {
+      return [{ ...segment, speaker: runs[0]?.[0].speaker ?? segment.speaker }]
+    }
+    return runs.map((words) => ({
+      ...segment,
+      text: words.map((word) => word.text).join(" "),
+      start: words[0].start,
+      end: words[words.length - 1].end,
+      words,
+      speaker: words[0].speaker,
+    }))
+  })
+}
+
+export function summarizeSpeakers(segments: TranscriptSegment[]): SpeakerSummary[] {
+  const speakers = new Map<string, SpeakerSummary>()
+  for (const segment of segments) {
+    if (!segment.speaker) continue
+    const summary = speakers.get(segment.speaker) || { id: segment.speaker, talkTime: 0, segments: 0, words: 0 }
+    summary.talkTime = Math.round((summary.talkTime + segment.end - segment.start) * 1000) / 1000
+    summary.segments++
+    summary.words += segment.words.length || segment.text.split(/\s+/).filter(Boolean).length
+    speakers.set(segment.speaker, summary)
+  }
+  return [...speakers.values()]
+}
+
+// Runs the energy/pause segmenter on the upload; non-WAV input needs ffmpeg
+export async function diarizeLocally(
+  audio: Buffer,
+  options: DiarizeOptions,
+  signal?: AbortSignal,
+): Promise<SpeakerTurn[]> {
+  const wav = await transcodeAudio(audio, { format: "wav", sampleRate: 16000, channels: 1, bitDepth: 16 }, signal)
+  return diarizeWav(wav.audio, options)
+}
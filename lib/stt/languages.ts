@@ -0,0 +1,103 @@
+// Recognition language handling shared by the STT backends.
+//
+//   STT_DEFAULT_LANGUAGE  language when the request names none (default: en-US)
+//   STT_AUTO_LANGUAGES    candidates for backends that cannot identify a language
+//                         on their own and got no hints (default: es-ES,hi-IN,fr-FR)
+
+export const AUTO_LANGUAGE = "auto"
+
+// Google accepts at most three alternative language codes
+export const MAX_ALTERNATIVE_LANGUAGES = 3
+
+export interface LanguageOptions {
+  // A BCP-47 tag or "auto"
+  language: string
+  alternativeLanguages: string[]
+}
+
+export function defaultSTTLanguage(): string {
+  return process.env.STT_DEFAULT_LANGUAGE || "en-US"
+}
+
+export function autoLanguageCandidates(): string[] {
+  return (process.env.STT_AUTO_LANGUAGES || "es-ES,hi-IN,fr-FR")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+}
+
+// Canonical casing ("hi-in" -> "hi-IN"); throws on anything that is not BCP-47
+export function normalizeLanguageTag(value: string): string {
+  try {
+    return new Intl.Locale(value.trim()).toString()
+  } catch {}
+  throw new Error(`"${value}" is not a valid BCP-47 language tag`)
+}
+
+// Reads `language` and `alternative_languages` (array or comma-separated)
+// from a request body
+export function readLanguageOptions(body: Record<string, unknown>): LanguageOptions {
+  const requested = typeof body.language === "string" && body.language.trim() ? body.language.trim() : undefined
+  const language =
+    requested?.toLowerCase() === AUTO_LANGUAGE ? AUTO_LANGUAGE : normalizeLanguageTag(requested || defaultSTTLanguage())
+
+  const raw = body.alternative_languages
+  const list = Array.isArray(raw) ? raw.map(String) : typeof raw === "string" ? raw.split(",") : []
+  const alternativeLanguages = Array.from(
+    new Set(
+      list
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+        .map(normalizeLanguageTag),
+    ),
+  ).filter((tag) => tag !== language)
+
+  if (alternativeLanguages.length > MAX_ALTERNATIVE_LANGUAGES) {
+    throw new Error(`alternative_languages accepts at most ${MAX_ALTERNATIVE_LANGUAGES} languages`)
+  }
+  return { language, alternativeLanguages }
+}
+
+// "hi-IN" -> "hi", for backends that only take ISO 639-1 codes
+export function baseLanguage(tag: string): string {
+  return tag.split("-")[0].toLowerCase()
+}
+
+// Languages Whisper can identify. The API reports them by English name.
+const WHISPER_LANGUAGES =
+  "en zh de es ru ko fr ja pt tr pl ca nl ar sv it id hi fi vi he uk el ms cs ro da hu ta no th ur hr bg lt la mi ml " +
+  "cy sk te fa lv bn sr az sl kn et mk br eu is hy ne mn bs kk sq sw gl mr pa si km sn yo so af oc ka be tg sd gu am " +
+  "yi lo uz fo ht ps tk nn mt sa lb my bo tl mg as tt haw ln ha ba jv su yue"
+
+// Whisper's names where they differ from the Unicode English display name
+const WHISPER_NAME_OVERRIDES: Record<string, string> = {
+  myanmar: "my",
+  nynorsk: "nn",
+  norwegian: "no",
+  castilian: "es",
+  valencian: "ca",
+  flemish: "nl",
+  haitian: "ht",
+  letzeburgesch: "lb",
+  moldavian: "ro",
+  moldovan: "ro",
+  pushto: "ps",
+  panjabi: "pa",
+  sinhalese: "si",
+  mandarin: "zh",
+}
+
+let whisperNames: Map<string, string> | undefined
+
+// Maps a Whisper language name ("hindi") or code to an ISO 639 code
+export function whisperLanguageCode(name: string): string | undefined {
+  if (!whisperNames) {
+    const display = new Intl.DisplayNames(["en"], { type: "language" })
+    whisperNames = new Map(WHISPER_LANGUAGES.split(" ").map((code) => [display.of(code)!.toLowerCase(), code]))
+    for (const [alias, code] of Object.entries(WHISPER_NAME_OVERRIDES)) whisperNames.set(alias, code)
+  }
+
+  const key = name.trim().toLowerCase()
+  if (WHISPER_LANGUAGES.split(" ").includes(key)) return key
+  return whisperNames.get(key)
+}
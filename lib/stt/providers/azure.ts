@@ -0,0 +1,78 @@
+import { prepareAzureAudio } from "../audio"
+import { AUTO_LANGUAGE, defaultSTTLanguage } from "../languages"
+import { normalizeWord, segmentFromWords } from "../transcript"
+import type { STTProvider, TranscriptSegment, TranscriptionRequest } from "../types"
+
+interface AzureWord {
+  Word: string
+  // 100 ns ticks
+  Offset: number
+  Duration: number
+  Confidence?: number
+}
+
+const TICKS_PER_SECOND = 10000000
+
+export const azureSTTProvider: STTProvider = {
+  id: "azure",
+  name: "Azure Speech Services",
+  local: false,
+  isAvailable: () => Boolean(process.env.AZURE_SPEECH_KEY && process.env.AZURE_SPEECH_REGION),
+  transcribe: async ({ audio: upload, language = defaultSTTLanguage() }: TranscriptionRequest) => {
+    // Language identification needs the Speech SDK; fall through to a backend that has it
+    if (language === AUTO_LANGUAGE) {
+      throw new Error("The short-audio REST API cannot identify languages; pass an explicit language")
+    }
+
+    const { audio, metadata, contentType } = await prepareAzureAudio(upload)
+    const response = await fetch(
+      `https://${process.env.AZURE_SPEECH_REGION}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1?language=${encodeURIComponent(language)}&format=detailed&wordLevelTimestamps=true`,
+      {
+        method: "POST",
+        headers: {
+          "Ocp-Apim-Subscription-Key": process.env.AZURE_SPEECH_KEY!,
+          "Content-Type": contentType,
+        },
+        body: audio,
+      },
+    )
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    // Detailed format moves the text into NBest; Display keeps punctuation
+    const result = await response.json()
+    const best = result.NBest?.[0]
+    const text = best?.Display || result.DisplayText
+    if (!text) {
+      throw new Error(`No speech recognized (${result.RecognitionStatus || "unknown status"})`)
+    }
+
+    const words = ((best?.Words || []) as AzureWord[]).map((word) =>
+      normalizeWord(
+        word.Word,
+        word.Offset / TICKS_PER_SECOND,
+        (word.Offset + word.Duration) / TICKS_PER_SECOND,
+        word.Confidence,
+      ),
+    )
+    const timing = segmentFromWords(words, text) || {
+      text,
+      start: (result.Offset || 0) / TICKS_PER_SECOND,
+      end: ((result.Offset || 0) + (result.Duration || 0)) / TICKS_PER_SECOND,
+      words: [],
+    }
+    const segment: TranscriptSegment = { ...timing, confidence: best?.Confidence }
+
+    return {
+      text,
+      confidence: best?.Confidence || 0.85,
+      language,
+      // Duration covers recognized speech only, in 100 ns ticks
+      duration: metadata.duration || result.Duration / TICKS_PER_SECOND,
+      words,
+      segments: [segment],
+    }
+  },
+}
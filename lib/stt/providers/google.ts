@@ -0,0 +1,143 @@
+import { prepareGoogleAudio } from "../audio"
+import { applySpeakerTurns, splitBySpeaker } from "../diarization"
+import { AUTO_LANGUAGE, autoLanguageCandidates, defaultSTTLanguage, normalizeLanguageTag } from "../languages"
+import { normalizeWord, segmentFromWords } from "../transcript"
+import type { STTProvider, TranscriptSegment, TranscriptionRequest } from "../types"
+
+interface GoogleWord {
+  word: string
+  // Durations such as "1.300s"
+  startTime?: string
+  endTime?: string
+  confidence?: number
+  // 1-based, only with diarization
+  speakerTag?: number
+}
+
+interface GoogleResult {
+  alternatives?: { transcript?: string; confidence?: number; words?: GoogleWord[] }[]
+  resultEndTime?: string
+  // Lowercased BCP-47, only reported when alternative languages were given
+  languageCode?: string
+}
+
+const seconds = (duration?: string) => Number.parseFloat(duration || "0") || 0
+
+// Opus streams decode at any of these; other header rates mean "decode at 48 kHz"
+const OPUS_RATES = [8000, 12000, 16000, 24000, 48000]
+
+export const googleSTTProvider: STTProvider = {
+  id: "google",
+  name: "Google Cloud Speech-to-Text",
+  local: false,
+  isAvailable: () => Boolean(process.env.GOOGLE_CLOUD_API_KEY),
+  transcribe: async ({ audio: upload, language, alternativeLanguages = [], diarize }: TranscriptionRequest) => {
+    const { audio, metadata, encoding } = await prepareGoogleAudio(upload)
+
+    // Google has no open-ended detection: "auto" picks among the hints, or
+    // among STT_AUTO_LANGUAGES when there are none
+    const auto = language === AUTO_LANGUAGE
+    const candidates = auto
+      ? [defaultSTTLanguage(), ...(alternativeLanguages.length > 0 ? alternativeLanguages : autoLanguageCandidates())]
+      : [language || defaultSTTLanguage(), ...alternativeLanguages]
+    const [languageCode, ...alternativeLanguageCodes] = Array.from(new Set(candidates)).slice(0, 4)
+    const sampleRate =
+      encoding === "OGG_OPUS" && !OPUS_RATES.includes(metadata.sampleRate) ? 48000 : metadata.sampleRate
+
+    // MP3 and alternative languages are only accepted by the v1p1beta1 surface
+    const version = encoding === "MP3" || alternativeLanguageCodes.length > 0 ? "v1p1beta1" : "v1"
+    const response = await fetch(`https://speech.googleapis.com/${version}/speech:recognize`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.GOOGLE_CLOUD_API_KEY}`,
+      },
+      body: JSON.stringify({
+        config: {
+          encoding,
+          sampleRateHertz: sampleRate,
+          audioChannelCount: metadata.channels,
+          languageCode,
+          ...(alternativeLanguageCodes.length > 0 && { alternativeLanguageCodes }),
+          enableAutomaticPunctuation: true,
+          enableWordTimeOffsets: true,
+          ...(diarize && {
+            diarizationConfig: {
+              enableSpeakerDiarization: true,
+              minSpeakerCount: diarize.minSpeakers,
+              maxSpeakerCount: diarize.maxSpeakers,
+            },
+          }),
+        },
+        audio: {
+          content: audio.toString("base64"),
+        },
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    const result = await response.json()
+    if (!result.results || result.results.length === 0) {
+      throw new Error("No speech recognized")
+    }
+
+    // Each result is one consecutive chunk of the audio, with its own language
+    const chunks = (result.results as GoogleResult[]).filter((chunk) => chunk.alternatives?.[0]?.transcript)
+    let segments = chunks.flatMap((chunk): TranscriptSegment[] => {
+      const alternative = chunk.alternatives![0]
+      const segment = segmentFromWords(
+        (alternative.words || []).map((word) =>
+          normalizeWord(word.word, seconds(word.startTime), seconds(word.endTime), word.confidence),
+        ),
+        alternative.transcript,
+      )
+      if (!segment) return []
+      return [
+        {
+          ...segment,
+          confidence: alternative.confidence,
+          language: chunk.languageCode ? normalizeLanguageTag(chunk.languageCode) : languageCode,
+        },
+      ]
+    })
+
+    // With diarization the last result repeats every word, tagged with its speaker
+    const last = (result.results as GoogleResult[]).at(-1)
+    const tagged = last?.alternatives?.[0]?.words?.filter((word) => word.speakerTag)
+    const diarized = Boolean(diarize && tagged && tagged.length > 0)
+    if (diarized) {
+      const turns = tagged!.map((word) => ({
+        speaker: word.speakerTag!,
+        start: seconds(word.startTime),
+        end: seconds(word.endTime),
+      }))
+      segments = splitBySpeaker(applySpeakerTurns(segments, turns))
+    }
+
+    const confidences = segments
+      .map((segment) => segment.confidence)
+      .filter((value): value is number => value !== undefined)
+
+    // The language that covers most of the speech wins
+    const spoken = new Map<string, number>()
+    for (const segment of segments) {
+      spoken.set(segment.language!, (spoken.get(segment.language!) || 0) + segment.end - segment.start)
+    }
+    const detected = [...spoken.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
+
+    return {
+      text: chunks.map((chunk) => chunk.alternatives![0].transcript!.trim()).join(" "),
+      confidence:
+        confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : 0.9,
+      language: detected || languageCode,
+      detectedLanguage: alternativeLanguageCodes.length > 0 ? detected : undefined,
+      duration: metadata.duration,
+      words: segments.flatMap((segment) => segment.words),
+      segments,
+      diarization: diarized ? ("backend" as const) : undefined,
+    }
+  },
+}
@@ -0,0 +1,76 @@
+import { audioMimeType } from "@/lib/audio/format"
+import { describeUpload } from "../audio"
+import { AUTO_LANGUAGE, baseLanguage, defaultSTTLanguage, whisperLanguageCode } from "../languages"
+import { attachWords, normalizeWord } from "../transcript"
+import type { STTProvider, TranscriptionRequest } from "../types"
+
+interface WhisperApiSegment {
+  text: string
+  start: number
+  end: number
+  // Mean token log-probability
+  avg_logprob?: number
+}
+
+export const openaiSTTProvider: STTProvider = {
+  id: "openai",
+  name: "OpenAI Whisper",
+  local: false,
+  isAvailable: () => Boolean(process.env.OPENAI_API_KEY),
+  transcribe: async ({ audio, filename, language = defaultSTTLanguage() }: TranscriptionRequest) => {
+    const metadata = describeUpload(audio)
+    // Whisper picks its decoder from the file extension
+    const name = filename.toLowerCase().endsWith(`.${metadata.format}`) ? filename : `${filename}.${metadata.format}`
+
+    const formData = new FormData()
+    formData.append("file", new Blob([audio], { type: audioMimeType(metadata.format) }), name)
+    formData.append("model", "whisper-1")
+    // Leaving the language out makes Whisper identify it; hints are not supported
+    if (language !== AUTO_LANGUAGE) formData.append("language", baseLanguage(language))
+    // verbose_json is the only response format that carries timings
+    formData.append("response_format", "verbose_json")
+    formData.append("timestamp_granularities[]", "word")
+    formData.append("timestamp_granularities[]", "segment")
+
+    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+      },
+      body: formData,
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    const result = await response.json()
+    const words = ((result.words || []) as { word: string; start: number; end: number }[]).map((word) =>
+      normalizeWord(word.word, word.start, word.end),
+    )
+    const apiSegments = (result.segments || []) as WhisperApiSegment[]
+    const segments = attachWords(apiSegments, words).map((segment, index) => {
+      const logprob = apiSegments[index].avg_logprob
+      return logprob === undefined ? segment : { ...segment, confidence: Math.round(Math.exp(logprob) * 1000) / 1000 }
+    })
+    const scored = segments.filter((segment) => segment.confidence !== undefined)
+    const spoken = scored.reduce((sum, segment) => sum + segment.end - segment.start, 0)
+
+    // Reported by name ("hindi")
+    const detected = result.language ? whisperLanguageCode(result.language) : undefined
+
+    return {
+      text: result.text,
+      // Duration-weighted segment probability; Whisper has no utterance score
+      confidence:
+        spoken > 0
+          ? scored.reduce((sum, segment) => sum + segment.confidence! * (segment.end - segment.start), 0) / spoken
+          : 0.9,
+      language: language === AUTO_LANGUAGE ? detected || result.language || "und" : language,
+      detectedLanguage: language === AUTO_LANGUAGE ? detected : undefined,
+      duration: metadata.duration,
+      words,
+      segments,
+    }
+  },
+}
@@ -0,0 +1,194 @@
+import { existsSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs"
+import { join, resolve } from "path"
+import { transcodeAudio } from "@/lib/audio/transcode"
+import { commandExists, runCommand } from "@/lib/command"
+import { describeUpload } from "../audio"
+import { AUTO_LANGUAGE, baseLanguage, defaultSTTLanguage } from "../languages"
+import { normalizeWord } from "../transcript"
+import type { STTProvider, TranscriptSegment, TranscriptWord, TranscriptionRequest } from "../types"
+
+// whisper.cpp command line, fully offline. Detected once per process from:
+//
+//   WHISPER_CPP_BIN        binary (default: whisper-cli or whisper-cpp on PATH)
+//   WHISPER_CPP_MODEL      ggml model file (default: best ggml-*.bin in the model dir)
+//   WHISPER_CPP_MODEL_DIR  model directory (default: ./models)
+//   WHISPER_CPP_THREADS    decoder threads (default: 4)
+
+interface WhisperSetup {
+  binary: string
+  model: string
+}
+
+// Milliseconds from the start of the audio
+interface WhisperOffsets {
+  from: number
+  to: number
+}
+
+interface WhisperToken {
+  text: string
+  p: number
+  offsets?: WhisperOffsets
+}
+
+interface WhisperSegment {
+  text: string
+  offsets?: WhisperOffsets
+  tokens?: WhisperToken[]
+}
+
+interface WhisperOutput {
+  result?: { language?: string }
+  transcription?: WhisperSegment[]
+}
+
+// Larger models are slower but more accurate; prefer the best one installed
+const MODEL_PREFERENCE = ["large", "medium", "small", "base", "tiny"]
+
+function findModel(): string | null {
+  if (process.env.WHISPER_CPP_MODEL) {
+    return existsSync(process.env.WHISPER_CPP_MODEL) ? process.env.WHISPER_CPP_MODEL : null
+  }
+
+  const directory = resolve(process.env.WHISPER_CPP_MODEL_DIR || "models")
+  if (!existsSync(directory)) return null
+
+  const models = readdirSync(directory).filter((file) => /^ggml-.+\.bin$/.test(file))
+  const rank = (file: string) => {
+    const index = MODEL_PREFERENCE.findIndex((size) => file.includes(size))
+    return index < 0 ? MODEL_PREFERENCE.length : index
+  }
+  const best = models.sort((a, b) => rank(a) - rank(b))[0]
+  return best ? join(directory, best) : null
+}
+
+async function detectWhisper(): Promise<WhisperSetup | null> {
+  const model = findModel()
+  if (!model) return null
+
+  const candidates = process.env.WHISPER_CPP_BIN ? [process.env.WHISPER_CPP_BIN] : ["whisper-cli", "whisper-cpp"]
+  for (const binary of candidates) {
+    if (await commandExists(binary, ["--help"])) {
+      console.log(`Offline STT: whisper.cpp (${binary}) with model ${model}`)
+      return { binary, model }
+    }
+  }
+  return null
+}
+
+let setup: Promise<WhisperSetup | null> | undefined
+
+function getWhisperSetup() {
+  setup = setup || detectWhisper()
+  return setup
+}
+
+// Special tokens such as [_BEG_] and [_TT_150] carry no text
+const isTextToken = (token: WhisperToken) => !token.text.startsWith("[_")
+
+// Whisper tokens are word pieces; a leading space starts a new word
+function segmentWords(segment: WhisperSegment): TranscriptWord[] {
+  const words: { text: string; from: number; to: number; p: number[] }[] = []
+  for (const token of (segment.tokens || []).filter(isTextToken)) {
+    const current = words[words.length - 1]
+    if (!current || token.text.startsWith(" ")) {
+      words.push({ text: token.text, from: token.offsets?.from ?? 0, to: token.offsets?.to ?? 0, p: [token.p] })
+    } else {
+      current.text += token.text
+      current.to = token.offsets?.to ?? current.to
+      current.p.push(token.p)
+    }
+  }
+  return words
+    .filter((word) => word.text.trim())
+    .map((word) =>
+      normalizeWord(word.text, word.from / 1000, word.to / 1000, word.p.reduce((sum, p) => sum + p, 0) / word.p.length),
+    )
+}
+
+// Mean probability of the text tokens; whisper.cpp reports no utterance-level score
+function tokenConfidence(segments: WhisperSegment[]): number {
+  const probabilities = segments
+    .flatMap((segment) => segment.tokens || [])
+    .filter(isTextToken)
+    .map((token) => token.p)
+  return probabilities.length > 0 ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length : 0
+}
+
+export const whisperCppProvider: STTProvider = {
+  id: "whisper-cpp",
+  name: "whisper.cpp (offline)",
+  local: true,
+  isAvailable: async () => (await getWhisperSetup()) !== null,
+  transcribe: async ({ audio, language = defaultSTTLanguage(), signal }: TranscriptionRequest) => {
+    const whisper = await getWhisperSetup()
+    if (!whisper) {
+      throw new Error("whisper.cpp is not installed")
+    }
+
+    const metadata = describeUpload(audio)
+    // whisper.cpp only reads 16 kHz mono 16-bit WAV
+    const wav = await transcodeAudio(audio, { format: "wav", sampleRate: 16000, channels: 1, bitDepth: 16 }, signal)
+
+    const base = join("/tmp", `stt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`)
+    const inputFile = `${base}.wav`
+    const outputFile = `${base}.json`
+
+    try {
+      writeFileSync(inputFile, wav.audio)
+      await runCommand(
+        whisper.binary,
+        [
+          "-m",
+          whisper.model,
+          "-f",
+          inputFile,
+          // "auto" runs whisper's own language identification
+          "-l",
+          language === AUTO_LANGUAGE ? "auto" : baseLanguage(language),
+          "-t",
+          String(Number(process.env.WHISPER_CPP_THREADS) || 4),
+          "-np",
+          "-ojf",
+          "-of",
+          base,
+        ],
+        { signal },
+      )
+
+      const output: WhisperOutput = JSON.parse(readFileSync(outputFile, "utf8"))
+      const text = (output.transcription || [])
+        .map((segment) => segment.text)
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim()
+      // With -l auto, result.language is the identified ISO 639-1 code
+      const detected = output.result?.language
+      const segments: TranscriptSegment[] = (output.transcription || [])
+        .filter((segment) => segment.text.trim())
+        .map((segment) => ({
+          text: segment.text.trim(),
+          start: (segment.offsets?.from ?? 0) / 1000,
+          end: (segment.offsets?.to ?? 0) / 1000,
+          words: segmentWords(segment),
+          confidence: tokenConfidence([segment]),
+        }))
+
+      return {
+        text,
+        confidence: tokenConfidence(output.transcription || []),
+        language: language === AUTO_LANGUAGE ? detected || "und" : language,
+        detectedLanguage: language === AUTO_LANGUAGE ? detected : undefined,
+        duration: metadata.duration,
+        words: segments.flatMap((segment) => segment.words),
+        segments,
+      }
+    } finally {
+      for (const file of [inputFile, outputFile]) {
+        try {
+          unlinkSync(file)
+        } catch {}
+      }
+    }
+  },
+}
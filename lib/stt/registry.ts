@@ -0,0 +1,123 @@
+import { applySpeakerTurns, diarizeLocally, splitBySpeaker } from "./diarization"
+import { azureSTTProvider } from "./providers/azure"
+import { googleSTTProvider } from "./providers/google"
+import { openaiSTTProvider } from "./providers/openai"
+import { whisperCppProvider } from "./providers/whisper-cpp"
+import type { STTProvider, STTProviderId, TranscriptionRequest, TranscriptionResult } from "./types"
+
+const PROVIDERS: Record<STTProviderId, STTProvider> = {
+  google: googleSTTProvider,
+  azure: azureSTTProvider,
+  openai: openaiSTTProvider,
+  "whisper-cpp": whisperCppProvider,
+}
+
+// Cloud services first, then the offline recognizer.
+// Override with STT_PROVIDER_PRIORITY="whisper-cpp,openai".
+export const DEFAULT_STT_PRIORITY: STTProviderId[] = ["google", "azure", "openai", "whisper-cpp"]
+
+export interface TranscriptionAttempt {
+  provider: STTProviderId
+  error: string
+}
+
+export interface TranscriptionOutcome extends TranscriptionResult {
+  provider: STTProviderId
+  service: string
+  attempts: TranscriptionAttempt[]
+  // Why speakers are missing although diarization was requested
+  diarizationError?: string
+}
+
+// Thrown when no recognizer is configured at all, as opposed to every
+// configured recognizer failing on this particular audio
+export class NoSTTBackendError extends Error {
+  constructor(attempts: TranscriptionAttempt[]) {
+    super(
+      `No STT backend available (tried ${attempts.map((attempt) => attempt.provider).join(", ")}). ` +
+        "Set GOOGLE_CLOUD_API_KEY, AZURE_SPEECH_KEY + AZURE_SPEECH_REGION or OPENAI_API_KEY, or install whisper.cpp with a ggml model.",
+    )
+    this.name = "NoSTTBackendError"
+  }
+}
+
+export function isSTTProviderId(value: unknown): value is STTProviderId {
+  return typeof value === "string" && value in PROVIDERS
+}
+
+export function listSTTProviders(): STTProvider[] {
+  return Object.values(PROVIDERS)
+}
+
+export function resolveSTTPriority(priority?: string | string[]): STTProviderId[] {
+  const source = priority ?? process.env.STT_PROVIDER_PRIORITY
+  const list = (Array.isArray(source) ? source : (source || "").split(","))
+    .map((id) => id.trim().toLowerCase())
+    .filter(isSTTProviderId)
+
+  return list.length > 0 ? Array.from(new Set(list)) : DEFAULT_STT_PRIORITY
+}
+
+// Falls back to the local segmenter when the backend did not label speakers.
+// A failure here keeps the transcript and reports why speakers are missing.
+async function addSpeakers(
+  request: TranscriptionRequest,
+  result: TranscriptionResult,
+): Promise<TranscriptionResult & { diarizationError?: string }> {
+  if (!request.diarize || result.diarization) return result
+
+  try {
+    const turns = await diarizeLocally(request.audio, request.diarize, request.signal)
+    const segments = splitBySpeaker(applySpeakerTurns(result.segments, turns))
+    return {
+      ...result,
+      segments,
+      words: segments.flatMap((segment) => segment.words),
+      diarization: "local",
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    console.log(`Local diarization failed: ${message}`)
+    return { ...result, diarizationError: message }
+  }
+}
+
+// Tries recognizers in order and returns the first transcript, with every
+// failure along the way. Never invents text: when nothing is configured it
+// throws NoSTTBackendError.
+export async function transcribeAudio(
+  request: TranscriptionRequest,
+  options: { priority?: string | string[] } = {},
+): Promise<TranscriptionOutcome> {
+  const attempts: TranscriptionAttempt[] = []
+  let configured = 0
+
+  for (const id of resolveSTTPriority(options.priority)) {
+    const provider = PROVIDERS[id]
+
+    try {
+      if (!(await provider.isAvailable())) {
+        attempts.push({ provider: id, error: "not configured" })
+        continue
+      }
+
+      configured++
+      const result = await provider.transcribe(request)
+      console.log(`STT served by ${id}`)
+      return { ...(await addSpeakers(request, result)), provider: id, service: provider.name, attempts }
+    } catch (error) {
+      // A cancelled request must not carry on down the chain
+      if (request.signal?.aborted) throw error
+      const message = error instanceof Error ? error.message : "Unknown error"
+      console.log(`STT provider ${id} failed: ${message}`)
+      attempts.push({ provider: id, error: message })
+    }
+  }
+
+  if (configured === 0) {
+    throw new NoSTTBackendError(attempts)
+  }
+  throw new Error(
+    `All STT providers failed: ${attempts.map((attempt) => `${attempt.provider} (${attempt.error})`).join(", ")}`,
+  )
+}
@@ -0,0 +1,114 @@
+import type { TranscriptSegment } from "./types"
+
+export const SUBTITLE_FORMATS = ["srt", "vtt", "json"] as const
+export type SubtitleFormat = (typeof SUBTITLE_FORMATS)[number]
+
+export interface SubtitleCue {
+  start: number
+  end: number
+  // One or two lines joined with "\n"
+  text: string
+  speaker?: string
+}
+
+export interface CueOptions {
+  // Per line; two lines per cue
+  maxLineLength?: number
+  // Seconds a single cue may stay on screen
+  maxDuration?: number
+}
+
+export function isSubtitleFormat(value: unknown): value is SubtitleFormat {
+  return typeof value === "string" && (SUBTITLE_FORMATS as readonly string[]).includes(value)
+}
+
+export const SUBTITLE_MIME_TYPES: Record<Exclude<SubtitleFormat, "json">, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+}
+
+// Breaks at the space closest to the middle so both lines are similar widths
+function wrapLines(text: string, maxLineLength: number): string {
+  if (text.length <= maxLineLength) return text
+
+  const middle = text.length / 2
+  let best = -1
+  for (let index = text.indexOf(" "); index !== -1; index = text.indexOf(" ", index + 1)) {
+    if (best === -1 || Math.abs(index - middle) < Math.abs(best - middle)) best = index
+  }
+  return best === -1 ? text : `${text.slice(0, best)}\n${text.slice(best + 1)}`
+}
+
+// Splits segments into readable cues along word timings. Segments without
+// word timings become one cue each.
+export function buildCues(segments: TranscriptSegment[], options: CueOptions = {}): SubtitleCue[] {
+  const maxLineLength = options.maxLineLength ?? 42
+  const maxDuration = options.maxDuration ?? 7
+  const cues: SubtitleCue[] = []
+
+  for (const segment of segments) {
+    if (segment.words.length === 0) {
+      if (segment.text) {
+        cues.push({
+          start: segment.start,
+          end: segment.end,
+          text: wrapLines(segment.text, maxLineLength),
+          speaker: segment.speaker,
+        })
+      }
+      continue
+    }
+
+    let words: typeof segment.words = []
+    const flush = () => {
+      if (words.length === 0) return
+      const text = words.map((word) => word.text).join(" ")
+      cues.push({
+        start: words[0].start,
+        end: words[words.length - 1].end,
+        text: wrapLines(text, maxLineLength),
+        speaker: segment.speaker,
+      })
+      words = []
+    }
+
+    for (const word of segment.words) {
+      const length = words.reduce((sum, current) => sum + current.text.length + 1, word.text.length)
+      if (words.length > 0 && (length > maxLineLength * 2 || word.end - words[0].start > maxDuration)) flush()
+      words.push(word)
+    }
+    flush()
+  }
+  return cues
+}
+
+// HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT
+export function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const total = Math.max(0, Math.round(seconds * 1000))
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0")
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor((total % 3600000) / 60000)
+  const secs = Math.floor((total % 60000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(total % 1000, 3)}`
+}
+
+// SRT has no speaker markup; the label is prefixed to the text
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => {
+      const text = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text
+      return `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${text}\n`
+    })
+    .join("\n")
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map((cue) => {
+      // WebVTT voice spans name the speaker
+      const text = cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text
+      return `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${text}\n`
+    })
+    .join("\n")
+  return `WEBVTT\n\n${body}`
+}
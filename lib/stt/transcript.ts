@@ -0,0 +1,41 @@
+import type { TranscriptSegment, TranscriptWord } from "./types"
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+export function normalizeWord(text: string, start: number, end: number, confidence?: number): TranscriptWord {
+  return {
+    text: text.trim(),
+    start: round(start),
+    end: round(Math.max(start, end)),
+    ...(confidence !== undefined && { confidence: Math.round(confidence * 1000) / 1000 }),
+  }
+}
+
+export function segmentFromWords(words: TranscriptWord[], text?: string): TranscriptSegment | null {
+  if (words.length === 0) return null
+  return {
+    text: text?.trim() || words.map((word) => word.text).join(" "),
+    start: words[0].start,
+    end: words[words.length - 1].end,
+    words,
+  }
+}
+
+// Attaches separately reported words to the segments they fall in, by midpoint
+export function attachWords(
+  segments: { text: string; start: number; end: number }[],
+  words: TranscriptWord[],
+): TranscriptSegment[] {
+  return segments.map((segment, index) => {
+    const last = index === segments.length - 1
+    return {
+      text: segment.text.trim(),
+      start: round(segment.start),
+      end: round(segment.end),
+      words: words.filter((word) => {
+        const middle = (word.start + word.end) / 2
+        return middle >= segment.start && (middle < segment.end || last)
+      }),
+    }
+  })
+}
@@ -0,0 +1,60 @@
+export type STTProviderId = "google" | "azure" | "openai" | "whisper-cpp"
+
+export interface TranscriptionRequest {
+  audio: Buffer
+  filename: string
+  // BCP-47 tag, or "auto" to let the backend identify it (default: STT_DEFAULT_LANGUAGE)
+  language?: string
+  // Other languages the speaker may be using; only some backends take hints
+  alternativeLanguages?: string[]
+  // Label who said what; off when unset
+  diarize?: { minSpeakers?: number; maxSpeakers?: number }
+  // Stops local decoding (ffmpeg, whisper.cpp) when aborted, e.g. on client disconnect
+  signal?: AbortSignal
+}
+
+// Times are seconds from the start of the audio
+export interface TranscriptWord {
+  text: string
+  start: number
+  end: number
+  confidence?: number
+  speaker?: string
+}
+
+// A phrase or utterance as the recognizer split it
+export interface TranscriptSegment {
+  text: string
+  start: number
+  end: number
+  words: TranscriptWord[]
+  confidence?: number
+  // When the backend labels segments individually (Google with alternatives)
+  language?: string
+  speaker?: string
+}
+
+export interface TranscriptionResult {
+  text: string
+  confidence: number
+  // The language the transcript is in: detected when available, else the requested one
+  language: string
+  // Set only when the backend identified the language itself
+  detectedLanguage?: string
+  // Seconds
+  duration: number
+  // Empty when the backend returned no timings
+  words: TranscriptWord[]
+  segments: TranscriptSegment[]
+  // Who labeled the speakers, when diarization was requested
+  diarization?: "backend" | "local"
+}
+
+export interface STTProvider {
+  id: STTProviderId
+  // Human-readable service name reported as `service_used`
+  name: string
+  local: boolean
+  isAvailable(): Promise<boolean> | boolean
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>
+}
@@ -0,0 +1,184 @@
+import { oggOpusDuration } from "@/lib/audio/ogg"
+import { transcodeAudio } from "@/lib/audio/transcode"
+import { wavPeaks } from "@/lib/audio/wav"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+
+const TELEGRAM_API = "https://api.telegram.org"
+
+// Telegram stores voice waveforms as 100 five-bit samples, packed LSB first
+const WAVEFORM_SAMPLES = 100
+const WAVEFORM_BITS = 5
+
+export interface InlineKeyboardButton {
+  text: string
+  // At most 64 bytes, echoed back in the callback_query update
+  callback_data: string
+}
+
+export type InlineKeyboard = InlineKeyboardButton[][]
+
+export interface SendOptions {
+  caption?: string
+  // Message id to reply to; sending still succeeds if it was deleted
+  replyTo?: number
+  keyboard?: InlineKeyboard
+}
+
+export interface VoiceNote {
+  audio: Buffer
+  // Whole seconds, as sendVoice expects
+  duration: number
+  waveform?: Buffer
+  provider: string
+}
+
+// Calls a Bot API method and returns its `result`; throws with Telegram's
+// description when the call is rejected
+export async function callTelegram(botToken: string, method: string, body: FormData | Record<string, unknown>) {
+  const response = await fetch(`${TELEGRAM_API}/bot${botToken}/${method}`, {
+    method: "POST",
+    ...(body instanceof FormData
+      ? { body }
+      : { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+  })
+  const payload = await response.json()
+  if (!payload.ok) {
+    throw new Error(`Telegram ${method} failed: ${payload.description || response.status}`)
+  }
+  return payload.result
+}
+
+export function encodeVoiceWaveform(peaks: number[]): Buffer {
+  const max = (1 << WAVEFORM_BITS) - 1
+  const loudest = Math.max(...peaks, 1e-6)
+  const packed = Buffer.alloc(Math.ceil((peaks.length * WAVEFORM_BITS) / 8))
+
+  peaks.forEach((peak, index) => {
+    const value = Math.round((peak / loudest) * max)
+    for (let bit = 0; bit < WAVEFORM_BITS; bit++) {
+      if (value & (1 << bit)) {
+        const position = index * WAVEFORM_BITS + bit
+        packed[position >> 3] |= 1 << (position & 7)
+      }
+    }
+  })
+  return packed
+}
+
+// Synthesizes text as a Telegram voice note: mono 48 kHz Ogg Opus with its
+// real duration read back from the encoded stream. Any provider in the default
+// chain will do, since the audio is transcoded to Opus either way.
+export async function createVoiceNote(
+  text: string,
+  options: { voice?: string; language?: string; rate?: number; waveform?: boolean } = {},
+): Promise<VoiceNote> {
+  const speech = await synthesizeSpeech({
+    text,
+    voice: options.voice,
+    language: options.language,
+    rate: options.rate ?? 1,
+    pitch: 1,
+    volume: 1,
+    format: "wav",
+  })
+  const voice = await transcodeAudio(speech.audio, { format: "ogg", channels: 1, sampleRate: 48000, bitrate: 32 })
+
+  let waveform: Buffer | undefined
+  if (options.waveform) {
+    let pcm = speech.audio
+    if (speech.format !== "wav") {
+      pcm = (await transcodeAudio(speech.audio, { format: "wav", channels: 1 })).audio
+    }
+    waveform = encodeVoiceWaveform(wavPeaks(pcm, WAVEFORM_SAMPLES))
+  }
+
+  return {
+    audio: voice.audio,
+    duration: Math.max(1, Math.round(oggOpusDuration(voice.audio))),
+    waveform,
+    provider: speech.provider,
+  }
+}
+
+function replyParameters(replyTo: number) {
+  return { message_id: replyTo, allow_sending_without_reply: true }
+}
+
+function appendSendOptions(formData: FormData, options: SendOptions) {
+  if (options.caption) formData.append("caption", options.caption)
+  if (options.replyTo) formData.append("reply_parameters", JSON.stringify(replyParameters(options.replyTo)))
+}
+
+export async function sendMessage(botToken: string, chatId: string | number, text: string, options: SendOptions = {}) {
+  return callTelegram(botToken, "sendMessage", {
+    chat_id: chatId,
+    text,
+    ...(options.replyTo && { reply_parameters: replyParameters(options.replyTo) }),
+    ...(options.keyboard && { reply_markup: { inline_keyboard: options.keyboard } }),
+  })
+}
+
+// Replaces the text (and keyboard) of a message the bot sent earlier
+export async function editMessageText(
+  botToken: string,
+  chatId: string | number,
+  messageId: number,
+  text: string,
+  keyboard?: InlineKeyboard,
+) {
+  return callTelegram(botToken, "editMessageText", {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    ...(keyboard && { reply_markup: { inline_keyboard: keyboard } }),
+  })
+}
+
+// Stops the button's loading spinner, optionally flashing a short notice
+export async function answerCallbackQuery(botToken: string, callbackQueryId: string, text?: string) {
+  return callTelegram(botToken, "answerCallbackQuery", { callback_query_id: callbackQueryId, text })
+}
+
+export async function sendVoice(botToken: string, chatId: string | number, note: VoiceNote, options: SendOptions = {}) {
+  const formData = new FormData()
+  formData.append("chat_id", String(chatId))
+  formData.append("voice", new Blob([note.audio], { type: "audio/ogg" }), "voice.ogg")
+  formData.append("duration", String(note.duration))
+  appendSendOptions(formData, options)
+  // Not a documented Bot API field: clients draw their own bars when it is
+  // ignored, so sending it is harmless
+  if (note.waveform) formData.append("waveform", note.waveform.toString("base64"))
+
+  return callTelegram(botToken, "sendVoice", formData)
+}
+
+export async function sendAudio(
+  botToken: string,
+  chatId: string | number,
+  audio: { data: Buffer; mimeType: string; filename: string; duration?: number },
+  options: SendOptions = {},
+) {
+  const formData = new FormData()
+  formData.append("chat_id", String(chatId))
+  formData.append("audio", new Blob([audio.data], { type: audio.mimeType }), audio.filename)
+  if (audio.duration) formData.append("duration", String(Math.round(audio.duration)))
+  appendSendOptions(formData, options)
+
+  return callTelegram(botToken, "sendAudio", formData)
+}
+
+// Bots may only download files up to 20 MB through getFile
+export const TELEGRAM_DOWNLOAD_LIMIT = 20 * 1024 * 1024
+
+export async function downloadFile(botToken: string, fileId: string): Promise<{ data: Buffer; path: string }> {
+  const file = await callTelegram(botToken, "getFile", { file_id: fileId })
+  if (!file.file_path) {
+    throw new Error("Telegram did not return a download path for this file")
+  }
+
+  const response = await fetch(`${TELEGRAM_API}/file/bot${botToken}/${file.file_path}`)
+  if (!response.ok) {
+    throw new Error(`Failed to download Telegram file: HTTP ${response.status}`)
+  }
+  return { data: Buffer.from(await response.arrayBuffer()), path: file.file_path }
+}
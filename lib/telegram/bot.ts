@@ -0,0 +1,438 @@
+import { timingSafeEqual } from "crypto"
+import { transcodeAudio } from "@/lib/audio/transcode"
+import { resolveGTTSVoice, VOICE_MAPPING } from "@/lib/tts/providers/gtts"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import { audioDuration } from "@/lib/tts/timing"
+import {
+  answerCallbackQuery,
+  callTelegram,
+  createVoiceNote,
+  downloadFile,
+  editMessageText,
+  type InlineKeyboard,
+  sendAudio,
+  sendMessage,
+  sendVoice,
+  TELEGRAM_DOWNLOAD_LIMIT,
+} from "./api"
+import { type ChatPreferences, getChatPreferences, SPEED_RANGE, updateChatPreferences } from "./preferences"
+
+// Webhook bot configuration comes from the server environment only:
+//
+//   TELEGRAM_BOT_TOKEN       token from @BotFather
+//   TELEGRAM_WEBHOOK_SECRET  secret_token passed to setWebhook; Telegram echoes
+//                            it in X-Telegram-Bot-Api-Secret-Token
+//   TELEGRAM_BOT_LANGUAGE    default speech language (default: en)
+
+export interface TelegramBotConfig {
+  token: string
+  secret: string
+  defaultLanguage: string
+}
+
+interface TelegramFile {
+  file_id: string
+  file_size?: number
+  mime_type?: string
+  file_name?: string
+  duration?: number
+}
+
+export interface TelegramMessage {
+  message_id: number
+  chat: { id: number; type: string }
+  from?: { id: number; first_name?: string; language_code?: string }
+  text?: string
+  voice?: TelegramFile
+  audio?: TelegramFile
+}
+
+export interface TelegramCallbackQuery {
+  id: string
+  from: { id: number }
+  // The bot message carrying the pressed button
+  message?: TelegramMessage
+  data?: string
+}
+
+export interface TelegramUpdate {
+  update_id: number
+  message?: TelegramMessage
+  callback_query?: TelegramCallbackQuery
+}
+
+export interface BotContext {
+  config: TelegramBotConfig
+  // Origin of this deployment, used to reach the STT route
+  origin: string
+}
+
+const MAX_SPEAK_LENGTH = 5000
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z]{2,4})?$/i
+const SPEED_STEP = 0.25
+
+const HELP_TEXT = [
+  "🗣 FreeTTS bot",
+  "",
+  "/speak <text> – reply with an MP3 of the text",
+  "/voice <text> – reply with a voice note",
+  "/setvoice [voice] – pick a voice (e.g. /setvoice en-gb or /setvoice Microsoft Hazel)",
+  "/lang <code> – set the speech language (e.g. en, en-gb, fr, hi)",
+  "/speed <0.5-2> – set the speaking rate",
+  "/mode <voice|text> – speak my replies to plain messages, or only on commands",
+  "/settings – show and change your settings",
+  "/help – show this message",
+  "",
+  "Send a voice message or audio file and I'll transcribe it.",
+].join("\n")
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" })
+
+export function getBotConfig(): TelegramBotConfig | null {
+  const token = process.env.TELEGRAM_BOT_TOKEN
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET
+  if (!token || !secret) return null
+  return { token, secret, defaultLanguage: process.env.TELEGRAM_BOT_LANGUAGE || "en" }
+}
+
+export function verifyWebhookSecret(header: string | null, secret: string): boolean {
+  if (!header) return false
+  const received = Buffer.from(header)
+  const expected = Buffer.from(secret)
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+// "/speak@MyBot hello" -> { command: "speak", args: "hello" }
+function parseCommand(text: string): { command: string; args: string } | null {
+  const match = text.match(/^\/([a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i)
+  return match ? { command: match[1].toLowerCase(), args: (match[2] || "").trim() } : null
+}
+
+function preferencesFor(context: BotContext, chatId: number): ChatPreferences {
+  return getChatPreferences(chatId, context.config.defaultLanguage)
+}
+
+function updatePreferences(context: BotContext, chatId: number, changes: Partial<ChatPreferences>) {
+  return updateChatPreferences(chatId, context.config.defaultLanguage, changes)
+}
+
+// Synthesis parameters for a chat: an explicit voice wins over the language
+function speechOptions(preferences: ChatPreferences) {
+  return { voice: preferences.voice || preferences.language, language: preferences.language, rate: preferences.speed }
+}
+
+function voiceLabel(code: string): string {
+  try {
+    return `${languageNames.of(code)} (${code})`
+  } catch {
+    return code
+  }
+}
+
+// One button per distinct gTTS voice that VOICE_MAPPING resolves to, two per row
+function voicePickerKeyboard(preferences: ChatPreferences): InlineKeyboard {
+  const current = resolveGTTSVoice(preferences.voice, preferences.language)
+  const codes = Array.from(new Set(Object.values(VOICE_MAPPING)))
+  const keyboard: InlineKeyboard = []
+
+  for (let i = 0; i < codes.length; i += 2) {
+    keyboard.push(
+      codes.slice(i, i + 2).map((code) => ({
+        text: `${code === current ? "✅ " : ""}${voiceLabel(code)}`,
+        callback_data: `voice:${code}`,
+      })),
+    )
+  }
+  keyboard.push([{ text: "⬅️ Back to settings", callback_data: "settings" }])
+  return keyboard
+}
+
+function settingsText(preferences: ChatPreferences): string {
+  const resolved = voiceLabel(resolveGTTSVoice(preferences.voice, preferences.language))
+  const mode =
+    preferences.replyMode === "voice" ? "voice (plain messages are spoken back)" : "text (audio on commands only)"
+  return [
+    "⚙️ Settings for this chat",
+    "",
+    `Voice: ${preferences.voice || "follows language"} → ${resolved}`,
+    `Language: ${preferences.language}`,
+    `Speed: ${preferences.speed}×`,
+    `Reply mode: ${mode}`,
+  ].join("\n")
+}
+
+function settingsKeyboard(preferences: ChatPreferences): InlineKeyboard {
+  const otherMode = preferences.replyMode === "voice" ? "text" : "voice"
+  return [
+    [{ text: "🗣 Choose voice", callback_data: "picker" }],
+    [
+      { text: "🐢 Slower", callback_data: `speed:${preferences.speed - SPEED_STEP}` },
+      { text: "⏩ Faster", callback_data: `speed:${preferences.speed + SPEED_STEP}` },
+    ],
+    [{ text: `💬 Switch to ${otherMode} replies`, callback_data: `mode:${otherMode}` }],
+  ]
+}
+
+// Parses and clamps a speed value; null when it is not a number
+function parseSpeed(value: string): number | null {
+  const speed = Number(value.replace(/[x×]$/i, ""))
+  if (!Number.isFinite(speed)) return null
+  return Math.round(Math.max(SPEED_RANGE[0], Math.min(SPEED_RANGE[1], speed)) * 100) / 100
+}
+
+// Best effort "recording…" / "typing…" indicator while we work
+function showActivity(context: BotContext, chatId: number, action: "typing" | "record_voice" | "upload_voice") {
+  return callTelegram(context.config.token, "sendChatAction", { chat_id: chatId, action }).catch(() => undefined)
+}
+
+async function speak(context: BotContext, message: TelegramMessage, text: string) {
+  const preferences = preferencesFor(context, message.chat.id)
+  await showActivity(context, message.chat.id, "upload_voice")
+
+  const result = await synthesizeSpeech({
+    text,
+    ...speechOptions(preferences),
+    pitch: 1,
+    volume: 1,
+    format: "mp3",
+  })
+
+  // Telegram only shows MP3/M4A in its music player; anything else arrives as a file
+  let audio = { data: result.audio, mimeType: result.mimeType, format: result.format as string }
+  if (result.format !== "mp3") {
+    try {
+      const mp3 = await transcodeAudio(result.audio, { format: "mp3" })
+      audio = { data: mp3.audio, mimeType: mp3.mimeType, format: "mp3" }
+    } catch (error) {
+      console.log("Sending unconverted audio:", error instanceof Error ? error.message : error)
+    }
+  }
+
+  await sendAudio(
+    context.config.token,
+    message.chat.id,
+    {
+      data: audio.data,
+      mimeType: audio.mimeType,
+      filename: `speech.${audio.format}`,
+      duration: audioDuration(result.audio, result.format),
+    },
+    { replyTo: message.message_id },
+  )
+}
+
+async function speakVoiceNote(context: BotContext, message: TelegramMessage, text: string) {
+  const preferences = preferencesFor(context, message.chat.id)
+  await showActivity(context, message.chat.id, "record_voice")
+
+  const note = await createVoiceNote(text, speechOptions(preferences))
+  await sendVoice(context.config.token, message.chat.id, note, { replyTo: message.message_id })
+}
+
+async function transcribe(context: BotContext, message: TelegramMessage, file: TelegramFile) {
+  const { token } = context.config
+
+  if (file.file_size && file.file_size > TELEGRAM_DOWNLOAD_LIMIT) {
+    await sendMessage(token, message.chat.id, "⚠️ That file is too large for me to download (20 MB limit).", {
+      replyTo: message.message_id,
+    })
+    return
+  }
+
+  await showActivity(context, message.chat.id, "typing")
+  const download = await downloadFile(token, file.file_id)
+  const preferences = preferencesFor(context, message.chat.id)
+
+  const response = await fetch(new URL("/api/stt-telegram", context.origin), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      audio_base64: download.data.toString("base64"),
+      filename: file.file_name || download.path.split("/").pop() || "voice.ogg",
+      // People often speak another language than the one they set for speech
+      language: "auto",
+      alternative_languages: [preferences.language],
+    }),
+  })
+  const transcription = await response.json()
+  if (!response.ok || !transcription.success) {
+    throw new Error(transcription.details || transcription.error || `STT failed with HTTP ${response.status}`)
+  }
+
+  const text = transcription.data?.text?.trim()
+  const reply = text ? `🎤 Transcription: ${text}` : "🎤 I couldn't make out any speech."
+  await sendMessage(token, message.chat.id, reply, { replyTo: message.message_id })
+}
+
+async function handleCommand(context: BotContext, message: TelegramMessage, command: string, args: string) {
+  const { token } = context.config
+  const reply = (text: string) => sendMessage(token, message.chat.id, text, { replyTo: message.message_id })
+
+  switch (command) {
+    case "start":
+    case "help":
+      await reply(HELP_TEXT)
+      return
+    case "speak":
+    case "voice":
+      if (!args) {
+        await reply(`Usage: /${command} <text>`)
+      } else if (args.length > MAX_SPEAK_LENGTH) {
+        await reply(`Text must be less than ${MAX_SPEAK_LENGTH} characters.`)
+      } else if (command === "speak") {
+        await speak(context, message, args)
+      } else {
+        await speakVoiceNote(context, message, args)
+      }
+      return
+    case "lang":
+      if (!args) {
+        const current = preferencesFor(context, message.chat.id).language
+        await reply(`Current language: ${current}. Change it with /lang <code>, e.g. /lang fr`)
+      } else if (!LANGUAGE_PATTERN.test(args)) {
+        await reply("Language must be a code like en, en-gb or pt-br.")
+      } else {
+        // A new language replaces any explicit voice so the two cannot disagree
+        updatePreferences(context, message.chat.id, { language: args.toLowerCase(), voice: undefined })
+        await reply(`Speech language set to ${args.toLowerCase()}.`)
+      }
+      return
+    case "setvoice": {
+      const preferences = preferencesFor(context, message.chat.id)
+      const key = args.toLowerCase()
+      if (!args) {
+        await sendMessage(token, message.chat.id, "Pick a voice:", {
+          replyTo: message.message_id,
+          keyboard: voicePickerKeyboard(preferences),
+        })
+      } else if (!VOICE_MAPPING[key]) {
+        await sendMessage(token, message.chat.id, `Unknown voice "${args}". Pick one of these:`, {
+          replyTo: message.message_id,
+          keyboard: voicePickerKeyboard(preferences),
+        })
+      } else {
+        updatePreferences(context, message.chat.id, { voice: key })
+        await reply(`Voice set to ${args} → ${voiceLabel(VOICE_MAPPING[key])}.`)
+      }
+      return
+    }
+    case "speed": {
+      const speed = parseSpeed(args)
+      if (speed === null) {
+        await reply(`Usage: /speed <${SPEED_RANGE[0]}-${SPEED_RANGE[1]}>, e.g. /speed 1.25`)
+      } else {
+        updatePreferences(context, message.chat.id, { speed })
+        await reply(`Speaking rate set to ${speed}×.`)
+      }
+      return
+    }
+    case "mode":
+      if (args !== "voice" && args !== "text") {
+        await reply("Usage: /mode voice – speak plain messages back, or /mode text – audio on commands only")
+      } else {
+        updatePreferences(context, message.chat.id, { replyMode: args })
+        await reply(`Reply mode set to ${args}.`)
+      }
+      return
+    case "settings": {
+      const preferences = preferencesFor(context, message.chat.id)
+      await sendMessage(token, message.chat.id, settingsText(preferences), {
+        replyTo: message.message_id,
+        keyboard: settingsKeyboard(preferences),
+      })
+      return
+    }
+    default:
+      await reply("Unknown command. Send /help to see what I can do.")
+  }
+}
+
+// Inline keyboard presses from /settings and the voice picker: apply the
+// change, then redraw the same message with the updated state
+async function handleCallbackQuery(context: BotContext, query: TelegramCallbackQuery) {
+  const { token } = context.config
+  const message = query.message
+  if (!message || !query.data) {
+    await answerCallbackQuery(token, query.id)
+    return
+  }
+
+  const chatId = message.chat.id
+  const [action, value = ""] = query.data.split(":")
+  let preferences = preferencesFor(context, chatId)
+  let notice: string | undefined
+  let view: "settings" | "picker" = "settings"
+
+  if (action === "voice" && Object.values(VOICE_MAPPING).includes(value)) {
+    preferences = updatePreferences(context, chatId, { voice: value })
+    notice = `Voice set to ${voiceLabel(value)}`
+  } else if (action === "speed" && parseSpeed(value) !== null) {
+    preferences = updatePreferences(context, chatId, { speed: parseSpeed(value)! })
+    notice = `Speed ${preferences.speed}×`
+  } else if (action === "mode" && (value === "voice" || value === "text")) {
+    preferences = updatePreferences(context, chatId, { replyMode: value })
+    notice = `Reply mode: ${value}`
+  } else if (action === "picker") {
+    view = "picker"
+  }
+
+  await answerCallbackQuery(token, query.id, notice)
+  try {
+    if (view === "picker") {
+      await editMessageText(token, chatId, message.message_id, "Pick a voice:", voicePickerKeyboard(preferences))
+    } else {
+      await editMessageText(token, chatId, message.message_id, settingsText(preferences), settingsKeyboard(preferences))
+    }
+  } catch (error) {
+    // Pressing a button that changes nothing leaves the message as it was
+    if (!(error instanceof Error && error.message.includes("message is not modified"))) throw error
+  }
+}
+
+// Acts on one webhook update and replies in the originating chat. Failures
+// are reported to the chat instead of thrown, so Telegram does not keep
+// redelivering an update that will fail again.
+export async function handleUpdate(update: TelegramUpdate, context: BotContext): Promise<string> {
+  if (update.callback_query) {
+    try {
+      await handleCallbackQuery(context, update.callback_query)
+      return "callback"
+    } catch (error) {
+      console.error("Telegram bot callback error:", error instanceof Error ? error.message : error)
+      return "failed"
+    }
+  }
+
+  const message = update.message
+  if (!message) return "ignored"
+
+  try {
+    const parsed = message.text ? parseCommand(message.text) : null
+    if (parsed) {
+      await handleCommand(context, message, parsed.command, parsed.args)
+      return `command:${parsed.command}`
+    }
+
+    const file = message.voice || message.audio
+    if (file) {
+      await transcribe(context, message, file)
+      return "transcribed"
+    }
+
+    // Voice reply mode: private chats get every plain message read back
+    const text = message.text?.trim()
+    if (text && message.chat.type === "private" && preferencesFor(context, message.chat.id).replyMode === "voice") {
+      await speakVoiceNote(context, message, text.slice(0, MAX_SPEAK_LENGTH))
+      return "spoken"
+    }
+
+    return "ignored"
+  } catch (error) {
+    const details = error instanceof Error ? error.message : "Unknown error"
+    console.error("Telegram bot error:", details)
+    await sendMessage(context.config.token, message.chat.id, `⚠️ Sorry, something went wrong: ${details}`, {
+      replyTo: message.message_id,
+    }).catch(() => undefined)
+    return "failed"
+  }
+}
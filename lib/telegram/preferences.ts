@@ -0,0 +1,92 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs"
+import { dirname } from "path"
+
+// Per-chat bot settings, keyed by Telegram chat.id and kept in one JSON file.
+//
+//   TELEGRAM_PREFERENCES_FILE  location (default: /tmp/telegram-bot/preferences.json)
+
+export interface ChatPreferences {
+  // A VOICE_MAPPING key or language code; unset means "follow the language"
+  voice?: string
+  language: string
+  // Speech rate multiplier, 0.5-2
+  speed: number
+  // "voice": plain messages in private chats are spoken back as voice notes;
+  // "text": only commands produce audio
+  replyMode: "voice" | "text"
+  updatedAt: number
+}
+
+export interface PreferenceStore {
+  get(chatId: number): ChatPreferences | null
+  set(chatId: number, preferences: ChatPreferences): void
+}
+
+export const SPEED_RANGE = [0.5, 2]
+
+export function createMemoryPreferenceStore(): PreferenceStore {
+  const chats = new Map<number, ChatPreferences>()
+  return {
+    get: (chatId) => chats.get(chatId) || null,
+    set: (chatId, preferences) => {
+      chats.set(chatId, preferences)
+    },
+  }
+}
+
+// Loads the file once, then rewrites it on every change through a temp file
+// and rename so a crash mid-write never leaves truncated JSON behind
+export function createFilePreferenceStore(path: string): PreferenceStore {
+  let chats: Record<string, ChatPreferences> | null = null
+
+  const load = () => {
+    if (!chats) {
+      try {
+        chats = existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : {}
+      } catch (error) {
+        console.log("Ignoring unreadable Telegram preferences file:", error)
+        chats = {}
+      }
+    }
+    return chats!
+  }
+
+  return {
+    get: (chatId) => load()[String(chatId)] || null,
+    set: (chatId, preferences) => {
+      const all = load()
+      all[String(chatId)] = preferences
+      if (!existsSync(dirname(path))) mkdirSync(dirname(path), { recursive: true })
+      writeFileSync(`${path}.tmp`, JSON.stringify(all, null, 2))
+      renameSync(`${path}.tmp`, path)
+    },
+  }
+}
+
+let store: PreferenceStore | undefined
+
+export function getPreferenceStore(): PreferenceStore {
+  if (!store) {
+    store = createFilePreferenceStore(process.env.TELEGRAM_PREFERENCES_FILE || "/tmp/telegram-bot/preferences.json")
+  }
+  return store
+}
+
+// Swaps the store at runtime, e.g. for a database-backed implementation
+export function setPreferenceStore(next: PreferenceStore) {
+  store = next
+}
+
+export function getChatPreferences(chatId: number, defaultLanguage: string): ChatPreferences {
+  return getPreferenceStore().get(chatId) || { language: defaultLanguage, speed: 1, replyMode: "text", updatedAt: 0 }
+}
+
+export function updateChatPreferences(
+  chatId: number,
+  defaultLanguage: string,
+  changes: Partial<Omit<ChatPreferences, "updatedAt">>,
+): ChatPreferences {
+  const next = { ...getChatPreferences(chatId, defaultLanguage), ...changes, updatedAt: Date.now() }
+  getPreferenceStore().set(chatId, next)
+  return next
+}
@@ -0,0 +1,249 @@
+import { createHash } from "crypto"
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs"
+import { join } from "path"
+import type { SynthesisRequest, SynthesisResult, TTSProviderId } from "./types"
+
+// Content-addressed cache for synthesized audio. Keys hash everything that
+// changes the output bytes, so identical lines are fetched from upstream once.
+//
+//   TTS_CACHE_BACKEND      memory | disk | none   (default: disk)
+//   TTS_CACHE_DIR          disk backend location  (default: /tmp/tts-cache)
+//   TTS_CACHE_TTL_SECONDS  entry lifetime         (default: 7 days)
+//   TTS_CACHE_MAX_BYTES    total audio size cap   (default: 200 MB), least recently used evicted first
+
+export interface CacheEntryInfo {
+  key: string
+  provider: TTSProviderId
+  voice: string
+  format: SynthesisResult["format"]
+  size: number
+  textPreview: string
+  createdAt: number
+  lastAccessedAt: number
+  hits: number
+}
+
+export interface CacheEntry {
+  info: CacheEntryInfo
+  result: SynthesisResult
+}
+
+export interface CacheBackend {
+  name: string
+  get(key: string): CacheEntry | null
+  set(entry: CacheEntry): void
+  // Rewrites bookkeeping (hits, last access) without touching the audio
+  touch(info: CacheEntryInfo): void
+  delete(key: string): boolean
+  list(): CacheEntryInfo[]
+}
+
+export type CacheStatus = "HIT" | "MISS" | "BYPASS"
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024
+
+export function normalizeCacheText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim()
+}
+
+export function cacheKey(request: SynthesisRequest, provider: TTSProviderId, resolvedVoice: string): string {
+  const material = JSON.stringify({
+    text: normalizeCacheText(request.text),
+    ssml: request.ssml ? normalizeCacheText(request.ssml) : null,
+    voice: resolvedVoice,
+    rate: Number(request.rate.toFixed(3)),
+    pitch: Number(request.pitch.toFixed(3)),
+    volume: Number(request.volume.toFixed(3)),
+    format: request.format,
+    provider,
+    marks: Boolean(request.marks),
+    options: request.providerOptions || null,
+  })
+  return createHash("sha256").update(material).digest("hex")
+}
+
+export function createMemoryCache(): CacheBackend {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    name: "memory",
+    get: (key) => entries.get(key) || null,
+    set: (entry) => {
+      entries.set(entry.info.key, entry)
+    },
+    touch: (info) => {
+      const entry = entries.get(info.key)
+      if (entry) entries.set(info.key, { ...entry, info })
+    },
+    delete: (key) => entries.delete(key),
+    list: () => Array.from(entries.values()).map((entry) => entry.info),
+  }
+}
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/
+
+// Keys are SHA-256 hex digests, so they are always safe file names
+export const isCacheKey = (value: string) => KEY_PATTERN.test(value)
+
+// One <key>.audio file plus a <key>.json sidecar (info + result metadata) per entry
+export function createDiskCache(directory: string): CacheBackend {
+  const checked = (key: string) => {
+    if (!isCacheKey(key)) throw new Error(`Invalid cache key: ${key.slice(0, 80)}`)
+    return key
+  }
+  const audioPath = (key: string) => join(directory, `${checked(key)}.audio`)
+  const metaPath = (key: string) => join(directory, `${checked(key)}.json`)
+  const ensureDirectory = () => {
+    if (!existsSync(directory)) mkdirSync(directory, { recursive: true })
+  }
+
+  const readMeta = (key: string): { info: CacheEntryInfo; result: Omit<SynthesisResult, "audio"> } | null => {
+    if (!isCacheKey(key)) return null
+    try {
+      return JSON.parse(readFileSync(metaPath(key), "utf8"))
+    } catch {
+      return null
+    }
+  }
+
+  return {
+    name: "disk",
+    get: (key) => {
+      if (!isCacheKey(key)) return null
+      const meta = readMeta(key)
+      if (!meta || !existsSync(audioPath(key))) return null
+      return { info: meta.info, result: { ...meta.result, audio: readFileSync(audioPath(key)) } }
+    },
+    set: (entry) => {
+      ensureDirectory()
+      const { audio, ...result } = entry.result
+      writeFileSync(audioPath(entry.info.key), audio)
+      writeFileSync(metaPath(entry.info.key), JSON.stringify({ info: entry.info, result }))
+    },
+    touch: (info) => {
+      const meta = readMeta(info.key)
+      if (meta) writeFileSync(metaPath(info.key), JSON.stringify({ ...meta, info }))
+    },
+    delete: (key) => {
+      if (!isCacheKey(key)) return false
+      let removed = false
+      for (const path of [audioPath(key), metaPath(key)]) {
+        try {
+          unlinkSync(path)
+          removed = true
+        } catch {}
+      }
+      return removed
+    },
+    list: () => {
+      if (!existsSync(directory)) return []
+      return readdirSync(directory)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length))
+        .filter((key) => isCacheKey(key) && existsSync(audioPath(key)))
+        .map((key) => readMeta(key)?.info)
+        .filter((info): info is CacheEntryInfo => Boolean(info) && isCacheKey(info!.key))
+    },
+  }
+}
+
+let backend: CacheBackend | null | undefined
+
+// Lazily picks the configured backend; null when caching is disabled
+export function getCacheBackend(): CacheBackend | null {
+  if (backend === undefined) {
+    const kind = (process.env.TTS_CACHE_BACKEND || "disk").toLowerCase()
+    backend =
+      kind === "none" || kind === "off"
+        ? null
+        : kind === "memory"
+          ? createMemoryCache()
+          : createDiskCache(process.env.TTS_CACHE_DIR || "/tmp/tts-cache")
+  }
+  return backend
+}
+
+// Swaps the backend at runtime, e.g. to plug in a shared store
+export function setCacheBackend(next: CacheBackend | null) {
+  backend = next
+}
+
+function ttlMs(): number {
+  return (Number(process.env.TTS_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS) * 1000
+}
+
+function maxBytes(): number {
+  return Number(process.env.TTS_CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES
+}
+
+export function readCachedResult(key: string): SynthesisResult | null {
+  const store = getCacheBackend()
+  const entry = store?.get(key)
+  if (!store || !entry) return null
+
+  if (Date.now() - entry.info.createdAt > ttlMs()) {
+    store.delete(key)
+    return null
+  }
+
+  store.touch({ ...entry.info, lastAccessedAt: Date.now(), hits: entry.info.hits + 1 })
+  return entry.result
+}
+
+export function writeCachedResult(key: string, provider: TTSProviderId, text: string, result: SynthesisResult) {
+  const store = getCacheBackend()
+  if (!store) return
+
+  const now = Date.now()
+  store.set({
+    info: {
+      key,
+      provider,
+      voice: result.voice,
+      format: result.format,
+      size: result.audio.length,
+      textPreview: normalizeCacheText(text).slice(0, 80),
+      createdAt: now,
+      lastAccessedAt: now,
+      hits: 0,
+    },
+    result,
+  })
+  enforceCacheLimits()
+}
+
+// Drops expired entries, then evicts least recently used until under the size cap
+export function enforceCacheLimits() {
+  const store = getCacheBackend()
+  if (!store) return
+
+  const now = Date.now()
+  const live: CacheEntryInfo[] = []
+  for (const info of store.list()) {
+    if (now - info.createdAt > ttlMs()) {
+      store.delete(info.key)
+    } else {
+      live.push(info)
+    }
+  }
+
+  let total = live.reduce((sum, info) => sum + info.size, 0)
+  for (const info of live.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+    if (total <= maxBytes()) break
+    store.delete(info.key)
+    total -= info.size
+  }
+}
+
+export function cacheStats() {
+  const store = getCacheBackend()
+  const entries = store?.list() || []
+  return {
+    backend: store?.name || "none",
+    entries: entries.length,
+    totalBytes: entries.reduce((sum, info) => sum + info.size, 0),
+    maxBytes: maxBytes(),
+    ttlSeconds: ttlMs() / 1000,
+  }
+}
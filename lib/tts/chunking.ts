@@ -0,0 +1,51 @@
+// Sentence-aware text splitting for providers with a per-request character limit.
+// Sentences are packed greedily; a sentence longer than the limit is broken at
+// clause punctuation, then at word boundaries, and only hard-cut as a last resort.
+
+const SENTENCE_PATTERN = /[^.!?…।]+(?:[.!?…।]+["'”’)\]]*|$)\s*/g
+
+export function splitSentences(text: string): string[] {
+  return (text.match(SENTENCE_PATTERN) || []).map((sentence) => sentence.trim()).filter(Boolean)
+}
+
+function splitLongSentence(sentence: string, maxLength: number): string[] {
+  const pieces: string[] = []
+  let rest = sentence
+
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength + 1)
+    const clauseBreak = Math.max(
+      window.lastIndexOf(", "),
+      window.lastIndexOf("; "),
+      window.lastIndexOf(": "),
+      window.lastIndexOf(" - "),
+    )
+    const wordBreak = window.lastIndexOf(" ")
+
+    // Don't accept a break so early that it produces tiny fragments
+    const cut = clauseBreak > maxLength / 3 ? clauseBreak + 1 : wordBreak > 0 ? wordBreak : maxLength
+    pieces.push(rest.slice(0, cut).trim())
+    rest = rest.slice(cut).trim()
+  }
+
+  if (rest) pieces.push(rest)
+  return pieces
+}
+
+export function splitTextIntoChunks(text: string, maxLength: number): string[] {
+  const chunks: string[] = []
+  let current = ""
+
+  for (const sentence of splitSentences(text)) {
+    for (const piece of sentence.length > maxLength ? splitLongSentence(sentence, maxLength) : [sentence]) {
+      if (current && current.length + 1 + piece.length > maxLength) {
+        chunks.push(current)
+        current = ""
+      }
+      current = current ? `${current} ${piece}` : piece
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
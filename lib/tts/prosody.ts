@@ -0,0 +1,30 @@
+import type { SynthesisRequest } from "./types"
+
+export type ProsodyOptions = Pick<SynthesisRequest, "rate" | "pitch" | "volume">
+
+// Accepted ranges; 1 is normal for all three
+const PROSODY_RANGES: Record<keyof ProsodyOptions, [number, number]> = {
+  rate: [0.1, 2],
+  pitch: [0, 2],
+  volume: [0, 1],
+}
+
+const readNumber = (value: unknown, name: keyof ProsodyOptions): number => {
+  if (value === undefined || value === null || value === "") return 1
+  const number = typeof value === "number" || typeof value === "string" ? Number(value) : NaN
+  const [min, max] = PROSODY_RANGES[name]
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}`)
+  }
+  return number
+}
+
+// Reads `rate`, `pitch` and `volume` from a request body as numbers, so that
+// "1" and 1 mean the same. Throws with a client-facing message otherwise.
+export function readProsodyOptions(body: Record<string, unknown>): ProsodyOptions {
+  return {
+    rate: readNumber(body.rate, "rate"),
+    pitch: readNumber(body.pitch, "pitch"),
+    volume: readNumber(body.volume, "volume"),
+  }
+}
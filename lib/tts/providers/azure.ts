@@ -0,0 +1,82 @@
+import { ssmlBody } from "../ssml"
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+const DEFAULT_AZURE_VOICE = "en-US-AriaNeural"
+// Azure voice names, e.g. en-US-AriaNeural or zh-CN-shaanxi-XiaoniNeural. Anything
+// else is not an Azure voice and never reaches the SSML attributes.
+const AZURE_VOICE_PATTERN = /^[A-Za-z]{2,3}-[A-Za-z0-9]+(-[A-Za-z0-9]+)+$/
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;")
+}
+
+export const azureProvider: TTSProvider = {
+  id: "azure",
+  name: "Azure Speech Services",
+  capabilities: {
+    formats: ["mp3", "wav"],
+    ssml: true,
+    local: false,
+    requiresApiKey: true,
+    maxTextLength: 5000,
+  },
+  isAvailable: () => Boolean(process.env.AZURE_SPEECH_KEY && process.env.AZURE_SPEECH_REGION),
+  listVoices: async () => {
+    const response = await fetch(
+      `https://${process.env.AZURE_SPEECH_REGION}.tts.speech.microsoft.com/cognitiveservices/voices/list`,
+      { headers: { "Ocp-Apim-Subscription-Key": process.env.AZURE_SPEECH_KEY || "" } },
+    )
+    if (!response.ok) {
+      throw new Error(`Azure voices request failed: ${response.status} ${response.statusText}`)
+    }
+    const voices = await response.json()
+    return voices.map((voice: any) => ({
+      id: voice.ShortName,
+      name: voice.DisplayName,
+      language: voice.Locale,
+      gender: voice.Gender?.toLowerCase(),
+      provider: "azure" as const,
+    }))
+  },
+  synthesize: async (request: SynthesisRequest) => {
+    const voice = request.voice && AZURE_VOICE_PATTERN.test(request.voice) ? request.voice : DEFAULT_AZURE_VOICE
+    const lang = voice.split("-").slice(0, 2).join("-")
+    const pitch = `${request.pitch >= 1 ? "+" : ""}${Math.round((request.pitch - 1) * 50)}%`
+    const prosody = (content: string) =>
+      `<prosody rate='${request.rate}' pitch='${pitch}' volume='${Math.round(request.volume * 100)}'>${content}</prosody>`
+
+    // Azure requires every spoken element inside a <voice>; caller SSML keeps its own voices
+    let body: string
+    if (request.ssml) {
+      const inner = ssmlBody(request.ssml)
+      body = /<voice[\s>]/i.test(inner) ? inner : `<voice name='${voice}'>${prosody(inner)}</voice>`
+    } else {
+      body = `<voice xml:lang='${lang}' name='${voice}'>${prosody(escapeXml(request.text))}</voice>`
+    }
+
+    const response = await fetch(
+      `https://${process.env.AZURE_SPEECH_REGION}.tts.speech.microsoft.com/cognitiveservices/v1`,
+      {
+        method: "POST",
+        headers: {
+          "Ocp-Apim-Subscription-Key": process.env.AZURE_SPEECH_KEY || "",
+          "Content-Type": "application/ssml+xml",
+          "X-Microsoft-OutputFormat":
+            request.format === "wav" ? "riff-24khz-16bit-mono-pcm" : "audio-24khz-48kbitrate-mono-mp3",
+        },
+        body: `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='${lang}'>${body}</speak>`,
+      },
+    )
+
+    if (!response.ok) {
+      throw new Error(`Azure TTS error: ${response.status} ${response.statusText}`)
+    }
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      format: request.format,
+      mimeType: request.format === "wav" ? "audio/wav" : "audio/mpeg",
+      voice,
+    }
+  },
+}
@@ -0,0 +1,59 @@
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+const DEFAULT_ELEVENLABS_VOICE = "21m00Tcm4TlvDq8ikWAM"
+
+export const elevenlabsProvider: TTSProvider = {
+  id: "elevenlabs",
+  name: "ElevenLabs",
+  capabilities: {
+    formats: ["mp3"],
+    ssml: false,
+    local: false,
+    requiresApiKey: true,
+    maxTextLength: 5000,
+  },
+  isAvailable: () => Boolean(process.env.ELEVENLABS_API_KEY),
+  listVoices: async () => {
+    const response = await fetch("https://api.elevenlabs.io/v1/voices", {
+      headers: { "xi-api-key": process.env.ELEVENLABS_API_KEY || "" },
+    })
+    if (!response.ok) {
+      throw new Error(`ElevenLabs voices request failed: ${response.status} ${response.statusText}`)
+    }
+    const result = await response.json()
+    return (result.voices || []).map((voice: any) => ({
+      id: voice.voice_id,
+      name: voice.name,
+      language: voice.labels?.language || "en",
+      gender: voice.labels?.gender,
+      provider: "elevenlabs" as const,
+    }))
+  },
+  synthesize: async (request: SynthesisRequest) => {
+    // ElevenLabs voice ids are opaque 20-char tokens; anything else gets the default voice
+    const voice = request.voice && /^[A-Za-z0-9]{20}$/.test(request.voice) ? request.voice : DEFAULT_ELEVENLABS_VOICE
+    const options = request.providerOptions || {}
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voice}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "xi-api-key": process.env.ELEVENLABS_API_KEY || "",
+      },
+      body: JSON.stringify({
+        text: request.text,
+        model_id: options.model_id || "eleven_monolingual_v1",
+        voice_settings: options.voice_settings || {
+          stability: 0.5,
+          similarity_boost: 0.5,
+        },
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`ElevenLabs error: ${response.status} ${response.statusText}`)
+    }
+
+    return { audio: Buffer.from(await response.arrayBuffer()), format: "mp3", mimeType: "audio/mpeg", voice }
+  },
+}
@@ -0,0 +1,84 @@
+import { readFileSync, unlinkSync } from "fs"
+import { join } from "path"
+import { concatWav, parseWav } from "@/lib/audio/wav"
+import { commandExists, runCommand } from "@/lib/command"
+import { splitSentences } from "../chunking"
+import { buildTimeline } from "../timing"
+import type { SynthesisRequest, SynthesisResult, TTSProvider } from "../types"
+
+// eSpeak's default speaking rate in words per minute
+export const ESPEAK_DEFAULT_WPM = 175
+
+async function runEspeak(text: string, voice: string, request: SynthesisRequest): Promise<Buffer> {
+  const tempFile = join("/tmp", `speech-${Date.now()}-${Math.random().toString(36).slice(2)}.wav`)
+  const args = [
+    "-v",
+    voice,
+    "-s",
+    Math.round(ESPEAK_DEFAULT_WPM * request.rate).toString(),
+    "-p",
+    Math.round(Math.max(0, Math.min(99, request.pitch * 50))).toString(),
+    "-a",
+    Math.round(Math.max(0, Math.min(200, request.volume * 100))).toString(),
+    "-w",
+    tempFile,
+    text,
+  ]
+
+  try {
+    await runCommand("espeak", args, { signal: request.signal })
+    return readFileSync(tempFile)
+  } finally {
+    try {
+      unlinkSync(tempFile)
+    } catch {}
+  }
+}
+
+export const espeakProvider: TTSProvider = {
+  id: "espeak",
+  name: "eSpeak",
+  capabilities: {
+    formats: ["wav"],
+    ssml: false,
+    local: true,
+    requiresApiKey: false,
+    maxTextLength: 5000,
+  },
+  isAvailable: () => commandExists("espeak"),
+  listVoices: async () => [
+    { id: "en", name: "English", language: "en", provider: "espeak" },
+    { id: "en-us", name: "English (US)", language: "en-US", provider: "espeak" },
+    { id: "en-gb", name: "English (UK)", language: "en-GB", provider: "espeak" },
+    { id: "hi", name: "Hindi", language: "hi", provider: "espeak" },
+    { id: "es", name: "Spanish", language: "es", provider: "espeak" },
+    { id: "fr", name: "French", language: "fr", provider: "espeak" },
+    { id: "de", name: "German", language: "de", provider: "espeak" },
+  ],
+  synthesize: async (request: SynthesisRequest): Promise<SynthesisResult> => {
+    const voice = request.voice || request.language || "en"
+
+    if (!request.marks) {
+      return { audio: await runEspeak(request.text, voice, request), format: "wav", mimeType: "audio/wav", voice }
+    }
+
+    // For timing marks, render each sentence separately so every sentence
+    // boundary is measured from real audio. The command line has no word
+    // events, so words inside a sentence are still estimated.
+    const sentences = splitSentences(request.text)
+    const audio: Buffer[] = []
+    for (const sentence of sentences) {
+      audio.push(await runEspeak(sentence, voice, request))
+    }
+
+    return {
+      audio: concatWav(audio),
+      format: "wav",
+      mimeType: "audio/wav",
+      voice,
+      timeline: buildTimeline(
+        sentences.map((sentence, index) => ({ text: sentence, duration: parseWav(audio[index])?.duration ?? 0 })),
+      ),
+    }
+  },
+}
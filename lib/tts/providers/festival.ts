@@ -0,0 +1,35 @@
+import { readFileSync, unlinkSync, writeFileSync } from "fs"
+import { join } from "path"
+import { commandExists, runCommand } from "@/lib/command"
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+export const festivalProvider: TTSProvider = {
+  id: "festival",
+  name: "Festival",
+  capabilities: {
+    formats: ["wav"],
+    ssml: false,
+    local: true,
+    requiresApiKey: false,
+    maxTextLength: 5000,
+  },
+  isAvailable: () => commandExists("text2wave", ["-h"]),
+  listVoices: async () => [{ id: "default", name: "Festival default", language: "en", provider: "festival" }],
+  synthesize: async (request: SynthesisRequest) => {
+    const stamp = `${Date.now()}-${Math.random().toString(36).slice(2)}`
+    const textFile = join("/tmp", `tts-${stamp}.txt`)
+    const audioFile = join("/tmp", `tts-${stamp}.wav`)
+
+    try {
+      // Text goes through a file so quotes in the input never reach a shell
+      writeFileSync(textFile, request.text)
+      await runCommand("text2wave", [textFile, "-o", audioFile], { signal: request.signal })
+      return { audio: readFileSync(audioFile), format: "wav", mimeType: "audio/wav", voice: "default" }
+    } finally {
+      try {
+        unlinkSync(textFile)
+        unlinkSync(audioFile)
+      } catch {}
+    }
+  },
+}
@@ -0,0 +1,51 @@
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+export const freettsProvider: TTSProvider = {
+  id: "freetts",
+  name: "FreeTTS.com",
+  capabilities: {
+    formats: ["mp3"],
+    ssml: false,
+    local: false,
+    requiresApiKey: false,
+    maxTextLength: 1000,
+  },
+  isAvailable: () => true,
+  listVoices: async () => [
+    {
+      id: "Microsoft Zira Desktop - English (United States)",
+      name: "Microsoft Zira",
+      language: "en-US",
+      gender: "female",
+      provider: "freetts",
+    },
+  ],
+  synthesize: async (request: SynthesisRequest) => {
+    const voice = "Microsoft Zira Desktop - English (United States)"
+
+    const response = await fetch("https://freetts.com/Home/PlayAudio", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      },
+      body: new URLSearchParams({
+        Language: "en-US",
+        Voice: voice,
+        TextMessage: request.text,
+        id: Math.random().toString(),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`FreeTTS error: ${response.status} ${response.statusText}`)
+    }
+
+    const audio = Buffer.from(await response.arrayBuffer())
+    if (audio.length <= 1000) {
+      throw new Error(`FreeTTS returned only ${audio.length} bytes`)
+    }
+
+    return { audio, format: "mp3", mimeType: "audio/mpeg", voice }
+  },
+}
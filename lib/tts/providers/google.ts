@@ -0,0 +1,125 @@
+import { ssmlBody } from "../ssml"
+import type { SynthesisRequest, TimingMark, TTSProvider } from "../types"
+
+const DEFAULT_GOOGLE_VOICE = "en-US-Neural2-A"
+
+// Accepts either a full voice name ("en-US-Neural2-A") or a language code ("en-GB")
+function resolveGoogleVoice(voice?: string, language?: string): { languageCode: string; name?: string } {
+  if (voice && voice.split("-").length >= 3) {
+    return { languageCode: voice.split("-").slice(0, 2).join("-"), name: voice }
+  }
+  const languageCode = voice?.includes("-") ? voice : language?.includes("-") ? language : "en-US"
+  return { languageCode, name: languageCode === "en-US" ? DEFAULT_GOOGLE_VOICE : undefined }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+// Puts an SSML <mark> before every word so the v1beta1 API reports when each
+// word starts; returns the words with their character offsets
+function markWords(text: string) {
+  const words: { text: string; offset: number }[] = []
+  const ssml = text.replace(/\S+/g, (word, offset: number) => {
+    words.push({ text: word, offset })
+    return `<mark name="w${words.length - 1}"/>${escapeXml(word)}`
+  })
+  return { ssml: `<speak>${ssml}</speak>`, words }
+}
+
+export const googleProvider: TTSProvider = {
+  id: "google",
+  name: "Google Cloud Text-to-Speech",
+  capabilities: {
+    formats: ["mp3", "wav"],
+    ssml: true,
+    local: false,
+    requiresApiKey: true,
+    maxTextLength: 5000,
+  },
+  isAvailable: () => Boolean(process.env.GOOGLE_CLOUD_API_KEY),
+  resolveVoice: (request: SynthesisRequest) => {
+    const voice = resolveGoogleVoice(request.voice, request.language)
+    return voice.name || voice.languageCode
+  },
+  listVoices: async () => {
+    const response = await fetch("https://texttospeech.googleapis.com/v1/voices", {
+      headers: { Authorization: `Bearer ${process.env.GOOGLE_CLOUD_API_KEY}` },
+    })
+    if (!response.ok) {
+      throw new Error(`Google voices request failed: ${response.status} ${response.statusText}`)
+    }
+    const result = await response.json()
+    return (result.voices || []).map((voice: any) => ({
+      id: voice.name,
+      name: voice.name,
+      language: voice.languageCodes?.[0] || "en-US",
+      gender: voice.ssmlGender?.toLowerCase(),
+      provider: "google" as const,
+    }))
+  },
+  synthesize: async (request: SynthesisRequest) => {
+    const voice = resolveGoogleVoice(request.voice, request.language)
+
+    // Word marks need SSML <mark>s and the v1beta1 timepointing API; caller-supplied
+    // SSML is sent untouched and its marks are estimated instead
+    const marked = request.marks && !request.ssml ? markWords(request.text) : null
+    const input = marked
+      ? { ssml: marked.ssml }
+      : request.ssml
+        ? { ssml: `<speak>${ssmlBody(request.ssml)}</speak>` }
+        : { text: request.text }
+
+    const response = await fetch(`https://texttospeech.googleapis.com/${marked ? "v1beta1" : "v1"}/text:synthesize`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.GOOGLE_CLOUD_API_KEY}`,
+      },
+      body: JSON.stringify({
+        input,
+        voice,
+        audioConfig: {
+          audioEncoding: request.format === "wav" ? "LINEAR16" : "MP3",
+          speakingRate: request.rate,
+          pitch: (request.pitch - 1) * 10, // Semitones, -20..20
+          volumeGainDb: (request.volume - 1) * 20,
+        },
+        ...(marked ? { enableTimePointing: ["SSML_MARK"] } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Google TTS API error: ${response.status} ${response.statusText}`)
+    }
+
+    const result = await response.json()
+
+    let marks: TimingMark[] | undefined
+    if (marked && Array.isArray(result.timepoints)) {
+      const starts = new Map<number, number>(
+        result.timepoints.map((point: any) => [Number(String(point.markName).slice(1)), Number(point.timeSeconds)]),
+      )
+      // A word ends where the next one starts; the last word's end is filled in by the caller
+      marks = marked.words
+        .map((word, index) => ({ word, index, start: starts.get(index) }))
+        .filter((entry): entry is typeof entry & { start: number } => entry.start !== undefined)
+        .map((entry, position, all) => ({
+          type: "word" as const,
+          text: entry.word.text,
+          start: entry.start,
+          end: all[position + 1]?.start ?? entry.start,
+          offset: entry.word.offset,
+          length: entry.word.text.length,
+        }))
+    }
+
+    return {
+      marks,
+      audio: Buffer.from(result.audioContent, "base64"),
+      format: request.format,
+      mimeType: request.format === "wav" ? "audio/wav" : "audio/mpeg",
+      voice: voice.name || voice.languageCode,
+    }
+  },
+}
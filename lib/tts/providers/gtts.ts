@@ -0,0 +1,195 @@
+import { mapWithConcurrency, withRetry } from "@/lib/async"
+import { concatMp3, mp3Duration } from "@/lib/audio/mp3"
+import { splitTextIntoChunks } from "../chunking"
+import { buildTimeline } from "../timing"
+import type { SynthesisRequest, TTSProvider, TTSVoice } from "../types"
+
+// WORKING voice mapping - Google TTS only supports these actual language codes
+export const VOICE_MAPPING: Record<string, string> = {
+  // Microsoft voices mapped to closest Google TTS equivalent
+  "microsoft david": "en",
+  "microsoft-david": "en",
+  david: "en",
+  "microsoft mark": "en",
+  "microsoft-mark": "en",
+  mark: "en",
+  "microsoft zira": "en",
+  "microsoft-zira": "en",
+  zira: "en",
+
+  // UK voices
+  "microsoft hazel": "en-gb",
+  "microsoft-hazel": "en-gb",
+  hazel: "en-gb",
+  "microsoft susan": "en-gb",
+  "microsoft-susan": "en-gb",
+  susan: "en-gb",
+  "microsoft george": "en-gb",
+  "microsoft-george": "en-gb",
+  george: "en-gb",
+
+  // Indian voices
+  "microsoft heera": "en-in",
+  "microsoft-heera": "en-in",
+  heera: "en-in",
+  "microsoft ravi": "en-in",
+  "microsoft-ravi": "en-in",
+  ravi: "en-in",
+
+  // Google voices (these are just language codes)
+  "google us english": "en",
+  "google-us-english": "en",
+  "google us": "en",
+  "google uk english female": "en-gb",
+  "google-uk-english-female": "en-gb",
+  "google uk female": "en-gb",
+  "google uk": "en-gb",
+  "google hindi": "hi",
+  "google हिन्दी": "hi",
+
+  // Standard codes that actually work with Google TTS
+  en: "en",
+  "en-us": "en",
+  "en-gb": "en-gb",
+  "en-au": "en-au",
+  "en-ca": "en-ca",
+  "en-in": "en-in",
+  hi: "hi",
+  "hi-in": "hi",
+
+  // Generic mappings
+  english: "en",
+  american: "en",
+  british: "en-gb",
+  uk: "en-gb",
+  australian: "en-au",
+  canadian: "en-ca",
+  indian: "en-in",
+  india: "en-in",
+  hindi: "hi",
+  female: "en-gb", // UK tends to sound more feminine
+  male: "en", // US tends to sound more masculine
+  woman: "en-gb",
+  man: "en",
+
+  // Other languages that actually work
+  es: "es",
+  spanish: "es",
+  fr: "fr",
+  french: "fr",
+  de: "de",
+  german: "de",
+  it: "it",
+  italian: "it",
+  pt: "pt",
+  portuguese: "pt",
+  ru: "ru",
+  russian: "ru",
+  ja: "ja",
+  japanese: "ja",
+  ko: "ko",
+  korean: "ko",
+  zh: "zh",
+  chinese: "zh",
+  ar: "ar",
+  arabic: "ar",
+}
+
+export function resolveGTTSVoice(voice?: string, language?: string): string {
+  const voiceKey = (voice || "").toLowerCase().trim()
+  return VOICE_MAPPING[voiceKey] || VOICE_MAPPING[(language || "").toLowerCase()] || "en"
+}
+
+// translate_tts rejects requests over ~200 characters
+const GTTS_CHUNK_LENGTH = 200
+const GTTS_CONCURRENCY = Number(process.env.GTTS_CONCURRENCY) || 3
+const GTTS_CHUNK_ATTEMPTS = 3
+
+async function fetchGoogleTTSChunk(chunk: string, index: number, total: number, voice: string, speed: number) {
+  const url = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(chunk)}&tl=${voice}&client=tw-ob&ttsspeed=${speed}&total=${total}&idx=${index}&textlen=${chunk.length}`
+
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent":
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      Referer: "https://translate.google.com/",
+      Accept: "audio/mpeg, audio/*, */*",
+      "Accept-Language": "en-US,en;q=0.9",
+      "Accept-Encoding": "identity",
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status} ${response.statusText}`)
+  }
+
+  const contentType = response.headers.get("content-type") || ""
+  if (!contentType.includes("audio") && !contentType.includes("mpeg")) {
+    throw new Error(`Invalid content type: ${contentType}`)
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  if (buffer.length <= 100) {
+    throw new Error(`Audio chunk too small: ${buffer.length} bytes`)
+  }
+  return buffer
+}
+
+// Synthesizes every chunk (bounded concurrency, per-chunk retry) and stitches
+// the MP3 frames into one file. A chunk that keeps failing fails the whole
+// request rather than leaving a silent hole in the middle of the audio.
+async function fetchGoogleTTS(text: string, voice: string, slow: boolean, speed = 1) {
+  const chunks = splitTextIntoChunks(text, GTTS_CHUNK_LENGTH)
+  if (chunks.length === 0) {
+    throw new Error("No text to synthesize")
+  }
+
+  const speedParam = slow ? 0.24 : Math.max(0.1, Math.min(1.0, speed))
+  console.log(`Google TTS: ${text.length} chars in ${chunks.length} chunks with voice: ${voice}`)
+
+  const audioBuffers = await mapWithConcurrency(chunks, GTTS_CONCURRENCY, (chunk, index) =>
+    withRetry(async (attempt) => {
+      try {
+        return await fetchGoogleTTSChunk(chunk, index, chunks.length, voice, speedParam)
+      } catch (error) {
+        console.log(`Chunk ${index + 1}/${chunks.length} attempt ${attempt} failed:`, error)
+        throw error
+      }
+    }, GTTS_CHUNK_ATTEMPTS).catch((error) => {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(
+        `Chunk ${index + 1}/${chunks.length} failed after ${GTTS_CHUNK_ATTEMPTS} attempts - Google TTS may be blocked or rate limited (${reason})`,
+      )
+    }),
+  )
+
+  // Each chunk's measured length anchors word-time estimates for its text
+  const timeline = buildTimeline(chunks.map((chunk, index) => ({ text: chunk, duration: mp3Duration(audioBuffers[index]) })))
+
+  return { audio: concatMp3(audioBuffers), chunks: chunks.length, timeline }
+}
+
+export const gttsProvider: TTSProvider = {
+  id: "gtts",
+  name: "Google Translate TTS",
+  capabilities: {
+    formats: ["mp3"],
+    ssml: false,
+    local: false,
+    requiresApiKey: false,
+    // Longer input is chunked and stitched transparently
+    maxTextLength: 50000,
+  },
+  isAvailable: () => true,
+  resolveVoice: (request: SynthesisRequest) => resolveGTTSVoice(request.voice, request.language),
+  listVoices: async () => {
+    const codes = Array.from(new Set(Object.values(VOICE_MAPPING)))
+    return codes.map((code): TTSVoice => ({ id: code, name: `Google ${code}`, language: code, provider: "gtts" }))
+  },
+  synthesize: async (request: SynthesisRequest) => {
+    const voice = resolveGTTSVoice(request.voice, request.language)
+    const slow = Boolean(request.providerOptions?.slow)
+    const { audio, chunks, timeline } = await fetchGoogleTTS(request.text, voice, slow, request.rate)
+    return { audio, format: "mp3", mimeType: "audio/mpeg", voice, chunks, timeline }
+  },
+}
@@ -0,0 +1,50 @@
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+export const responsivevoiceProvider: TTSProvider = {
+  id: "responsivevoice",
+  name: "ResponsiveVoice",
+  capabilities: {
+    formats: ["mp3"],
+    ssml: false,
+    local: false,
+    requiresApiKey: false,
+    maxTextLength: 1000,
+  },
+  isAvailable: () => true,
+  listVoices: async () => [
+    { id: "US English Female", name: "US English Female", language: "en-US", gender: "female", provider: "responsivevoice" },
+    { id: "UK English Male", name: "UK English Male", language: "en-GB", gender: "male", provider: "responsivevoice" },
+  ],
+  synthesize: async (request: SynthesisRequest) => {
+    const voice = request.voice && request.voice.includes(" ") ? request.voice : "US English Female"
+
+    const response = await fetch("https://responsivevoice.org/responsivevoice/getvoice.php", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      },
+      body: new URLSearchParams({
+        t: request.text,
+        tl: "en",
+        sv: "g3",
+        vn: voice,
+        pitch: (request.pitch / 2).toString(),
+        rate: (request.rate / 2).toString(),
+        vol: request.volume.toString(),
+        f: "mp3_44khz_128kb_s",
+      }),
+    })
+
+    if (!response.ok || !response.headers.get("content-type")?.includes("audio")) {
+      throw new Error(`ResponsiveVoice error: ${response.status} ${response.statusText}`)
+    }
+
+    const audio = Buffer.from(await response.arrayBuffer())
+    if (audio.length <= 1000) {
+      throw new Error(`ResponsiveVoice returned only ${audio.length} bytes`)
+    }
+
+    return { audio, format: "mp3", mimeType: "audio/mpeg", voice }
+  },
+}
@@ -0,0 +1,36 @@
+import { readFileSync, unlinkSync } from "fs"
+import { join } from "path"
+import { commandExists, runCommand } from "@/lib/command"
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+// macOS `say`; writes WAV when asked for a WAVE container
+export const sayProvider: TTSProvider = {
+  id: "say",
+  name: "macOS say",
+  capabilities: {
+    formats: ["wav"],
+    ssml: false,
+    local: true,
+    requiresApiKey: false,
+    maxTextLength: 5000,
+  },
+  isAvailable: () => process.platform === "darwin" && commandExists("say", ["-v", "?"]),
+  listVoices: async () => [{ id: "default", name: "System voice", language: "en", provider: "say" }],
+  synthesize: async (request: SynthesisRequest) => {
+    const audioFile = join("/tmp", `tts-${Date.now()}-${Math.random().toString(36).slice(2)}.wav`)
+    const args = ["-o", audioFile, "--file-format=WAVE", "--data-format=LEI16@22050"]
+    if (request.voice) {
+      args.push("-v", request.voice)
+    }
+    args.push("-r", Math.round(175 * request.rate).toString(), request.text)
+
+    try {
+      await runCommand("say", args, { signal: request.signal })
+      return { audio: readFileSync(audioFile), format: "wav", mimeType: "audio/wav", voice: request.voice || "default" }
+    } finally {
+      try {
+        unlinkSync(audioFile)
+      } catch {}
+    }
+  },
+}
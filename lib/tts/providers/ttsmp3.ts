@@ -0,0 +1,44 @@
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+export const ttsmp3Provider: TTSProvider = {
+  id: "ttsmp3",
+  name: "Text-to-MP3",
+  capabilities: {
+    formats: ["mp3"],
+    ssml: false,
+    local: false,
+    requiresApiKey: false,
+    maxTextLength: 1000,
+  },
+  isAvailable: () => true,
+  listVoices: async () => [{ id: "en", name: "English", language: "en", provider: "ttsmp3" }],
+  synthesize: async (request: SynthesisRequest) => {
+    const response = await fetch("https://text-to-mp3.com/api/speak", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        msg: request.text,
+        lang: "en",
+        source: "ttsmp3",
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Text-to-MP3 error: ${response.status} ${response.statusText}`)
+    }
+
+    const result = await response.json()
+    if (!result.URL) {
+      throw new Error("Text-to-MP3 did not return an audio URL")
+    }
+
+    const audioResponse = await fetch(result.URL)
+    if (!audioResponse.ok) {
+      throw new Error(`Text-to-MP3 download failed: ${audioResponse.status}`)
+    }
+
+    return { audio: Buffer.from(await audioResponse.arrayBuffer()), format: "mp3", mimeType: "audio/mpeg", voice: "en" }
+  },
+}
@@ -0,0 +1,52 @@
+import type { SynthesisRequest, TTSProvider } from "../types"
+
+export const voicerssProvider: TTSProvider = {
+  id: "voicerss",
+  name: "VoiceRSS",
+  capabilities: {
+    formats: ["mp3", "wav"],
+    ssml: false,
+    local: false,
+    requiresApiKey: false, // Falls back to the public demo key
+    maxTextLength: 5000,
+  },
+  isAvailable: () => true,
+  listVoices: async () => [
+    { id: "en-us", name: "US English", language: "en-US", provider: "voicerss" },
+    { id: "en-gb", name: "UK English", language: "en-GB", provider: "voicerss" },
+    { id: "en-in", name: "Indian English", language: "en-IN", provider: "voicerss" },
+    { id: "hi-in", name: "Hindi", language: "hi-IN", provider: "voicerss" },
+  ],
+  synthesize: async (request: SynthesisRequest) => {
+    const language = (request.voice?.includes("-") ? request.voice : request.language || "en-us").toLowerCase()
+    // VoiceRSS speed is -10..10 with 0 as normal
+    const speed = Math.round(Math.max(-10, Math.min(10, (request.rate - 1) * 10)))
+
+    const response = await fetch("http://api.voicerss.org/", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        key: process.env.VOICERSS_API_KEY || "demo",
+        src: request.text,
+        hl: language,
+        f: "44khz_16bit_mono",
+        c: request.format === "wav" ? "WAV" : "MP3",
+        r: speed.toString(),
+      }),
+    })
+
+    // VoiceRSS reports errors as 200 text/plain "ERROR: ..."
+    if (!response.ok || !response.headers.get("content-type")?.includes("audio")) {
+      throw new Error(`VoiceRSS error: ${response.status} ${response.statusText}`)
+    }
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      format: request.format,
+      mimeType: request.format === "wav" ? "audio/wav" : "audio/mpeg",
+      voice: language,
+    }
+  },
+}
@@ -0,0 +1,142 @@
+import { cacheKey, type CacheStatus, readCachedResult, writeCachedResult } from "./cache"
+import { azureProvider } from "./providers/azure"
+import { elevenlabsProvider } from "./providers/elevenlabs"
+import { espeakProvider } from "./providers/espeak"
+import { festivalProvider } from "./providers/festival"
+import { freettsProvider } from "./providers/freetts"
+import { googleProvider } from "./providers/google"
+import { gttsProvider } from "./providers/gtts"
+import { responsivevoiceProvider } from "./providers/responsivevoice"
+import { sayProvider } from "./providers/say"
+import { syntheticProvider } from "./providers/synthetic"
+import { ttsmp3Provider } from "./providers/ttsmp3"
+import { voicerssProvider } from "./providers/voicerss"
+import { synthesizeUtterance } from "./utterance"
+import type { SynthesisRequest, SynthesisResult, TTSProvider, TTSProviderId } from "./types"
+
+const PROVIDERS: Record<TTSProviderId, TTSProvider> = {
+  gtts: gttsProvider,
+  espeak: espeakProvider,
+  festival: festivalProvider,
+  say: sayProvider,
+  google: googleProvider,
+  azure: azureProvider,
+  elevenlabs: elevenlabsProvider,
+  voicerss: voicerssProvider,
+  responsivevoice: responsivevoiceProvider,
+  freetts: freettsProvider,
+  ttsmp3: ttsmp3Provider,
+  synthetic: syntheticProvider,
+}
+
+// Paid/neural services first, then free web services, then local engines.
+// The synthetic formant voice is not speech anyone would want by accident, so
+// it only runs when named as the provider or in a priority list.
+// Override with TTS_PROVIDER_PRIORITY="espeak,gtts".
+export const DEFAULT_PROVIDER_PRIORITY: TTSProviderId[] = [
+  "google",
+  "azure",
+  "elevenlabs",
+  "gtts",
+  "voicerss",
+  "responsivevoice",
+  "espeak",
+  "festival",
+  "say",
+]
+
+export type ProviderSelection = TTSProviderId | "auto"
+
+export interface SynthesisAttempt {
+  provider: TTSProviderId
+  error: string
+}
+
+export interface SynthesisOutcome extends SynthesisResult {
+  provider: TTSProviderId
+  attempts: SynthesisAttempt[]
+  cache: CacheStatus
+}
+
+export function isProviderId(value: unknown): value is TTSProviderId {
+  return typeof value === "string" && value in PROVIDERS
+}
+
+export function getProvider(id: TTSProviderId): TTSProvider {
+  return PROVIDERS[id]
+}
+
+export function listProviders(): TTSProvider[] {
+  return Object.values(PROVIDERS)
+}
+
+// Accepts an explicit list or comma-separated string; unknown ids are dropped.
+// Falls back to TTS_PROVIDER_PRIORITY, then DEFAULT_PROVIDER_PRIORITY.
+export function resolvePriority(priority?: string | string[]): TTSProviderId[] {
+  const source = priority ?? process.env.TTS_PROVIDER_PRIORITY
+  const list = (Array.isArray(source) ? source : (source || "").split(","))
+    .map((id) => id.trim().toLowerCase())
+    .filter(isProviderId)
+
+  return list.length > 0 ? Array.from(new Set(list)) : DEFAULT_PROVIDER_PRIORITY
+}
+
+// Tries providers in order and returns the first successful result together
+// with the id that served it and every failure along the way. Results are
+// served from / stored in the audio cache unless `cache: false`.
+export async function synthesizeSpeech(
+  request: SynthesisRequest,
+  options: { provider?: ProviderSelection; priority?: string | string[]; cache?: boolean } = {},
+): Promise<SynthesisOutcome> {
+  const { provider = "auto", cache = true } = options
+  const chain = provider === "auto" ? resolvePriority(options.priority) : [provider]
+  const attempts: SynthesisAttempt[] = []
+
+  for (const id of chain) {
+    const candidate = PROVIDERS[id]
+
+    try {
+      if (!(await candidate.isAvailable())) {
+        attempts.push({ provider: id, error: "not configured" })
+        continue
+      }
+
+      // Local fallbacks are cheap and non-deterministic; only cache real engines
+      const cacheable = cache && id !== "synthetic"
+      const key = cacheable
+        ? cacheKey(request, id, candidate.resolveVoice?.(request) || request.voice || request.language || "default")
+        : null
+
+      const cached = key ? readCachedResult(key) : null
+      if (cached) {
+        console.log(`TTS cache hit for ${id} (${cached.audio.length} bytes)`)
+        return { ...cached, provider: id, attempts, cache: "HIT" }
+      }
+
+      const result =
+        request.ssml && !candidate.capabilities.ssml
+          ? await synthesizeUtterance(candidate, request)
+          : await candidate.synthesize(request)
+      console.log(`TTS served by ${id} (${result.audio.length} bytes)`)
+
+      if (key) {
+        try {
+          writeCachedResult(key, id, request.text, result)
+        } catch (error) {
+          console.log("Failed to write TTS cache entry:", error)
+        }
+      }
+      return { ...result, provider: id, attempts, cache: key ? "MISS" : "BYPASS" }
+    } catch (error) {
+      // A cancelled request must not carry on down the chain
+      if (request.signal?.aborted) throw error
+      const message = error instanceof Error ? error.message : "Unknown error"
+      console.log(`TTS provider ${id} failed: ${message}`)
+      attempts.push({ provider: id, error: message })
+    }
+  }
+
+  throw new Error(
+    `All TTS providers failed: ${attempts.map((attempt) => `${attempt.provider} (${attempt.error})`).join(", ")}`,
+  )
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+import { type AudioOutputOptions, readAudioOutputOptions } from "@/lib/audio/transcode"
+import { type ProsodyOptions, readProsodyOptions } from "./prosody"
+import { isProviderId, listProviders, type ProviderSelection } from "./registry"
+import { readSSMLField } from "./ssml"
+
+// The optional request fields the TTS routes share, parsed
+export interface TTSRequestFields {
+  // `format`, `sample_rate`, `bit_depth`, `channels` and `bitrate`
+  output: AudioOutputOptions
+  // `ssml`, with its plain-text rendering; null when the body sent none
+  ssml: ReturnType<typeof readSSMLField>
+  // `rate`, `pitch` and `volume`
+  prosody: ProsodyOptions
+  // `provider`: "auto" or a registry id; undefined when not given
+  provider: ProviderSelection | undefined
+}
+
+function readProvider(value: unknown): ProviderSelection | undefined {
+  if (value === undefined || value === "auto" || isProviderId(value)) return value
+  throw new Error(`provider must be "auto" or one of: ${listProviders().map((provider) => provider.id).join(", ")}`)
+}
+
+const READERS: { [K in keyof TTSRequestFields]: [string, (body: Record<string, any>) => TTSRequestFields[K]] } = {
+  output: ["Invalid output format", (body) => readAudioOutputOptions(body)],
+  ssml: ["Invalid SSML", (body) => readSSMLField(body.ssml)],
+  prosody: ["Invalid voice settings", (body) => readProsodyOptions(body)],
+  provider: ["Unknown provider", (body) => readProvider(body.provider)],
+}
+
+// Reads the named fields from a TTS request body. Returns the 400 response for
+// the first one that is invalid, so every route reports bad input the same way.
+export function readTTSRequest<K extends keyof TTSRequestFields>(
+  body: Record<string, any>,
+  fields: K[],
+): Pick<TTSRequestFields, K> | NextResponse {
+  const parsed: Partial<TTSRequestFields> = {}
+  for (const field of Object.keys(READERS) as (keyof TTSRequestFields)[]) {
+    if (!fields.includes(field as K)) continue
+    const [label, read] = READERS[field]
+    try {
+      Object.assign(parsed, { [field]: read(body) })
+    } catch (error) {
+      return NextResponse.json(
+        { error: label, details: error instanceof Error ? error.message : "Unknown error" },
+        { status: 400 },
+      )
+    }
+  }
+  return parsed as Pick<TTSRequestFields, K>
+}
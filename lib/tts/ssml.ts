@@ -0,0 +1,364 @@
+// Minimal SSML support: parses the subset our scripts use (<speak>, <p>, <s>,
+// <break>, <prosody>, <emphasis>, <say-as>, <voice>, <sub>) into a flat list
+// of speech segments and pauses that any provider can render.
+
+export interface SpeechSegment {
+  type: "speech"
+  text: string
+  // Multipliers relative to the request's own rate/pitch/volume
+  rate: number
+  pitch: number
+  volume: number
+  voice?: string
+  language?: string
+  emphasis?: "strong" | "moderate" | "reduced"
+}
+
+export interface PauseSegment {
+  type: "break"
+  durationMs: number
+}
+
+export type UtteranceSegment = SpeechSegment | PauseSegment
+
+export interface Utterance {
+  language?: string
+  segments: UtteranceSegment[]
+}
+
+interface ProsodyState {
+  rate: number
+  pitch: number
+  volume: number
+  voice?: string
+  language?: string
+  emphasis?: SpeechSegment["emphasis"]
+  sayAs?: { interpretAs: string; format?: string }
+  // <sub alias="..."> replaces its content
+  alias?: string
+}
+
+const EMPHASIS_LEVELS = ["strong", "moderate", "reduced", "none"] as const
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0,
+  "x-weak": 100,
+  weak: 250,
+  medium: 500,
+  strong: 750,
+  "x-strong": 1000,
+}
+
+const RATE_KEYWORDS: Record<string, number> = {
+  "x-slow": 0.5,
+  slow: 0.75,
+  medium: 1,
+  default: 1,
+  fast: 1.25,
+  "x-fast": 1.5,
+}
+const PITCH_KEYWORDS: Record<string, number> = {
+  "x-low": 0.7,
+  low: 0.85,
+  medium: 1,
+  default: 1,
+  high: 1.15,
+  "x-high": 1.3,
+}
+const VOLUME_KEYWORDS: Record<string, number> = {
+  silent: 0,
+  "x-soft": 0.5,
+  soft: 0.7,
+  medium: 1,
+  default: 1,
+  loud: 1,
+  "x-loud": 1,
+}
+
+const SUPPORTED_TAGS = new Set(["speak", "p", "s", "break", "prosody", "emphasis", "say-as", "voice", "sub", "lang", "mark"])
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3])
+  }
+  return attributes
+}
+
+// "500ms", "1.5s" -> milliseconds
+function parseTime(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i)
+  if (!match) return null
+  return Math.round(Number(match[1]) * (match[2].toLowerCase() === "s" ? 1000 : 1))
+}
+
+// Keywords, "80%", "+10%", "1.2", "+2st", "-3dB"
+function parseRelative(value: string | undefined, keywords: Record<string, number>, unit?: "st" | "dB"): number {
+  if (!value) return 1
+  const normalized = value.trim().toLowerCase()
+  if (normalized in keywords) return keywords[normalized]
+
+  const percent = normalized.match(/^([+-])?(\d+(?:\.\d+)?)%$/)
+  if (percent) {
+    const amount = Number(percent[2]) / 100
+    return percent[1] === "+" ? 1 + amount : percent[1] === "-" ? Math.max(0, 1 - amount) : amount
+  }
+
+  if (unit === "st") {
+    const semitones = normalized.match(/^([+-]?\d+(?:\.\d+)?)st$/)
+    if (semitones) return Math.pow(2, Number(semitones[1]) / 12)
+  }
+
+  if (unit === "dB") {
+    const decibels = normalized.match(/^([+-]?\d+(?:\.\d+)?)db$/)
+    if (decibels) return Math.pow(10, Number(decibels[1]) / 20)
+  }
+
+  const number = Number(normalized)
+  return Number.isFinite(number) && number > 0 ? number : 1
+}
+
+// Emulates <say-as> for engines that would otherwise read the raw token
+function applySayAs(text: string, sayAs: ProsodyState["sayAs"]): string {
+  if (!sayAs) return text
+  switch (sayAs.interpretAs) {
+    case "characters":
+    case "spell-out":
+    case "verbatim":
+      return text.replace(/\s+/g, "").split("").join(" ")
+    case "digits":
+    case "telephone":
+      return text.replace(/\D/g, "").split("").join(" ")
+    case "cardinal":
+    case "number":
+      return text.replace(/,/g, "")
+    case "ordinal": {
+      const value = Number(text.replace(/\D/g, ""))
+      if (!Number.isFinite(value)) return text
+      const lastTwo = value % 100
+      const suffix = lastTwo >= 11 && lastTwo <= 13 ? "th" : ["th", "st", "nd", "rd"][value % 10] || "th"
+      return `${value}${suffix}`
+    }
+    default:
+      return text
+  }
+}
+
+export function parseSSML(ssml: string): Utterance {
+  const source = ssml.replace(/<\?xml[^>]*\?>/g, "").replace(/<!--[\s\S]*?-->/g, "")
+  const tokens = source.split(/(<[^>]+>)/).filter((token) => token.length > 0)
+
+  const stack: { tag: string; state: ProsodyState }[] = []
+  const segments: UtteranceSegment[] = []
+  let state: ProsodyState = { rate: 1, pitch: 1, volume: 1 }
+  let language: string | undefined
+  let sawSpeak = false
+
+  const pushText = (raw: string) => {
+    const text = applySayAs(decodeEntities(raw), state.sayAs).replace(/\s+/g, " ")
+    if (!text.trim()) return
+
+    const last = segments[segments.length - 1]
+    // Bare punctuation between elements belongs to the preceding phrase
+    const punctuationOnly = !/[^\s.,!?;:'"()\-]/.test(text)
+    if (punctuationOnly) {
+      if (last?.type === "speech") last.text += text
+      return
+    }
+
+    if (
+      last?.type === "speech" &&
+      last.rate === state.rate &&
+      last.pitch === state.pitch &&
+      last.volume === state.volume &&
+      last.voice === state.voice &&
+      last.language === state.language &&
+      last.emphasis === state.emphasis
+    ) {
+      last.text += text
+      return
+    }
+
+    segments.push({
+      type: "speech",
+      text,
+      rate: state.rate,
+      pitch: state.pitch,
+      volume: state.volume,
+      voice: state.voice,
+      language: state.language,
+      emphasis: state.emphasis,
+    })
+  }
+
+  const pushBreak = (durationMs: number) => {
+    if (durationMs <= 0) return
+    const last = segments[segments.length - 1]
+    if (last?.type === "break") {
+      last.durationMs += durationMs
+    } else {
+      segments.push({ type: "break", durationMs })
+    }
+  }
+
+  for (const token of tokens) {
+    if (!token.startsWith("<")) {
+      if (!state.alias) pushText(token)
+      continue
+    }
+
+    const match = token.match(/^<\s*(\/)?\s*([\w:-]+)([^>]*?)(\/)?\s*>$/)
+    if (!match) {
+      throw new Error(`Invalid SSML markup: ${token}`)
+    }
+
+    const [, closing, rawTag, rawAttributes, selfClosing] = match
+    const tag = rawTag.toLowerCase()
+    if (!SUPPORTED_TAGS.has(tag)) {
+      throw new Error(`Unsupported SSML element <${tag}>`)
+    }
+
+    if (closing) {
+      const open = stack.pop()
+      if (!open || open.tag !== tag) {
+        throw new Error(`Mismatched SSML closing tag </${tag}>`)
+      }
+      if (tag === "sub" && state.alias) {
+        const alias = state.alias
+        state = { ...state, alias: undefined }
+        pushText(` ${alias} `)
+      }
+      state = open.state
+      if (tag === "p") pushBreak(BREAK_STRENGTHS.strong)
+      if (tag === "s") pushBreak(BREAK_STRENGTHS.weak)
+      continue
+    }
+
+    const attributes = parseAttributes(rawAttributes)
+
+    if (tag === "break") {
+      const time = attributes.time ? parseTime(attributes.time) : null
+      pushBreak(time ?? BREAK_STRENGTHS[attributes.strength || "medium"] ?? BREAK_STRENGTHS.medium)
+      if (!selfClosing) stack.push({ tag, state })
+      continue
+    }
+
+    if (tag === "mark") {
+      if (!selfClosing) stack.push({ tag, state })
+      continue
+    }
+
+    const next: ProsodyState = { ...state }
+    switch (tag) {
+      case "speak":
+        if (sawSpeak || stack.length > 0) {
+          throw new Error("<speak> must be the single root element")
+        }
+        sawSpeak = true
+        language = attributes["xml:lang"]
+        next.language = language
+        break
+      case "p":
+      case "s":
+        if (segments[segments.length - 1]?.type === "speech") {
+          pushBreak(tag === "p" ? BREAK_STRENGTHS.strong : BREAK_STRENGTHS.weak)
+        }
+        if (attributes["xml:lang"]) next.language = attributes["xml:lang"]
+        break
+      case "lang":
+        if (attributes["xml:lang"]) next.language = attributes["xml:lang"]
+        break
+      case "prosody":
+        next.rate = state.rate * parseRelative(attributes.rate, RATE_KEYWORDS)
+        next.pitch = state.pitch * parseRelative(attributes.pitch, PITCH_KEYWORDS, "st")
+        next.volume = state.volume * parseRelative(attributes.volume, VOLUME_KEYWORDS, "dB")
+        break
+      case "emphasis": {
+        const level = attributes.level || "moderate"
+        if (!EMPHASIS_LEVELS.some((known) => known === level)) {
+          throw new Error(`Unsupported <emphasis> level "${level}"; use ${EMPHASIS_LEVELS.join(", ")}`)
+        }
+        next.emphasis = level === "none" ? undefined : (level as SpeechSegment["emphasis"])
+        break
+      }
+      case "say-as":
+        next.sayAs = { interpretAs: (attributes["interpret-as"] || "").toLowerCase(), format: attributes.format }
+        break
+      case "voice":
+        next.voice = attributes.name || state.voice
+        if (attributes["xml:lang"]) next.language = attributes["xml:lang"]
+        break
+      case "sub":
+        next.alias = attributes.alias
+        break
+    }
+
+    if (selfClosing) continue
+    stack.push({ tag, state })
+    state = next
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed SSML element <${stack[stack.length - 1].tag}>`)
+  }
+  if (!sawSpeak) {
+    throw new Error("SSML must be wrapped in a <speak> element")
+  }
+
+  // Trailing pauses add nothing but dead air
+  while (segments[segments.length - 1]?.type === "break") {
+    segments.pop()
+  }
+
+  for (const segment of segments) {
+    if (segment.type === "speech") segment.text = segment.text.trim()
+  }
+
+  return { language, segments: segments.filter((segment) => segment.type === "break" || segment.text) }
+}
+
+export function utteranceToText(utterance: Utterance): string {
+  return utterance.segments
+    .filter((segment): segment is SpeechSegment => segment.type === "speech")
+    .map((segment) => segment.text)
+    .join(" ")
+}
+
+// Strips any <speak> wrapper and returns the inner markup, for providers that
+// need to build their own root element
+export function ssmlBody(ssml: string): string {
+  return ssml
+    .replace(/<\?xml[^>]*\?>/g, "")
+    .replace(/^\s*<speak[^>]*>/i, "")
+    .replace(/<\/speak>\s*$/i, "")
+    .trim()
+}
+
+// Validates the `ssml` field of a TTS request body. Returns null when the field
+// is absent and throws with a descriptive message when the markup is invalid.
+export function readSSMLField(ssml: unknown): { ssml: string; text: string } | null {
+  if (ssml === undefined || ssml === null || ssml === "") {
+    return null
+  }
+  if (typeof ssml !== "string") {
+    throw new Error("ssml must be a string")
+  }
+
+  const text = utteranceToText(parseSSML(ssml))
+  if (!text) {
+    throw new Error("SSML contains no speakable text")
+  }
+  return { ssml, text }
+}
@@ -0,0 +1,159 @@
+import { mp3Duration } from "@/lib/audio/mp3"
+import { parseWav } from "@/lib/audio/wav"
+import { splitSentences } from "./chunking"
+import type { AudioFormat, SynthesisResult, TimedSpan, TimingMark } from "./types"
+
+export interface TimingMarks {
+  // "native" when the provider reported word times, "estimated" otherwise
+  source: "native" | "estimated"
+  duration: number
+  marks: TimingMark[]
+}
+
+export function audioDuration(audio: Buffer, format: AudioFormat): number {
+  if (format === "wav") {
+    return parseWav(audio)?.duration ?? 0
+  }
+  return mp3Duration(audio)
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+// Rough spoken weight of a word: vowel groups (syllables) plus a pause for
+// trailing punctuation. Good enough to place words inside a measured span.
+function wordWeight(word: string): number {
+  const syllables = (word.toLowerCase().match(/[aeiouy]+|[^\x00-\x7f]/g) || []).length || 1
+  const digits = (word.match(/\d/g) || []).length
+  const pause = /[.!?…]["')\]]*$/.test(word) ? 2 : /[,;:]["')\]]*$/.test(word) ? 1 : 0
+  return syllables + digits + pause
+}
+
+function wordsWithOffsets(text: string, baseOffset: number) {
+  const words: { text: string; offset: number }[] = []
+  const pattern = /\S+/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    words.push({ text: match[0], offset: baseOffset + match.index })
+  }
+  return words
+}
+
+// Spreads a span's words across its measured time in proportion to their weight
+function estimateWordMarks(span: TimedSpan, baseOffset: number): TimingMark[] {
+  const words = wordsWithOffsets(span.text, baseOffset)
+  const total = words.reduce((sum, word) => sum + wordWeight(word.text), 0)
+  const marks: TimingMark[] = []
+  let cursor = span.start
+
+  for (const word of words) {
+    const duration = ((span.end - span.start) * wordWeight(word.text)) / total
+    marks.push({
+      type: "word",
+      text: word.text,
+      start: round(cursor),
+      end: round(cursor + duration),
+      offset: word.offset,
+      length: word.text.length,
+    })
+    cursor += duration
+  }
+
+  return marks
+}
+
+// Sentence marks span from their first word's start to their last word's end
+function sentenceMarks(text: string, words: TimingMark[]): TimingMark[] {
+  const marks: TimingMark[] = []
+  let searchFrom = 0
+
+  for (const sentence of splitSentences(text)) {
+    const offset = text.indexOf(sentence, searchFrom)
+    if (offset < 0) continue
+    searchFrom = offset + sentence.length
+
+    const inside = words.filter((word) => word.offset >= offset && word.offset < offset + sentence.length)
+    if (inside.length === 0) continue
+
+    marks.push({
+      type: "sentence",
+      text: sentence,
+      start: inside[0].start,
+      end: inside[inside.length - 1].end,
+      offset,
+      length: sentence.length,
+    })
+  }
+
+  return marks
+}
+
+// Builds word and sentence marks for a synthesis result. Native word marks are
+// used as-is; otherwise words are estimated inside each measured span (a gTTS
+// chunk, an eSpeak sentence, an SSML segment), or across the whole file.
+export function resolveTimingMarks(
+  text: string,
+  result: Pick<SynthesisResult, "audio" | "format" | "timeline" | "marks">,
+): TimingMarks {
+  const duration = round(audioDuration(result.audio, result.format))
+
+  let words: TimingMark[]
+  let source: TimingMarks["source"]
+
+  if (result.marks && result.marks.length > 0) {
+    words = result.marks.map((mark, index, all) =>
+      index === all.length - 1 && mark.end <= mark.start ? { ...mark, end: duration } : mark,
+    )
+    source = "native"
+  } else {
+    const spans = result.timeline && result.timeline.length > 0 ? result.timeline : [{ text, start: 0, end: duration }]
+    words = []
+    let searchFrom = 0
+    for (const span of spans) {
+      const found = text.indexOf(span.text, searchFrom)
+      const offset = found >= 0 ? found : searchFrom
+      searchFrom = offset + span.text.length
+      words.push(...estimateWordMarks(span, offset))
+    }
+    source = "estimated"
+  }
+
+  return {
+    source,
+    duration,
+    marks: [...sentenceMarks(text, words), ...words].sort((a, b) => a.start - b.start || a.offset - b.offset),
+  }
+}
+
+// Converts spans of audio measured back-to-back into a timeline; gaps are
+// silence inserted between spans (SSML breaks)
+export function buildTimeline(parts: ({ text: string; duration: number } | { silence: number })[]): TimedSpan[] {
+  const timeline: TimedSpan[] = []
+  let cursor = 0
+  for (const part of parts) {
+    if ("silence" in part) {
+      cursor += part.silence
+      continue
+    }
+    timeline.push({ text: part.text, start: round(cursor), end: round(cursor + part.duration) })
+    cursor += part.duration
+  }
+  return timeline
+}
+
+// JSON body for routes asked for `marks`: the audio travels base64-encoded next
+// to the word/sentence timestamps so clients get both in one response
+export function timedAudioPayload(text: string, result: SynthesisResult & { provider?: string; cache?: string }) {
+  const timing = resolveTimingMarks(text, result)
+  return {
+    success: true,
+    provider: result.provider,
+    cache: result.cache,
+    voice: result.voice,
+    format: result.format,
+    mime_type: result.mimeType,
+    duration: timing.duration,
+    marks_source: timing.source,
+    marks: timing.marks,
+    audio_base64: result.audio.toString("base64"),
+  }
+}
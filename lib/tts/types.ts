@@ -0,0 +1,91 @@
+export type TTSProviderId =
+  | "gtts"
+  | "espeak"
+  | "festival"
+  | "say"
+  | "google"
+  | "azure"
+  | "elevenlabs"
+  | "voicerss"
+  | "responsivevoice"
+  | "freetts"
+  | "ttsmp3"
+  | "synthetic"
+
+export type AudioFormat = "mp3" | "wav"
+
+export interface TTSCapabilities {
+  formats: AudioFormat[]
+  ssml: boolean
+  // Runs on this machine (binary or pure TS) rather than calling a remote service
+  local: boolean
+  requiresApiKey: boolean
+  // Per-request character limit of the upstream service
+  maxTextLength: number
+}
+
+export interface TTSVoice {
+  id: string
+  name: string
+  language: string
+  gender?: "male" | "female" | "neutral"
+  provider: TTSProviderId
+}
+
+export interface SynthesisRequest {
+  // Plain-text rendering; always set, even when ssml is given
+  text: string
+  // Raw SSML; sent natively to providers with capabilities.ssml, emulated otherwise
+  ssml?: string
+  voice?: string
+  language?: string
+  // 1 = normal speed / pitch, volume is 0-1
+  rate: number
+  pitch: number
+  volume: number
+  format: AudioFormat
+  // Ask the provider for native word timings when it can produce them
+  marks?: boolean
+  // Provider-specific knobs, e.g. ElevenLabs model_id / voice_settings
+  providerOptions?: Record<string, any>
+  // Kills local engines (eSpeak, Festival, say) when aborted
+  signal?: AbortSignal
+}
+
+// A piece of the input text and where it sits in the output audio (seconds)
+export interface TimedSpan {
+  text: string
+  start: number
+  end: number
+}
+
+export interface TimingMark extends TimedSpan {
+  type: "word" | "sentence"
+  // Character range in the synthesized text
+  offset: number
+  length: number
+}
+
+export interface SynthesisResult {
+  audio: Buffer
+  format: AudioFormat
+  mimeType: string
+  voice: string
+  // Number of upstream requests the audio was stitched from
+  chunks?: number
+  // Measured placement of each chunk/sentence, for estimating word times
+  timeline?: TimedSpan[]
+  // Word marks reported by the provider itself
+  marks?: TimingMark[]
+}
+
+export interface TTSProvider {
+  id: TTSProviderId
+  name: string
+  capabilities: TTSCapabilities
+  isAvailable(): boolean | Promise<boolean>
+  // Voice the provider will actually use for a request (cache keys depend on it)
+  resolveVoice?(request: SynthesisRequest): string
+  listVoices(): Promise<TTSVoice[]>
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>
+}
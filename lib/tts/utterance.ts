@@ -0,0 +1,69 @@
+import { concatMp3 } from "@/lib/audio/mp3"
+import { type AudioPart, concatWav } from "@/lib/audio/wav"
+import { parseSSML, type SpeechSegment } from "./ssml"
+import { audioDuration } from "./timing"
+import type { SynthesisRequest, SynthesisResult, TimedSpan, TTSProvider } from "./types"
+
+// Emphasis has no native equivalent on plain-text engines, so approximate it
+// with slower, louder delivery (or the reverse for "reduced")
+const EMPHASIS_PROSODY: Record<NonNullable<SpeechSegment["emphasis"]>, { rate: number; volume: number }> = {
+  strong: { rate: 0.85, volume: 1.2 },
+  moderate: { rate: 0.92, volume: 1.1 },
+  reduced: { rate: 1.1, volume: 0.8 },
+}
+
+// Renders SSML on a provider without SSML support: each speech segment is
+// synthesized as plain text with its own prosody, <break>s become silence, and
+// the pieces are stitched back into one file of the provider's format.
+export async function synthesizeUtterance(provider: TTSProvider, request: SynthesisRequest): Promise<SynthesisResult> {
+  const utterance = parseSSML(request.ssml || "")
+  const parts: AudioPart[] = []
+  let first: SynthesisResult | null = null
+  let chunks = 0
+  const timeline: TimedSpan[] = []
+  let cursor = 0
+
+  for (const segment of utterance.segments) {
+    if (segment.type === "break") {
+      parts.push({ silenceMs: segment.durationMs })
+      cursor += segment.durationMs / 1000
+      continue
+    }
+
+    const emphasis = segment.emphasis ? EMPHASIS_PROSODY[segment.emphasis] : { rate: 1, volume: 1 }
+    const result = await provider.synthesize({
+      ...request,
+      ssml: undefined,
+      text: segment.text,
+      voice: segment.voice || request.voice,
+      language: segment.language || request.language,
+      rate: request.rate * segment.rate * emphasis.rate,
+      pitch: request.pitch * segment.pitch,
+      volume: Math.min(1, request.volume * segment.volume * emphasis.volume),
+    })
+
+    if (first && result.format !== first.format) {
+      throw new Error(`${provider.id} returned mixed formats (${first.format}, ${result.format})`)
+    }
+    first = first || result
+    chunks += result.chunks || 1
+    parts.push(result.audio)
+
+    const duration = audioDuration(result.audio, result.format)
+    const spans = result.timeline?.length ? result.timeline : [{ text: segment.text, start: 0, end: duration }]
+    timeline.push(...spans.map((span) => ({ ...span, start: cursor + span.start, end: cursor + span.end })))
+    cursor += duration
+  }
+
+  if (!first) {
+    throw new Error("SSML contains no speakable text")
+  }
+
+  return {
+    ...first,
+    chunks,
+    timeline,
+    marks: undefined,
+    audio: first.format === "wav" ? concatWav(parts) : concatMp3(parts),
+  }
+}
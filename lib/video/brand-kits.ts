@@ -0,0 +1,472 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, unlinkSync, writeFileSync } from "fs"
+import { join } from "path"
+import type { JobContext } from "@/lib/jobs/types"
+import { runFFmpeg } from "./ffmpeg"
+import { reportEncodingProgress } from "./ffmpeg-progress"
+import { readMp4Tracks } from "./mp4"
+import { isOneOf, readColor, readNumber } from "./options"
+import {
+  type ImageOverlay,
+  imageExtension,
+  OVERLAY_ANCHORS,
+  OVERLAY_LIMITS,
+  type OverlayAnchor,
+  type OverlayDefaults,
+} from "./overlays"
+import { getOutputPreset, type OutputPresetId, presetEncodingArgs } from "./presets"
+
+// Named brand kits: a logo stamped on every render as a watermark, fonts and a
+// palette for text layers and backgrounds, and intro and outro clips played
+// around the video. Routes take a kit's id as `brand_kit`. Each kit is a
+// directory holding `kit.json` and its files.
+//
+//   BRAND_KITS_DIR   location (default: /tmp/brand-kits)
+
+export interface BrandPalette {
+  // #rrggbb
+  primary: string
+  secondary: string
+  accent: string
+  text: string
+}
+
+export interface BrandWatermark {
+  anchor: OverlayAnchor
+  opacity: number
+  // Fraction of the frame width
+  width: number
+  // Fraction of the frame's shorter side
+  margin: number
+}
+
+export interface BrandFont {
+  // Accepted as an overlay's `font`
+  id: string
+  file: string
+}
+
+export interface BrandClip {
+  file: string
+  // Seconds
+  duration: number
+  hasAudio: boolean
+}
+
+export interface BrandKit {
+  id: string
+  name: string
+  palette: BrandPalette
+  // File names are relative to the kit's directory
+  logo: string | null
+  watermark: BrandWatermark
+  // The first is the default for text layers
+  fonts: BrandFont[]
+  intro: BrandClip | null
+  outro: BrandClip | null
+  createdAt: number
+  updatedAt: number
+}
+
+// The clips a render plays around the video, with absolute paths
+export interface BrandClips {
+  intro: BrandClip | null
+  outro: BrandClip | null
+}
+
+export const BRAND_KIT_LIMITS = {
+  maxFonts: 5,
+  maxFontBytes: 10 * 1024 * 1024,
+  maxClipBytes: 50 * 1024 * 1024,
+  // Seconds
+  maxClipDuration: 15,
+}
+
+// Kit fields for POST and PATCH /api/brand-kits; null removes an asset
+export const BRAND_KIT_FIELDS = {
+  name: "Display name (required when creating)",
+  id: "Lowercase letters, digits and dashes (default: from the name)",
+  primary_color: "Overlay boxes and fill=color/gradient backgrounds (default blue)",
+  secondary_color: "Bottom of fill=gradient (default black)",
+  accent_color: "Spoken-word caption highlight (default yellow)",
+  text_color: "Overlay text (default white)",
+  logo_base64: "PNG, JPEG or WebP up to 5 MB, drawn on every render as a watermark",
+  watermark_anchor: `${OVERLAY_ANCHORS.join(" | ")} (default bottom-right)`,
+  watermark_opacity: "0-1 (default 0.8)",
+  watermark_width: "Fraction of the frame width, 0.02-1 (default 0.12)",
+  watermark_margin: "Fraction of the frame's shorter side, 0-0.25 (default 0.03)",
+  fonts: `Up to ${BRAND_KIT_LIMITS.maxFonts} [{ name, font_base64 }], TTF, OTF or TTC; the first is the default`,
+  intro_base64: `MP4 up to 50 MB and ${BRAND_KIT_LIMITS.maxClipDuration}s, played before every render`,
+  outro_base64: "As intro_base64, played after it: the end card",
+}
+
+// Request fields on the render routes, for their GET docs
+export const BRAND_KIT_RENDER_FIELDS = {
+  brand_kit: "A kit id from GET /api/brand-kits",
+  applies:
+    "The logo as a watermark above the overlays, the kit's font and colors as defaults for text layers, " +
+    "fill colors and caption highlight, and the intro and outro around the video",
+  overrides: "Fields sent with the request win over the kit's defaults",
+}
+
+const DEFAULT_PALETTE: BrandPalette = { primary: "#0a84ff", secondary: "#000000", accent: "#ffd400", text: "#ffffff" }
+
+const DEFAULT_WATERMARK: BrandWatermark = { anchor: "bottom-right", opacity: 0.8, width: 0.12, margin: 0.03 }
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/
+
+const slug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 63)
+
+export function brandKitsDir(): string {
+  const directory = process.env.BRAND_KITS_DIR || "/tmp/brand-kits"
+  if (!existsSync(directory)) mkdirSync(directory, { recursive: true })
+  return directory
+}
+
+export const isBrandKitId = (value: string) => ID_PATTERN.test(value)
+
+const kitDir = (id: string) => join(brandKitsDir(), id)
+
+export function loadBrandKit(id: string): BrandKit | null {
+  if (!isBrandKitId(id)) return null
+  try {
+    return JSON.parse(readFileSync(join(kitDir(id), "kit.json"), "utf8"))
+  } catch {
+    return null
+  }
+}
+
+export function listBrandKits(): BrandKit[] {
+  return readdirSync(brandKitsDir())
+    .sort()
+    .map((id) => loadBrandKit(id))
+    .filter((kit): kit is BrandKit => kit !== null)
+}
+
+export function deleteBrandKit(id: string): boolean {
+  if (!loadBrandKit(id)) return false
+  rmSync(kitDir(id), { recursive: true, force: true })
+  return true
+}
+
+// File extension for a TrueType, OpenType or TrueType collection font
+function fontExtension(buffer: Buffer): string | null {
+  const magic = buffer.subarray(0, 4).toString("latin1")
+  if (magic === "\x00\x01\x00\x00" || magic === "true") return "ttf"
+  if (magic === "OTTO") return "otf"
+  if (magic === "ttcf") return "ttc"
+  return null
+}
+
+function readBase64(value: unknown, field: string, maxBytes: number): Buffer {
+  if (typeof value !== "string" || !value) throw new Error(`${field} must be a base64 string`)
+  const data = Buffer.from(value, "base64")
+  if (data.length === 0) throw new Error(`${field} is empty`)
+  if (data.length > maxBytes) throw new Error(`${field} must be at most ${maxBytes / 1024 / 1024} MB`)
+  return data
+}
+
+function readClip(value: unknown, field: string): { data: Buffer; duration: number; hasAudio: boolean } {
+  const data = readBase64(value, field, BRAND_KIT_LIMITS.maxClipBytes)
+  let tracks
+  try {
+    tracks = readMp4Tracks(data)
+  } catch {
+    throw new Error(`${field} must be an MP4 video`)
+  }
+  const video = tracks.filter((track) => track.handler === "vide")
+  const duration = Math.max(0, ...video.map((track) => track.duration))
+  // Fragmented MP4s carry their length in fragments, which readMp4Tracks does not read
+  if (duration <= 0) throw new Error(`${field} must be an MP4 video with a known length (not fragmented)`)
+  if (duration > BRAND_KIT_LIMITS.maxClipDuration) {
+    throw new Error(`${field} must be at most ${BRAND_KIT_LIMITS.maxClipDuration} seconds`)
+  }
+  return { data, duration, hasAudio: tracks.some((track) => track.handler === "soun") }
+}
+
+// A file to write into the kit's directory once every field has been read
+interface PendingFile {
+  name: string
+  data: Buffer
+}
+
+// Creates a kit from `body`, or updates `existing` with the fields present in
+// it. Every field is checked before anything is written, so a bad request
+// leaves the kit untouched. Throws on invalid fields.
+export function saveBrandKit(body: Record<string, unknown>, existing: BrandKit | null): BrandKit {
+  const now = Date.now()
+  const present = (key: string) => key in body && body[key] !== undefined
+  const pending: PendingFile[] = []
+
+  const name = present("name") ? String(body.name ?? "").trim() : (existing?.name ?? "")
+  if (!name) throw new Error("name is required")
+  if (name.length > 100) throw new Error("name must be at most 100 characters")
+
+  let id = existing?.id ?? ""
+  if (!existing) {
+    id = present("id") ? String(body.id).trim() : slug(name)
+    if (!isBrandKitId(id)) throw new Error("id must be lowercase letters, digits and dashes, up to 63 characters")
+    if (loadBrandKit(id)) throw new Error(`Brand kit "${id}" already exists; PATCH /api/brand-kits/${id} instead`)
+  }
+
+  const previous = existing?.palette ?? DEFAULT_PALETTE
+  const palette: BrandPalette = {
+    primary: readColor(body.primary_color, "primary_color", previous.primary),
+    secondary: readColor(body.secondary_color, "secondary_color", previous.secondary),
+    accent: readColor(body.accent_color, "accent_color", previous.accent),
+    text: readColor(body.text_color, "text_color", previous.text),
+  }
+
+  const mark = existing?.watermark ?? DEFAULT_WATERMARK
+  const anchor = String(body.watermark_anchor || mark.anchor).toLowerCase()
+  if (!isOneOf(OVERLAY_ANCHORS, anchor)) {
+    throw new Error(`watermark_anchor must be one of: ${OVERLAY_ANCHORS.join(", ")}`)
+  }
+  const watermark: BrandWatermark = {
+    anchor,
+    opacity: readNumber(body.watermark_opacity, "watermark_opacity", 0, 1, mark.opacity),
+    width: readNumber(body.watermark_width, "watermark_width", 0.02, 1, mark.width),
+    margin: readNumber(body.watermark_margin, "watermark_margin", 0, 0.25, mark.margin),
+  }
+
+  let logo = existing?.logo ?? null
+  if (present("logo_base64")) {
+    logo = null
+    if (body.logo_base64 !== null && body.logo_base64 !== "") {
+      const data = readBase64(body.logo_base64, "logo_base64", OVERLAY_LIMITS.maxImageBytes)
+      const extension = imageExtension(data)
+      if (!extension) throw new Error("logo_base64 must be a PNG, JPEG or WebP image")
+      logo = `logo.${extension}`
+      pending.push({ name: logo, data })
+    }
+  }
+
+  let fonts = existing?.fonts ?? []
+  if (present("fonts")) {
+    const items = body.fonts === null ? [] : body.fonts
+    if (!Array.isArray(items)) throw new Error("fonts must be an array of { name, font_base64 }")
+    if (items.length > BRAND_KIT_LIMITS.maxFonts) {
+      throw new Error(`fonts accepts at most ${BRAND_KIT_LIMITS.maxFonts} files`)
+    }
+    fonts = items.map((item, index) => {
+      const field = `fonts[${index}]`
+      const raw = (item && typeof item === "object" ? item : {}) as Record<string, unknown>
+      const fontId = slug(String(raw.name ?? ""))
+      if (!fontId) throw new Error(`${field}.name is required`)
+      const data = readBase64(raw.font_base64, `${field}.font_base64`, BRAND_KIT_LIMITS.maxFontBytes)
+      const extension = fontExtension(data)
+      if (!extension) throw new Error(`${field}.font_base64 must be a TTF, OTF or TTC font`)
+      const file = `font-${fontId}.${extension}`
+      pending.push({ name: file, data })
+      return { id: fontId, file }
+    })
+    if (new Set(fonts.map((font) => font.id)).size < fonts.length) throw new Error("fonts need distinct names")
+  }
+
+  const clip = (key: "intro" | "outro"): BrandClip | null => {
+    const field = `${key}_base64`
+    if (!present(field)) return existing?.[key] ?? null
+    if (body[field] === null || body[field] === "") return null
+    const { data, duration, hasAudio } = readClip(body[field], field)
+    pending.push({ name: `${key}.mp4`, data })
+    return { file: `${key}.mp4`, duration, hasAudio }
+  }
+  const intro = clip("intro")
+  const outro = clip("outro")
+
+  const kit: BrandKit = {
+    id,
+    name,
+    palette,
+    logo,
+    watermark,
+    fonts,
+    intro,
+    outro,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  }
+
+  // Files first, then the record, then whatever the record no longer names
+  const directory = kitDir(id)
+  if (!existsSync(directory)) mkdirSync(directory, { recursive: true })
+  for (const file of pending) writeFileSync(join(directory, file.name), file.data)
+  writeFileSync(join(directory, "kit.json.tmp"), JSON.stringify(kit, null, 2))
+  renameSync(join(directory, "kit.json.tmp"), join(directory, "kit.json"))
+
+  const used = new Set([
+    "kit.json",
+    ...[kit.logo, kit.intro?.file, kit.outro?.file].filter(Boolean),
+    ...kit.fonts.map((font) => font.file),
+  ])
+  for (const file of readdirSync(directory)) {
+    if (used.has(file)) continue
+    try {
+      unlinkSync(join(directory, file))
+    } catch {}
+  }
+  return kit
+}
+
+// The public JSON shape of a kit
+export function describeBrandKit(kit: BrandKit) {
+  const clip = (item: BrandClip | null) => item && { duration: item.duration, has_audio: item.hasAudio }
+  return {
+    id: kit.id,
+    name: kit.name,
+    colors: {
+      primary: kit.palette.primary,
+      secondary: kit.palette.secondary,
+      accent: kit.palette.accent,
+      text: kit.palette.text,
+    },
+    logo: kit.logo !== null,
+    watermark: kit.watermark,
+    fonts: kit.fonts.map((font) => font.id),
+    intro: clip(kit.intro),
+    outro: clip(kit.outro),
+    created_at: new Date(kit.createdAt).toISOString(),
+    updated_at: new Date(kit.updatedAt).toISOString(),
+  }
+}
+
+// Reads `brand_kit`; null without one, and throws for an unknown id
+export function readBrandKit(body: Record<string, unknown>): BrandKit | null {
+  const value = body.brand_kit
+  if (value === undefined || value === null || value === "") return null
+  const kit = loadBrandKit(String(value).trim().toLowerCase())
+  if (!kit) throw new Error(`brand_kit "${value}" does not exist; see GET /api/brand-kits`)
+  return kit
+}
+
+// `body` over the kit's defaults for the fill and caption fields
+export function withBrandDefaults(body: Record<string, unknown>, kit: BrandKit | null): Record<string, unknown> {
+  if (!kit) return body
+  const defaults: Record<string, unknown> = {
+    fill_color: kit.palette.primary,
+    fill_color_end: kit.palette.secondary,
+    caption_highlight_color: kit.palette.accent,
+  }
+  for (const [key, value] of Object.entries(body)) {
+    if (value !== undefined && value !== null && value !== "") defaults[key] = value
+  }
+  return defaults
+}
+
+// The kit's fonts and colors as defaults for text layers
+export function brandOverlayDefaults(kit: BrandKit | null): OverlayDefaults {
+  if (!kit) return {}
+  const fonts = new Map(kit.fonts.map((font) => [font.id, join(kitDir(kit.id), font.file)]))
+  return {
+    fonts,
+    fontFile: kit.fonts[0] && join(kitDir(kit.id), kit.fonts[0].file),
+    color: kit.palette.text,
+    boxColor: kit.palette.primary,
+  }
+}
+
+// The logo as a layer over the whole video; empty without one
+export function brandWatermark(kit: BrandKit | null, frame: { width: number; height: number }): ImageOverlay[] {
+  if (!kit?.logo) return []
+  const { anchor, opacity, width, margin } = kit.watermark
+  return [
+    {
+      type: "image",
+      image: readFileSync(join(kitDir(kit.id), kit.logo)),
+      anchor,
+      margin: Math.round(Math.min(frame.width, frame.height) * margin),
+      start: 0,
+      end: null,
+      animationIn: "none",
+      animationOut: "none",
+      transition: 0,
+      width: Math.round(frame.width * width),
+      opacity,
+    },
+  ]
+}
+
+// The kit's intro and outro for a render; null when it has neither
+export function brandClips(kit: BrandKit | null): BrandClips | null {
+  if (!kit || (!kit.intro && !kit.outro)) return null
+  const absolute = (clip: BrandClip | null) => clip && { ...clip, file: join(kitDir(kit.id), clip.file) }
+  return { intro: absolute(kit.intro), outro: absolute(kit.outro) }
+}
+
+// Seconds the clips add to a render
+export const brandClipsDuration = (clips: BrandClips | null | undefined) =>
+  (clips?.intro?.duration ?? 0) + (clips?.outro?.duration ?? 0)
+
+// Plays the intro and outro around `videoFile`, a finished render, and returns
+// the joined file. The clips are fitted into the preset's frame; parts without
+// sound get silence so every part has audio for concat. An embedded caption
+// track is delayed by the intro.
+export async function joinBrandClips(
+  videoFile: string,
+  clips: BrandClips,
+  options: {
+    preset: OutputPresetId
+    // Seconds
+    duration: number
+    hasAudio: boolean
+    file: (name: string) => string
+    context: JobContext
+  },
+): Promise<string> {
+  const { width, height, fps, audio } = getOutputPreset(options.preset)
+  const parts = [
+    clips.intro,
+    { file: videoFile, duration: options.duration, hasAudio: options.hasAudio },
+    clips.outro,
+  ].filter((part): part is BrandClip => part !== null)
+  const main = clips.intro ? 1 : 0
+  const total = parts.reduce((sum, part) => sum + part.duration, 0)
+
+  const args: string[] = []
+  const graph: string[] = []
+  parts.forEach((part, index) => {
+    // Only the render's subtitle stream is copied through, so only it needs the offset
+    if (index === main && clips.intro) args.push("-itsoffset", clips.intro.duration.toFixed(3))
+    args.push("-i", part.file)
+    graph.push(
+      `[${index}:v]setpts=PTS-STARTPTS,scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${fps},format=yuv420p[v${index}]`,
+    )
+    graph.push(
+      part.hasAudio
+        ? `[${index}:a]asetpts=PTS-STARTPTS,aresample=${audio.sampleRate},aformat=channel_layouts=stereo[a${index}]`
+        : `anullsrc=r=${audio.sampleRate}:cl=stereo,atrim=duration=${part.duration.toFixed(3)}[a${index}]`,
+    )
+  })
+  const inputs = parts.map((_, index) => `[v${index}][a${index}]`).join("")
+  graph.push(`${inputs}concat=n=${parts.length}:v=1:a=1[outv][outa]`)
+
+  const outputFile = options.file("branded.mp4")
+  args.push(
+    "-filter_complex",
+    graph.join(";"),
+    "-map",
+    "[outv]",
+    "-map",
+    "[outa]",
+    "-map",
+    `${main}:s?`,
+    "-c:s",
+    "mov_text",
+    ...presetEncodingArgs(options.preset),
+    "-y",
+    outputFile,
+  )
+
+  options.context.reportProgress(0.95, "Adding intro and outro")
+  await runFFmpeg(args, {
+    signal: options.context.signal,
+    duration: total,
+    onProgress: reportEncodingProgress(options.context, 0.95, 0.99),
+  })
+  return outputFile
+}
@@ -0,0 +1,270 @@
+import { writeFileSync } from "fs"
+import { dirname } from "path"
+import type { JobSidecar } from "@/lib/jobs/types"
+import { buildCues, type CueOptions, SUBTITLE_MIME_TYPES, type SubtitleCue, toSrt, toVtt } from "@/lib/stt/subtitles"
+import type { TranscriptSegment, TranscriptWord } from "@/lib/stt/types"
+import { resolveTimingMarks } from "@/lib/tts/timing"
+import { filterValue } from "./ffmpeg"
+import type { NarrationClip } from "./narration"
+import { isOneOf, readBoolean, readColor, readNumber } from "./options"
+
+// Captions for rendered videos, built from the narration. Word times come from
+// the TTS timings kept on each narration clip: native word marks where the
+// provider reports them, else words placed inside its measured spans (gTTS
+// chunks, eSpeak sentences).
+//
+// Burned-in captions are written as ASS and drawn with FFmpeg's `ass` filter,
+// which honours VIDEO_FONT_FILE's directory for fonts. Embedded captions are a
+// mov_text track; sidecars are SRT or WebVTT files returned next to the video.
+
+export const CAPTION_MODES = ["none", "burn", "embed"] as const
+export type CaptionMode = (typeof CAPTION_MODES)[number]
+
+export const CAPTION_POSITIONS = ["top", "middle", "bottom"] as const
+export type CaptionPosition = (typeof CAPTION_POSITIONS)[number]
+
+export const CAPTION_FILE_FORMATS = ["srt", "vtt"] as const
+export type CaptionFileFormat = (typeof CAPTION_FILE_FORMATS)[number]
+
+export interface CaptionStyle {
+  font: string
+  // Pixels at the output resolution
+  size: number
+  color: string
+  outlineColor: string
+  // Outline width in pixels
+  outline: number
+  position: CaptionPosition
+  // Highlights the word being spoken; meant for vertical shorts
+  wordHighlight: boolean
+  highlightColor: string
+}
+
+export interface CaptionOptions {
+  mode: CaptionMode
+  // Also return the captions as a file next to the video
+  file?: CaptionFileFormat
+  style: CaptionStyle
+}
+
+// A narration clip placed on the video's timeline
+export interface NarrationLine {
+  clip: NarrationClip
+  // Seconds from the start of the video
+  start: number
+}
+
+// Request fields, for the routes' GET docs
+export const CAPTION_FIELDS = {
+  captions: `${CAPTION_MODES.join(" | ")} - burn into the picture, or embed a mov_text track (default none)`,
+  caption_file: `${CAPTION_FILE_FORMATS.join(" | ")} - also return a sidecar, listed in job.result.sidecars`,
+  caption_font: "Font family (default Sans); VIDEO_FONT_FILE's directory is searched first",
+  caption_size: "Pixels at the output resolution",
+  caption_color: "#rrggbb or a color name (default white)",
+  caption_outline_color: "Outline color (default black)",
+  caption_outline: "Outline width in pixels, 0-20",
+  caption_position: `${CAPTION_POSITIONS.join(" | ")} (default bottom; middle for vertical video)`,
+  caption_word_highlight: "Recolor each word as it is spoken (default on for vertical video)",
+  caption_highlight_color: "Color of the spoken word (default yellow)",
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+// Reads `captions`, `caption_file` and the `caption_*` style fields. Returns
+// null when the request asks for no captions at all. Vertical videos default
+// to larger, centred text with word-by-word highlighting.
+export function readCaptionOptions(
+  body: Record<string, unknown>,
+  frame: { width: number; height: number },
+): CaptionOptions | null {
+  const rawMode = body.captions === true ? "burn" : String(body.captions ?? "none").toLowerCase()
+  const mode = rawMode === "false" ? "none" : rawMode
+  if (!isOneOf(CAPTION_MODES, mode)) throw new Error(`captions must be one of: ${CAPTION_MODES.join(", ")}`)
+
+  const rawFile = body.caption_file ? String(body.caption_file).toLowerCase() : undefined
+  if (rawFile !== undefined && !isOneOf(CAPTION_FILE_FORMATS, rawFile)) {
+    throw new Error(`caption_file must be one of: ${CAPTION_FILE_FORMATS.join(", ")}`)
+  }
+  if (mode === "none" && !rawFile) return null
+
+  const vertical = frame.height > frame.width
+  const position = String(body.caption_position ?? (vertical ? "middle" : "bottom")).toLowerCase()
+  if (!isOneOf(CAPTION_POSITIONS, position)) {
+    throw new Error(`caption_position must be one of: ${CAPTION_POSITIONS.join(", ")}`)
+  }
+
+  const defaultSize = Math.round(frame.height / (vertical ? 26 : 18))
+  const font = typeof body.caption_font === "string" && body.caption_font.trim() ? body.caption_font.trim() : "Sans"
+  if (/[,{}\\]/.test(font)) throw new Error("caption_font contains unsupported characters")
+
+  return {
+    mode,
+    file: rawFile,
+    style: {
+      font,
+      size: readNumber(body.caption_size, "caption_size", 12, Math.round(frame.height / 6), defaultSize),
+      color: readColor(body.caption_color, "caption_color", "#ffffff"),
+      outlineColor: readColor(body.caption_outline_color, "caption_outline_color", "#000000"),
+      outline: readNumber(body.caption_outline, "caption_outline", 0, 20, vertical ? 5 : 3),
+      position,
+      wordHighlight: readBoolean(body.caption_word_highlight, vertical),
+      highlightColor: readColor(body.caption_highlight_color, "caption_highlight_color", "#ffd400"),
+    },
+  }
+}
+
+// One segment per narration clip, its words timed from the TTS timings: the
+// provider's own word marks, or words placed inside its measured spans
+export function narrationSegments(lines: NarrationLine[]): TranscriptSegment[] {
+  return lines.flatMap(({ clip, start }): TranscriptSegment[] => {
+    const marks = resolveTimingMarks(clip.text, clip).marks.filter((mark) => mark.type === "word")
+    if (marks.length === 0) return []
+    const words = marks.map(
+      (mark): TranscriptWord => ({
+        text: mark.text,
+        start: round(start + mark.start),
+        end: round(start + Math.min(mark.end, clip.duration)),
+        speaker: clip.speaker,
+      }),
+    )
+    return [{ text: clip.text, start: round(start), end: round(start + clip.duration), words, speaker: clip.speaker }]
+  })
+}
+
+// Short cues for word highlighting so the active word is easy to follow
+function cueOptions(style: CaptionStyle, frame: { width: number }): CueOptions {
+  // Roughly how many characters fit across 90% of the frame
+  const fit = Math.floor((frame.width * 0.9) / (style.size * 0.55))
+  return style.wordHighlight
+    ? { maxLineLength: Math.min(20, fit), maxDuration: 3 }
+    : { maxLineLength: Math.min(42, fit), maxDuration: 7 }
+}
+
+// "#rrggbb" -> "&HAABBGGRR" for styles, or "&HBBGGRR&" for override tags
+function assColor(hex: string, alpha?: number): string {
+  const [r, g, b] = [1, 3, 5].map((offset) => hex.slice(offset, offset + 2).toUpperCase())
+  if (alpha === undefined) return `&H${b}${g}${r}&`
+  return `&H${alpha.toString(16).padStart(2, "0").toUpperCase()}${b}${g}${r}`
+}
+
+// H:MM:SS.cc
+function assTime(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds * 100))
+  const pad = (value: number) => String(value).padStart(2, "0")
+  const hours = Math.floor(total / 360000)
+  return `${hours}:${pad(Math.floor(total / 6000) % 60)}:${pad(Math.floor(total / 100) % 60)}.${pad(total % 100)}`
+}
+
+// Braces and backslashes would start override tags
+const assText = (text: string) => text.replace(/[{}]/g, (brace) => (brace === "{" ? "(" : ")")).replace(/\\/g, "/")
+
+// Splits a cue's words over the lines buildCues chose
+function cueLines(cue: SubtitleCue, words: TranscriptWord[]): TranscriptWord[][] {
+  const counts = cue.text.split("\n").map((line) => line.split(" ").length)
+  return counts.map((count, index) => words.slice(counts.slice(0, index).reduce((a, b) => a + b, 0)).slice(0, count))
+}
+
+export function toAss(segments: TranscriptSegment[], style: CaptionStyle, frame: { width: number; height: number }) {
+  const alignment = { top: 8, middle: 5, bottom: 2 }[style.position]
+  const marginV = style.position === "middle" ? 0 : Math.round(frame.height * 0.08)
+  const marginH = Math.round(frame.width * 0.05)
+  const header = [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${frame.width}`,
+    `PlayResY: ${frame.height}`,
+    // Lines are broken by buildCues; never let the renderer re-wrap them
+    "WrapStyle: 2",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, " +
+      "Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, " +
+      "MarginL, MarginR, MarginV, Encoding",
+    `Style: Default,${style.font},${style.size},${assColor(style.color, 0)},${assColor(style.highlightColor, 0)},` +
+      `${assColor(style.outlineColor, 0)},${assColor("#000000", 0x80)},1,0,0,0,100,100,0,0,1,${style.outline},` +
+      `${style.outline > 0 ? 1 : 0},${alignment},${marginH},${marginH},${marginV},1`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+  ]
+
+  const events: string[] = []
+  const dialogue = (start: number, end: number, text: string) =>
+    events.push(`Dialogue: 0,${assTime(start)},${assTime(end)},Default,,0,0,0,,${text}`)
+
+  for (const segment of segments) {
+    for (const cue of buildCues([segment], cueOptions(style, frame))) {
+      const words = segment.words.filter((word) => word.start >= cue.start && word.end <= cue.end)
+      if (!style.wordHighlight || words.length === 0) {
+        dialogue(cue.start, cue.end, cue.text.split("\n").map(assText).join("\\N"))
+        continue
+      }
+
+      // One event per word, the whole cue visible with the current word recoloured
+      const lines = cueLines(cue, words)
+      words.forEach((active, index) => {
+        const end = index < words.length - 1 ? words[index + 1].start : cue.end
+        const highlight = `{\\1c${assColor(style.highlightColor)}}`
+        const render = (word: TranscriptWord) =>
+          word === active ? `${highlight}${assText(word.text)}{\\r}` : assText(word.text)
+        const text = lines.map((line) => line.map(render).join(" ")).join("\\N")
+        dialogue(active.start, end, text)
+      })
+    }
+  }
+  return `${[...header, ...events].join("\n")}\n`
+}
+
+// The `ass` filter for a burned-in caption file
+export function assFilter(assFile: string): string {
+  const fontFile = process.env.VIDEO_FONT_FILE
+  return `ass=${filterValue(assFile)}${fontFile ? `:fontsdir=${filterValue(dirname(fontFile))}` : ""}`
+}
+
+// Writes what FFmpeg needs for `options.mode`: an ASS file to burn in, or an
+// SRT file to embed as mov_text. Returns null when nothing is drawn or muxed.
+export function writeCaptionTrack(
+  segments: TranscriptSegment[],
+  options: CaptionOptions,
+  frame: { width: number; height: number },
+  file: (name: string) => string,
+): { filter?: string; subtitleFile?: string } | null {
+  if (segments.length === 0) return null
+  if (options.mode === "burn") {
+    const assFile = file("captions.ass")
+    writeFileSync(assFile, toAss(segments, options.style, frame))
+    return { filter: assFilter(assFile) }
+  }
+  if (options.mode === "embed") {
+    const subtitleFile = file("captions.srt")
+    writeFileSync(subtitleFile, toSrt(buildCues(segments)))
+    return { subtitleFile }
+  }
+  return null
+}
+
+// Output options for an embedded track; `input` is the SRT's input index
+export function movTextArgs(input: number): string[] {
+  return ["-map", `${input}:s`, "-c:s", "mov_text", "-metadata:s:s:0", "handler_name=Captions"]
+}
+
+// The SRT/WebVTT file requested with `caption_file`, if any. `offset` delays
+// every cue, for videos that start with a brand kit's intro.
+export function captionSidecars(
+  segments: TranscriptSegment[],
+  options: CaptionOptions | null | undefined,
+  basename: string,
+  offset = 0,
+): JobSidecar[] {
+  if (!options?.file || segments.length === 0) return []
+  const shift = <T extends { start: number; end: number }>(item: T): T => ({
+    ...item,
+    start: round(item.start + offset),
+    end: round(item.end + offset),
+  })
+  const cues = buildCues(segments.map((segment) => ({ ...shift(segment), words: segment.words.map(shift) })))
+  const text = options.file === "srt" ? toSrt(cues) : toVtt(cues)
+  const filename = `${basename}.${options.file}`
+  return [{ data: Buffer.from(text, "utf8"), filename, mimeType: SUBTITLE_MIME_TYPES[options.file] }]
+}
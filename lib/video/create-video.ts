@@ -0,0 +1,176 @@
+import { readFileSync, writeFileSync } from "fs"
+import type { JobContext, JobOutput } from "@/lib/jobs/types"
+import type { TranscriptSegment } from "@/lib/stt/types"
+import { type BrandClips, brandClipsDuration, joinBrandClips } from "./brand-kits"
+import { type CaptionOptions, captionSidecars, movTextArgs, narrationSegments, writeCaptionTrack } from "./captions"
+import { createWorkDir, isFFmpegMissing, runFFmpeg } from "./ffmpeg"
+import { reportEncodingProgress } from "./ffmpeg-progress"
+import { type FramingOptions, framingFilter, resolveFocalPoint } from "./framing"
+import { type Motion, motionFilter, resolveMotion } from "./motion"
+import { muxStillImage } from "./mp4"
+import { type Overlay, overlayGraph } from "./overlays"
+import { type NarrationClip, synthesizeNarration } from "./narration"
+import {
+  checkPresetDuration,
+  checkPresetFileSize,
+  getOutputPreset,
+  type OutputPresetId,
+  presetEncodingArgs,
+} from "./presets"
+
+export interface VideoJobInput {
+  image: Buffer
+  text: string
+  voice: string
+  // Seconds, 1-30
+  duration: number
+  motion: Motion
+  filename: string
+  captions?: CaptionOptions | null
+  preset: OutputPresetId
+  framing: FramingOptions
+  overlays: Overlay[]
+  // A brand kit's intro and outro
+  brandClips?: BrandClips | null
+}
+
+export async function renderVideo(input: VideoJobInput, context: JobContext): Promise<JobOutput> {
+  let narration: NarrationClip | null = null
+  if (input.text.trim()) {
+    context.reportProgress(0.05, "Synthesizing narration")
+    try {
+      narration = await synthesizeNarration(input.text, { voice: input.voice, signal: context.signal })
+    } catch (error) {
+      if (context.signal.aborted) throw error
+      console.log("TTS failed, creating silent video")
+    }
+  }
+  const segments = narration && input.captions ? narrationSegments([{ clip: narration, start: 0 }]) : []
+  // A short narration shortens the video, which may take it under the platform minimum
+  const length = narration ? Math.min(input.duration, narration.duration) : input.duration
+  checkPresetDuration(input.preset, length + brandClipsDuration(input.brandClips))
+
+  const videoBuffer = await createWindowsCompatibleMP4(input, narration, segments, context)
+  console.log("Windows-compatible MP4 generated, size:", videoBuffer.length, "bytes")
+  checkPresetFileSize(input.preset, videoBuffer.length)
+  return {
+    data: videoBuffer,
+    filename: `${input.filename}.mp4`,
+    mimeType: "video/mp4",
+    sidecars: captionSidecars(segments, input.captions, input.filename, input.brandClips?.intro?.duration),
+  }
+}
+
+async function createWindowsCompatibleMP4(
+  input: VideoJobInput,
+  narration: NarrationClip | null,
+  segments: TranscriptSegment[],
+  context: JobContext,
+): Promise<Buffer> {
+  console.log("Creating Windows Media Player compatible MP4...")
+
+  try {
+    // Try FFmpeg with Windows-specific settings
+    return await createFFmpegWindowsMP4(input, narration, segments, context)
+  } catch (ffmpegError) {
+    // Only a missing ffmpeg falls back; a failed or cancelled render fails the job
+    if (!isFFmpegMissing(ffmpegError)) throw ffmpegError
+    console.log("FFmpeg not available, creating MP4 without it...")
+    return createManualWindowsMP4(input, narration)
+  }
+}
+
+async function createFFmpegWindowsMP4(
+  input: VideoJobInput,
+  narration: NarrationClip | null,
+  segments: TranscriptSegment[],
+  context: JobContext,
+): Promise<Buffer> {
+  const work = createWorkDir("video")
+  const preset = getOutputPreset(input.preset)
+
+  try {
+    const imageFile = work.file("input.jpg")
+    writeFileSync(imageFile, input.image)
+    const args = ["-loop", "1", "-i", imageFile]
+
+    if (narration) {
+      const audioFile = work.file("narration.mp3")
+      writeFileSync(audioFile, narration.audio)
+      args.push("-i", audioFile)
+    } else {
+      // Add silent audio track for compatibility
+      args.push("-f", "lavfi", "-i", "anullsrc=channel_layout=stereo:sample_rate=44100")
+    }
+
+    // The video ends with the narration when that is shorter
+    const length = narration ? Math.min(input.duration, narration.duration) : input.duration
+    const focalPoint = await resolveFocalPoint(input.image, input.framing, preset, context.signal)
+    const videoFilters = [
+      framingFilter(input.framing, preset, focalPoint, "fill"),
+      "setsar=1",
+      motionFilter(resolveMotion(input.motion, length), { ...preset, duration: length }, true),
+    ]
+    const captions = input.captions && writeCaptionTrack(segments, input.captions, preset, work.file)
+    if (captions?.subtitleFile) args.push("-i", captions.subtitleFile)
+
+    // Overlay images follow the image, the audio and the subtitle track; captions go on top
+    const overlays = overlayGraph(input.overlays, "framed", {
+      frame: preset,
+      duration: length,
+      firstInput: captions?.subtitleFile ? 3 : 2,
+      file: work.file,
+    })
+    args.push(...overlays.inputArgs)
+    const graph = [`[0:v]${videoFilters.join(",")}[framed]`, ...overlays.chains]
+    graph.push(`[${overlays.output}]${captions?.filter ?? "null"}[outv]`)
+
+    const outputFile = work.file("output.mp4")
+
+    // Codec settings come from the output preset
+    args.push(
+      "-filter_complex",
+      graph.join(";"),
+      "-map",
+      "[outv]",
+      "-map",
+      "1:a",
+      ...(captions?.subtitleFile ? movTextArgs(2) : []),
+      ...presetEncodingArgs(input.preset),
+      "-t",
+      length.toFixed(3),
+      "-y",
+      outputFile,
+    )
+
+    context.reportProgress(0.2, "Encoding video")
+    await runFFmpeg(args, {
+      signal: context.signal,
+      duration: length,
+      onProgress: reportEncodingProgress(context, 0.2, 0.95),
+    })
+
+    const finalFile = input.brandClips
+      ? await joinBrandClips(outputFile, input.brandClips, {
+          preset: input.preset,
+          duration: length,
+          hasAudio: true,
+          file: work.file,
+          context,
+        })
+      : outputFile
+    const videoBuffer = readFileSync(finalFile)
+    console.log("Windows-compatible MP4 created:", videoBuffer.length, "bytes")
+    return videoBuffer
+  } finally {
+    work.cleanup()
+  }
+}
+
+// Without FFmpeg: the image as a Motion JPEG track over the untouched narration.
+// Captions can only be returned as sidecars here, and brand clips are left out.
+function createManualWindowsMP4(input: VideoJobInput, narration: NarrationClip | null): Buffer {
+  console.log("Creating Motion JPEG MP4 without FFmpeg...")
+  const length = narration ? Math.min(input.duration, narration.duration) : input.duration
+  return muxStillImage(input.image, length, narration?.audio)
+}
@@ -0,0 +1,105 @@
+import type { Readable } from "stream"
+import type { JobContext } from "@/lib/jobs/types"
+
+// Reads the key=value blocks FFmpeg writes with `-progress pipe:1 -nostats`.
+// Each block ends with `progress=continue` or `progress=end`, e.g.
+//
+//   frame=120
+//   fps=29.87
+//   out_time_us=4000000
+//   out_time=00:00:04.000000
+//   speed=1.49x
+//   progress=continue
+
+export const PROGRESS_ARGS = ["-progress", "pipe:1", "-nostats"]
+
+export interface FFmpegProgress {
+  frame: number
+  fps: number
+  // Seconds of output written so far
+  outTime: number
+  // Encoding speed relative to real time; 0 while FFmpeg reports N/A
+  speed: number
+  // 0-1 of the expected output duration
+  fraction: number
+  // Seconds until FFmpeg finishes, when it can be estimated
+  eta?: number
+  done: boolean
+}
+
+// "00:01:02.500000" -> 62.5
+function parseClock(value: string): number {
+  const match = value.match(/^(-?\d+):(\d+):(\d+(?:\.\d+)?)$/)
+  if (!match) return NaN
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])
+}
+
+function parseOutTime(fields: Map<string, string>): number {
+  // out_time_ms is in microseconds as well (a long-standing FFmpeg quirk)
+  const micros = Number(fields.get("out_time_us") ?? fields.get("out_time_ms"))
+  if (Number.isFinite(micros) && micros >= 0) return micros / 1e6
+  const clock = parseClock(fields.get("out_time") ?? "")
+  return Number.isFinite(clock) && clock >= 0 ? clock : 0
+}
+
+export function parseProgressBlock(fields: Map<string, string>, duration: number, elapsed: number): FFmpegProgress {
+  const outTime = parseOutTime(fields)
+  const speed = Number.parseFloat(fields.get("speed") ?? "") || 0
+  const done = fields.get("progress") === "end"
+  const fraction = done ? 1 : duration > 0 ? Math.min(1, outTime / duration) : 0
+
+  // Prefer FFmpeg's own speed; fall back to the wall-clock rate so far
+  const remaining = Math.max(0, duration - outTime)
+  const rate = speed > 0 ? speed : elapsed > 0 ? outTime / elapsed : 0
+  const eta = done ? 0 : rate > 0 && duration > 0 ? remaining / rate : undefined
+
+  return {
+    frame: Number(fields.get("frame")) || 0,
+    fps: Number(fields.get("fps")) || 0,
+    outTime,
+    speed,
+    fraction,
+    eta,
+    done,
+  }
+}
+
+// Calls `onProgress` once per block FFmpeg writes to `stdout`. `duration` is
+// the expected output length in seconds, used for the fraction and ETA.
+export function watchFFmpegProgress(
+  stdout: Readable,
+  duration: number,
+  onProgress: (progress: FFmpegProgress) => void,
+) {
+  const startedAt = Date.now()
+  let fields = new Map<string, string>()
+  let pending = ""
+
+  stdout.setEncoding("utf8")
+  stdout.on("data", (chunk: string) => {
+    pending += chunk
+    const lines = pending.split(/\r?\n/)
+    pending = lines.pop() ?? ""
+
+    for (const line of lines) {
+      const separator = line.indexOf("=")
+      if (separator < 0) continue
+      const key = line.slice(0, separator).trim()
+      fields.set(key, line.slice(separator + 1).trim())
+
+      if (key === "progress") {
+        onProgress(parseProgressBlock(fields, duration, (Date.now() - startedAt) / 1000))
+        fields = new Map()
+      }
+    }
+  })
+}
+
+// Maps encoding progress onto the `start`-`end` slice of a job's overall progress
+export function reportEncodingProgress(context: Pick<JobContext, "reportProgress">, start: number, end: number) {
+  return ({ fraction, eta, frame, fps, outTime, speed }: FFmpegProgress) =>
+    context.reportProgress(start + (end - start) * fraction, "Encoding video", {
+      eta,
+      encoding: { frame, fps, outTime, speed },
+    })
+}
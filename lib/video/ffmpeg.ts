@@ -0,0 +1,86 @@
+import { spawn } from "child_process"
+import { mkdtempSync, rmSync } from "fs"
+import { join } from "path"
+import { commandTimeout } from "@/lib/command"
+import { type FFmpegProgress, PROGRESS_ARGS, watchFFmpegProgress } from "./ffmpeg-progress"
+
+// Shared FFmpeg plumbing for the video renderers.
+//
+//   VIDEO_FONT_FILE   TrueType/OpenType font for captions (default: fontconfig's "Sans")
+//
+// Renders are killed after COMMAND_TIMEOUT_SECONDS, or after RENDER_TIME_FACTOR
+// seconds per second of output when that is longer, so a hung ffmpeg cannot
+// hold a job slot forever.
+
+const RENDER_TIME_FACTOR = 10
+
+export interface FFmpegRunOptions {
+  signal?: AbortSignal
+  // Expected output length in seconds, for progress fractions and ETA
+  duration: number
+  onProgress?: (progress: FFmpegProgress) => void
+  // Seconds before ffmpeg is killed; defaults to the limit described above
+  timeout?: number
+}
+
+// Runs ffmpeg with progress reporting. Rejects with the tail of stderr when it
+// exits non-zero or runs past its timeout, and with an AbortError when `signal` fires.
+export function runFFmpeg(args: string[], options: FFmpegRunOptions): Promise<void> {
+  const timeout = options.timeout ?? Math.max(commandTimeout(), Math.ceil(options.duration * RENDER_TIME_FACTOR))
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("ffmpeg", ["-hide_banner", ...PROGRESS_ARGS, ...args], { signal: options.signal })
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill("SIGKILL")
+    }, timeout * 1000)
+    if (options.onProgress) watchFFmpegProgress(child.stdout, options.duration, options.onProgress)
+    else child.stdout.resume()
+
+    let stderr = ""
+    child.stderr.on("data", (data: Buffer) => {
+      // Keep the end, where FFmpeg explains what went wrong
+      stderr = (stderr + data.toString()).slice(-4000)
+    })
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer)
+      reject(error.name === "AbortError" ? error : new Error(`ffmpeg not available: ${error.message}`))
+    })
+
+    child.on("close", (code) => {
+      clearTimeout(timer)
+      if (code === 0) resolve()
+      else if (timedOut) reject(new Error(`ffmpeg timed out after ${timeout}s`))
+      else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`))
+    })
+  })
+}
+
+// True when ffmpeg could not be started at all, as opposed to a run that failed
+export function isFFmpegMissing(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("ffmpeg not available")
+}
+
+// A private scratch directory under /tmp; call `cleanup` when done with it
+export function createWorkDir(prefix: string) {
+  const dir = mkdtempSync(join("/tmp", `${prefix}-`))
+  return {
+    dir,
+    file: (name: string) => join(dir, name),
+    cleanup: () => rmSync(dir, { recursive: true, force: true }),
+  }
+}
+
+// Escapes a value for a filter option inside a filtergraph, e.g. a file path
+// for drawtext=textfile=. Two levels: the option parser, then the graph parser.
+export function filterValue(value: string): string {
+  return value.replace(/[\\':]/g, "\\$&").replace(/[\\'[\],;]/g, "\\$&")
+}
+
+// drawtext font selection: an explicit file when configured, else fontconfig
+export function fontOption(): string {
+  const fontFile = process.env.VIDEO_FONT_FILE
+  return fontFile ? `fontfile=${filterValue(fontFile)}` : "font=Sans"
+}
@@ -0,0 +1,121 @@
+import { isOneOf, readColor, readNumber } from "./options"
+import { CENTER, type FocalPoint, findFocalPoint } from "./saliency"
+
+// How a picture is fitted into a frame of a different shape: letterboxed over
+// a blurred, enlarged copy of itself, over a solid color or gradient, or
+// cropped to fill the frame around its most interesting region.
+
+export const FILL_MODES = ["blur", "color", "gradient", "crop"] as const
+
+export type FillMode = (typeof FILL_MODES)[number]
+
+export interface FramingOptions {
+  fill: FillMode
+  // #rrggbb; gradients run from `color` at the top to `colorEnd` at the bottom
+  color: string
+  colorEnd: string
+  // Crop only; found by saliency analysis when missing
+  focalPoint?: FocalPoint
+}
+
+// Request fields, for the routes' GET docs
+export const FRAMING_FIELDS = {
+  fill: `How the image fills a frame of another shape: ${FILL_MODES.join(" | ")} (default blur)`,
+  fill_color: "Background for fill=color (default black) or the top of fill=gradient (default blue)",
+  fill_color_end: "Bottom of fill=gradient (default black)",
+  focal_point: '"x,y" in 0-1 from the top left to crop around; implies fill=crop (default: the most salient region)',
+}
+
+const DEFAULT_FRAMING: FramingOptions = { fill: "blur", color: "#000000", colorEnd: "#000000" }
+
+// Reads a focal point given as "x,y", [x, y] or { x, y }
+export function readFocalPoint(value: unknown, field: string): FocalPoint | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  let parts: unknown[] = []
+  if (typeof value === "string") parts = value.split(",")
+  else if (Array.isArray(value)) parts = value
+  else if (typeof value === "object") parts = [(value as { x?: unknown }).x, (value as { y?: unknown }).y]
+  if (parts.length !== 2 || parts.some((part) => part === undefined || part === null || String(part).trim() === "")) {
+    throw new Error(`${field} must be "x,y" with both between 0 and 1`)
+  }
+  return { x: readNumber(parts[0], `${field} x`, 0, 1, 0.5), y: readNumber(parts[1], `${field} y`, 0, 1, 0.5) }
+}
+
+// Reads `fill`, `fill_color`, `fill_color_end` and `focal_point`
+export function readFramingOptions(body: Record<string, unknown>): FramingOptions {
+  const focalPoint = readFocalPoint(body.focal_point, "focal_point")
+  const fill = String(body.fill || (focalPoint ? "crop" : DEFAULT_FRAMING.fill)).toLowerCase()
+  if (!isOneOf(FILL_MODES, fill)) throw new Error(`fill must be one of: ${FILL_MODES.join(", ")}`)
+  if (focalPoint && fill !== "crop") throw new Error("focal_point only applies to fill=crop")
+
+  return {
+    fill,
+    color: readColor(body.fill_color, "fill_color", fill === "gradient" ? "#0a84ff" : "#000000"),
+    colorEnd: readColor(body.fill_color_end, "fill_color_end", "#000000"),
+    focalPoint,
+  }
+}
+
+// Where to crop `image`: the requested focal point, else the most salient
+// region, else the middle when the analysis fails. Null for the other modes.
+export async function resolveFocalPoint(
+  image: Buffer,
+  options: FramingOptions,
+  frame: { width: number; height: number },
+  signal?: AbortSignal,
+): Promise<FocalPoint | null> {
+  if (options.fill !== "crop") return null
+  if (options.focalPoint) return options.focalPoint
+  try {
+    return await findFocalPoint(image, frame.width / frame.height, signal)
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.log("Saliency analysis failed, cropping the middle:", error)
+    return CENTER
+  }
+}
+
+const ffmpegColor = (color: string) => `0x${color.slice(1)}`
+
+// A filtergraph fragment that fits its input into `frame`. It may contain
+// labelled side chains, so it must start a chain (after the input label or
+// -vf) and end with the last filter; `label` keeps those side chains unique
+// within the graph.
+export function framingFilter(
+  options: FramingOptions,
+  frame: { width: number; height: number },
+  focalPoint: FocalPoint | null,
+  label: string,
+): string {
+  const { width, height } = frame
+  const fit = `scale=${width}:${height}:force_original_aspect_ratio=decrease`
+  // Scaling to cover leaves one side exactly the frame's and the other at least
+  const cover = `scale=${width}:${height}:force_original_aspect_ratio=increase`
+  const centered = "overlay=(W-w)/2:(H-h)/2"
+
+  switch (options.fill) {
+    case "crop": {
+      const { x, y } = focalPoint ?? CENTER
+      // The window is centered on the focal point, then kept inside the picture
+      return `${cover},crop=${width}:${height}:x='clip(iw*${x}-ow/2,0,iw-ow)':y='clip(ih*${y}-oh/2,0,ih-oh)'`
+    }
+    case "color":
+      return `${fit},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${ffmpegColor(options.color)}`
+    case "gradient": {
+      // speed is the minimum FFmpeg allows, so the gradient holds still
+      const gradient =
+        `gradients=s=${width}x${height}:c0=${ffmpegColor(options.color)}:c1=${ffmpegColor(options.colorEnd)}` +
+        `:x0=${width / 2}:y0=0:x1=${width / 2}:y1=${height}:nb_colors=2:speed=0.00001`
+      return `${fit}[${label}fg];${gradient}[${label}bg];[${label}bg][${label}fg]${centered}:shortest=1`
+    }
+    case "blur": {
+      // boxblur's radius is capped at half the smallest chroma plane side
+      const radius = Math.max(2, Math.round(Math.min(width, height) / 40))
+      return (
+        `split=2[${label}bg][${label}fg];` +
+        `[${label}bg]${cover},crop=${width}:${height},boxblur=${radius}:3,eq=brightness=-0.08[${label}blur];` +
+        `[${label}fg]${fit}[${label}fit];[${label}blur][${label}fit]${centered}`
+      )
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import { readFileSync, writeFileSync } from "fs"
+import { sniffAudioFormat } from "@/lib/audio/format"
+import { concatMp3 } from "@/lib/audio/mp3"
+import type { JobContext, JobOutput } from "@/lib/jobs/types"
+import type { TranscriptSegment } from "@/lib/stt/types"
+import { type BrandClips, joinBrandClips } from "./brand-kits"
+import { type CaptionOptions, captionSidecars, movTextArgs, narrationSegments, writeCaptionTrack } from "./captions"
+import { createWorkDir, isFFmpegMissing, runFFmpeg } from "./ffmpeg"
+import { reportEncodingProgress } from "./ffmpeg-progress"
+import { type FramingOptions, framingFilter, resolveFocalPoint } from "./framing"
+import { type Motion, motionFilter, resolveMotion } from "./motion"
+import { muxStillImage } from "./mp4"
+import { type MusicOptions, musicAudio, musicGraph, musicInputArgs } from "./music"
+import { type NarrationClip, synthesizeNarration } from "./narration"
+import { type Overlay, overlayGraph } from "./overlays"
+import {
+  checkPresetFileSize,
+  getOutputPreset,
+  type OutputPresetId,
+  presetEncodingArgs,
+} from "./presets"
+
+export interface InstagramShortJobInput {
+  image_base64: string
+  prompt: string
+  characters: any[]
+  voice_assignments: any
+  // Seconds, 5-60
+  duration: number
+  style: string
+  motion: Motion
+  background_music?: MusicOptions | null
+  captions?: CaptionOptions | null
+  preset: OutputPresetId
+  framing: FramingOptions
+  overlays: Overlay[]
+  // A brand kit's intro and outro
+  brandClips?: BrandClips | null
+}
+
+export async function renderInstagramShort(input: InstagramShortJobInput, context: JobContext): Promise<JobOutput> {
+  context.reportProgress(0.05, "Synthesizing character voices")
+  const voices = await generateCharacterVoices(input.prompt, input.characters, input.voice_assignments, context.signal)
+  context.signal.throwIfAborted()
+
+  // Voices play back to back
+  let start = 0
+  const lines = voices.map((voice) => {
+    const line = { clip: voice, start }
+    start += voice.duration
+    return line
+  })
+  const segments = input.captions ? narrationSegments(lines.filter((line) => line.start < input.duration)) : []
+
+  const shortVideo = await createInstagramShort(input, voices, segments, context)
+  checkPresetFileSize(input.preset, shortVideo.length)
+  return {
+    data: shortVideo,
+    filename: "instagram-short.mp4",
+    mimeType: "video/mp4",
+    sidecars: captionSidecars(segments, input.captions, "instagram-short", input.brandClips?.intro?.duration),
+  }
+}
+
+async function createInstagramShort(
+  input: InstagramShortJobInput,
+  voices: NarrationClip[],
+  segments: TranscriptSegment[],
+  context: JobContext,
+): Promise<Buffer> {
+  try {
+    // Try FFmpeg for professional Instagram Short creation
+    return await createInstagramShortWithFFmpeg(input, voices, segments, context)
+  } catch (ffmpegError) {
+    // Only a missing ffmpeg falls back; a failed or cancelled render fails the job
+    if (!isFFmpegMissing(ffmpegError)) throw ffmpegError
+    console.log("FFmpeg not available, creating Instagram Short without it...")
+    return createManualInstagramShort(input, voices)
+  }
+}
+
+async function createInstagramShortWithFFmpeg(
+  input: InstagramShortJobInput,
+  voices: NarrationClip[],
+  segments: TranscriptSegment[],
+  context: JobContext,
+): Promise<Buffer> {
+  const work = createWorkDir("ig-short")
+  const preset = getOutputPreset(input.preset)
+
+  try {
+    const image = Buffer.from(input.image_base64, "base64")
+    const imageFile = work.file("image.jpg")
+    writeFileSync(imageFile, image)
+    const args = ["-loop", "1", "-i", imageFile]
+
+    voices.forEach((voice, index) => {
+      const audioFile = work.file(`voice-${index}.mp3`)
+      writeFileSync(audioFile, voice.audio)
+      args.push("-i", audioFile)
+    })
+
+    const music = input.background_music
+    const musicInput = voices.length + 1
+    if (music) {
+      const audio = musicAudio(music)
+      const musicFile = work.file(`music.${sniffAudioFormat(audio)?.format ?? "wav"}`)
+      writeFileSync(musicFile, audio)
+      args.push(...musicInputArgs(musicFile))
+    }
+
+    const focalPoint = await resolveFocalPoint(image, input.framing, preset, context.signal)
+    const videoFilters = [
+      framingFilter(input.framing, preset, focalPoint, "fill"),
+      "setsar=1",
+      motionFilter(resolveMotion(input.motion, input.duration), { ...preset, duration: input.duration }, true),
+    ]
+    const captions = input.captions && writeCaptionTrack(segments, input.captions, preset, work.file)
+    if (captions?.subtitleFile) args.push("-i", captions.subtitleFile)
+    const subtitleInput = musicInput + (music ? 1 : 0)
+
+    // Overlay images are the last inputs; captions go on top of them
+    const overlays = overlayGraph(input.overlays, "framed", {
+      frame: preset,
+      duration: input.duration,
+      firstInput: subtitleInput + (captions?.subtitleFile ? 1 : 0),
+      file: work.file,
+    })
+    args.push(...overlays.inputArgs)
+    const graph = [`[0:v]${videoFilters.join(",")}[framed]`, ...overlays.chains]
+    graph.push(`[${overlays.output}]${captions?.filter ?? "null"}[outv]`)
+    // Character voices play back to back
+    const voiceLabel = voices.length > 0 ? (music ? "voices" : "outa") : null
+    if (voiceLabel) {
+      const audioInputs = voices.map((_, index) => `[${index + 1}:a]`).join("")
+      graph.push(`${audioInputs}concat=n=${voices.length}:v=0:a=1[${voiceLabel}]`)
+    }
+    if (music) graph.push(...musicGraph(musicInput, voiceLabel, input.duration, music, "outa"))
+    const hasAudio = voices.length > 0 || Boolean(music)
+
+    const outputFile = work.file("short.mp4")
+    // Codec settings come from the output preset
+    args.push(
+      "-filter_complex",
+      graph.join(";"),
+      "-map",
+      "[outv]",
+      ...(hasAudio ? ["-map", "[outa]"] : []),
+      ...(captions?.subtitleFile ? movTextArgs(subtitleInput) : []),
+      ...presetEncodingArgs(input.preset),
+      "-t",
+      input.duration.toString(),
+      "-y",
+      outputFile,
+    )
+
+    console.log("Creating Instagram Short with FFmpeg...")
+
+    context.reportProgress(0.3, "Encoding video")
+    await runFFmpeg(args, {
+      signal: context.signal,
+      duration: input.duration,
+      onProgress: reportEncodingProgress(context, 0.3, 0.95),
+    })
+
+    const finalFile = input.brandClips
+      ? await joinBrandClips(outputFile, input.brandClips, {
+          preset: input.preset,
+          duration: input.duration,
+          hasAudio,
+          file: work.file,
+          context,
+        })
+      : outputFile
+    const videoBuffer = readFileSync(finalFile)
+    console.log("Instagram Short created:", videoBuffer.length, "bytes")
+    return videoBuffer
+  } finally {
+    work.cleanup()
+  }
+}
+
+async function generateCharacterVoices(
+  prompt: string,
+  characters: any[],
+  voice_assignments: any,
+  signal: AbortSignal,
+): Promise<NarrationClip[]> {
+  const voices: NarrationClip[] = []
+
+  // Split prompt into character dialogues
+  const dialogues = splitPromptIntoDialogues(prompt, characters)
+
+  for (const dialogue of dialogues) {
+    try {
+      const character = characters.find((c) => c.id === dialogue.character_id)
+      const voiceSettings = voice_assignments[dialogue.character_id]
+
+      if (character && voiceSettings) {
+        console.log(`Generating voice for ${character.name}: "${dialogue.text}"`)
+
+        voices.push(
+          await synthesizeNarration(dialogue.text, {
+            voice: voiceSettings.voice,
+            rate: voiceSettings.speed || 1.0,
+            speaker: character.name,
+            signal,
+          }),
+        )
+      }
+    } catch (error) {
+      if (signal.aborted) throw error
+      console.error("Voice generation failed for dialogue:", dialogue.text)
+    }
+  }
+
+  return voices
+}
+
+function splitPromptIntoDialogues(prompt: string, characters: any[]): any[] {
+  const dialogues = []
+
+  // Simple dialogue splitting - in production, use more sophisticated NLP
+  const sentences = prompt.split(/[.!?]+/).filter((s) => s.trim().length > 0)
+
+  // If we have a narrator, they handle most of the content
+  const narrator = characters.find((c) => c.type === "narrator")
+
+  if (narrator) {
+    // Narrator handles the main story
+    const mainStory = sentences.slice(0, Math.ceil(sentences.length * 0.7)).join(". ")
+    dialogues.push({
+      character_id: narrator.id,
+      text: mainStory + ".",
+      timing: 0,
+    })
+
+    // Other characters get remaining dialogues
+    const remainingSentences = sentences.slice(Math.ceil(sentences.length * 0.7))
+    const otherCharacters = characters.filter((c) => c.type !== "narrator")
+
+    remainingSentences.forEach((sentence, index) => {
+      if (otherCharacters.length > 0) {
+        const character = otherCharacters[index % otherCharacters.length]
+        dialogues.push({
+          character_id: character.id,
+          text: sentence.trim() + ".",
+          timing: index + 1,
+        })
+      }
+    })
+  } else {
+    // Distribute sentences among all characters
+    sentences.forEach((sentence, index) => {
+      const character = characters[index % characters.length]
+      dialogues.push({
+        character_id: character.id,
+        text: sentence.trim() + ".",
+        timing: index,
+      })
+    })
+  }
+
+  return dialogues
+}
+
+// Without FFmpeg: the image as a Motion JPEG track over the joined voices. The
+// 9:16 framing, animation, burned-in captions, music and brand clips all need FFmpeg.
+function createManualInstagramShort(input: InstagramShortJobInput, voices: NarrationClip[]): Buffer {
+  const audio = voices.length > 0 ? concatMp3(voices.map((voice) => voice.audio)) : null
+  return muxStillImage(Buffer.from(input.image_base64, "base64"), input.duration, audio)
+}
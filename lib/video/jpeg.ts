@@ -0,0 +1,30 @@
+// Width and height from a JPEG's start-of-frame segment, or null when the
+// buffer is not a JPEG we can read
+export function readJpegSize(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null
+
+  let pos = 2
+  while (pos + 4 <= buffer.length) {
+    if (buffer[pos] !== 0xff) return null
+    const marker = buffer[pos + 1]
+    // Fill bytes, and markers without a length field
+    if (marker === 0xff) {
+      pos++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      pos += 2
+      continue
+    }
+    // Scan data or end of image before any frame header
+    if (marker === 0xda || marker === 0xd9) return null
+
+    // SOF0-SOF15, except DHT, JPG and DAC which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (pos + 9 > buffer.length) return null
+      return { height: buffer.readUInt16BE(pos + 5), width: buffer.readUInt16BE(pos + 7) }
+    }
+    pos += 2 + buffer.readUInt16BE(pos + 2)
+  }
+  return null
+}
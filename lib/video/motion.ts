@@ -0,0 +1,245 @@
+import { isOneOf, readNumber } from "./options"
+
+// Camera motion over a still image, described as keyframes (time, zoom, view
+// center, easing) and compiled to an FFmpeg zoompan filter whose expressions
+// are evaluated per output frame, so the motion follows the clip's real
+// duration and frame rate. The named animations are presets over the same
+// format, with their keyframe times given as fractions of the clip.
+
+export const EASINGS = ["linear", "ease-in", "ease-out", "ease-in-out", "hold"] as const
+
+export type Easing = (typeof EASINGS)[number]
+
+export interface MotionKeyframe {
+  // Seconds from the start of the clip
+  time: number
+  // 1 shows the whole frame, 2 half its width and height
+  zoom: number
+  // Center of the view as fractions of the frame; kept inside the picture
+  x: number
+  y: number
+  // How the camera moves from the previous keyframe to this one
+  easing: Easing
+}
+
+export interface CameraMotion {
+  keyframes: MotionKeyframe[]
+  // Seconds of fade from and to black
+  fadeIn: number
+  fadeOut: number
+}
+
+type PresetKeyframe = Omit<MotionKeyframe, "time"> & {
+  // Fraction of the clip, 0-1
+  at: number
+}
+
+const keyframe = (at: number, zoom: number, x = 0.5, y = 0.5, easing: Easing = "linear"): PresetKeyframe => ({
+  at,
+  zoom,
+  x,
+  y,
+  easing,
+})
+
+// The view center that puts a 1.2x view against the left or top edge
+const PAN_EDGE = 0.5 / 1.2
+
+export const MOTION_PRESETS = {
+  none: { keyframes: [keyframe(0, 1)] },
+  "zoom-in": { keyframes: [keyframe(0, 1), keyframe(1, 1.2)] },
+  "zoom-out": { keyframes: [keyframe(0, 1.2), keyframe(1, 1)] },
+  // A view 1.2x in, carried from one edge to the other
+  "pan-left": { keyframes: [keyframe(0, 1.2, 1 - PAN_EDGE), keyframe(1, 1.2, PAN_EDGE)] },
+  "pan-right": { keyframes: [keyframe(0, 1.2, PAN_EDGE), keyframe(1, 1.2, 1 - PAN_EDGE)] },
+  fade: { keyframes: [keyframe(0, 1)], fadeIn: 0.5, fadeOut: 1 },
+  story: { keyframes: [keyframe(0, 1), keyframe(1, 1.1, 0.5, 0.5, "ease-out")], fadeIn: 0.5 },
+  dramatic: { keyframes: [keyframe(0, 1.5), keyframe(0.6, 1, 0.5, 0.5, "ease-out"), keyframe(1, 1)] },
+  energetic: { keyframes: [keyframe(0, 1, 0.3), keyframe(1, 1.3, 0.7, 0.5, "ease-in-out")] },
+  introduction: { keyframes: [keyframe(0, 1)], fadeIn: 1 },
+} satisfies Record<string, { keyframes: PresetKeyframe[]; fadeIn?: number; fadeOut?: number }>
+
+export type MotionPresetName = keyof typeof MOTION_PRESETS
+
+export const MOTION_PRESET_NAMES = Object.keys(MOTION_PRESETS) as MotionPresetName[]
+
+// Names the single-image animation used before presets existed
+const PRESET_ALIASES: Record<string, MotionPresetName> = {
+  zoom: "zoom-in",
+  pan: "pan-right",
+  slide: "pan-left",
+}
+
+// Default motion per Instagram Short style
+const STYLE_MOTIONS: Record<string, MotionPresetName> = {
+  story: "story",
+  dramatic: "dramatic",
+  energetic: "energetic",
+  introduction: "introduction",
+}
+
+export const styleMotion = (style: string): MotionPresetName => STYLE_MOTIONS[style.toLowerCase()] ?? "zoom-in"
+
+// A preset name, or keyframes of its own
+export type Motion = MotionPresetName | CameraMotion
+
+export const MOTION_LIMITS = {
+  maxKeyframes: 32,
+  maxZoom: 5,
+  // Seconds
+  maxTime: 600,
+  maxFade: 10,
+}
+
+// Request fields, for the routes' GET docs
+export const MOTION_FIELDS = {
+  presets: MOTION_PRESET_NAMES,
+  custom: "{ keyframes: [{ time, zoom, x, y, easing }], fade_in, fade_out } or just the keyframes array",
+  time: "Seconds from the start of the clip, increasing; the view holds after the last keyframe",
+  zoom: `1-${MOTION_LIMITS.maxZoom} (default 1, the whole frame)`,
+  x: "Center of the view, 0-1 from the left (default 0.5)",
+  y: "Center of the view, 0-1 from the top (default 0.5)",
+  easing: `How the camera reaches the keyframe: ${EASINGS.join(" | ")} (default linear)`,
+}
+
+function readKeyframe(value: unknown, field: string): MotionKeyframe {
+  if (!value || typeof value !== "object") throw new Error(`${field} must be an object`)
+  const raw = value as Record<string, unknown>
+  const easing = String(raw.easing ?? "linear").toLowerCase()
+  if (!isOneOf(EASINGS, easing)) throw new Error(`${field}.easing must be one of: ${EASINGS.join(", ")}`)
+  if (raw.time === undefined || raw.time === null || raw.time === "") throw new Error(`${field}.time is required`)
+  return {
+    time: readNumber(raw.time, `${field}.time`, 0, MOTION_LIMITS.maxTime, 0),
+    zoom: readNumber(raw.zoom, `${field}.zoom`, 1, MOTION_LIMITS.maxZoom, 1),
+    x: readNumber(raw.x, `${field}.x`, 0, 1, 0.5),
+    y: readNumber(raw.y, `${field}.y`, 0, 1, 0.5),
+    easing,
+  }
+}
+
+// Reads a preset name or custom keyframes; multipart requests send the latter
+// as a JSON string. Unknown names and malformed keyframes throw.
+export function readMotion(value: unknown, field: string, fallback: Motion): Motion {
+  if (value === undefined || value === null || value === "") return fallback
+
+  let raw = value
+  if (typeof raw === "string") {
+    const text = raw.trim()
+    if (!text.startsWith("{") && !text.startsWith("[")) {
+      const name = PRESET_ALIASES[text.toLowerCase()] ?? text.toLowerCase()
+      if (!isOneOf(MOTION_PRESET_NAMES, name)) {
+        throw new Error(`${field} must be keyframes or one of: ${MOTION_PRESET_NAMES.join(", ")}`)
+      }
+      return name
+    }
+    try {
+      raw = JSON.parse(text)
+    } catch {
+      throw new Error(`${field} is not valid JSON`)
+    }
+  }
+
+  const body = (Array.isArray(raw) ? { keyframes: raw } : raw) as Record<string, unknown>
+  if (!body || typeof body !== "object" || !Array.isArray(body.keyframes)) {
+    throw new Error(`${field} must be a preset name or { keyframes: [...] }`)
+  }
+  const { maxKeyframes, maxFade } = MOTION_LIMITS
+  if (body.keyframes.length === 0 || body.keyframes.length > maxKeyframes) {
+    throw new Error(`${field} needs 1-${maxKeyframes} keyframes`)
+  }
+  const keyframes = body.keyframes.map((item, index) => readKeyframe(item, `${field}.keyframes[${index}]`))
+  keyframes.forEach((item, index) => {
+    if (index > 0 && item.time <= keyframes[index - 1].time) {
+      throw new Error(`${field}.keyframes must be in increasing time order`)
+    }
+  })
+
+  return {
+    keyframes,
+    fadeIn: readNumber(body.fade_in, `${field}.fade_in`, 0, maxFade, 0),
+    fadeOut: readNumber(body.fade_out, `${field}.fade_out`, 0, maxFade, 0),
+  }
+}
+
+// The keyframes for a clip of `duration` seconds
+export function resolveMotion(motion: Motion, duration: number): CameraMotion {
+  if (typeof motion !== "string") return motion
+  const preset: { keyframes: PresetKeyframe[]; fadeIn?: number; fadeOut?: number } = MOTION_PRESETS[motion]
+  return {
+    keyframes: preset.keyframes.map(({ at, ...rest }) => ({ ...rest, time: at * duration })),
+    fadeIn: preset.fadeIn ?? 0,
+    fadeOut: preset.fadeOut ?? 0,
+  }
+}
+
+const num = (value: number) => String(Number(value.toFixed(4)))
+
+// Eased progress from `p`, an expression that runs 0-1 through the segment
+function ease(easing: Easing, p: string): string {
+  switch (easing) {
+    case "linear":
+      return p
+    case "ease-in":
+      return `pow(${p},2)`
+    case "ease-out":
+      return `(1-pow(1-${p},2))`
+    case "ease-in-out":
+      // smoothstep
+      return `(pow(${p},2)*(3-2*${p}))`
+    case "hold":
+      return "0"
+  }
+}
+
+// One property over time: nested ifs, one per segment between keyframes.
+// Before the first keyframe and after the last, the value holds.
+function track(keyframes: MotionKeyframe[], property: "zoom" | "x" | "y", time: string): string {
+  const values = keyframes.map((item) => item[property])
+  if (values.every((value) => value === values[0])) return num(values[0])
+
+  let expression = num(values[values.length - 1])
+  for (let index = keyframes.length - 1; index > 0; index--) {
+    const from = keyframes[index - 1]
+    const to = keyframes[index]
+    const p = `clip((${time}-${num(from.time)})/${num(to.time - from.time)},0,1)`
+    const change = to[property] - from[property]
+    const step = `${change < 0 ? "-" : "+"}${num(Math.abs(change))}*${ease(to.easing, p)}`
+    const segment = change === 0 || to.easing === "hold" ? num(from[property]) : `${num(from[property])}${step}`
+    expression = `if(lt(${time},${num(to.time)}),${segment},${expression})`
+  }
+  return expression
+}
+
+// Compiles `motion` for a clip of `duration` seconds at the frame's size and
+// rate. A looped input feeds zoompan a frame per output frame; a single
+// frame (looped: false) is expanded to the whole clip by zoompan itself.
+export function motionFilter(
+  motion: CameraMotion,
+  clip: { duration: number; width: number; height: number; fps: number },
+  looped: boolean,
+): string {
+  const { duration, width, height, fps } = clip
+  const frames = Math.max(1, Math.round(duration * fps))
+  const filters: string[] = []
+
+  // A still view of the whole frame needs no zoompan when frames keep coming
+  const still = motion.keyframes.every((item) => item.zoom === 1)
+  if (!looped || !still) {
+    // zoompan numbers its output frames `on`, at the fps given here
+    const time = `on/${fps}`
+    const x = track(motion.keyframes, "x", time)
+    const y = track(motion.keyframes, "y", time)
+    filters.push(
+      `zoompan=z='${track(motion.keyframes, "zoom", time)}'` +
+        `:x='clip(iw*(${x})-iw/zoom/2,0,iw-iw/zoom)':y='clip(ih*(${y})-ih/zoom/2,0,ih-ih/zoom)'` +
+        `:d=${looped ? 1 : frames}:s=${width}x${height}:fps=${fps}`,
+    )
+  }
+
+  if (motion.fadeIn > 0) filters.push(`fade=t=in:st=0:d=${num(Math.min(motion.fadeIn, duration))}`)
+  if (motion.fadeOut > 0) {
+    const length = Math.min(motion.fadeOut, duration)
+    filters.push(`fade=t=out:st=${num(duration - length)}:d=${num(length)}`)
+  }
+  return filters.length > 0 ? filters.join(",") : "null"
+}
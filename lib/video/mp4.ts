@@ -0,0 +1,533 @@
+import { AAC_SAMPLES_PER_FRAME, audioSpecificConfig, isAdts, readAdtsFrames } from "@/lib/audio/aac"
+import { findMp4Box, type Mp4Box, readMp4Boxes } from "@/lib/audio/metadata"
+import { isMp3MetadataFrame, readMp3Frames } from "@/lib/audio/mp3"
+import { parseWav } from "@/lib/audio/wav"
+import { readJpegSize } from "./jpeg"
+
+// A small ISO-BMFF (MP4) muxer for rendering without FFmpeg. It packages
+// samples that are already encoded and never re-encodes anything:
+//
+//   video  Motion JPEG: "mp4v" with the JPEG object type, one image per frame
+//   audio  MP3 frames, AAC from an ADTS stream, or PCM from a WAV ("ipcm")
+//
+// Motion JPEG plays in VLC, mpv and FFmpeg-based players but not in browsers.
+// The movie box goes first so playback can start before the download ends, and
+// every file is read back and checked against its input before it is returned.
+
+export interface Mp4Track {
+  kind: "video" | "audio"
+  timescale: number
+  // The stsd sample entry box ("mp4v", "mp4a", "ipcm")
+  sampleEntry: Buffer
+  width?: number
+  height?: number
+  // Per-sample sizes, or one size shared by every sample
+  sizes: number[] | { size: number; count: number }
+  // Sample durations in `timescale` units, run-length encoded
+  durations: { count: number; duration: number }[]
+  // Consecutive samples stored together. A Buffer used by several chunks is
+  // written once and shared, which keeps held still frames small.
+  chunks: { data: Buffer; samples: number }[]
+}
+
+// What readMp4Tracks finds in a file
+export interface Mp4TrackInfo {
+  handler: string
+  codec: string
+  timescale: number
+  // Seconds
+  duration: number
+  sampleCount: number
+  width?: number
+  height?: number
+  sampleRate?: number
+  channels?: number
+  chunks: { offset: number; samples: number; size: number }[]
+}
+
+// Held still images get a frame this often (seconds) so players can seek
+const STILL_FRAME_INTERVAL = 1
+// Audio is stored in chunks of about this many seconds
+const AUDIO_CHUNK_SECONDS = 1
+const MOVIE_TIMESCALE = 1000
+
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
+
+// MPEG-4 object types for the esds decoder config
+const OBJECT_TYPES = { aac: 0x40, mp3: 0x6b, mp3Lsf: 0x69, jpeg: 0x6c }
+const STREAM_TYPES = { video: 0x04, audio: 0x05 }
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const header = Buffer.alloc(8)
+  const size = 8 + payload.reduce((total, part) => total + part.length, 0)
+  header.writeUInt32BE(size)
+  header.write(type, 4, "latin1")
+  return Buffer.concat([header, ...payload], size)
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Buffer[]): Buffer {
+  const header = Buffer.alloc(4)
+  header.writeUInt32BE(((version << 24) | flags) >>> 0)
+  return box(type, header, ...payload)
+}
+
+function uint32s(values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4)
+  values.forEach((value, index) => buffer.writeUInt32BE(value >>> 0, index * 4))
+  return buffer
+}
+
+// An MPEG-4 descriptor, with the four-byte length most muxers write
+function descriptor(tag: number, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload)
+  const length = [21, 14, 7].map((shift) => 0x80 | ((body.length >> shift) & 0x7f))
+  return Buffer.concat([Buffer.from([tag, ...length, body.length & 0x7f]), body])
+}
+
+// Decoder config for "mp4v"/"mp4a"; `info` is codec-specific, e.g. AAC's AudioSpecificConfig
+function esds(objectType: number, streamType: number, track: Pick<Mp4Track, "sizes">, seconds: number, info?: Buffer) {
+  const sizes = Array.isArray(track.sizes) ? track.sizes : [track.sizes.size]
+  const totalBytes = Array.isArray(track.sizes)
+    ? track.sizes.reduce((total, size) => total + size, 0)
+    : track.sizes.size * track.sizes.count
+  const bitrate = seconds > 0 ? Math.round((totalBytes * 8) / seconds) : 0
+
+  const config = Buffer.alloc(13)
+  config[0] = objectType
+  config[1] = (streamType << 2) | 1
+  config.writeUIntBE(Math.min(Math.max(...sizes), 0xffffff), 2, 3)
+  config.writeUInt32BE(bitrate, 5)
+  config.writeUInt32BE(bitrate, 9)
+
+  // ES_ID 0: MP4 files identify streams by track instead
+  const decoderConfig = descriptor(0x04, config, ...(info ? [descriptor(0x05, info)] : []))
+  return fullBox("esds", 0, 0, descriptor(0x03, Buffer.alloc(3), decoderConfig, descriptor(0x06, Buffer.from([0x02]))))
+}
+
+function visualSampleEntry(type: string, width: number, height: number, ...extensions: Buffer[]): Buffer {
+  const entry = Buffer.alloc(78)
+  entry.writeUInt16BE(1, 6) // data_reference_index
+  entry.writeUInt16BE(width, 24)
+  entry.writeUInt16BE(height, 26)
+  entry.writeUInt32BE(0x00480000, 28) // 72 dpi
+  entry.writeUInt32BE(0x00480000, 32)
+  entry.writeUInt16BE(1, 40) // frame_count
+  entry.writeUInt16BE(0x0018, 74) // depth
+  entry.writeInt16BE(-1, 76)
+  return box(type, entry, ...extensions)
+}
+
+function audioSampleEntry(type: string, sampleRate: number, channels: number, bits: number, ...extensions: Buffer[]) {
+  if (sampleRate > 0xffff) throw new Error(`MP4 audio above 65535 Hz is not supported (got ${sampleRate} Hz)`)
+  const entry = Buffer.alloc(28)
+  entry.writeUInt16BE(1, 6) // data_reference_index
+  entry.writeUInt16BE(channels, 16)
+  entry.writeUInt16BE(bits, 18)
+  entry.writeUInt32BE(sampleRate * 0x10000, 24)
+  return box(type, entry, ...extensions)
+}
+
+const trackSamples = (track: Mp4Track) => track.durations.reduce((total, run) => total + run.count, 0)
+const trackLength = (track: Mp4Track) => track.durations.reduce((total, run) => total + run.count * run.duration, 0)
+
+// Appends a duration, merging it into the previous run when equal
+function pushDuration(runs: Mp4Track["durations"], duration: number, count = 1) {
+  const last = runs[runs.length - 1]
+  if (last && last.duration === duration) last.count += count
+  else runs.push({ count, duration })
+}
+
+// Motion JPEG frames, each held for `duration` seconds
+export function jpegTrack(frames: { image: Buffer; duration: number }[]): Mp4Track {
+  if (frames.length === 0) throw new Error("A video track needs at least one frame")
+  const size = readJpegSize(frames[0].image)
+  if (!size) throw new Error("Rendering without FFmpeg needs JPEG images; install FFmpeg for other formats")
+  for (const frame of frames) {
+    if (!readJpegSize(frame.image)) throw new Error("Every frame must be a JPEG image")
+  }
+
+  const durations: Mp4Track["durations"] = []
+  for (const frame of frames) pushDuration(durations, Math.max(1, Math.round(frame.duration * MOVIE_TIMESCALE)))
+  const sizes = frames.map((frame) => frame.image.length)
+  const seconds = frames.reduce((total, frame) => total + frame.duration, 0)
+
+  return {
+    kind: "video",
+    timescale: MOVIE_TIMESCALE,
+    sampleEntry: visualSampleEntry(
+      "mp4v",
+      size.width,
+      size.height,
+      esds(OBJECT_TYPES.jpeg, STREAM_TYPES.video, { sizes }, seconds),
+    ),
+    width: size.width,
+    height: size.height,
+    sizes,
+    durations,
+    chunks: frames.map((frame) => ({ data: frame.image, samples: 1 })),
+  }
+}
+
+function mp3Track(audio: Buffer, maxDuration: number): Mp4Track {
+  const frames = readMp3Frames(audio).filter((frame, index) => index > 0 || !isMp3MetadataFrame(audio, frame))
+  if (frames.length === 0) throw new Error("Audio contains no MP3 frames")
+  const { sampleRate, channels, version } = frames[0].header
+  if (frames.some((frame) => frame.header.sampleRate !== sampleRate)) {
+    throw new Error("MP3 audio changes sample rate midway; it cannot be muxed as one track")
+  }
+
+  const kept: typeof frames = []
+  let samples = 0
+  for (const frame of frames) {
+    if (samples / sampleRate >= maxDuration) break
+    kept.push(frame)
+    samples += frame.header.samplesPerFrame
+  }
+
+  // Runs of back-to-back frames, about a second each, become chunks
+  const chunks: Mp4Track["chunks"] = []
+  let first = 0
+  kept.forEach((frame, index) => {
+    const next = kept[index + 1]
+    const end = frame.offset + frame.header.frameLength
+    const chunkSamples = (index + 1 - first) * frame.header.samplesPerFrame
+    if (!next || next.offset !== end || chunkSamples >= sampleRate * AUDIO_CHUNK_SECONDS) {
+      chunks.push({ data: audio.subarray(kept[first].offset, end), samples: index + 1 - first })
+      first = index + 1
+    }
+  })
+
+  const durations: Mp4Track["durations"] = []
+  for (const frame of kept) pushDuration(durations, frame.header.samplesPerFrame)
+  const sizes = kept.map((frame) => frame.header.frameLength)
+  const objectType = version === 1 ? OBJECT_TYPES.mp3 : OBJECT_TYPES.mp3Lsf
+
+  return {
+    kind: "audio",
+    timescale: sampleRate,
+    sampleEntry: audioSampleEntry(
+      "mp4a",
+      sampleRate,
+      channels,
+      16,
+      esds(objectType, STREAM_TYPES.audio, { sizes }, samples / sampleRate),
+    ),
+    sizes,
+    durations,
+    chunks,
+  }
+}
+
+function aacTrack(audio: Buffer, maxDuration: number): Mp4Track {
+  const frames = readAdtsFrames(audio)
+  if (frames.length === 0) throw new Error("Audio contains no ADTS frames")
+  const { sampleRate, channels } = frames[0]
+  const kept = frames.slice(0, Math.ceil((maxDuration * sampleRate) / AAC_SAMPLES_PER_FRAME))
+
+  // ADTS headers sit between the frames, so chunks are copied out
+  const perChunk = Math.max(1, Math.round((sampleRate * AUDIO_CHUNK_SECONDS) / AAC_SAMPLES_PER_FRAME))
+  const chunks: Mp4Track["chunks"] = []
+  for (let start = 0; start < kept.length; start += perChunk) {
+    const group = kept.slice(start, start + perChunk)
+    chunks.push({
+      data: Buffer.concat(group.map((frame) => audio.subarray(frame.offset, frame.offset + frame.length))),
+      samples: group.length,
+    })
+  }
+
+  const sizes = kept.map((frame) => frame.length)
+  const seconds = (kept.length * AAC_SAMPLES_PER_FRAME) / sampleRate
+  const info = audioSpecificConfig(frames[0])
+
+  return {
+    kind: "audio",
+    timescale: sampleRate,
+    sampleEntry: audioSampleEntry(
+      "mp4a",
+      sampleRate,
+      channels,
+      16,
+      esds(OBJECT_TYPES.aac, STREAM_TYPES.audio, { sizes }, seconds, info),
+    ),
+    sizes,
+    durations: [{ count: kept.length, duration: AAC_SAMPLES_PER_FRAME }],
+    chunks,
+  }
+}
+
+// Integer PCM as ISO/IEC 23003-5 "ipcm": one sample per PCM frame
+function pcmTrack(audio: Buffer, maxDuration: number): Mp4Track {
+  const wav = parseWav(audio)!
+  if (wav.audioFormat !== 1 || ![16, 24, 32].includes(wav.bitsPerSample)) {
+    throw new Error("Only 16, 24 or 32-bit integer PCM WAV audio can be muxed")
+  }
+  const frameCount = Math.min(Math.floor(wav.dataLength / wav.blockAlign), Math.round(maxDuration * wav.sampleRate))
+  if (frameCount === 0) throw new Error("WAV audio contains no samples")
+
+  const perChunk = wav.sampleRate * AUDIO_CHUNK_SECONDS
+  const chunks: Mp4Track["chunks"] = []
+  for (let start = 0; start < frameCount; start += perChunk) {
+    const samples = Math.min(perChunk, frameCount - start)
+    const offset = wav.dataOffset + start * wav.blockAlign
+    chunks.push({ data: audio.subarray(offset, offset + samples * wav.blockAlign), samples })
+  }
+
+  // format_flags bit 0: little-endian
+  const pcmConfig = fullBox("pcmC", 0, 0, Buffer.from([1, wav.bitsPerSample]))
+  return {
+    kind: "audio",
+    timescale: wav.sampleRate,
+    sampleEntry: audioSampleEntry("ipcm", wav.sampleRate, wav.channels, wav.bitsPerSample, pcmConfig),
+    sizes: { size: wav.blockAlign, count: frameCount },
+    durations: [{ count: frameCount, duration: 1 }],
+    chunks,
+  }
+}
+
+// An audio track from WAV, ADTS AAC or MP3 bytes, cut at `maxDuration` seconds
+export function audioTrack(audio: Buffer, maxDuration = Number.POSITIVE_INFINITY): Mp4Track {
+  if (parseWav(audio)) return pcmTrack(audio, maxDuration)
+  if (isAdts(audio)) return aacTrack(audio, maxDuration)
+  return mp3Track(audio, maxDuration)
+}
+
+function sampleTable(track: Mp4Track, chunkOffsets: number[]): Buffer {
+  const stts = fullBox(
+    "stts",
+    0,
+    0,
+    uint32s([track.durations.length, ...track.durations.flatMap((run) => [run.count, run.duration])]),
+  )
+
+  // One entry wherever the samples-per-chunk count changes
+  const stscEntries: number[] = []
+  track.chunks.forEach((chunk, index) => {
+    if (index === 0 || chunk.samples !== track.chunks[index - 1].samples) stscEntries.push(index + 1, chunk.samples, 1)
+  })
+  const stsc = fullBox("stsc", 0, 0, uint32s([stscEntries.length / 3, ...stscEntries]))
+
+  const stsz = Array.isArray(track.sizes)
+    ? fullBox("stsz", 0, 0, uint32s([0, track.sizes.length, ...track.sizes]))
+    : fullBox("stsz", 0, 0, uint32s([track.sizes.size, track.sizes.count]))
+  const stco = fullBox("stco", 0, 0, uint32s([chunkOffsets.length, ...chunkOffsets]))
+  const stsd = fullBox("stsd", 0, 0, uint32s([1]), track.sampleEntry)
+
+  // Every sample is a sync sample, so there is no stss
+  return box("stbl", stsd, stts, stsc, stsz, stco)
+}
+
+function trackBox(track: Mp4Track, id: number, chunkOffsets: number[]): Buffer {
+  const video = track.kind === "video"
+  const length = trackLength(track)
+  const movieDuration = Math.round((length / track.timescale) * MOVIE_TIMESCALE)
+
+  const tkhd = Buffer.alloc(80)
+  tkhd.writeUInt32BE(id, 8)
+  tkhd.writeUInt32BE(movieDuration, 16)
+  tkhd.writeUInt16BE(video ? 0 : 0x0100, 32) // volume
+  uint32s(MATRIX).copy(tkhd, 36)
+  tkhd.writeUInt32BE((track.width ?? 0) * 0x10000, 72)
+  tkhd.writeUInt32BE((track.height ?? 0) * 0x10000, 76)
+
+  const mdhd = Buffer.alloc(20)
+  mdhd.writeUInt32BE(track.timescale, 8)
+  mdhd.writeUInt32BE(length, 12)
+  mdhd.writeUInt16BE(0x55c4, 16) // "und"
+
+  const handlerType = video ? "vide" : "soun"
+  const hdlr = Buffer.concat([
+    Buffer.alloc(4),
+    Buffer.from(handlerType, "latin1"),
+    Buffer.alloc(12),
+    Buffer.from(video ? "VideoHandler\0" : "SoundHandler\0", "latin1"),
+  ])
+  const mediaHeader = video ? fullBox("vmhd", 0, 1, Buffer.alloc(8)) : fullBox("smhd", 0, 0, Buffer.alloc(4))
+  // A single self-contained data reference: the samples are in this file
+  const dinf = box("dinf", fullBox("dref", 0, 0, uint32s([1]), fullBox("url ", 0, 1)))
+
+  return box(
+    "trak",
+    fullBox("tkhd", 0, 3, tkhd),
+    box(
+      "mdia",
+      fullBox("mdhd", 0, 0, mdhd),
+      fullBox("hdlr", 0, 0, hdlr),
+      box("minf", mediaHeader, dinf, sampleTable(track, chunkOffsets)),
+    ),
+  )
+}
+
+function movieBox(tracks: Mp4Track[], offsets: number[][]): Buffer {
+  const duration = Math.max(...tracks.map((track) => (trackLength(track) / track.timescale) * MOVIE_TIMESCALE))
+
+  const mvhd = Buffer.alloc(96)
+  mvhd.writeUInt32BE(MOVIE_TIMESCALE, 8)
+  mvhd.writeUInt32BE(Math.round(duration), 12)
+  mvhd.writeUInt32BE(0x00010000, 16) // rate 1.0
+  mvhd.writeUInt16BE(0x0100, 20) // volume 1.0
+  uint32s(MATRIX).copy(mvhd, 32)
+  mvhd.writeUInt32BE(tracks.length + 1, 92) // next_track_ID
+
+  return box(
+    "moov",
+    fullBox("mvhd", 0, 0, mvhd),
+    ...tracks.map((track, index) => trackBox(track, index + 1, offsets[index])),
+  )
+}
+
+// Writes ftyp, moov and mdat, then reads the result back to check it
+export function muxMp4(tracks: Mp4Track[]): Buffer {
+  if (tracks.length === 0) throw new Error("An MP4 needs at least one track")
+  const ftyp = box("ftyp", Buffer.from("isom", "latin1"), uint32s([0x200]), Buffer.from("isomiso2mp41", "latin1"))
+
+  // Where each distinct chunk Buffer lands inside mdat
+  const positions = new Map<Buffer, number>()
+  const payload: Buffer[] = []
+  let payloadSize = 0
+  for (const track of tracks) {
+    for (const chunk of track.chunks) {
+      if (positions.has(chunk.data)) continue
+      positions.set(chunk.data, payloadSize)
+      payload.push(chunk.data)
+      payloadSize += chunk.data.length
+    }
+  }
+  if (payloadSize + 8 > 0xffffffff) throw new Error("Media data over 4 GB is not supported")
+
+  // The moov size does not depend on the offsets, so measure it first
+  const chunkOffsets = (base: number) =>
+    tracks.map((track) => track.chunks.map((chunk) => base + positions.get(chunk.data)!))
+  const mdatStart = ftyp.length + movieBox(tracks, chunkOffsets(0)).length
+  const moov = movieBox(tracks, chunkOffsets(mdatStart + 8))
+
+  const mdatHeader = Buffer.alloc(8)
+  mdatHeader.writeUInt32BE(payloadSize + 8)
+  mdatHeader.write("mdat", 4, "latin1")
+
+  const output = Buffer.concat([ftyp, moov, mdatHeader, ...payload])
+  verifyMp4(output, tracks)
+  return output
+}
+
+// A still image held for `duration` seconds, with an optional soundtrack cut
+// to the same length
+export function muxStillImage(image: Buffer, duration: number, audio?: Buffer | null): Buffer {
+  const frames: { image: Buffer; duration: number }[] = []
+  for (let start = 0; start < duration; start += STILL_FRAME_INTERVAL) {
+    frames.push({ image, duration: Math.min(STILL_FRAME_INTERVAL, duration - start) })
+  }
+  const tracks = [jpegTrack(frames)]
+  if (audio) tracks.push(audioTrack(audio, duration))
+  return muxMp4(tracks)
+}
+
+function child(buffer: Buffer, parent: Mp4Box, path: string[]): Mp4Box {
+  const found = findMp4Box(buffer, parent, path)
+  if (!found) throw new Error(`MP4 is missing ${[parent.type, ...path].join("/")}`)
+  return found
+}
+
+// Reads the track list and chunk layout of an MP4 file
+export function readMp4Tracks(buffer: Buffer): Mp4TrackInfo[] {
+  const moov = findMp4Box(buffer, { body: 0, end: buffer.length }, ["moov"])
+  if (!moov) throw new Error("MP4 has no moov box")
+
+  return readMp4Boxes(buffer, moov.body, moov.end)
+    .filter((box) => box.type === "trak")
+    .map((trak) => {
+      const mdia = child(buffer, trak, ["mdia"])
+      const mdhd = child(buffer, mdia, ["mdhd"])
+      const mdhdV1 = buffer[mdhd.body] === 1
+      const timescale = buffer.readUInt32BE(mdhd.body + (mdhdV1 ? 20 : 12))
+      const length = mdhdV1 ? Number(buffer.readBigUInt64BE(mdhd.body + 24)) : buffer.readUInt32BE(mdhd.body + 16)
+      const hdlr = child(buffer, mdia, ["hdlr"])
+      const handler = buffer.toString("latin1", hdlr.body + 8, hdlr.body + 12)
+
+      const stbl = child(buffer, mdia, ["minf", "stbl"])
+      const stsd = child(buffer, stbl, ["stsd"])
+      const entry = readMp4Boxes(buffer, stsd.body + 8, stsd.end)[0]
+      if (!entry) throw new Error("MP4 track has no sample description")
+
+      const stts = child(buffer, stbl, ["stts"])
+      let sampleCount = 0
+      for (let i = 0; i < buffer.readUInt32BE(stts.body + 4); i++) {
+        sampleCount += buffer.readUInt32BE(stts.body + 8 + i * 8)
+      }
+
+      const stsz = child(buffer, stbl, ["stsz"])
+      const constantSize = buffer.readUInt32BE(stsz.body + 4)
+      const sizeCount = buffer.readUInt32BE(stsz.body + 8)
+      const sampleSize = (index: number) => constantSize || buffer.readUInt32BE(stsz.body + 12 + index * 4)
+
+      const stco = findMp4Box(buffer, stbl, ["stco"])
+      const co64 = stco ? null : child(buffer, stbl, ["co64"])
+      const offsetBox = (stco ?? co64)!
+      const chunkCount = buffer.readUInt32BE(offsetBox.body + 4)
+      const chunkOffset = (index: number) =>
+        stco
+          ? buffer.readUInt32BE(offsetBox.body + 8 + index * 4)
+          : Number(buffer.readBigUInt64BE(offsetBox.body + 8 + index * 8))
+
+      // stsc runs apply from their first chunk up to the next run's
+      const stsc = child(buffer, stbl, ["stsc"])
+      const runs = Array.from({ length: buffer.readUInt32BE(stsc.body + 4) }, (_, i) => ({
+        firstChunk: buffer.readUInt32BE(stsc.body + 8 + i * 12),
+        samples: buffer.readUInt32BE(stsc.body + 12 + i * 12),
+      }))
+
+      const chunks: Mp4TrackInfo["chunks"] = []
+      let sample = 0
+      let run = 0
+      for (let index = 0; index < chunkCount; index++) {
+        while (run + 1 < runs.length && runs[run + 1].firstChunk <= index + 1) run++
+        const samples = runs[run]?.samples ?? 0
+        let size = 0
+        if (constantSize) size = constantSize * samples
+        else for (let s = sample; s < sample + samples; s++) size += sampleSize(s)
+        chunks.push({ offset: chunkOffset(index), samples, size })
+        sample += samples
+      }
+      if (sample !== sizeCount || sizeCount !== sampleCount) {
+        throw new Error(`MP4 sample tables disagree: stsc ${sample}, stsz ${sizeCount}, stts ${sampleCount}`)
+      }
+
+      const info: Mp4TrackInfo = {
+        handler,
+        codec: entry.type,
+        timescale,
+        duration: timescale > 0 ? length / timescale : 0,
+        sampleCount,
+        chunks,
+      }
+      if (handler === "vide") {
+        info.width = buffer.readUInt16BE(entry.body + 24)
+        info.height = buffer.readUInt16BE(entry.body + 26)
+      } else if (handler === "soun") {
+        info.channels = buffer.readUInt16BE(entry.body + 16)
+        info.sampleRate = buffer.readUInt32BE(entry.body + 24) / 0x10000
+      }
+      return info
+    })
+}
+
+// Parses `output` and checks every chunk lands on the bytes it was built from
+function verifyMp4(output: Buffer, tracks: Mp4Track[]) {
+  const parsed = readMp4Tracks(output)
+  if (parsed.length !== tracks.length) {
+    throw new Error(`MP4 self-check: wrote ${tracks.length} tracks, read ${parsed.length}`)
+  }
+
+  tracks.forEach((track, index) => {
+    const info = parsed[index]
+    if (info.sampleCount !== trackSamples(track) || info.chunks.length !== track.chunks.length) {
+      throw new Error(`MP4 self-check: track ${index + 1} sample or chunk count does not match`)
+    }
+    info.chunks.forEach((chunk, chunkIndex) => {
+      const expected = track.chunks[chunkIndex]
+      const actual = output.subarray(chunk.offset, chunk.offset + chunk.size)
+      if (chunk.samples !== expected.samples || !actual.equals(expected.data)) {
+        throw new Error(`MP4 self-check: track ${index + 1} chunk ${chunkIndex + 1} does not match its samples`)
+      }
+    })
+  })
+}
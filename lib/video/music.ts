@@ -0,0 +1,167 @@
+import { existsSync, readdirSync, readFileSync } from "fs"
+import { extname, join } from "path"
+import { sniffAudioFormat } from "@/lib/audio/format"
+import { BUNDLED_TRACKS, renderBundledTrack } from "@/lib/audio/music-library"
+import { isOneOf, readBoolean, readNumber } from "./options"
+
+// Background music for rendered videos: a bundled or uploaded track, looped or
+// trimmed to the video's length, faded in and out, and ducked under the voices
+// with FFmpeg's sidechaincompress so speech stays intelligible.
+//
+//   MUSIC_LIBRARY_DIR   Extra tracks (mp3, wav, ogg, flac, m4a) offered by file name
+
+export interface MusicTrack {
+  id: string
+  name: string
+  source: "bundled" | "library"
+  mood?: string
+  // Seconds; known for bundled tracks only
+  duration?: number
+}
+
+export interface MusicOptions {
+  // Library track id, or "upload" for music_base64
+  track: string
+  upload?: Buffer
+  // 0-1, applied before ducking
+  volume: number
+  ducking: boolean
+  // Seconds
+  fadeIn: number
+  fadeOut: number
+}
+
+// Request fields, for the routes' GET docs
+export const MUSIC_FIELDS = {
+  background_music: "true for the style's default track, a track id from GET /api/music, or false (default)",
+  music_base64: "Your own track instead (mp3, wav, ogg, flac or m4a, up to 20 MB)",
+  music_volume: "0-1 (default 0.25)",
+  music_ducking: "Lower the music while characters speak (default true)",
+  music_fade_in: "Seconds, 0-10 (default 1)",
+  music_fade_out: "Seconds, 0-10 (default 2)",
+}
+
+const LIBRARY_EXTENSIONS = [".mp3", ".wav", ".ogg", ".flac", ".m4a"]
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+
+// Default track per short style
+const STYLE_TRACKS: Record<string, string> = {
+  story: "calm",
+  dramatic: "dramatic",
+  energetic: "upbeat",
+  introduction: "playful",
+}
+
+function libraryFiles(): Map<string, string> {
+  const files = new Map<string, string>()
+  const dir = process.env.MUSIC_LIBRARY_DIR
+  if (!dir || !existsSync(dir)) return files
+
+  for (const name of readdirSync(dir).sort()) {
+    const extension = extname(name).toLowerCase()
+    if (!LIBRARY_EXTENSIONS.includes(extension)) continue
+    const id = name
+      .slice(0, -extension.length)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+    // Bundled ids win; the first file wins among duplicates
+    if (id && !files.has(id) && !BUNDLED_TRACKS.some((track) => track.id === id)) files.set(id, join(dir, name))
+  }
+  return files
+}
+
+export function listMusicTracks(): MusicTrack[] {
+  const bundled: MusicTrack[] = BUNDLED_TRACKS.map((track) => ({
+    id: track.id,
+    name: track.name,
+    source: "bundled",
+    mood: track.mood,
+    duration: track.duration,
+  }))
+  const library: MusicTrack[] = [...libraryFiles().keys()].map((id) => ({ id, name: id, source: "library" }))
+  return [...bundled, ...library]
+}
+
+// The track's audio, or null for an unknown id
+export function loadMusicTrack(id: string): Buffer | null {
+  const bundled = renderBundledTrack(id)
+  if (bundled) return bundled
+  const file = libraryFiles().get(id)
+  return file ? readFileSync(file) : null
+}
+
+export function musicAudio(options: MusicOptions): Buffer {
+  const audio = options.upload ?? loadMusicTrack(options.track)
+  if (!audio) throw new Error(`Unknown music track "${options.track}"`)
+  return audio
+}
+
+// Reads `background_music`, `music_base64` and the `music_*` fields. Returns
+// null when the request asks for no music.
+export function readMusicOptions(body: Record<string, unknown>, style: string): MusicOptions | null {
+  const settings = {
+    volume: readNumber(body.music_volume, "music_volume", 0, 1, 0.25),
+    ducking: readBoolean(body.music_ducking, true),
+    fadeIn: readNumber(body.music_fade_in, "music_fade_in", 0, 10, 1),
+    fadeOut: readNumber(body.music_fade_out, "music_fade_out", 0, 10, 2),
+  }
+
+  if (typeof body.music_base64 === "string" && body.music_base64) {
+    const upload = Buffer.from(body.music_base64, "base64")
+    if (upload.length > MAX_UPLOAD_BYTES) throw new Error("music_base64 must be at most 20 MB")
+    if (!sniffAudioFormat(upload)) throw new Error("music_base64 is not a recognized audio file")
+    return { track: "upload", upload, ...settings }
+  }
+
+  const music = body.background_music
+  if (music === undefined || music === null || music === false || music === "" || music === "false") return null
+  if (music === true || music === "true") {
+    return { track: STYLE_TRACKS[style.toLowerCase()] ?? "calm", ...settings }
+  }
+
+  const track = String(music).toLowerCase()
+  const ids = listMusicTracks().map((entry) => entry.id)
+  if (!isOneOf(ids, track)) throw new Error(`background_music must be true or one of: ${ids.join(", ")}`)
+  return { track, ...settings }
+}
+
+// Input arguments that repeat the track forever; the graph trims it
+export const musicInputArgs = (file: string) => ["-stream_loop", "-1", "-i", file]
+
+// Filtergraph chains that lay the music from `input` under the `voice` label
+// (null when the video has no speech) and write the mix to `output`
+export function musicGraph(
+  input: number,
+  voice: string | null,
+  duration: number,
+  options: MusicOptions,
+  output: string,
+): string[] {
+  const fadeIn = Math.min(options.fadeIn, duration / 2)
+  const fadeOut = Math.min(options.fadeOut, duration / 2)
+  const music = [
+    "aformat=sample_rates=44100:channel_layouts=stereo",
+    `atrim=0:${duration}`,
+    "asetpts=PTS-STARTPTS",
+    `volume=${options.volume}`,
+    ...(fadeIn > 0 ? [`afade=t=in:st=0:d=${fadeIn}`] : []),
+    ...(fadeOut > 0 ? [`afade=t=out:st=${duration - fadeOut}:d=${fadeOut}`] : []),
+  ]
+
+  if (!voice) return [`[${input}:a]${music.join(",")}[${output}]`]
+
+  const graph = [`[${input}:a]${music.join(",")}[music]`]
+  if (options.ducking) {
+    // The voices key the compressor: the music drops while anyone speaks
+    graph.push(
+      `[${voice}]aformat=sample_rates=44100:channel_layouts=stereo,asplit=2[speech][key]`,
+      "[music][key]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400[bed]",
+    )
+  } else {
+    graph.push(`[${voice}]aformat=sample_rates=44100:channel_layouts=stereo[speech]`)
+  }
+  // duration=first: the trimmed music sets the length, so speech past the end is cut like the video
+  graph.push(`[${options.ducking ? "bed" : "music"}][speech]amix=inputs=2:duration=first:normalize=0[${output}]`)
+  return graph
+}
@@ -0,0 +1,48 @@
+import { readAudioMetadata } from "@/lib/audio/metadata"
+import { synthesizeSpeech } from "@/lib/tts/registry"
+import type { SynthesisResult } from "@/lib/tts/types"
+
+// The TTS result's timeline and marks stay on the clip for caption timing
+export interface NarrationClip extends Pick<SynthesisResult, "audio" | "format" | "timeline" | "marks"> {
+  text: string
+  // Seconds
+  duration: number
+  // Character name for multi-voice shorts
+  speaker?: string
+}
+
+export interface NarrationOptions {
+  voice: string
+  rate?: number
+  speaker?: string
+  // The job's cancellation signal
+  signal?: AbortSignal
+}
+
+// Called directly rather than over HTTP so repeated lines hit the TTS cache
+export async function synthesizeNarration(text: string, options: NarrationOptions): Promise<NarrationClip> {
+  const speech = await synthesizeSpeech(
+    {
+      text,
+      voice: options.voice,
+      rate: options.rate ?? 1,
+      pitch: 1,
+      volume: 1,
+      format: "mp3",
+      marks: true,
+      signal: options.signal,
+    },
+    { provider: "gtts" },
+  )
+  const metadata = readAudioMetadata(speech.audio)
+  if (!metadata?.duration) throw new Error("Narration audio has no readable duration")
+  return {
+    text,
+    audio: speech.audio,
+    format: speech.format,
+    timeline: speech.timeline,
+    marks: speech.marks,
+    duration: metadata.duration,
+    speaker: options.speaker,
+  }
+}
@@ -0,0 +1,38 @@
+// Parsers for optional request fields shared by the render options readers.
+// They throw plain Errors that the routes turn into 400 responses.
+
+export const isOneOf = <T extends string>(values: readonly T[], value: string): value is T =>
+  (values as readonly string[]).includes(value)
+
+export function readNumber(value: unknown, field: string, min: number, max: number, fallback: number): number {
+  if (value === undefined || value === null || value === "") return fallback
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`${field} must be between ${min} and ${max}`)
+  }
+  return number
+}
+
+export const readBoolean = (value: unknown, fallback: boolean) =>
+  value === undefined || value === null || value === "" ? fallback : value === true || value === "true" || value === "1"
+
+const NAMED_COLORS: Record<string, string> = {
+  white: "#ffffff",
+  black: "#000000",
+  yellow: "#ffd400",
+  red: "#ff3b30",
+  green: "#34c759",
+  blue: "#0a84ff",
+  cyan: "#32d7ff",
+  magenta: "#ff2d92",
+  orange: "#ff9500",
+}
+
+// A #rrggbb hex color or one of NAMED_COLORS, normalized to #rrggbb
+export function readColor(value: unknown, field: string, fallback: string): string {
+  if (value === undefined || value === null || value === "") return fallback
+  const color = String(value).trim().toLowerCase()
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color]
+  if (/^#?[0-9a-f]{6}$/.test(color)) return color.startsWith("#") ? color : `#${color}`
+  throw new Error(`${field} must be #rrggbb or one of: ${Object.keys(NAMED_COLORS).join(", ")}`)
+}
@@ -0,0 +1,506 @@
+import { existsSync, readdirSync, writeFileSync } from "fs"
+import { extname, join } from "path"
+import { filterValue, fontOption } from "./ffmpeg"
+import { isOneOf, readBoolean, readColor, readNumber } from "./options"
+
+// Timed overlays drawn over rendered videos: text (titles, lower-thirds,
+// calls to action) with FFmpeg's drawtext, and images such as logos and
+// watermarks with overlay. Layers are stacked in request order, each with its
+// own anchor, timing and fade or slide in and out.
+//
+//   VIDEO_FONTS_DIR   TrueType/OpenType fonts offered as `font` by file name
+
+export const OVERLAY_ANCHORS = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+] as const
+
+export type OverlayAnchor = (typeof OVERLAY_ANCHORS)[number]
+
+export const OVERLAY_ANIMATIONS = ["none", "fade", "slide-up", "slide-down", "slide-left", "slide-right"] as const
+
+export type OverlayAnimation = (typeof OVERLAY_ANIMATIONS)[number]
+
+interface OverlayLayout {
+  anchor: OverlayAnchor
+  // Pixels from the anchored edges
+  margin: number
+  // Seconds; a negative start counts back from the end of the video, and a
+  // null end lasts until it
+  start: number
+  end: number | null
+  animationIn: OverlayAnimation
+  animationOut: OverlayAnimation
+  // Seconds each animation takes
+  transition: number
+}
+
+export interface TextOverlay extends OverlayLayout {
+  type: "text"
+  text: string
+  // Null for the default caption font
+  fontFile: string | null
+  // Pixels at the output resolution
+  size: number
+  color: string
+  opacity: number
+  stroke: { width: number; color: string } | null
+  shadow: { offset: number; color: string } | null
+  box: { color: string; opacity: number; padding: number } | null
+}
+
+export interface ImageOverlay extends OverlayLayout {
+  type: "image"
+  image: Buffer
+  // Pixels at the output resolution; the height keeps the image's aspect ratio
+  width: number
+  opacity: number
+}
+
+export type Overlay = TextOverlay | ImageOverlay
+
+// Defaults a brand kit gives text layers
+export interface OverlayDefaults {
+  // Extra fonts by id, on top of VIDEO_FONTS_DIR's
+  fonts?: Map<string, string>
+  // Font file for layers without a `font`
+  fontFile?: string
+  color?: string
+  boxColor?: string
+}
+
+export const OVERLAY_LIMITS = {
+  maxOverlays: 10,
+  maxTextLength: 300,
+  maxImageBytes: 5 * 1024 * 1024,
+  maxTransition: 3,
+}
+
+// Defaults for common text layers; sizes and margins are fractions of the
+// frame's shorter side
+const TEXT_TEMPLATES = {
+  title: {
+    anchor: "center",
+    size: 1 / 10,
+    margin: 1 / 20,
+    start: 0,
+    end: 3,
+    animationIn: "fade",
+    animationOut: "fade",
+    shadow: true,
+    box: false,
+  },
+  "lower-third": {
+    anchor: "bottom-left",
+    size: 1 / 22,
+    margin: 1 / 10,
+    start: 1,
+    end: 6,
+    animationIn: "slide-right",
+    animationOut: "fade",
+    shadow: false,
+    box: true,
+  },
+  cta: {
+    anchor: "bottom",
+    size: 1 / 16,
+    margin: 1 / 8,
+    start: -3,
+    end: null,
+    animationIn: "slide-up",
+    animationOut: "none",
+    shadow: false,
+    box: true,
+  },
+  text: {
+    anchor: "center",
+    size: 1 / 20,
+    margin: 1 / 20,
+    start: 0,
+    end: null,
+    animationIn: "none",
+    animationOut: "none",
+    shadow: false,
+    box: false,
+  },
+} satisfies Record<
+  string,
+  { anchor: OverlayAnchor; animationIn: OverlayAnimation; animationOut: OverlayAnimation; [key: string]: unknown }
+>
+
+export type TextTemplate = keyof typeof TEXT_TEMPLATES
+
+export const TEXT_TEMPLATE_NAMES = Object.keys(TEXT_TEMPLATES) as TextTemplate[]
+
+// Request fields, for the routes' GET docs
+export const OVERLAY_FIELDS = {
+  overlays: `Up to ${OVERLAY_LIMITS.maxOverlays} layers, drawn in order (multipart: a JSON string)`,
+  type: "text (default) or image",
+  template: `Text defaults: ${TEXT_TEMPLATE_NAMES.join(" | ")}`,
+  text: `Up to ${OVERLAY_LIMITS.maxTextLength} characters; \\n breaks lines`,
+  font: "A font from VIDEO_FONTS_DIR by file name (see `fonts`), or one of the brand kit's",
+  size: "Text height in pixels at the output resolution",
+  color: "#rrggbb or a color name (default white)",
+  opacity: "0-1 (default 1)",
+  stroke_width: "Outline in pixels, 0-20 (default 0); stroke_color (default black)",
+  shadow: "Drop shadow (default on for titles); shadow_color, shadow_offset",
+  box: "Background box (default on for lower-thirds and CTAs); box_color, box_opacity, box_padding",
+  image_base64: "Image layers: a PNG, JPEG or WebP up to 5 MB",
+  width: "Image layers: a fraction of the frame width (default 0.15)",
+  anchor: `${OVERLAY_ANCHORS.join(" | ")}`,
+  margin: "Pixels from the anchored edges",
+  start: "Seconds; negative counts back from the end",
+  end: "Seconds; negative counts back from the end (default: the end)",
+  animation_in: `${OVERLAY_ANIMATIONS.join(" | ")}`,
+  animation_out: "As animation_in",
+  transition: `Seconds each animation takes, 0-${OVERLAY_LIMITS.maxTransition} (default 0.5)`,
+}
+
+const FONT_EXTENSIONS = [".ttf", ".otf", ".ttc"]
+
+function fontFiles(): Map<string, string> {
+  const files = new Map<string, string>()
+  const dir = process.env.VIDEO_FONTS_DIR
+  if (!dir || !existsSync(dir)) return files
+
+  for (const name of readdirSync(dir).sort()) {
+    const extension = extname(name).toLowerCase()
+    if (!FONT_EXTENSIONS.includes(extension)) continue
+    const id = name
+      .slice(0, -extension.length)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+    if (id && !files.has(id)) files.set(id, join(dir, name))
+  }
+  return files
+}
+
+// Font ids accepted as `font`
+export function listOverlayFonts(): string[] {
+  return [...fontFiles().keys()]
+}
+
+// File extension for a PNG, JPEG or WebP image; FFmpeg only loops images it
+// reads through its image2 demuxer, which goes by the extension
+export function imageExtension(buffer: Buffer): string | null {
+  const magic = buffer.subarray(0, 12)
+  if (magic.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "png"
+  if (magic[0] === 0xff && magic[1] === 0xd8 && magic[2] === 0xff) return "jpg"
+  const riff = magic.subarray(0, 4).toString("latin1") === "RIFF"
+  if (riff && magic.subarray(8, 12).toString("latin1") === "WEBP") return "webp"
+  return null
+}
+
+function readChoice<T extends string>(values: readonly T[], value: unknown, field: string, fallback: T): T {
+  if (value === undefined || value === null || value === "") return fallback
+  const choice = String(value).toLowerCase()
+  if (!isOneOf(values, choice)) throw new Error(`${field} must be one of: ${values.join(", ")}`)
+  return choice
+}
+
+function readTime(value: unknown, field: string, fallback: number | null): number | null {
+  if (value === undefined || value === null || value === "") return fallback
+  return readNumber(value, field, -3600, 3600, 0)
+}
+
+function readOverlay(
+  value: unknown,
+  index: number,
+  frame: { width: number; height: number },
+  defaults: OverlayDefaults,
+): Overlay {
+  const field = (name: string) => `overlays[${index}].${name}`
+  if (!value || typeof value !== "object") throw new Error(`overlays[${index}] must be an object`)
+  const raw = value as Record<string, unknown>
+  const type = readChoice(["text", "image"] as const, raw.type, field("type"), "text")
+  const template = TEXT_TEMPLATES[readChoice(TEXT_TEMPLATE_NAMES, raw.template, field("template"), "text")]
+  const shortSide = Math.min(frame.width, frame.height)
+
+  const layout: OverlayLayout = {
+    anchor: readChoice(OVERLAY_ANCHORS, raw.anchor, field("anchor"), type === "image" ? "top-right" : template.anchor),
+    margin: readNumber(raw.margin, field("margin"), 0, shortSide, Math.round(shortSide * template.margin)),
+    start: readTime(raw.start, field("start"), type === "image" ? 0 : template.start) ?? 0,
+    end: readTime(raw.end, field("end"), type === "image" ? null : template.end),
+    animationIn: readChoice(OVERLAY_ANIMATIONS, raw.animation_in, field("animation_in"), template.animationIn),
+    animationOut: readChoice(OVERLAY_ANIMATIONS, raw.animation_out, field("animation_out"), template.animationOut),
+    transition: readNumber(raw.transition, field("transition"), 0, OVERLAY_LIMITS.maxTransition, 0.5),
+  }
+  if (layout.end !== null && layout.start >= 0 && layout.end >= 0 && layout.end <= layout.start) {
+    throw new Error(`${field("end")} must be after ${field("start")}`)
+  }
+
+  if (type === "image") {
+    const encoded = raw.image_base64
+    if (typeof encoded !== "string" || !encoded) throw new Error(`${field("image_base64")} is required`)
+    const image = Buffer.from(encoded, "base64")
+    if (image.length > OVERLAY_LIMITS.maxImageBytes) throw new Error(`${field("image_base64")} must be at most 5 MB`)
+    if (!imageExtension(image)) throw new Error(`${field("image_base64")} must be a PNG, JPEG or WebP image`)
+    return {
+      type,
+      ...layout,
+      image,
+      width: Math.round(frame.width * readNumber(raw.width, field("width"), 0.02, 1, 0.15)),
+      opacity: readNumber(raw.opacity, field("opacity"), 0, 1, 1),
+    }
+  }
+
+  const text = typeof raw.text === "string" ? raw.text.replace(/\r\n?/g, "\n").trim() : ""
+  if (!text) throw new Error(`${field("text")} is required`)
+  if (text.length > OVERLAY_LIMITS.maxTextLength) {
+    throw new Error(`${field("text")} must be at most ${OVERLAY_LIMITS.maxTextLength} characters`)
+  }
+  let fontFile = defaults.fontFile ?? null
+  if (raw.font !== undefined && raw.font !== null && raw.font !== "") {
+    const fonts = new Map([...fontFiles(), ...(defaults.fonts ?? [])])
+    fontFile = fonts.get(String(raw.font).toLowerCase()) ?? null
+    if (!fontFile) {
+      const available = fonts.size > 0 ? `one of: ${[...fonts.keys()].join(", ")}` : "set up in VIDEO_FONTS_DIR"
+      throw new Error(`${field("font")} must be ${available}`)
+    }
+  }
+
+  const size = readNumber(raw.size, field("size"), 8, 400, Math.round(shortSide * template.size))
+  const strokeWidth = readNumber(raw.stroke_width, field("stroke_width"), 0, 20, 0)
+  return {
+    type,
+    ...layout,
+    text,
+    fontFile,
+    size,
+    color: readColor(raw.color, field("color"), defaults.color ?? "#ffffff"),
+    opacity: readNumber(raw.opacity, field("opacity"), 0, 1, 1),
+    stroke:
+      strokeWidth > 0
+        ? { width: strokeWidth, color: readColor(raw.stroke_color, field("stroke_color"), "#000000") }
+        : null,
+    shadow: readBoolean(raw.shadow, template.shadow)
+      ? {
+          offset: readNumber(raw.shadow_offset, field("shadow_offset"), 1, 50, Math.max(2, Math.round(size / 20))),
+          color: readColor(raw.shadow_color, field("shadow_color"), "#000000"),
+        }
+      : null,
+    box: readBoolean(raw.box, template.box)
+      ? {
+          color: readColor(raw.box_color, field("box_color"), defaults.boxColor ?? "#000000"),
+          opacity: readNumber(raw.box_opacity, field("box_opacity"), 0, 1, 0.6),
+          padding: readNumber(raw.box_padding, field("box_padding"), 0, 200, Math.round(size / 3)),
+        }
+      : null,
+  }
+}
+
+// Reads `overlays`: an array, or a JSON string from multipart forms. Sizes and
+// margins default to fractions of `frame`, the output preset's.
+export function readOverlays(
+  body: Record<string, unknown>,
+  frame: { width: number; height: number },
+  defaults: OverlayDefaults = {},
+): Overlay[] {
+  let value = body.overlays
+  if (value === undefined || value === null || value === "") return []
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      throw new Error("overlays must be a JSON array")
+    }
+  }
+  if (!Array.isArray(value)) throw new Error("overlays must be an array")
+  if (value.length > OVERLAY_LIMITS.maxOverlays) {
+    throw new Error(`overlays accepts at most ${OVERLAY_LIMITS.maxOverlays} layers`)
+  }
+  return value.map((item, index) => readOverlay(item, index, frame, defaults))
+}
+
+const num = (value: number) => String(Number(value.toFixed(3)))
+
+const ffmpegColor = (color: string, opacity = 1) => `0x${color.slice(1)}@${num(opacity)}`
+
+// Position expressions for an anchor, in terms of the frame and item size
+// variables of the filter evaluating them
+function anchorPosition(
+  anchor: OverlayAnchor,
+  margin: number,
+  vars: { frameWidth: string; frameHeight: string; width: string; height: string },
+): { x: string; y: string } {
+  let x = `(${vars.frameWidth}-${vars.width})/2`
+  if (anchor.endsWith("left")) x = `${margin}`
+  if (anchor.endsWith("right")) x = `${vars.frameWidth}-${vars.width}-${margin}`
+  let y = `(${vars.frameHeight}-${vars.height})/2`
+  if (anchor.startsWith("top")) y = `${margin}`
+  if (anchor.startsWith("bottom")) y = `${vars.frameHeight}-${vars.height}-${margin}`
+  return { x, y }
+}
+
+// Direction of travel for slide animations
+const SLIDE_DIRECTIONS: Partial<Record<OverlayAnimation, [number, number]>> = {
+  "slide-up": [0, -1],
+  "slide-down": [0, 1],
+  "slide-left": [-1, 0],
+  "slide-right": [1, 0],
+}
+
+interface Window {
+  start: number
+  end: number
+  // Seconds, shortened so the in and out animations never overlap
+  transition: number
+}
+
+// Absolute times for a layer in a video of `duration` seconds; null when it
+// never shows
+function overlayWindow(overlay: OverlayLayout, duration: number): Window | null {
+  const start = Math.max(0, overlay.start < 0 ? duration + overlay.start : overlay.start)
+  const requestedEnd = overlay.end === null ? duration : overlay.end < 0 ? duration + overlay.end : overlay.end
+  const end = Math.min(duration, requestedEnd)
+  if (end - start < 0.05) return null
+  return { start, end, transition: Math.min(overlay.transition, (end - start) / 2) }
+}
+
+// Expressions for a layer's animated position and opacity at time `t`
+function animation(overlay: OverlayLayout, window: Window, distance: number) {
+  const { start, end, transition } = window
+  const progressIn = transition > 0 ? `clip((t-${num(start)})/${num(transition)},0,1)` : "1"
+  const progressOut = transition > 0 ? `clip((t-${num(end - transition)})/${num(transition)},0,1)` : "0"
+
+  let dx = ""
+  let dy = ""
+  const directionIn = SLIDE_DIRECTIONS[overlay.animationIn]
+  if (directionIn) {
+    // Arrives from `distance` back along its direction of travel
+    dx += directionIn[0] ? `${directionIn[0] > 0 ? "-" : "+"}${distance}*(1-${progressIn})` : ""
+    dy += directionIn[1] ? `${directionIn[1] > 0 ? "-" : "+"}${distance}*(1-${progressIn})` : ""
+  }
+  const directionOut = SLIDE_DIRECTIONS[overlay.animationOut]
+  if (directionOut) {
+    dx += directionOut[0] ? `${directionOut[0] > 0 ? "+" : "-"}${distance}*${progressOut}` : ""
+    dy += directionOut[1] ? `${directionOut[1] > 0 ? "+" : "-"}${distance}*${progressOut}` : ""
+  }
+
+  // Slides fade as they move
+  const alpha = [
+    overlay.animationIn !== "none" && transition > 0 ? progressIn : null,
+    overlay.animationOut !== "none" && transition > 0 ? `(1-${progressOut})` : null,
+  ].filter((part): part is string => part !== null)
+
+  return {
+    dx,
+    dy,
+    alpha: alpha.length === 0 ? null : alpha.length === 1 ? alpha[0] : `min(${alpha.join(",")})`,
+    enable: `between(t,${num(start)},${num(end)})`,
+  }
+}
+
+function drawtextFilter(overlay: TextOverlay, window: Window, textFile: string, distance: number): string {
+  const position = anchorPosition(overlay.anchor, overlay.margin, {
+    frameWidth: "w",
+    frameHeight: "h",
+    width: "text_w",
+    height: "text_h",
+  })
+  const motion = animation(overlay, window, distance)
+  const options = [
+    overlay.fontFile ? `fontfile=${filterValue(overlay.fontFile)}` : fontOption(),
+    `textfile=${filterValue(textFile)}`,
+    "expansion=none",
+    `fontsize=${overlay.size}`,
+    `fontcolor=${ffmpegColor(overlay.color, overlay.opacity)}`,
+    `line_spacing=${Math.round(overlay.size / 5)}`,
+    `x='${position.x}${motion.dx}'`,
+    `y='${position.y}${motion.dy}'`,
+    `enable='${motion.enable}'`,
+  ]
+  if (motion.alpha) options.push(`alpha='${motion.alpha}'`)
+  if (overlay.stroke) {
+    options.push(`borderw=${overlay.stroke.width}`, `bordercolor=${ffmpegColor(overlay.stroke.color)}`)
+  }
+  if (overlay.shadow) {
+    const { offset, color } = overlay.shadow
+    options.push(`shadowx=${offset}`, `shadowy=${offset}`, `shadowcolor=${ffmpegColor(color, 0.6)}`)
+  }
+  if (overlay.box) {
+    const { color, opacity, padding } = overlay.box
+    options.push("box=1", `boxcolor=${ffmpegColor(color, opacity)}`, `boxborderw=${padding}`)
+  }
+  return `drawtext=${options.join(":")}`
+}
+
+// Adds `overlays` to the video stream labelled `input`. Image layers become
+// extra inputs from `firstInput` on; the caller appends `inputArgs` after its
+// own inputs. Returns the chains to add to the filtergraph and the label of
+// the overlaid stream (`input` itself when nothing is drawn).
+export function overlayGraph(
+  overlays: Overlay[],
+  input: string,
+  options: {
+    frame: { width: number; height: number }
+    duration: number
+    firstInput: number
+    file: (name: string) => string
+  },
+): { inputArgs: string[]; chains: string[]; output: string } {
+  const { frame, duration, file } = options
+  const distance = Math.round(Math.min(frame.width, frame.height) / 8)
+  const inputArgs: string[] = []
+  const chains: string[] = []
+  let current = input
+  // Consecutive text layers share one chain
+  let drawtext: string[] = []
+  const flush = (label: string) => {
+    chains.push(`[${current}]${drawtext.join(",")}[${label}]`)
+    current = label
+    drawtext = []
+  }
+
+  overlays.forEach((overlay, index) => {
+    const window = overlayWindow(overlay, duration)
+    if (!window) return
+
+    if (overlay.type === "text") {
+      const textFile = file(`overlay-${index}.txt`)
+      writeFileSync(textFile, overlay.text)
+      drawtext.push(drawtextFilter(overlay, window, textFile, distance))
+      return
+    }
+
+    if (drawtext.length > 0) flush(`overlay${index}text`)
+    const imageFile = file(`overlay-${index}.${imageExtension(overlay.image)}`)
+    writeFileSync(imageFile, overlay.image)
+    const stream = options.firstInput + inputArgs.filter((arg) => arg === "-i").length
+    inputArgs.push("-loop", "1", "-i", imageFile)
+
+    const motion = animation(overlay, window, distance)
+    const position = anchorPosition(overlay.anchor, overlay.margin, {
+      frameWidth: "W",
+      frameHeight: "H",
+      width: "w",
+      height: "h",
+    })
+    const filters = [`scale=${overlay.width}:-1`, "format=rgba"]
+    if (overlay.opacity < 1) filters.push(`colorchannelmixer=aa=${num(overlay.opacity)}`)
+    // overlay has no opacity of its own; fade the layer's alpha instead
+    if (overlay.animationIn !== "none" && window.transition > 0) {
+      filters.push(`fade=t=in:st=${num(window.start)}:d=${num(window.transition)}:alpha=1`)
+    }
+    if (overlay.animationOut !== "none" && window.transition > 0) {
+      filters.push(`fade=t=out:st=${num(window.end - window.transition)}:d=${num(window.transition)}:alpha=1`)
+    }
+    chains.push(`[${stream}:v]${filters.join(",")}[overlay${index}image]`)
+    chains.push(
+      `[${current}][overlay${index}image]overlay=x='${position.x}${motion.dx}':y='${position.y}${motion.dy}'` +
+        `:enable='${motion.enable}'[overlay${index}]`,
+    )
+    current = `overlay${index}`
+  })
+
+  if (drawtext.length > 0) flush("overlaid")
+  return { inputArgs, chains, output: current }
+}
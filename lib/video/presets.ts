@@ -0,0 +1,247 @@
+// Output presets: the frame, frame rate, H.264 profile and bitrate caps, and
+// audio format each platform expects, plus the duration and file size limits
+// uploads are checked against. The renderers take every encoder setting from
+// the chosen preset.
+
+export interface OutputPreset {
+  name: string
+  platform: string
+  width: number
+  height: number
+  fps: number
+  video: {
+    profile: "baseline" | "main" | "high"
+    level: string
+    crf: number
+    // kbps; the VBV buffer is twice this
+    maxBitrate: number
+  }
+  audio: {
+    // kbps, AAC-LC
+    bitrate: number
+    sampleRate: 44100 | 48000
+    channels: 1 | 2
+  }
+  // Seconds
+  minDuration: number
+  maxDuration: number
+  maxFileSizeMB?: number
+}
+
+export const OUTPUT_PRESETS = {
+  "hd-720p": {
+    name: "HD 720p",
+    platform: "Any player",
+    width: 1280,
+    height: 720,
+    fps: 30,
+    video: { profile: "baseline", level: "3.1", crf: 23, maxBitrate: 4000 },
+    audio: { bitrate: 128, sampleRate: 44100, channels: 2 },
+    minDuration: 1,
+    maxDuration: 600,
+  },
+  "vertical-1080p": {
+    name: "Vertical 1080p",
+    platform: "Any player",
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    video: { profile: "main", level: "4.0", crf: 23, maxBitrate: 6000 },
+    audio: { bitrate: 128, sampleRate: 44100, channels: 2 },
+    minDuration: 1,
+    maxDuration: 600,
+  },
+  "youtube-1080p": {
+    name: "YouTube 1080p",
+    platform: "YouTube",
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    video: { profile: "high", level: "4.1", crf: 21, maxBitrate: 8000 },
+    audio: { bitrate: 192, sampleRate: 48000, channels: 2 },
+    minDuration: 1,
+    maxDuration: 12 * 3600,
+  },
+  "youtube-shorts": {
+    name: "YouTube Shorts",
+    platform: "YouTube",
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    video: { profile: "high", level: "4.1", crf: 21, maxBitrate: 8000 },
+    audio: { bitrate: 192, sampleRate: 48000, channels: 2 },
+    minDuration: 1,
+    maxDuration: 180,
+  },
+  tiktok: {
+    name: "TikTok",
+    platform: "TikTok",
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    video: { profile: "high", level: "4.1", crf: 23, maxBitrate: 6000 },
+    audio: { bitrate: 128, sampleRate: 44100, channels: 2 },
+    minDuration: 3,
+    maxDuration: 600,
+  },
+  "instagram-reel": {
+    name: "Instagram Reel",
+    platform: "Instagram",
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    video: { profile: "high", level: "4.1", crf: 23, maxBitrate: 5000 },
+    audio: { bitrate: 128, sampleRate: 48000, channels: 2 },
+    minDuration: 3,
+    maxDuration: 180,
+  },
+  "instagram-feed": {
+    name: "Instagram square feed",
+    platform: "Instagram",
+    width: 1080,
+    height: 1080,
+    fps: 30,
+    video: { profile: "high", level: "4.1", crf: 23, maxBitrate: 5000 },
+    audio: { bitrate: 128, sampleRate: 48000, channels: 2 },
+    minDuration: 3,
+    maxDuration: 60,
+  },
+  twitter: {
+    name: "Twitter / X",
+    platform: "X",
+    width: 1280,
+    height: 720,
+    fps: 30,
+    video: { profile: "high", level: "4.1", crf: 23, maxBitrate: 5000 },
+    audio: { bitrate: 128, sampleRate: 44100, channels: 2 },
+    minDuration: 0.5,
+    maxDuration: 140,
+    maxFileSizeMB: 512,
+  },
+  "whatsapp-status": {
+    name: "WhatsApp status",
+    platform: "WhatsApp",
+    width: 720,
+    height: 1280,
+    fps: 30,
+    video: { profile: "baseline", level: "3.1", crf: 26, maxBitrate: 1800 },
+    audio: { bitrate: 96, sampleRate: 44100, channels: 2 },
+    minDuration: 1,
+    maxDuration: 60,
+    maxFileSizeMB: 16,
+  },
+  linkedin: {
+    name: "LinkedIn",
+    platform: "LinkedIn",
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    video: { profile: "high", level: "4.1", crf: 23, maxBitrate: 5000 },
+    audio: { bitrate: 192, sampleRate: 48000, channels: 2 },
+    minDuration: 3,
+    maxDuration: 600,
+    maxFileSizeMB: 5120,
+  },
+} satisfies Record<string, OutputPreset>
+
+export type OutputPresetId = keyof typeof OUTPUT_PRESETS
+
+export const OUTPUT_PRESET_IDS = Object.keys(OUTPUT_PRESETS) as OutputPresetId[]
+
+export const isOutputPresetId = (value: unknown): value is OutputPresetId =>
+  typeof value === "string" && value in OUTPUT_PRESETS
+
+export function getOutputPreset(id: OutputPresetId): OutputPreset {
+  return OUTPUT_PRESETS[id]
+}
+
+// Reads the request's `preset`, falling back to the endpoint's default
+export function readOutputPreset(body: Record<string, unknown>, fallback: OutputPresetId): OutputPresetId {
+  if (body.preset === undefined || body.preset === null || body.preset === "") return fallback
+  const id = String(body.preset).toLowerCase()
+  if (!isOutputPresetId(id)) throw new Error(`preset must be one of: ${OUTPUT_PRESET_IDS.join(", ")}`)
+  return id
+}
+
+// Throws when a video of `seconds` would be rejected by the preset's platform
+export function checkPresetDuration(id: OutputPresetId, seconds: number) {
+  const preset = OUTPUT_PRESETS[id]
+  if (seconds < preset.minDuration || seconds > preset.maxDuration) {
+    const limits = `${preset.minDuration}-${preset.maxDuration}s`
+    throw new Error(`${preset.name} videos must be ${limits} long; this one is ${seconds.toFixed(1)}s`)
+  }
+}
+
+// Throws when the rendered file is over the platform's upload limit
+export function checkPresetFileSize(id: OutputPresetId, bytes: number) {
+  const preset: OutputPreset = OUTPUT_PRESETS[id]
+  if (preset.maxFileSizeMB && bytes > preset.maxFileSizeMB * 1024 * 1024) {
+    const size = (bytes / 1024 / 1024).toFixed(1)
+    throw new Error(`${preset.name} accepts files up to ${preset.maxFileSizeMB} MB; the render is ${size} MB`)
+  }
+}
+
+// H.264/AAC encoder arguments for the preset; inputs, maps and -t are the caller's
+export function presetEncodingArgs(id: OutputPresetId): string[] {
+  const { fps, video, audio } = OUTPUT_PRESETS[id]
+  return [
+    "-c:v",
+    "libx264",
+    "-profile:v",
+    video.profile,
+    "-level",
+    video.level,
+    "-pix_fmt",
+    "yuv420p",
+    "-crf",
+    String(video.crf),
+    "-maxrate",
+    `${video.maxBitrate}k`,
+    "-bufsize",
+    `${video.maxBitrate * 2}k`,
+    "-preset",
+    "medium",
+    "-r",
+    String(fps),
+    // A keyframe every two seconds
+    "-g",
+    String(fps * 2),
+    "-c:a",
+    "aac",
+    "-b:a",
+    `${audio.bitrate}k`,
+    "-ar",
+    String(audio.sampleRate),
+    "-ac",
+    String(audio.channels),
+    "-movflags",
+    "+faststart",
+  ]
+}
+
+// The public JSON shape of a preset, for the docs and GET /api/presets
+export function describePreset(id: OutputPresetId) {
+  const preset: OutputPreset = OUTPUT_PRESETS[id]
+  return {
+    id,
+    name: preset.name,
+    platform: preset.platform,
+    resolution: `${preset.width}x${preset.height}`,
+    fps: preset.fps,
+    video: {
+      codec: "H.264",
+      profile: preset.video.profile,
+      level: preset.video.level,
+      max_bitrate_kbps: preset.video.maxBitrate,
+    },
+    audio: {
+      codec: "AAC-LC",
+      bitrate_kbps: preset.audio.bitrate,
+      sample_rate: preset.audio.sampleRate,
+      channels: preset.audio.channels,
+    },
+    min_duration: preset.minDuration,
+    max_duration: preset.maxDuration,
+    max_file_size_mb: preset.maxFileSizeMB ?? null,
+  }
+}
@@ -0,0 +1,164 @@
+import { readFileSync, writeFileSync } from "fs"
+import { createWorkDir, runFFmpeg } from "./ffmpeg"
+
+// Picks the most interesting region of a picture for smart cropping. FFmpeg
+// shrinks the image to a thumbnail; every pixel is then scored on edges,
+// saturation and contrast with the rest of the picture. There is no face
+// detector: skin-toned pixels get a large bonus instead, which pulls the crop
+// towards people in most photos.
+
+export interface FocalPoint {
+  // Fractions of the image width and height, 0-1 from the top left
+  x: number
+  y: number
+}
+
+export const CENTER: FocalPoint = { x: 0.5, y: 0.5 }
+
+// Longest side of the analysis thumbnail
+const THUMBNAIL_SIZE = 96
+
+const EDGE_WEIGHT = 0.4
+const SATURATION_WEIGHT = 0.2
+const CONTRAST_WEIGHT = 0.4
+const SKIN_WEIGHT = 1
+// How much a pixel at the very edge of the picture is discounted
+const CENTER_BIAS = 0.3
+
+// The classic RGB skin-color rule (Kovac et al.)
+function isSkin(r: number, g: number, b: number): boolean {
+  const spread = Math.max(r, g, b) - Math.min(r, g, b)
+  return r > 95 && g > 40 && b > 20 && spread > 15 && Math.abs(r - g) > 15 && r > g && r > b
+}
+
+// Scales `values` in place so the largest is 1
+function normalize(values: Float32Array) {
+  let max = 0
+  for (const value of values) max = Math.max(max, value)
+  if (max > 0) for (let i = 0; i < values.length; i++) values[i] /= max
+}
+
+// Scores every pixel of an RGB24 picture; higher is more interesting
+function saliencyMap(rgb: Buffer, width: number, height: number): Float32Array {
+  const count = width * height
+  const luma = new Float32Array(count)
+  let meanR = 0
+  let meanG = 0
+  let meanB = 0
+  for (let i = 0; i < count; i++) {
+    const [r, g, b] = [rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]]
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b
+    meanR += r / count
+    meanG += g / count
+    meanB += b / count
+  }
+
+  const edges = new Float32Array(count)
+  const saturation = new Float32Array(count)
+  const contrast = new Float32Array(count)
+  const skin = new Float32Array(count)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const [r, g, b] = [rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]]
+      const dx = luma[y * width + Math.min(width - 1, x + 1)] - luma[y * width + Math.max(0, x - 1)]
+      const dy = luma[Math.min(height - 1, y + 1) * width + x] - luma[Math.max(0, y - 1) * width + x]
+      edges[i] = Math.abs(dx) + Math.abs(dy)
+      saturation[i] = Math.max(r, g, b) - Math.min(r, g, b)
+      contrast[i] = Math.hypot(r - meanR, g - meanG, b - meanB)
+      skin[i] = isSkin(r, g, b) ? 1 : 0
+    }
+  }
+  normalize(edges)
+  normalize(saturation)
+  normalize(contrast)
+
+  const scores = new Float32Array(count)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      // 0 in the middle, 1 in the corners
+      const distance = Math.hypot((x + 0.5) / width - 0.5, (y + 0.5) / height - 0.5) / Math.SQRT1_2
+      const score = EDGE_WEIGHT * edges[i] + SATURATION_WEIGHT * saturation[i] + CONTRAST_WEIGHT * contrast[i]
+      scores[i] = (score + SKIN_WEIGHT * skin[i]) * (1 - CENTER_BIAS * distance)
+    }
+  }
+  return scores
+}
+
+// The center of the crop window with the frame's aspect ratio (width / height)
+// that holds the most saliency. Ties go to the window nearest the middle.
+export function focalPointFromPixels(rgb: Buffer, width: number, height: number, aspect: number): FocalPoint {
+  const windowWidth = Math.max(1, Math.min(width, Math.round(height * aspect)))
+  const windowHeight = Math.max(1, Math.min(height, Math.round(width / aspect)))
+  if (windowWidth === width && windowHeight === height) return CENTER
+
+  // Summed-area table, one row and column larger than the picture
+  const scores = saliencyMap(rgb, width, height)
+  const stride = width + 1
+  const table = new Float64Array(stride * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let row = 0
+    for (let x = 0; x < width; x++) {
+      row += scores[y * width + x]
+      table[(y + 1) * stride + x + 1] = table[y * stride + x + 1] + row
+    }
+  }
+
+  let best = { sum: -1, distance: Infinity, x: 0, y: 0 }
+  for (let y = 0; y + windowHeight <= height; y++) {
+    for (let x = 0; x + windowWidth <= width; x++) {
+      const sum =
+        table[(y + windowHeight) * stride + x + windowWidth] -
+        table[y * stride + x + windowWidth] -
+        table[(y + windowHeight) * stride + x] +
+        table[y * stride + x]
+      const distance = Math.abs(x + windowWidth / 2 - width / 2) + Math.abs(y + windowHeight / 2 - height / 2)
+      if (sum > best.sum + 1e-6 || (Math.abs(sum - best.sum) <= 1e-6 && distance < best.distance)) {
+        best = { sum, distance, x, y }
+      }
+    }
+  }
+
+  return { x: (best.x + windowWidth / 2) / width, y: (best.y + windowHeight / 2) / height }
+}
+
+// Reads a binary PPM (P6, 8-bit) as written by FFmpeg
+function readPpm(buffer: Buffer): { width: number; height: number; rgb: Buffer } {
+  const header = buffer.subarray(0, 64).toString("latin1").match(/^P6\s+(\d+)\s+(\d+)\s+255\s/)
+  if (!header) throw new Error("Not an 8-bit binary PPM image")
+  const width = Number(header[1])
+  const height = Number(header[2])
+  const rgb = buffer.subarray(header[0].length, header[0].length + width * height * 3)
+  if (rgb.length < width * height * 3) throw new Error("PPM image is truncated")
+  return { width, height, rgb }
+}
+
+// Finds the focal point of an encoded image for a frame of `aspect` (width / height)
+export async function findFocalPoint(image: Buffer, aspect: number, signal?: AbortSignal): Promise<FocalPoint> {
+  const work = createWorkDir("saliency")
+  try {
+    const imageFile = work.file("input")
+    const thumbnailFile = work.file("thumbnail.ppm")
+    writeFileSync(imageFile, image)
+    await runFFmpeg(
+      [
+        "-i",
+        imageFile,
+        "-vf",
+        `scale=${THUMBNAIL_SIZE}:${THUMBNAIL_SIZE}:force_original_aspect_ratio=decrease:flags=area`,
+        "-frames:v",
+        "1",
+        "-pix_fmt",
+        "rgb24",
+        "-y",
+        thumbnailFile,
+      ],
+      { signal, duration: 0 },
+    )
+    const { width, height, rgb } = readPpm(readFileSync(thumbnailFile))
+    return focalPointFromPixels(rgb, width, height, aspect)
+  } finally {
+    work.cleanup()
+  }
+}
@@ -0,0 +1,440 @@
+import { readFileSync, writeFileSync } from "fs"
+import type { JobContext, JobOutput } from "@/lib/jobs/types"
+import { type BrandClips, brandClipsDuration, joinBrandClips } from "./brand-kits"
+import { type CaptionOptions, captionSidecars, movTextArgs, narrationSegments, writeCaptionTrack } from "./captions"
+import { createWorkDir, filterValue, fontOption, runFFmpeg } from "./ffmpeg"
+import { reportEncodingProgress } from "./ffmpeg-progress"
+import { type FramingOptions, framingFilter, readFocalPoint, readFramingOptions, resolveFocalPoint } from "./framing"
+import { type Motion, motionFilter, readMotion, resolveMotion } from "./motion"
+import { type NarrationClip, synthesizeNarration } from "./narration"
+import { type Overlay, overlayGraph } from "./overlays"
+import {
+  checkPresetDuration,
+  checkPresetFileSize,
+  getOutputPreset,
+  type OutputPreset,
+  type OutputPresetId,
+  presetEncodingArgs,
+} from "./presets"
+import type { FocalPoint } from "./saliency"
+
+// Multi-image videos: every slide gets its own duration, caption and Ken Burns
+// motion, and consecutive slides are joined with an FFmpeg xfade transition.
+// Narration is either one track across the whole show (`text`) or one line per
+// slide, which starts once that slide's incoming transition has finished.
+
+// Public names mapped to xfade transitions
+export const SLIDE_TRANSITIONS = {
+  crossfade: "fade",
+  dissolve: "dissolve",
+  wipe: "wipeleft",
+  slide: "slideleft",
+} as const
+
+export type SlideTransition = keyof typeof SLIDE_TRANSITIONS
+
+export const SLIDESHOW_LIMITS = {
+  maxSlides: 20,
+  // Seconds per slide, including the transitions it takes part in
+  minSlideDuration: 1,
+  maxSlideDuration: 15,
+  maxTotalDuration: 120,
+  maxTransitionDuration: 2,
+  maxCaptionLength: 200,
+  maxNarrationLength: 1000,
+}
+
+const DEFAULT_SLIDE_DURATION = 3
+// Silence after a narration line before the next transition starts
+const NARRATION_PADDING = 0.5
+const MAX_CAPTION_LINE_LENGTH = 40
+
+export interface SlideInput {
+  image: Buffer
+  // Seconds; derived from the narration when omitted
+  duration?: number
+  caption?: string
+  // A motion preset name or keyframes timed from the start of the slide
+  motion: Motion
+  // Spoken while this slide is on screen
+  narration?: string
+  // Overrides the show's focal point when cropping
+  focalPoint?: FocalPoint
+}
+
+export interface SlideshowJobInput {
+  slides: SlideInput[]
+  transition: SlideTransition
+  // Seconds of overlap between consecutive slides
+  transitionDuration: number
+  // Narration across the whole show, used when no slide has its own
+  text: string
+  voice: string
+  filename: string
+  captions?: CaptionOptions | null
+  preset: OutputPresetId
+  framing: FramingOptions
+  overlays: Overlay[]
+  // A brand kit's intro and outro
+  brandClips?: BrandClips | null
+}
+
+interface TimedSlide extends SlideInput {
+  duration: number
+  start: number
+  clip?: NarrationClip
+}
+
+const isTransition = (value: string): value is SlideTransition => value in SLIDE_TRANSITIONS
+
+function readSeconds(value: unknown, field: string, min: number, max: number): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const seconds = Number(value)
+  if (!Number.isFinite(seconds) || seconds < min || seconds > max) {
+    throw new Error(`${field} must be between ${min} and ${max} seconds`)
+  }
+  return seconds
+}
+
+function readText(value: unknown, field: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) return undefined
+  const text = String(value).trim()
+  if (text.length > maxLength) throw new Error(`${field} must be at most ${maxLength} characters`)
+  return text || undefined
+}
+
+// Builds the job input from request fields, apart from captions, overlays, brand
+// clips and the output preset. `slides` holds per-slide settings in image order:
+// { duration?, caption?, motion?, narration?, focal_point? }.
+export function readSlideshowOptions(
+  body: Record<string, unknown>,
+  images: Buffer[],
+): Omit<SlideshowJobInput, "captions" | "preset" | "overlays" | "brandClips"> {
+  const { maxSlides, minSlideDuration, maxSlideDuration, maxTransitionDuration } = SLIDESHOW_LIMITS
+  if (images.length === 0) throw new Error("A slideshow needs at least one image")
+  if (images.length > maxSlides) throw new Error(`A slideshow accepts at most ${maxSlides} images`)
+
+  const transition = String(body.transition ?? "crossfade").toLowerCase()
+  if (!isTransition(transition)) {
+    throw new Error(`transition must be one of: ${Object.keys(SLIDE_TRANSITIONS).join(", ")}`)
+  }
+  const transitionDuration =
+    images.length > 1
+      ? (readSeconds(body.transition_duration, "transition_duration", 0.1, maxTransitionDuration) ?? 1)
+      : 0
+
+  const framing = readFramingOptions(body)
+  const settings = Array.isArray(body.slides) ? body.slides : []
+  const defaultMotion = readMotion(body.motion, "motion", "zoom-in")
+  const slides = images.map((image, index): SlideInput => {
+    const raw = settings[index] && typeof settings[index] === "object" ? settings[index] : {}
+    const field = (name: string) => `slides[${index}].${name}`
+
+    const motion = readMotion(raw.motion, field("motion"), defaultMotion)
+
+    const duration = readSeconds(raw.duration, field("duration"), minSlideDuration, maxSlideDuration)
+    if (duration !== undefined && duration <= transitionDuration * (index > 0 && index < images.length - 1 ? 2 : 1)) {
+      throw new Error(`${field("duration")} must be longer than the transitions it takes part in`)
+    }
+
+    const focalPoint = readFocalPoint(raw.focal_point, field("focal_point"))
+    if (focalPoint && framing.fill !== "crop") throw new Error(`${field("focal_point")} only applies to fill=crop`)
+
+    return {
+      image,
+      duration,
+      motion,
+      caption: readText(raw.caption, field("caption"), SLIDESHOW_LIMITS.maxCaptionLength),
+      narration: readText(raw.narration, field("narration"), SLIDESHOW_LIMITS.maxNarrationLength),
+      focalPoint,
+    }
+  })
+
+  return {
+    slides,
+    transition,
+    transitionDuration,
+    framing,
+    text: typeof body.text === "string" ? body.text.trim() : "",
+    voice: typeof body.voice === "string" && body.voice ? body.voice : "en",
+    filename: typeof body.filename === "string" && body.filename ? body.filename : "slideshow",
+  }
+}
+
+// Seconds at the start and end of a slide that overlap a neighbour
+function overlaps(index: number, count: number, transitionDuration: number) {
+  return {
+    lead: index > 0 ? transitionDuration : 0,
+    tail: index < count - 1 ? transitionDuration : 0,
+  }
+}
+
+// Resolves every slide's duration and start time. Explicit durations win;
+// slides with their own narration last as long as it does; the rest share
+// the show-wide narration, or fall back to DEFAULT_SLIDE_DURATION.
+export function timeSlides(
+  slides: (SlideInput & { clip?: NarrationClip })[],
+  transitionDuration: number,
+  sharedNarration?: number,
+): TimedSlide[] {
+  const { minSlideDuration, maxSlideDuration, maxTotalDuration } = SLIDESHOW_LIMITS
+  const count = slides.length
+  const overlap = (count - 1) * transitionDuration
+
+  const durations = slides.map((slide, index) => {
+    if (slide.duration !== undefined) return slide.duration
+    if (!slide.clip) return undefined
+    const { lead, tail } = overlaps(index, count, transitionDuration)
+    return slide.clip.duration + NARRATION_PADDING + lead + tail
+  })
+
+  const open = durations.filter((duration) => duration === undefined).length
+  const fixed = durations.reduce<number>((sum, duration) => sum + (duration ?? 0), 0)
+  const shared =
+    sharedNarration && open > 0
+      ? (sharedNarration + NARRATION_PADDING + overlap - fixed) / open
+      : DEFAULT_SLIDE_DURATION
+
+  let start = 0
+  const timed = slides.map((slide, index) => {
+    const { lead, tail } = overlaps(index, count, transitionDuration)
+    const floor = Math.max(minSlideDuration, lead + tail + 0.1)
+    const duration = Math.min(maxSlideDuration, Math.max(floor, durations[index] ?? shared))
+    const result: TimedSlide = { ...slide, duration, start }
+    start += duration - transitionDuration
+    return result
+  })
+
+  const total = start + transitionDuration
+  if (total > maxTotalDuration) {
+    throw new Error(`Slideshow would run ${total.toFixed(1)}s; the limit is ${maxTotalDuration}s`)
+  }
+  return timed
+}
+
+// Caption text size, and how many characters fit on a line at that size
+function captionLayout(preset: OutputPreset) {
+  const fontSize = Math.round(Math.min(preset.width, preset.height) / 22)
+  // Average glyph width is roughly 0.6em; keep a margin either side
+  const lineLength = Math.min(MAX_CAPTION_LINE_LENGTH, Math.floor((preset.width * 0.85) / (fontSize * 0.6)))
+  return { fontSize, lineLength }
+}
+
+// Greedy word wrap; drawtext does not wrap on its own
+function wrapCaption(text: string, lineLength: number): string {
+  const lines: string[] = []
+  let line = ""
+  for (const word of text.split(/\s+/)) {
+    if (line && line.length + word.length + 1 > lineLength) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line) lines.push(line)
+  return lines.join("\n")
+}
+
+// The filtergraph for `slides` (video inputs 0..n-1) and their narration clips
+// (audio inputs n..). Returns the graph and the output labels.
+export function buildSlideshowGraph(
+  slides: TimedSlide[],
+  transition: SlideTransition,
+  transitionDuration: number,
+  captionFiles: (string | undefined)[],
+  narrationStarts: number[],
+  preset: OutputPreset,
+  framing: FramingOptions,
+): { graph: string; video: string; audio: string | null } {
+  const chains: string[] = []
+  const { height } = preset
+  const { fontSize } = captionLayout(preset)
+
+  slides.forEach((slide, index) => {
+    const filters = [
+      framingFilter(framing, preset, slide.focalPoint ?? null, `fill${index}`),
+      "setsar=1",
+      motionFilter(resolveMotion(slide.motion, slide.duration), { ...preset, duration: slide.duration }, false),
+    ]
+    const captionFile = captionFiles[index]
+    if (captionFile) {
+      filters.push(
+        `drawtext=${fontOption()}:textfile=${filterValue(captionFile)}:expansion=none` +
+          `:fontsize=${fontSize}:fontcolor=white:line_spacing=8` +
+          ":box=1:boxcolor=black@0.55:boxborderw=16" +
+          `:x=(w-text_w)/2:y=h-text_h-${Math.round(height / 12)}`,
+      )
+    }
+    filters.push("format=yuv420p", "settb=AVTB")
+    chains.push(`[${index}:v]${filters.join(",")}[v${index}]`)
+  })
+
+  // Each xfade starts `transitionDuration` before the running output ends
+  let video = "v0"
+  let length = slides[0].duration
+  for (let index = 1; index < slides.length; index++) {
+    const offset = (length - transitionDuration).toFixed(3)
+    const label = `x${index}`
+    chains.push(
+      `[${video}][v${index}]xfade=transition=${SLIDE_TRANSITIONS[transition]}` +
+        `:duration=${transitionDuration}:offset=${offset}[${label}]`,
+    )
+    video = label
+    length += slides[index].duration - transitionDuration
+  }
+
+  let audio: string | null = null
+  if (narrationStarts.length > 0) {
+    const first = slides.length
+    narrationStarts.forEach((start, index) => {
+      const delay = Math.round(start * 1000)
+      chains.push(
+        `[${first + index}:a]aresample=44100,aformat=channel_layouts=stereo,adelay=${delay}:all=1[a${index}]`,
+      )
+    })
+    const inputs = narrationStarts.map((_, index) => `[a${index}]`).join("")
+    chains.push(`${inputs}amix=inputs=${narrationStarts.length}:duration=longest:normalize=0,apad[aout]`)
+    audio = "aout"
+  }
+
+  return { graph: chains.join(";"), video, audio }
+}
+
+export async function renderSlideshow(input: SlideshowJobInput, context: JobContext): Promise<JobOutput> {
+  const { transition, transitionDuration, voice } = input
+  const work = createWorkDir("slideshow")
+
+  try {
+    context.reportProgress(0.02, "Synthesizing narration")
+    const narrate = (text: string) => synthesizeNarration(text, { voice, signal: context.signal })
+    const perSlide = input.slides.some((slide) => slide.narration)
+    const slides = await Promise.all(
+      input.slides.map(async (slide) => ({
+        ...slide,
+        clip: perSlide && slide.narration ? await narrate(slide.narration) : undefined,
+      })),
+    )
+    const shared = !perSlide && input.text ? await narrate(input.text) : undefined
+    context.signal.throwIfAborted()
+
+    const timed = timeSlides(slides, transitionDuration, shared?.duration)
+    const last = timed[timed.length - 1]
+    const total = last.start + last.duration
+    checkPresetDuration(input.preset, total + brandClipsDuration(input.brandClips))
+    const preset = getOutputPreset(input.preset)
+    const { lineLength } = captionLayout(preset)
+
+    // Smart crops analyze one slide at a time; explicit focal points skip that
+    for (const slide of timed) {
+      const framing = { ...input.framing, focalPoint: slide.focalPoint ?? input.framing.focalPoint }
+      slide.focalPoint = (await resolveFocalPoint(slide.image, framing, preset, context.signal)) ?? undefined
+    }
+
+    const args: string[] = []
+    const captionFiles = timed.map((slide, index) => {
+      const imageFile = work.file(`slide-${index}`)
+      writeFileSync(imageFile, slide.image)
+      args.push("-i", imageFile)
+      if (!slide.caption) return undefined
+      const captionFile = work.file(`caption-${index}.txt`)
+      writeFileSync(captionFile, wrapCaption(slide.caption, lineLength))
+      return captionFile
+    })
+
+    // Per-slide lines start once the incoming transition is over
+    const clips = shared
+      ? [{ clip: shared, start: 0 }]
+      : timed.flatMap((slide, index) =>
+          slide.clip ? [{ clip: slide.clip, start: slide.start + (index > 0 ? transitionDuration : 0) }] : [],
+        )
+    clips.forEach(({ clip }, index) => {
+      const audioFile = work.file(`narration-${index}.mp3`)
+      writeFileSync(audioFile, clip.audio)
+      args.push("-i", audioFile)
+    })
+
+    const slideshow = buildSlideshowGraph(
+      timed,
+      transition,
+      transitionDuration,
+      captionFiles,
+      clips.map((clip) => clip.start),
+      preset,
+      input.framing,
+    )
+    let { graph, video } = slideshow
+    const { audio } = slideshow
+
+    // A silent track keeps players that expect audio happy
+    if (!audio) args.push("-f", "lavfi", "-i", "anullsrc=channel_layout=stereo:sample_rate=44100")
+    const audioMap = audio ? `[${audio}]` : `${timed.length}:a`
+
+    const segments = input.captions
+      ? narrationSegments(clips)
+      : []
+    const captions = input.captions && writeCaptionTrack(segments, input.captions, preset, work.file)
+    // Inputs so far: the slides, the narration clips, and the silent track when there is no narration
+    const subtitleInput = timed.length + clips.length + (audio ? 0 : 1)
+    if (captions?.subtitleFile) args.push("-i", captions.subtitleFile)
+
+    // Overlays span the whole show, under the captions; their images are the last inputs
+    const overlays = overlayGraph(input.overlays, video, {
+      frame: preset,
+      duration: total,
+      firstInput: subtitleInput + (captions?.subtitleFile ? 1 : 0),
+      file: work.file,
+    })
+    args.push(...overlays.inputArgs)
+    if (overlays.chains.length > 0) graph += `;${overlays.chains.join(";")}`
+    video = overlays.output
+    if (captions?.filter) {
+      graph += `;[${video}]${captions.filter}[captioned]`
+      video = "captioned"
+    }
+
+    const outputFile = work.file("slideshow.mp4")
+    args.push(
+      "-filter_complex",
+      graph,
+      "-map",
+      `[${video}]`,
+      "-map",
+      audioMap,
+      ...(captions?.subtitleFile ? movTextArgs(subtitleInput) : []),
+      ...presetEncodingArgs(input.preset),
+      "-t",
+      total.toFixed(3),
+      "-y",
+      outputFile,
+    )
+
+    context.reportProgress(0.1, "Encoding video")
+    await runFFmpeg(args, {
+      signal: context.signal,
+      duration: total,
+      onProgress: reportEncodingProgress(context, 0.1, 0.95),
+    })
+
+    const finalFile = input.brandClips
+      ? await joinBrandClips(outputFile, input.brandClips, {
+          preset: input.preset,
+          duration: total,
+          hasAudio: true,
+          file: work.file,
+          context,
+        })
+      : outputFile
+    const data = readFileSync(finalFile)
+    checkPresetFileSize(input.preset, data.length)
+    console.log(`Slideshow created: ${timed.length} slides, ${total.toFixed(1)}s, ${data.length} bytes`)
+    return {
+      data,
+      filename: `${input.filename}.mp4`,
+      mimeType: "video/mp4",
+      sidecars: captionSidecars(segments, input.captions, input.filename, input.brandClips?.intro?.duration),
+    }
+  } finally {
+    work.cleanup()
+  }
+}